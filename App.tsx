@@ -3,32 +3,85 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import {Video} from '@google/genai';
-import React, {useCallback, useEffect, useState} from 'react';
+import React, {useCallback, useEffect, useRef, useState} from 'react';
 import ApiKeyDialog from './components/ApiKeyDialog';
+import BatchResults from './components/BatchResults';
+import ClipEditorDialog from './components/ClipEditorDialog';
+import LibraryDialog from './components/LibraryDialog';
+import LocalizationDialog from './components/LocalizationDialog';
 import LoadingIndicator from './components/LoadingIndicator';
 import PromptForm from './components/PromptForm';
+import StoryboardTimeline from './components/StoryboardTimeline';
+import UsageDialog from './components/UsageDialog';
 import VideoResult from './components/VideoResult';
-import {generateScript, generateSpeech, generateVideo} from './services/geminiService';
-import {saveConfiguration} from './services/historyService';
+import {buildVariants, runQueue} from './services/batchService';
+import {getSpokenText} from './services/dialogueService';
+import {
+  GenerationError,
+  classifyError,
+  describeError,
+  isResumableError,
+} from './services/errorService';
+import {saveToLibrary} from './services/libraryService';
+import {getSourceScript, localizeAd} from './services/localizationService';
+import {
+  clearPendingOperation,
+  getPendingOperations,
+  isAbortError,
+} from './services/operationService';
+import {produceVoiceover, runAdPipeline} from './services/pipelineService';
+import {createSegments, generateStoryboard} from './services/storyboardService';
 import {
   AppState,
+  BatchOptions,
+  BatchVariant,
   GenerateVideoParams,
+  GenerationProvider,
+  LibraryEntry,
+  LocalizedAd,
+  PendingOperation,
   Resolution,
+  StoryboardSegment,
   VideoFile,
 } from './types';
+import {storedToAudioBuffer} from './utils';
 
-const App: React.FC = () => {
+interface AppProps {
+  provider: GenerationProvider;
+}
+
+const App: React.FC<AppProps> = ({provider}) => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [voiceoverBuffer, setVoiceoverBuffer] = useState<AudioBuffer | null>(null);
   const [loadingTask, setLoadingTask] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Set when the error came from a generation, to show tailored guidance.
+  const [errorDetails, setErrorDetails] = useState<GenerationError | null>(null);
   const [lastConfig, setLastConfig] = useState<GenerateVideoParams | null>(
     null,
   );
   const [lastVideoObject, setLastVideoObject] = useState<Video | null>(null);
   const [lastVideoBlob, setLastVideoBlob] = useState<Blob | null>(null);
   const [showApiKeyDialog, setShowApiKeyDialog] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showClipEditor, setShowClipEditor] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [loadingStartedAt, setLoadingStartedAt] = useState<number | null>(null);
+  const [pendingOperations, setPendingOperations] = useState<PendingOperation[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [batchVariants, setBatchVariants] = useState<BatchVariant[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [storyboardSegments, setStoryboardSegments] = useState<StoryboardSegment[]>([]);
+  const [isStoryboardRunning, setIsStoryboardRunning] = useState(false);
+  const [localizedAds, setLocalizedAds] = useState<LocalizedAd[]>([]);
+  const [isLocalizing, setIsLocalizing] = useState(false);
+  const [activeLocale, setActiveLocale] = useState<string | null>(null);
+  const [showLocalize, setShowLocalize] = useState(false);
+  // The script localizations translate from, so a recording is transcribed once.
+  const localizationSourceRef = useRef<{config: GenerateVideoParams; script: string | null} | null>(
+    null,
+  );
 
   // A single state to hold the initial values for the prompt form
   const [initialFormValues, setInitialFormValues] =
@@ -37,7 +90,7 @@ const App: React.FC = () => {
   // Check for API key on initial load
   useEffect(() => {
     const checkApiKey = async () => {
-      if (window.aistudio) {
+      if (provider.requiresApiKey && window.aistudio) {
         try {
           if (!(await window.aistudio.hasSelectedApiKey())) {
             setShowApiKeyDialog(true);
@@ -52,19 +105,26 @@ const App: React.FC = () => {
       }
     };
     checkApiKey();
-  }, []);
+  }, [provider]);
+
+  // Look for jobs that were still running when the page was last closed,
+  // e.g. every variant of an unfinished batch.
+  useEffect(() => {
+    getPendingOperations(provider.id).then(setPendingOperations);
+  }, [provider]);
 
   const showStatusError = (message: string) => {
     setErrorMessage(message);
+    setErrorDetails(null);
     setAppState(AppState.ERROR);
   };
 
-  const handleGenerate = useCallback(async (params: GenerateVideoParams) => {
-    if (window.aistudio) {
+  const ensureApiKey = useCallback(async (): Promise<boolean> => {
+    if (provider.requiresApiKey && window.aistudio) {
       try {
         if (!(await window.aistudio.hasSelectedApiKey())) {
           setShowApiKeyDialog(true);
-          return;
+          return false;
         }
       } catch (error) {
         console.warn(
@@ -72,89 +132,401 @@ const App: React.FC = () => {
           error,
         );
         setShowApiKeyDialog(true);
+        return false;
+      }
+    }
+    return true;
+  }, [provider]);
+
+  // Runs the full pipeline: video, optional extension and voiceover. When
+  // `resume` is given, the video stage re-attaches to that saved job instead
+  // of starting a new one.
+  const runGeneration = useCallback(
+    async (params: GenerateVideoParams, resume?: PendingOperation) => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setAppState(AppState.LOADING);
+      setLoadingStartedAt(resume?.startedAt ?? Date.now());
+      setErrorMessage(null);
+      setErrorDetails(null);
+      setLastConfig(params);
+      setInitialFormValues(null); // Reset for next fresh start
+      if (resume) {
+        setPendingOperations((prev) => prev.filter((op) => op.name !== resume.name));
+      }
+      setLocalizedAds([]);
+      setActiveLocale(null);
+
+      try {
+        const {video, voiceoverBuffer} = await runAdPipeline(provider, params, {
+          signal: controller.signal,
+          onTask: setLoadingTask,
+          resume,
+        });
+
+        setVideoUrl(video.objectUrl);
+        setLastVideoBlob(video.blob);
+        setLastVideoObject(video.video);
+        setVoiceoverBuffer(voiceoverBuffer);
+
+        await saveToLibrary(params, video, voiceoverBuffer);
+        setAppState(AppState.SUCCESS);
+      } catch (error) {
+        if (isAbortError(error)) {
+          // The user cancelled: return to the form with their settings intact.
+          console.log('Video generation cancelled.');
+          setInitialFormValues(params);
+          setAppState(AppState.IDLE);
+          return;
+        }
+
+        console.error('Video generation failed:', error);
+        const classified = classifyError(error);
+        if (isResumableError(error)) {
+          // The job was kept so it can be resumed; offer it again.
+          getPendingOperations(provider.id).then(setPendingOperations);
+        }
+        setErrorMessage(classified.message);
+        setErrorDetails(classified);
+        setAppState(AppState.ERROR);
+
+        if (classified.kind === 'auth') {
+          setShowApiKeyDialog(true);
+        }
+      } finally {
+        abortControllerRef.current = null;
+        setLoadingTask(null);
+        setLoadingStartedAt(null);
+      }
+    },
+    [provider],
+  );
+
+  const handleGenerate = useCallback(
+    async (params: GenerateVideoParams) => {
+      if (!(await ensureApiKey())) {
+        return;
+      }
+
+      await runGeneration(params);
+    },
+    [ensureApiKey, runGeneration],
+  );
+
+  const updateVariant = useCallback(
+    (id: string, patch: Partial<BatchVariant>) => {
+      setBatchVariants((prev) =>
+        prev.map((variant) => (variant.id === id ? {...variant, ...patch} : variant)),
+      );
+    },
+    [],
+  );
+
+  // Runs one batch variant through the pipeline, recording its own outcome so
+  // a failure never affects the other variants.
+  const runVariant = useCallback(
+    async (variant: BatchVariant, signal: AbortSignal) => {
+      updateVariant(variant.id, {status: 'running', error: undefined});
+      try {
+        const {video, voiceoverBuffer} = await runAdPipeline(provider, variant.params, {
+          signal,
+          onTask: (task) => updateVariant(variant.id, {task}),
+        });
+        updateVariant(variant.id, {status: 'done', task: undefined, video, voiceoverBuffer});
+      } catch (error) {
+        console.error(`Variant "${variant.label}" failed:`, error);
+        const message = isAbortError(error) ? 'Cancelled.' : describeError(error);
+        updateVariant(variant.id, {status: 'error', task: undefined, error: message});
+      }
+    },
+    [provider, updateVariant],
+  );
+
+  const handleGenerateBatch = useCallback(
+    async (params: GenerateVideoParams, options: BatchOptions) => {
+      if (!(await ensureApiKey())) {
         return;
       }
+      const variants = buildVariants(params, options);
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setLastConfig(params);
+      setInitialFormValues(null);
+      setErrorMessage(null);
+      setErrorDetails(null);
+      setBatchVariants(variants);
+      setIsBatchRunning(true);
+      setAppState(AppState.BATCH);
+
+      await runQueue(
+        variants,
+        options.concurrency,
+        (variant) => runVariant(variant, controller.signal),
+        controller.signal,
+      );
+
+      abortControllerRef.current = null;
+      setIsBatchRunning(false);
+    },
+    [ensureApiKey, runVariant],
+  );
+
+  const handleRetryVariant = useCallback(
+    async (id: string) => {
+      const variant = batchVariants.find((v) => v.id === id);
+      if (!variant || !(await ensureApiKey())) {
+        return;
+      }
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setIsBatchRunning(true);
+      await runVariant(variant, controller.signal);
+      abortControllerRef.current = null;
+      setIsBatchRunning(false);
+    },
+    [batchVariants, ensureApiKey, runVariant],
+  );
+
+  const handleToggleWinner = useCallback((id: string) => {
+    setBatchVariants((prev) =>
+      prev.map((variant) =>
+        variant.id === id ? {...variant, isWinner: !variant.isWinner} : variant,
+      ),
+    );
+  }, []);
+
+  const handleSaveWinners = useCallback(async () => {
+    for (const variant of batchVariants) {
+      if (variant.isWinner && variant.video) {
+        await saveToLibrary(variant.params, variant.video, variant.voiceoverBuffer ?? null);
+      }
     }
+  }, [batchVariants]);
+
+  // Generates storyboard scenes from `fromIndex` on, then attaches the
+  // voiceover to the final, full-length clip.
+  const runStoryboard = useCallback(
+    async (
+      base: GenerateVideoParams,
+      segments: StoryboardSegment[],
+      fromIndex: number,
+      existingVoiceover: AudioBuffer | null,
+    ) => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setIsStoryboardRunning(true);
+      setVideoUrl(null);
+      setErrorMessage(null);
+      setErrorDetails(null);
+      let isTimelineDone = false;
+      try {
+        const finalSegments = await generateStoryboard(
+          provider,
+          base,
+          segments,
+          fromIndex,
+          setStoryboardSegments,
+          controller.signal,
+        );
+        isTimelineDone = true;
+        const finalVideo = finalSegments[finalSegments.length - 1].video;
+        if (!finalVideo) {
+          throw new Error('The storyboard finished without a final video.');
+        }
+        const audioBuffer = existingVoiceover ?? (await produceVoiceover(provider, base));
 
-    // Save the configuration to history
-    saveConfiguration(params);
+        setVideoUrl(finalVideo.objectUrl);
+        setLastVideoBlob(finalVideo.blob);
+        setLastVideoObject(finalVideo.video);
+        setVoiceoverBuffer(audioBuffer);
+        await saveToLibrary(
+          {...base, prompt: finalSegments.map((segment) => segment.prompt).join('\n')},
+          finalVideo,
+          audioBuffer,
+        );
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Storyboard generation failed:', error);
+        const classified = classifyError(error);
+        if (isResumableError(error)) {
+          // The scene's job was kept so it can be resumed; offer it again.
+          getPendingOperations(provider.id).then(setPendingOperations);
+        }
+        // A failing segment records its own error in the timeline. Anything
+        // that fails after the last segment, e.g. the voiceover, is shown
+        // below it.
+        if (isTimelineDone) {
+          setErrorMessage(classified.message);
+          setErrorDetails(classified);
+        }
+        if (classified.kind === 'auth') {
+          setShowApiKeyDialog(true);
+        }
+      } finally {
+        abortControllerRef.current = null;
+        setIsStoryboardRunning(false);
+      }
+    },
+    [provider],
+  );
 
-    setAppState(AppState.LOADING);
-    setErrorMessage(null);
-    setLastConfig(params);
-    setInitialFormValues(null); // Reset for next fresh start
-
-    try {
-      // --- Stage 1: Initial Video Generation ---
-      setLoadingTask('Generating initial ad scene...');
-      const initialResult = await generateVideo(params);
-      let finalResult = initialResult;
-
-      // --- Stage 2: Automatic Extension (Optional) ---
-      if (params.autoExtend) {
-        setLoadingTask('Extending ad to full length...');
-        const extendParams: GenerateVideoParams = {
-          ...params,
-          prompt: 'Continue the ad, showing the product in a new, exciting context.',
-          inputVideoObject: initialResult.video,
-          resolution: Resolution.P720, // Extension requires 720p
-        };
-        finalResult = await generateVideo(extendParams);
+  const handleGenerateStoryboard = useCallback(
+    async (params: GenerateVideoParams, scenePrompts: string[]) => {
+      if (!(await ensureApiKey())) {
+        return;
+      }
+      const segments = createSegments(scenePrompts);
+      setLastConfig(params);
+      setInitialFormValues(null);
+      setErrorMessage(null);
+      setErrorDetails(null);
+      setVoiceoverBuffer(null);
+      setLocalizedAds([]);
+      setActiveLocale(null);
+      setStoryboardSegments(segments);
+      setAppState(AppState.STORYBOARD);
+      await runStoryboard(params, segments, 0, null);
+    },
+    [ensureApiKey, runStoryboard],
+  );
+
+  const handleRegenerateSegment = useCallback(
+    async (index: number) => {
+      if (!lastConfig || !(await ensureApiKey())) {
+        return;
       }
+      await runStoryboard(lastConfig, storyboardSegments, index, voiceoverBuffer);
+    },
+    [lastConfig, storyboardSegments, voiceoverBuffer, ensureApiKey, runStoryboard],
+  );
+
+  const handleSegmentPromptChange = useCallback((index: number, prompt: string) => {
+    setStoryboardSegments((prev) =>
+      prev.map((segment, i) => (i === index ? {...segment, prompt} : segment)),
+    );
+  }, []);
+
+  const updateLocalizedAd = useCallback(
+    (locale: string, patch: Partial<LocalizedAd>) => {
+      setLocalizedAds((prev) =>
+        prev.map((ad) => (ad.locale === locale ? {...ad, ...patch} : ad)),
+      );
+    },
+    [],
+  );
 
-      setVideoUrl(finalResult.objectUrl);
-      setLastVideoBlob(finalResult.blob);
-      setLastVideoObject(finalResult.video);
-
-      // --- Stage 3: Voiceover Generation (Optional) ---
-      let audioBuffer: AudioBuffer | null = null;
-      if (params.voiceoverMode === 'tts' && params.voiceoverScript && params.voiceName) {
-        setLoadingTask('Crafting AI voiceover...');
-        audioBuffer = await generateSpeech(params.voiceoverScript, params.voiceName);
-      } else if (params.voiceoverMode === 'record' && params.recordedAudioBlob) {
-        setLoadingTask('Processing recorded audio...');
-        // Convert recorded blob to AudioBuffer
-        const arrayBuffer = await params.recordedAudioBlob.arrayBuffer();
-        // FIX: Cast window to any to allow access to webkitAudioContext for broader browser support.
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-        audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+  // Translates and voices each locale, recording each outcome separately so
+  // one failed language does not hold up the others.
+  const runLocalization = useCallback(
+    async (ads: LocalizedAd[]) => {
+      if (!lastConfig || !(await ensureApiKey())) {
+        return;
       }
-      setVoiceoverBuffer(audioBuffer);
-
-      setAppState(AppState.SUCCESS);
-    } catch (error) {
-      console.error('Video generation failed:', error);
-      const errorMessage =
-        error instanceof Error ? error.message : 'An unknown error occurred.';
-
-      let userFriendlyMessage = `Video generation failed: ${errorMessage}`;
-      let shouldOpenDialog = false;
-
-      if (typeof errorMessage === 'string') {
-        if (errorMessage.includes('Requested entity was not found.')) {
-          userFriendlyMessage =
-            'Model not found. This can be caused by an invalid API key or permission issues. Please check your API key.';
-          shouldOpenDialog = true;
-        } else if (
-          errorMessage.includes('API_KEY_INVALID') ||
-          errorMessage.includes('API key not valid') ||
-          errorMessage.toLowerCase().includes('permission denied')
-        ) {
-          userFriendlyMessage =
-            'Your API key is invalid or lacks permissions. Please select a valid, billing-enabled API key.';
-          shouldOpenDialog = true;
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setLocalizedAds((prev) => [
+        ...prev.filter((ad) => !ads.some((next) => next.locale === ad.locale)),
+        ...ads,
+      ]);
+      setIsLocalizing(true);
+
+      try {
+        if (localizationSourceRef.current?.config !== lastConfig) {
+          localizationSourceRef.current = {
+            config: lastConfig,
+            script: await getSourceScript(provider, lastConfig),
+          };
+        }
+        const sourceScript = localizationSourceRef.current.script;
+        if (!sourceScript) {
+          throw new Error('This ad has no voiceover to translate.');
+        }
+        await runQueue(
+          ads,
+          2,
+          async (ad) => {
+            updateLocalizedAd(ad.locale, {status: 'running', error: undefined});
+            try {
+              const done = await localizeAd(provider, lastConfig, sourceScript, ad, (task) =>
+                updateLocalizedAd(ad.locale, {task}),
+              );
+              updateLocalizedAd(ad.locale, done);
+            } catch (error) {
+              console.error(`Localizing "${ad.locale}" failed:`, error);
+              updateLocalizedAd(ad.locale, {
+                status: 'error',
+                task: undefined,
+                error: describeError(error),
+              });
+            }
+          },
+          controller.signal,
+        );
+      } catch (error) {
+        console.error('Localization failed:', error);
+        for (const ad of ads) {
+          updateLocalizedAd(ad.locale, {status: 'error', task: undefined, error: describeError(error)});
         }
+      } finally {
+        abortControllerRef.current = null;
+        setIsLocalizing(false);
       }
+    },
+    [lastConfig, provider, ensureApiKey, updateLocalizedAd],
+  );
 
-      setErrorMessage(userFriendlyMessage);
-      setAppState(AppState.ERROR);
+  const handleRetryLocale = useCallback(
+    (locale: string) => {
+      const ad = localizedAds.find((a) => a.locale === locale);
+      if (ad) runLocalization([{...ad, status: 'queued', error: undefined}]);
+    },
+    [localizedAds, runLocalization],
+  );
 
-      if (shouldOpenDialog) {
-        setShowApiKeyDialog(true);
+  const handleResumePending = useCallback(
+    async (operation: PendingOperation) => {
+      if (!(await ensureApiKey())) {
+        return;
       }
-    } finally {
-      setLoadingTask(null);
-    }
+      await runGeneration(operation.params, operation);
+    },
+    [ensureApiKey, runGeneration],
+  );
+
+  const handleDiscardPending = useCallback((operation: PendingOperation) => {
+    clearPendingOperation(operation.name);
+    setPendingOperations((prev) => prev.filter((op) => op.name !== operation.name));
+  }, []);
+
+  const handleReplayFromLibrary = useCallback((entry: LibraryEntry) => {
+    setShowLibrary(false);
+    setVideoUrl(URL.createObjectURL(entry.videoBlob));
+    setVoiceoverBuffer(entry.voiceover ? storedToAudioBuffer(entry.voiceover) : null);
+    setLastConfig(entry.params);
+    // Edits made in the clip editor have no Veo video and cannot be extended.
+    setLastVideoObject(entry.video ?? null);
+    setLastVideoBlob(entry.videoBlob);
+    setLocalizedAds([]);
+    setActiveLocale(null);
+    setErrorMessage(null);
+    setErrorDetails(null);
+    setAppState(AppState.SUCCESS);
+  }, []);
+
+  const handleReuseFromLibrary = useCallback((entry: LibraryEntry) => {
+    setShowLibrary(false);
+    // Start a fresh generation from the saved settings, not an extension.
+    const {inputVideo, inputVideoObject, ...params} = entry.params;
+    setInitialFormValues(params);
+    setAppState(AppState.IDLE);
+    setErrorMessage(null);
+    setErrorDetails(null);
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
   }, []);
 
   const handleRetry = useCallback(() => {
@@ -174,13 +546,19 @@ const App: React.FC = () => {
   };
 
   const handleNewVideo = useCallback(() => {
+    abortControllerRef.current?.abort(); // Stop any batch still running
     setAppState(AppState.IDLE);
     setVideoUrl(null);
     setVoiceoverBuffer(null);
     setErrorMessage(null);
+    setErrorDetails(null);
     setLastConfig(null);
     setLastVideoObject(null);
     setLastVideoBlob(null);
+    setBatchVariants([]);
+    setStoryboardSegments([]);
+    setLocalizedAds([]);
+    setActiveLocale(null);
     setInitialFormValues(null); // Clear the form state
   }, []);
 
@@ -190,6 +568,7 @@ const App: React.FC = () => {
       setInitialFormValues(lastConfig);
       setAppState(AppState.IDLE);
       setErrorMessage(null);
+      setErrorDetails(null);
     } else {
       // Fallback to a fresh start if there's no last config
       handleNewVideo();
@@ -210,17 +589,22 @@ const App: React.FC = () => {
           prompt: 'Show the product being used in a new, exciting way.', // Auto-furnished prompt
           inputVideo: videoFile, // for preview in the form
           inputVideoObject: lastVideoObject, // for the API call
+          referenceImages: [], // Not supported when extending
+          startFrame: undefined,
+          endFrame: undefined,
           resolution: Resolution.P720, // Extend requires 720p
           // Reset audio/extend options for the new step
           autoExtend: false,
           voiceoverMode: 'none',
           voiceoverScript: '',
+          voiceoverLanguage: undefined,
         });
 
         setAppState(AppState.IDLE);
         setVideoUrl(null);
         setVoiceoverBuffer(null);
         setErrorMessage(null);
+        setErrorDetails(null);
       } catch (error) {
         console.error('Failed to process video for extension:', error);
         const message =
@@ -230,15 +614,72 @@ const App: React.FC = () => {
     }
   }, [lastConfig, lastVideoBlob, lastVideoObject]);
 
-  const renderError = (message: string) => (
+  // Captions start from the TTS script, without any dialogue speaker labels;
+  // recordings are transcribed on request.
+  const captionScript =
+    lastConfig?.voiceoverMode !== 'tts'
+      ? undefined
+      : lastConfig.speakers?.length
+        ? getSpokenText(lastConfig.voiceoverScript ?? '')
+        : lastConfig.voiceoverScript;
+  const recordedAudio =
+    lastConfig?.voiceoverMode === 'record' ? lastConfig.recordedAudioBlob : undefined;
+  const handleTranscribe = recordedAudio
+    ? () => provider.transcribeAudio(recordedAudio)
+    : undefined;
+
+  // A finished ad under review in another language plays that language's
+  // voiceover and captions instead of the original's.
+  const finishedLocalizations = localizedAds.filter((ad) => ad.status === 'done');
+  const activeLocalization = finishedLocalizations.find((ad) => ad.locale === activeLocale);
+  const resultKey = activeLocalization?.locale ?? 'original'; // Resets edits per language
+  const resultProps = {
+    voiceoverBuffer: activeLocalization?.voiceoverBuffer ?? voiceoverBuffer,
+    captionScript: activeLocalization ? activeLocalization.captionText : captionScript,
+    scriptLanguage: lastConfig?.voiceoverMode === 'tts' ? lastConfig.voiceoverLanguage : undefined,
+    onTranscribe: activeLocalization ? undefined : handleTranscribe,
+    productName: lastConfig?.productName,
+    productDescription: lastConfig?.productDescription,
+    brand: lastConfig?.brand,
+    localizations: finishedLocalizations,
+    activeLocale: activeLocalization?.locale ?? null,
+    onLocaleChange: setActiveLocale,
+    onLocalize: () => setShowLocalize(true),
+  };
+
+  const renderError = (message: string, details?: GenerationError | null) => (
     <div className="text-center bg-red-900/20 border border-red-500 p-8 rounded-lg">
-      <h2 className="text-2xl font-bold text-red-400 mb-4">Error</h2>
-      <p className="text-red-300">{message}</p>
-      <button
-        onClick={handleTryAgainFromError}
-        className="mt-6 px-6 py-2 bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
-        Try Again
-      </button>
+      <h2 className="text-2xl font-bold text-red-400 mb-4">
+        {details ? details.title : 'Error'}
+      </h2>
+      {details && <p className="text-gray-200 mb-3">{details.guidance}</p>}
+      {details && details.details.length > 0 && (
+        <ul className="mb-3 text-left text-amber-300 list-disc pl-5 space-y-1">
+          {details.details.map((detail) => (
+            <li key={detail}>{detail}</li>
+          ))}
+        </ul>
+      )}
+      <p className={details ? 'text-sm text-red-300/80' : 'text-red-300'}>{message}</p>
+      <div className="mt-6 flex justify-center gap-4">
+        {/* An empty result is not retried automatically, since every attempt is billed. */}
+        {details?.kind === 'empty' && (
+          <button
+            onClick={handleRetry}
+            className="px-6 py-2 bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+            Generate Again
+          </button>
+        )}
+        <button
+          onClick={handleTryAgainFromError}
+          className={`px-6 py-2 rounded-lg transition-colors ${
+            details?.kind === 'empty'
+              ? 'bg-gray-700 hover:bg-gray-600'
+              : 'bg-indigo-600 hover:bg-indigo-700'
+          }`}>
+          {details?.kind === 'empty' ? 'Edit Settings' : 'Try Again'}
+        </button>
+      </div>
     </div>
   );
 
@@ -247,9 +688,72 @@ const App: React.FC = () => {
       {showApiKeyDialog && (
         <ApiKeyDialog onContinue={handleApiKeyDialogContinue} />
       )}
+      {showLibrary && (
+        <LibraryDialog
+          onReplay={handleReplayFromLibrary}
+          onReuse={handleReuseFromLibrary}
+          onOpenEditor={() => {
+            setShowLibrary(false);
+            setShowClipEditor(true);
+          }}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+      {showClipEditor && <ClipEditorDialog onClose={() => setShowClipEditor(false)} />}
+      {showUsage && <UsageDialog onClose={() => setShowUsage(false)} />}
+      {showLocalize && lastConfig && videoUrl && (
+        <LocalizationDialog
+          ads={localizedAds}
+          isRunning={isLocalizing}
+          hasVoiceover={lastConfig.voiceoverMode !== 'none' && !!voiceoverBuffer}
+          isDialogue={lastConfig.voiceoverMode === 'tts' && !!lastConfig.speakers?.length}
+          videoUrl={videoUrl}
+          productName={lastConfig.productName}
+          onStart={runLocalization}
+          onRetry={handleRetryLocale}
+          onReview={(locale) => {
+            setActiveLocale(locale);
+            setShowLocalize(false);
+          }}
+          onClose={() => setShowLocalize(false)}
+        />
+      )}
       <main className="w-full max-w-4xl mx-auto flex-grow flex flex-col p-4 pt-12 overflow-y-auto">
         {appState === AppState.IDLE ? (
           <div className="flex-grow flex flex-col justify-center items-center">
+            {pendingOperations.length > 0 && (
+              <div className="w-full mb-6 p-4 bg-indigo-900/20 border border-indigo-500 rounded-lg space-y-3">
+                <p className="text-indigo-200">
+                  {pendingOperations.length === 1
+                    ? 'An ad was still generating when you left.'
+                    : `${pendingOperations.length} ads were still generating when you left.`}{' '}
+                  Resume them to avoid paying twice.
+                </p>
+                {pendingOperations.map((operation) => (
+                  <div
+                    key={operation.name}
+                    className="flex flex-wrap items-center justify-between gap-4">
+                    <p className="text-sm text-gray-300">
+                      "{operation.params.productName || 'Untitled'}"
+                      {operation.stage === 'extend' ? ' (extension)' : ''}, started{' '}
+                      {new Date(operation.startedAt).toLocaleString()}
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleResumePending(operation)}
+                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                        Resume
+                      </button>
+                      <button
+                        onClick={() => handleDiscardPending(operation)}
+                        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="w-full text-center mb-8">
               <h2 className="text-3xl font-bold text-gray-200">
                 Create a Viral Video Ad in Seconds
@@ -262,22 +766,74 @@ const App: React.FC = () => {
             <div className="w-full">
               <PromptForm
                 onGenerate={handleGenerate}
-                generateScript={generateScript}
+                onGenerateBatch={handleGenerateBatch}
+                onGenerateStoryboard={handleGenerateStoryboard}
+                provider={provider}
+                onOpenLibrary={() => setShowLibrary(true)}
+                onOpenUsage={() => setShowUsage(true)}
                 initialValues={initialFormValues}
               />
             </div>
           </div>
         ) : (
           <div className="flex-grow flex items-center justify-center">
-            {appState === AppState.LOADING && <LoadingIndicator task={loadingTask} />}
+            {appState === AppState.LOADING && (
+              <LoadingIndicator
+                task={loadingTask}
+                startedAt={loadingStartedAt}
+                onCancel={handleCancel}
+              />
+            )}
+            {appState === AppState.BATCH && (
+              <BatchResults
+                variants={batchVariants}
+                isRunning={isBatchRunning}
+                onToggleWinner={handleToggleWinner}
+                onRetryVariant={handleRetryVariant}
+                onSaveWinners={handleSaveWinners}
+                onCancel={handleCancel}
+                onEditBrief={handleTryAgainFromError}
+                onNewVideo={handleNewVideo}
+              />
+            )}
+            {appState === AppState.STORYBOARD && (
+              <div className="w-full flex flex-col gap-6">
+                <StoryboardTimeline
+                  segments={storyboardSegments}
+                  isRunning={isStoryboardRunning}
+                  onPromptChange={handleSegmentPromptChange}
+                  onRegenerateFrom={handleRegenerateSegment}
+                  onCancel={handleCancel}
+                />
+                {!isStoryboardRunning && videoUrl && (
+                  <VideoResult
+                    key={resultKey}
+                    {...resultProps}
+                    videoUrl={videoUrl}
+                    onRetry={() => handleRegenerateSegment(0)}
+                    onNewVideo={handleNewVideo}
+                    onExtend={() => {}}
+                    canExtend={false}
+                  />
+                )}
+                {!isStoryboardRunning &&
+                  errorMessage &&
+                  renderError(errorMessage, errorDetails)}
+              </div>
+            )}
             {appState === AppState.SUCCESS && videoUrl && (
               <VideoResult
+                key={resultKey}
+                {...resultProps}
                 videoUrl={videoUrl}
-                voiceoverBuffer={voiceoverBuffer}
                 onRetry={handleRetry}
                 onNewVideo={handleNewVideo}
                 onExtend={handleExtend}
-                canExtend={lastConfig?.resolution === Resolution.P720 && !lastConfig?.autoExtend}
+                canExtend={
+                  !!lastVideoObject &&
+                  lastConfig?.resolution === Resolution.P720 &&
+                  !lastConfig?.autoExtend
+                }
               />
             )}
             {appState === AppState.SUCCESS &&
@@ -287,7 +843,7 @@ const App: React.FC = () => {
               )}
             {appState === AppState.ERROR &&
               errorMessage &&
-              renderError(errorMessage)}
+              renderError(errorMessage, errorDetails)}
           </div>
         )}
       </main>
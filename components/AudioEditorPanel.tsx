@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {AudioMixSettings} from '../types';
+import {computeWaveform, decodeAudioFile} from '../services/audioMixService';
+import {TrashIcon} from './icons';
+
+interface AudioEditorPanelProps {
+  voiceover: AudioBuffer | null;
+  music: {name: string; buffer: AudioBuffer} | null;
+  onMusicChange: (music: {name: string; buffer: AudioBuffer} | null) => void;
+  settings: AudioMixSettings;
+  onSettingsChange: (settings: AudioMixSettings) => void;
+  videoDuration: number;
+  isMixing: boolean;
+}
+
+const WAVEFORM_BINS = 240;
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const Slider: React.FC<SliderProps> = ({label, value, min, max, step, format, onChange, disabled}) => (
+  <label className={`block text-sm text-gray-400 ${disabled ? 'opacity-50' : ''}`}>
+    <span className="flex justify-between font-medium">
+      <span>{label}</span>
+      <span className="tabular-nums">{format(value)}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-indigo-500"
+    />
+  </label>
+);
+
+const seconds = (value: number) => `${value.toFixed(1)}s`;
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const AudioEditorPanel: React.FC<AudioEditorPanelProps> = ({
+  voiceover,
+  music,
+  onMusicChange,
+  settings,
+  onSettingsChange,
+  videoDuration,
+  isMixing,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [musicError, setMusicError] = useState<string | null>(null);
+  const peaks = useMemo(
+    () => (voiceover ? computeWaveform(voiceover, WAVEFORM_BINS) : []),
+    [voiceover],
+  );
+
+  const update = (patch: Partial<AudioMixSettings>) => onSettingsChange({...settings, ...patch});
+
+  // Draws the voiceover where it sits on the video's timeline, dimming the
+  // trimmed-off parts and marking where the video ends.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !voiceover) return;
+    const {width, height} = canvas;
+    const span = Math.max(videoDuration, settings.offset - settings.trimStart + voiceover.duration, 1);
+    const toX = (time: number) => (time / span) * width;
+    const voiceStart = settings.offset - settings.trimStart;
+    const barWidth = toX(voiceover.duration / WAVEFORM_BINS);
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, toX(videoDuration), height);
+    peaks.forEach((peak, index) => {
+      const time = (index / WAVEFORM_BINS) * voiceover.duration;
+      const isKept = time >= settings.trimStart && time <= settings.trimEnd;
+      ctx.fillStyle = isKept ? '#818cf8' : '#4b5563';
+      const barHeight = Math.max(1, peak * height * 0.9);
+      ctx.fillRect(toX(voiceStart + time), (height - barHeight) / 2, Math.max(1, barWidth - 0.5), barHeight);
+    });
+    ctx.fillStyle = '#f87171';
+    ctx.fillRect(Math.min(width - 2, toX(videoDuration)), 0, 2, height);
+  }, [voiceover, peaks, settings, videoDuration]);
+
+  const handleMusicFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMusicError(null);
+    try {
+      onMusicChange({name: file.name, buffer: await decodeAudioFile(file)});
+    } catch (error) {
+      console.error('Failed to decode music file:', error);
+      setMusicError('Could not read that audio file. Try an MP3, WAV or M4A file.');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl space-y-4 p-4 bg-gray-900/50 border border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-medium text-gray-200">Audio</h3>
+        {isMixing && <span className="text-xs text-gray-500">Updating mix...</span>}
+      </div>
+
+      {voiceover && (
+        <>
+          <canvas
+            ref={canvasRef}
+            width={640}
+            height={64}
+            className="w-full h-16 rounded bg-gray-800"
+            title="Voiceover on the video timeline. The red line marks the end of the video."
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+            <Slider
+              label="Start"
+              value={settings.offset}
+              min={-2}
+              max={Math.max(1, videoDuration)}
+              step={0.1}
+              format={(value) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}s`}
+              onChange={(offset) => update({offset})}
+            />
+            <Slider
+              label="Volume"
+              value={settings.gain}
+              min={0}
+              max={2}
+              step={0.05}
+              format={percent}
+              onChange={(gain) => update({gain})}
+            />
+            <Slider
+              label="Trim In"
+              value={settings.trimStart}
+              min={0}
+              max={voiceover.duration}
+              step={0.05}
+              format={seconds}
+              onChange={(trimStart) =>
+                update({trimStart: Math.min(trimStart, settings.trimEnd - 0.1)})
+              }
+            />
+            <Slider
+              label="Trim Out"
+              value={settings.trimEnd}
+              min={0}
+              max={voiceover.duration}
+              step={0.05}
+              format={seconds}
+              onChange={(trimEnd) =>
+                update({trimEnd: Math.max(trimEnd, settings.trimStart + 0.1)})
+              }
+            />
+            <Slider
+              label="Fade In"
+              value={settings.fadeIn}
+              min={0}
+              max={2}
+              step={0.05}
+              format={seconds}
+              onChange={(fadeIn) => update({fadeIn})}
+            />
+            <Slider
+              label="Fade Out"
+              value={settings.fadeOut}
+              min={0}
+              max={2}
+              step={0.05}
+              format={seconds}
+              onChange={(fadeOut) => update({fadeOut})}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="pt-2 border-t border-gray-700 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className="text-sm font-medium text-gray-300">
+            Music Bed{music ? `: ${music.name}` : ''}
+          </span>
+          <div className="flex items-center gap-2">
+            <label className="px-3 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded-md cursor-pointer transition-colors">
+              {music ? 'Replace' : 'Add Music'}
+              <input type="file" accept="audio/*" className="hidden" onChange={handleMusicFile} />
+            </label>
+            {music && (
+              <button type="button" onClick={() => onMusicChange(null)} title="Remove music">
+                <TrashIcon className="w-5 h-5 text-red-400 hover:text-red-300" />
+              </button>
+            )}
+          </div>
+        </div>
+        {musicError && <p className="text-xs text-red-400">{musicError}</p>}
+        {music && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+            <Slider
+              label="Music Volume"
+              value={settings.musicGain}
+              min={0}
+              max={1}
+              step={0.05}
+              format={percent}
+              onChange={(musicGain) => update({musicGain})}
+            />
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={settings.ducking}
+                  disabled={!voiceover}
+                  onChange={(e) => update({ducking: e.target.checked})}
+                  className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+                />
+                Duck under speech
+              </label>
+              <Slider
+                label="Level While Ducked"
+                value={settings.duckLevel}
+                min={0}
+                max={1}
+                step={0.05}
+                format={percent}
+                disabled={!voiceover || !settings.ducking}
+                onChange={(duckLevel) => update({duckLevel})}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AudioEditorPanel;
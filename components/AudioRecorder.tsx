@@ -2,48 +2,192 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useState, useRef, useCallback} from 'react';
-import {MicIcon, StopCircleIcon} from './icons';
+import React, {useState, useRef, useCallback, useEffect} from 'react';
+import {RecordingCleanup} from '../types';
+import {decodeAudioFile} from '../services/audioMixService';
+import {
+  DEFAULT_RECORDING_CLEANUP,
+  audioBufferToWavBlob,
+  cleanRecording,
+  measureLoudness,
+} from '../services/recordingService';
+import {createAudioContext} from '../utils';
+import {MicIcon, PlayIcon, StopCircleIcon, TrashIcon} from './icons';
 
 interface AudioRecorderProps {
-  onRecordingComplete: (blob: Blob) => void;
+  // Called with the chosen take, cleaned up if any cleanup is on, or with
+  // null once every take has been deleted.
+  onRecordingComplete: (blob: Blob | null) => void;
 }
 
+// One attempt at the voiceover. Every take is kept until deleted.
+interface Take {
+  id: number;
+  blob: Blob; // As recorded
+  raw: AudioBuffer;
+  rawLufs: number;
+  cleaned: AudioBuffer | null; // Null while it is being processed
+  cleanedLufs: number | null;
+}
+
+const COUNTDOWN_OPTIONS = [0, 3, 5];
+
+const formatLufs = (lufs: number | null) =>
+  lufs === null || !Number.isFinite(lufs) ? '—' : `${lufs.toFixed(1)} LUFS`;
+
 const AudioRecorder: React.FC<AudioRecorderProps> = ({
   onRecordingComplete,
 }) => {
   const [isRecording, setIsRecording] = useState(false);
-  const [audioURL, setAudioURL] = useState<string | null>(null);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [countdownSeconds, setCountdownSeconds] = useState(3);
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [cleanup, setCleanup] = useState<RecordingCleanup>(DEFAULT_RECORDING_CLEANUP);
+  const [playing, setPlaying] = useState<{id: number; version: 'before' | 'after'} | null>(null);
   const [error, setError] = useState<string | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const streamRef = useRef<MediaStream | null>(null);
+  const countdownTimerRef = useRef<number | null>(null);
+  const nextTakeIdRef = useRef(1);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const onRecordingCompleteRef = useRef(onRecordingComplete);
+  onRecordingCompleteRef.current = onRecordingComplete;
+  const cleanupRef = useRef(cleanup);
+  cleanupRef.current = cleanup;
+
+  const isCleanupOn =
+    cleanup.trimSilence || cleanup.normalize || cleanup.noiseGate || cleanup.highPass;
+  const selectedTake = takes.find((take) => take.id === selectedId);
+
+  const stopPlayback = () => {
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      sourceRef.current.stop();
+      sourceRef.current = null;
+    }
+    setPlaying(null);
+  };
+
+  useEffect(() => () => {
+    if (countdownTimerRef.current !== null) clearInterval(countdownTimerRef.current);
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    sourceRef.current?.stop();
+    audioContextRef.current?.close();
+  }, []);
+
+  // Re-clean every take whenever the cleanup settings change.
+  useEffect(() => {
+    let isCurrent = true;
+    setTakes((prev) => prev.map((take) => ({...take, cleaned: null, cleanedLufs: null})));
+    takes.forEach(async (take) => {
+      try {
+        const cleaned = await cleanRecording(take.raw, cleanup);
+        const cleanedLufs = await measureLoudness(cleaned);
+        if (!isCurrent) return;
+        setTakes((prev) =>
+          prev.map((t) => (t.id === take.id ? {...t, cleaned, cleanedLufs} : t)),
+        );
+      } catch (cleanupError) {
+        console.error('Failed to clean up recording:', cleanupError);
+      }
+    });
+    return () => {
+      isCurrent = false;
+    };
+    // New takes are cleaned by addTake; this only handles setting changes.
+  }, [cleanup]);
+
+  // Hand the chosen take to the form once it is ready.
+  useEffect(() => {
+    if (!selectedTake) return;
+    if (!isCleanupOn) {
+      onRecordingCompleteRef.current(selectedTake.blob);
+    } else if (selectedTake.cleaned) {
+      onRecordingCompleteRef.current(audioBufferToWavBlob(selectedTake.cleaned));
+    }
+  }, [selectedTake?.id, selectedTake?.cleaned, isCleanupOn]);
+
+  const addTake = async (blob: Blob) => {
+    try {
+      const raw = await decodeAudioFile(blob);
+      const take: Take = {
+        id: nextTakeIdRef.current++,
+        blob,
+        raw,
+        rawLufs: await measureLoudness(raw),
+        cleaned: null,
+        cleanedLufs: null,
+      };
+      setTakes((prev) => [...prev, take]);
+      setSelectedId(take.id);
+      // Start over if the settings change while cleaning.
+      let settings: RecordingCleanup;
+      let cleaned: AudioBuffer;
+      do {
+        settings = cleanupRef.current;
+        cleaned = await cleanRecording(raw, settings);
+      } while (settings !== cleanupRef.current);
+      const cleanedLufs = await measureLoudness(cleaned);
+      setTakes((prev) =>
+        prev.map((t) => (t.id === take.id ? {...t, cleaned, cleanedLufs} : t)),
+      );
+    } catch (takeError) {
+      console.error('Failed to process recording:', takeError);
+      setError('Could not process that recording. Please try again.');
+    }
+  };
+
+  const beginRecording = (stream: MediaStream) => {
+    mediaRecorderRef.current = new MediaRecorder(stream);
+    audioChunksRef.current = [];
+
+    mediaRecorderRef.current.ondataavailable = (event) => {
+      audioChunksRef.current.push(event.data);
+    };
+
+    mediaRecorderRef.current.onstop = () => {
+      const audioBlob = new Blob(audioChunksRef.current, {
+        type: 'audio/webm',
+      });
+      addTake(audioBlob);
+      // Stop all media tracks to turn off the mic indicator
+      stream.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    };
+
+    mediaRecorderRef.current.start();
+    setIsRecording(true);
+  };
 
   const startRecording = useCallback(async () => {
     setError(null);
-    setAudioURL(null);
+    stopPlayback();
     if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
       try {
+        // Ask for the mic before counting down, so the permission prompt
+        // does not eat into the countdown.
         const stream = await navigator.mediaDevices.getUserMedia({audio: true});
-        mediaRecorderRef.current = new MediaRecorder(stream);
-        audioChunksRef.current = [];
-
-        mediaRecorderRef.current.ondataavailable = (event) => {
-          audioChunksRef.current.push(event.data);
-        };
-
-        mediaRecorderRef.current.onstop = () => {
-          const audioBlob = new Blob(audioChunksRef.current, {
-            type: 'audio/webm',
-          });
-          const url = URL.createObjectURL(audioBlob);
-          setAudioURL(url);
-          onRecordingComplete(audioBlob);
-          // Stop all media tracks to turn off the mic indicator
-          stream.getTracks().forEach((track) => track.stop());
-        };
-
-        mediaRecorderRef.current.start();
-        setIsRecording(true);
+        streamRef.current = stream;
+        if (countdownSeconds === 0) {
+          beginRecording(stream);
+          return;
+        }
+        let remaining = countdownSeconds;
+        setCountdown(remaining);
+        countdownTimerRef.current = window.setInterval(() => {
+          remaining -= 1;
+          if (remaining > 0) {
+            setCountdown(remaining);
+            return;
+          }
+          clearInterval(countdownTimerRef.current!);
+          countdownTimerRef.current = null;
+          setCountdown(null);
+          beginRecording(stream);
+        }, 1000);
       } catch (err) {
         console.error('Error accessing microphone:', err);
         setError(
@@ -53,7 +197,15 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     } else {
       setError('Audio recording is not supported by your browser.');
     }
-  }, [onRecordingComplete]);
+  }, [countdownSeconds]);
+
+  const cancelCountdown = () => {
+    if (countdownTimerRef.current !== null) clearInterval(countdownTimerRef.current);
+    countdownTimerRef.current = null;
+    setCountdown(null);
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
 
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && isRecording) {
@@ -62,16 +214,73 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     }
   }, [isRecording]);
 
+  const play = (take: Take, version: 'before' | 'after') => {
+    stopPlayback();
+    const buffer = version === 'before' ? take.raw : take.cleaned;
+    if (!buffer) return;
+    if (!audioContextRef.current) {
+      audioContextRef.current = createAudioContext();
+    }
+    const ctx = audioContextRef.current;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      sourceRef.current = null;
+      setPlaying(null);
+    };
+    source.start();
+    sourceRef.current = source;
+    setPlaying({id: take.id, version});
+  };
+
+  const deleteTake = (id: number) => {
+    if (playing?.id === id) stopPlayback();
+    const remaining = takes.filter((take) => take.id !== id);
+    setTakes(remaining);
+    if (selectedId === id) {
+      const next = remaining[remaining.length - 1];
+      setSelectedId(next?.id ?? null);
+      if (!next) onRecordingComplete(null);
+    }
+  };
+
+  const toggleCleanup = (key: 'trimSilence' | 'normalize' | 'noiseGate' | 'highPass') =>
+    setCleanup((prev) => ({...prev, [key]: !prev[key]}));
+
+  const abButton = (take: Take, version: 'before' | 'after', label: string) => {
+    const isPlaying = playing?.id === take.id && playing.version === version;
+    return (
+      <button
+        type="button"
+        onClick={() => (isPlaying ? stopPlayback() : play(take, version))}
+        disabled={version === 'after' && !take.cleaned}
+        className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md transition-colors disabled:opacity-40 ${
+          isPlaying ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'
+        }`}>
+        {isPlaying ? <StopCircleIcon className="w-3 h-3" /> : <PlayIcon className="w-3 h-3" />}
+        {label}
+      </button>
+    );
+  };
+
   return (
     <div className="space-y-3">
-      <div className="flex items-center gap-4">
-        {!isRecording ? (
+      <div className="flex flex-wrap items-center gap-4">
+        {countdown !== null ? (
+          <button
+            type="button"
+            onClick={cancelCountdown}
+            className="flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white font-semibold rounded-lg transition-colors">
+            <span className="tabular-nums">Recording in {countdown}...</span>
+          </button>
+        ) : !isRecording ? (
           <button
             type="button"
             onClick={startRecording}
             className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors">
             <MicIcon className="w-5 h-5" />
-            <span>Start Recording</span>
+            <span>{takes.length > 0 ? 'Record Another Take' : 'Start Recording'}</span>
           </button>
         ) : (
           <button
@@ -82,10 +291,98 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
             <span>Stop Recording</span>
           </button>
         )}
-        {audioURL && (
-          <audio src={audioURL} controls className="h-10" />
-        )}
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Countdown
+          <select
+            value={countdownSeconds}
+            onChange={(e) => setCountdownSeconds(Number(e.target.value))}
+            disabled={isRecording || countdown !== null}
+            className="bg-gray-800 border-gray-600 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            {COUNTDOWN_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds === 0 ? 'Off' : `${seconds}s`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-gray-300">
+        {(
+          [
+            ['trimSilence', 'Trim silence'],
+            ['noiseGate', 'Noise gate'],
+            ['highPass', 'Remove rumble'],
+          ] as const
+        ).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={cleanup[key]}
+              onChange={() => toggleCleanup(key)}
+              className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+            />
+            {label}
+          </label>
+        ))}
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={cleanup.normalize}
+            onChange={() => toggleCleanup('normalize')}
+            className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+          />
+          Normalize to
+          <select
+            value={cleanup.targetLufs}
+            onChange={(e) => setCleanup((prev) => ({...prev, targetLufs: Number(e.target.value)}))}
+            disabled={!cleanup.normalize}
+            className="bg-gray-800 border-gray-600 rounded-md py-0.5 px-1 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50">
+            {[-14, -16, -19, -23].map((lufs) => (
+              <option key={lufs} value={lufs}>
+                {lufs} LUFS
+              </option>
+            ))}
+          </select>
+        </label>
       </div>
+
+      {takes.length > 0 && (
+        <ul className="space-y-2">
+          {takes.map((take, index) => (
+            <li
+              key={take.id}
+              className={`flex flex-wrap items-center gap-3 p-2 rounded-md border text-sm ${
+                take.id === selectedId
+                  ? 'bg-indigo-900/40 border-indigo-500'
+                  : 'bg-gray-900 border-gray-700'
+              }`}>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="recordingTake"
+                  checked={take.id === selectedId}
+                  onChange={() => setSelectedId(take.id)}
+                  className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 bg-gray-800"
+                />
+                Take {index + 1}
+              </label>
+              <span className="text-xs text-gray-500 tabular-nums">
+                {(take.cleaned ?? take.raw).duration.toFixed(1)}s ·{' '}
+                {formatLufs(take.rawLufs)}
+                {isCleanupOn && ` → ${take.cleaned ? formatLufs(take.cleanedLufs) : 'cleaning...'}`}
+              </span>
+              <div className="flex items-center gap-2 ml-auto">
+                {abButton(take, 'before', 'A: Original')}
+                {isCleanupOn && abButton(take, 'after', 'B: Cleaned')}
+                <button type="button" onClick={() => deleteTake(take.id)} title="Delete take">
+                  <TrashIcon className="w-5 h-5 text-red-400 hover:text-red-300" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
       {error && <p className="text-sm text-red-400">{error}</p>}
     </div>
   );
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useRef, useState} from 'react';
+import {BatchVariant} from '../types';
+import {useVoiceoverSync} from '../hooks/useVoiceoverSync';
+import {ArrowPathIcon, PlusIcon, StarIcon} from './icons';
+
+interface BatchResultsProps {
+  variants: BatchVariant[];
+  isRunning: boolean;
+  onToggleWinner: (id: string) => void;
+  onRetryVariant: (id: string) => void;
+  onSaveWinners: () => Promise<void>;
+  onCancel: () => void;
+  onEditBrief: () => void;
+  onNewVideo: () => void;
+}
+
+const statusStyles: Record<BatchVariant['status'], string> = {
+  queued: 'bg-gray-700 text-gray-300',
+  running: 'bg-indigo-600 text-white',
+  done: 'bg-green-600 text-white',
+  error: 'bg-red-600 text-white',
+};
+
+interface VariantCardProps {
+  variant: BatchVariant;
+  canRetry: boolean;
+  onToggleWinner: () => void;
+  onRetry: () => void;
+}
+
+const VariantCard: React.FC<VariantCardProps> = ({
+  variant,
+  canRetry,
+  onToggleWinner,
+  onRetry,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  useVoiceoverSync(videoRef, variant.video?.objectUrl, variant.voiceoverBuffer ?? null);
+
+  return (
+    <div
+      className={`bg-gray-900 border rounded-lg overflow-hidden flex flex-col ${
+        variant.isWinner ? 'border-amber-400' : 'border-gray-700'
+      }`}>
+      <div className="aspect-video bg-black flex items-center justify-center">
+        {variant.video ? (
+          <video
+            ref={videoRef}
+            key={variant.video.objectUrl}
+            src={variant.video.objectUrl}
+            controls
+            loop
+            className="w-full h-full object-contain"
+          />
+        ) : variant.status === 'running' ? (
+          <div className="w-10 h-10 border-4 border-t-transparent border-indigo-500 rounded-full animate-spin"></div>
+        ) : null}
+      </div>
+      <div className="p-3 flex-grow flex flex-col gap-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="font-semibold text-indigo-300 truncate" title={variant.params.prompt}>
+            {variant.label}
+          </p>
+          <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${statusStyles[variant.status]}`}>
+            {variant.status}
+          </span>
+        </div>
+        {variant.status === 'running' && variant.task && (
+          <p className="text-xs text-gray-400">{variant.task}</p>
+        )}
+        {variant.error && <p className="text-xs text-red-400">{variant.error}</p>}
+        <div className="flex gap-2 mt-auto">
+          {variant.status === 'done' && (
+            <button
+              onClick={onToggleWinner}
+              className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs rounded-md font-semibold transition-colors ${
+                variant.isWinner
+                  ? 'bg-amber-500 hover:bg-amber-600 text-black'
+                  : 'bg-gray-700 hover:bg-gray-600'
+              }`}>
+              <StarIcon className="w-4 h-4" />
+              {variant.isWinner ? 'Winner' : 'Pick Winner'}
+            </button>
+          )}
+          {variant.status === 'error' && canRetry && (
+            <button
+              onClick={onRetry}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded-md font-semibold transition-colors">
+              <ArrowPathIcon className="w-4 h-4" />
+              Retry
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BatchResults: React.FC<BatchResultsProps> = ({
+  variants,
+  isRunning,
+  onToggleWinner,
+  onRetryVariant,
+  onSaveWinners,
+  onCancel,
+  onEditBrief,
+  onNewVideo,
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const doneCount = variants.filter((v) => v.status === 'done').length;
+  const winnerCount = variants.filter((v) => v.isWinner).length;
+
+  const handleSaveWinners = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveWinners();
+      setSavedMessage(`Saved ${winnerCount} winner${winnerCount === 1 ? '' : 's'} to the library.`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col items-center gap-6 p-8 bg-gray-800/50 rounded-lg border border-gray-700 shadow-2xl">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-200">Compare Variants</h2>
+        <p className="text-gray-400 mt-1">
+          {doneCount} of {variants.length} ready
+          {isRunning ? ' · generating...' : ''}
+        </p>
+      </div>
+
+      <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-4">
+        {variants.map((variant) => (
+          <VariantCard
+            key={variant.id}
+            variant={variant}
+            canRetry={!isRunning}
+            onToggleWinner={() => onToggleWinner(variant.id)}
+            onRetry={() => onRetryVariant(variant.id)}
+          />
+        ))}
+      </div>
+
+      {savedMessage && <p className="text-sm text-green-400">{savedMessage}</p>}
+
+      <div className="flex flex-wrap justify-center gap-4">
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors">
+            Cancel Remaining
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={handleSaveWinners}
+              disabled={winnerCount === 0 || isSaving}
+              className="flex items-center gap-2 px-6 py-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+              <StarIcon className="w-5 h-5" />
+              {isSaving ? 'Saving...' : `Save Winners (${winnerCount})`}
+            </button>
+            <button
+              onClick={onEditBrief}
+              className="flex items-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors">
+              <ArrowPathIcon className="w-5 h-5" />
+              Edit Brief
+            </button>
+          </>
+        )}
+        <button
+          onClick={onNewVideo}
+          className="flex items-center gap-2 px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors">
+          <PlusIcon className="w-5 h-5" />
+          Create New Ad
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchResults;
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {AspectRatio, BatchOptions, VoiceName} from '../types';
+import {MAX_BATCH_CONCURRENCY} from '../services/batchService';
+
+interface BatchSettingsProps {
+  options: BatchOptions;
+  onChange: (options: BatchOptions) => void;
+  isTts: boolean; // Voice variants only apply to TTS voiceovers
+  variantCount: number;
+}
+
+// Adds or removes a value from a list, keeping the original order.
+const toggleValue = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+const BatchSettings: React.FC<BatchSettingsProps> = ({
+  options,
+  onChange,
+  isTts,
+  variantCount,
+}) => {
+  // Keep the raw text so blank lines survive while the user is typing.
+  const [promptText, setPromptText] = useState(options.prompts.join('\n'));
+
+  const handlePromptsChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setPromptText(e.target.value);
+    const prompts = e.target.value
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    onChange({...options, prompts});
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label
+          htmlFor="batchPrompts"
+          className="block text-sm font-medium text-gray-400">
+          Prompt Variants (one per line)
+        </label>
+        <textarea
+          id="batchPrompts"
+          value={promptText}
+          onChange={handlePromptsChange}
+          rows={3}
+          placeholder="Leave empty to use the main prompt for every variant."
+          className="mt-1 w-full bg-gray-800 border-gray-600 rounded-md shadow-sm p-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+        />
+      </div>
+      <div>
+        <span className="block text-sm font-medium text-gray-400">
+          Aspect Ratios
+        </span>
+        <div className="mt-2 flex gap-4">
+          {Object.values(AspectRatio).map((ratio) => (
+            <label key={ratio} className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.aspectRatios.includes(ratio)}
+                onChange={() =>
+                  onChange({...options, aspectRatios: toggleValue(options.aspectRatios, ratio)})
+                }
+                className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+              />
+              {ratio}
+            </label>
+          ))}
+        </div>
+      </div>
+      {isTts && (
+        <div>
+          <span className="block text-sm font-medium text-gray-400">
+            Voices
+          </span>
+          <div className="mt-2 flex flex-wrap gap-4">
+            {Object.values(VoiceName).map((voice) => (
+              <label key={voice} className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={options.voiceNames.includes(voice)}
+                  onChange={() =>
+                    onChange({...options, voiceNames: toggleValue(options.voiceNames, voice)})
+                  }
+                  className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+                />
+                {voice}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <label
+            htmlFor="batchConcurrency"
+            className="block text-sm font-medium text-gray-400">
+            Run at Once
+          </label>
+          <select
+            id="batchConcurrency"
+            value={options.concurrency}
+            onChange={(e) => onChange({...options, concurrency: Number(e.target.value)})}
+            className="mt-1 block bg-gray-800 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm">
+            {Array.from({length: MAX_BATCH_CONCURRENCY}, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-sm text-gray-400">
+          {variantCount} variant{variantCount === 1 ? '' : 's'} will be generated.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default BatchSettings;
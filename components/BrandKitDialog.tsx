@@ -0,0 +1,316 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useRef, useState} from 'react';
+import {AspectRatio, BrandProfile, VoiceName} from '../types';
+import {
+  createBrandProfile,
+  deleteBrandProfile,
+  exportBrandProfiles,
+  getBrandProfiles,
+  importBrandProfiles,
+  saveBrandProfile,
+} from '../services/brandKitService';
+import {DownloadIcon, PlusIcon, TrashIcon} from './icons';
+
+interface BrandKitDialogProps {
+  selectedId?: string;
+  onSelect: (brand: BrandProfile | undefined) => void;
+  onClose: () => void;
+}
+
+// Reads an image file as a data URL so it can be stored with the profile.
+const fileToDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+
+const inputClassName =
+  'mt-1 w-full bg-gray-900 border border-gray-700 rounded-md p-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm';
+
+const BrandKitDialog: React.FC<BrandKitDialogProps> = ({ selectedId, onSelect, onClose }) => {
+  const [profiles, setProfiles] = useState<BrandProfile[]>(getBrandProfiles);
+  const [draft, setDraft] = useState<BrandProfile | null>(
+    () => profiles.find((p) => p.id === selectedId) ?? profiles[0] ?? null,
+  );
+  const [message, setMessage] = useState<{text: string; isError: boolean} | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => setProfiles(getBrandProfiles());
+
+  const updateDraft = (patch: Partial<BrandProfile>) =>
+    setDraft((prev) => (prev ? {...prev, ...patch} : prev));
+
+  // Saves the draft with its banned-word list cleaned up.
+  const handleSave = (): BrandProfile | null => {
+    if (!draft) return null;
+    const profile = {
+      ...draft,
+      bannedWords: draft.bannedWords.map((w) => w.trim()).filter(Boolean),
+    };
+    try {
+      saveBrandProfile(profile);
+      refresh();
+      setDraft(profile);
+      setMessage({text: `Saved "${profile.name}".`, isError: false});
+      return profile;
+    } catch (error) {
+      setMessage({text: (error as Error).message, isError: true});
+      return null;
+    }
+  };
+
+  const handleDelete = () => {
+    if (!draft || !confirm(`Delete the brand "${draft.name}"?`)) return;
+    deleteBrandProfile(draft.id);
+    if (draft.id === selectedId) onSelect(undefined);
+    const remaining = getBrandProfiles();
+    setProfiles(remaining);
+    setDraft(remaining[0] ?? null);
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      updateDraft({logo: await fileToDataUrl(file)});
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportBrandProfiles(profiles)], {type: 'application/json'});
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'adspark-brand-kits.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importBrandProfiles(await file.text());
+      refresh();
+      setDraft(imported[0]);
+      setMessage({text: `Imported ${imported.length} brand profile(s).`, isError: false});
+    } catch (error) {
+      setMessage({text: (error as Error).message, isError: true});
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-4xl w-full p-8 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">Brand Kit</h2>
+        <div className="flex flex-col md:flex-row gap-6 max-h-[65vh] overflow-y-auto">
+          {/* Profile list */}
+          <div className="md:w-56 flex-shrink-0 space-y-2">
+            {profiles.map((profile) => (
+              <button
+                key={profile.id}
+                onClick={() => setDraft(profile)}
+                className={`w-full flex items-center gap-3 p-2 rounded-lg border text-left transition-colors ${
+                  draft?.id === profile.id
+                    ? 'bg-indigo-900/50 border-indigo-500'
+                    : 'bg-gray-900 border-gray-700 hover:bg-gray-700'
+                }`}>
+                {profile.logo ? (
+                  <img src={profile.logo} alt="" className="w-8 h-8 object-contain rounded bg-white/10" />
+                ) : (
+                  <div className="w-8 h-8 rounded bg-gray-700" />
+                )}
+                <span className="truncate text-sm">{profile.name}</span>
+              </button>
+            ))}
+            <button
+              onClick={() => setDraft(createBrandProfile())}
+              className="w-full flex items-center justify-center gap-1.5 px-3 py-2 text-xs bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors">
+              <PlusIcon className="w-4 h-4" />
+              New Brand
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex-1 px-3 py-2 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+                Import
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={profiles.length === 0}
+                className="flex-1 flex items-center justify-center gap-1 px-3 py-2 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50">
+                <DownloadIcon className="w-3 h-3" />
+                Export
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImport}
+              />
+            </div>
+          </div>
+
+          {/* Profile editor */}
+          {draft ? (
+            <div className="flex-grow space-y-4">
+              <div>
+                <label htmlFor="brandName" className="block text-sm font-medium text-gray-300">Name</label>
+                <input
+                  id="brandName"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({name: e.target.value})}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <span className="block text-sm font-medium text-gray-300">Logo</span>
+                <div className="mt-1 flex items-center gap-3">
+                  {draft.logo && (
+                    <img src={draft.logo} alt="Logo" className="w-12 h-12 object-contain rounded bg-white/10" />
+                  )}
+                  <input type="file" accept="image/*" onChange={handleLogoChange} className="text-sm text-gray-400" />
+                  {draft.logo && (
+                    <button type="button" onClick={() => updateDraft({logo: undefined})}>
+                      <TrashIcon className="w-5 h-5 text-red-400 hover:text-red-300" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div>
+                <span className="block text-sm font-medium text-gray-300">Palette</span>
+                <div className="mt-1 flex flex-wrap items-center gap-2">
+                  {draft.palette.map((color, index) => (
+                    <div key={index} className="flex items-center gap-1">
+                      <input
+                        type="color"
+                        value={color}
+                        onChange={(e) =>
+                          updateDraft({
+                            palette: draft.palette.map((c, i) => (i === index ? e.target.value : c)),
+                          })
+                        }
+                        className="w-8 h-8 bg-transparent"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => updateDraft({palette: draft.palette.filter((_, i) => i !== index)})}
+                        className="text-xs text-gray-500 hover:text-red-400">
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => updateDraft({palette: [...draft.palette, '#6366f1']})}
+                    className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-md">
+                    + Color
+                  </button>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="brandTone" className="block text-sm font-medium text-gray-300">Tone of Voice</label>
+                <textarea
+                  id="brandTone"
+                  value={draft.toneOfVoice}
+                  onChange={(e) => updateDraft({toneOfVoice: e.target.value})}
+                  rows={2}
+                  placeholder="e.g., playful, confident, never sarcastic"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="brandBanned" className="block text-sm font-medium text-gray-300">
+                  Banned Words (comma separated)
+                </label>
+                <input
+                  id="brandBanned"
+                  value={draft.bannedWords.join(', ')}
+                  onChange={(e) =>
+                    updateDraft({
+                      bannedWords: e.target.value.split(',').map((w) => w.trimStart()),
+                    })
+                  }
+                  placeholder="e.g., cheap, guarantee, cure"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="brandVoice" className="block text-sm font-medium text-gray-300">Default Voice</label>
+                  <select
+                    id="brandVoice"
+                    value={draft.defaultVoiceName}
+                    onChange={(e) => updateDraft({defaultVoiceName: e.target.value as VoiceName})}
+                    className={inputClassName}>
+                    {Object.values(VoiceName).map((v) => (
+                      <option key={v} value={v}>{v}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="brandAspect" className="block text-sm font-medium text-gray-300">Default Aspect Ratio</label>
+                  <select
+                    id="brandAspect"
+                    value={draft.defaultAspectRatio}
+                    onChange={(e) => updateDraft({defaultAspectRatio: e.target.value as AspectRatio})}
+                    className={inputClassName}>
+                    <option value={AspectRatio.PORTRAIT}>9:16 (Portrait)</option>
+                    <option value={AspectRatio.LANDSCAPE}>16:9 (Landscape)</option>
+                  </select>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 pt-2">
+                <button
+                  onClick={handleSave}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                  Save
+                </button>
+                <button
+                  onClick={() => {
+                    const profile = handleSave();
+                    if (profile) onSelect(profile);
+                  }}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-semibold transition-colors">
+                  Save & Use
+                </button>
+                {profiles.some((p) => p.id === draft.id) && (
+                  <button
+                    onClick={handleDelete}
+                    className="px-4 py-2 bg-gray-700 hover:bg-red-900/60 rounded-lg transition-colors">
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="flex-grow text-gray-400 text-center py-8">
+              No brand profiles yet. Create one to apply your style to every ad.
+            </p>
+          )}
+        </div>
+        {message && (
+          <p className={`mt-4 text-sm text-center ${message.isError ? 'text-red-400' : 'text-green-400'}`}>
+            {message.text}
+          </p>
+        )}
+        <button
+          onClick={onClose}
+          className="mt-6 self-center px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitDialog;
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {Campaign, LibraryEntry} from '../types';
+import {getBrandProfiles} from '../services/brandKitService';
+import {
+  buildCampaignArchive,
+  createCampaign,
+  deleteCampaign,
+  getArchiveFileName,
+  getCampaigns,
+  saveCampaign,
+} from '../services/campaignService';
+import {
+  clearCampaignFromLibrary,
+  filterByCampaign,
+  getLibraryEntries,
+} from '../services/libraryService';
+import {DownloadIcon, PlusIcon} from './icons';
+
+interface CampaignDialogProps {
+  activeId?: string;
+  onActivate: (campaign: Campaign | undefined) => void;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'mt-1 w-full bg-gray-900 border border-gray-700 rounded-md p-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm';
+
+const CampaignDialog: React.FC<CampaignDialogProps> = ({activeId, onActivate, onClose}) => {
+  const [campaigns, setCampaigns] = useState<Campaign[]>(getCampaigns);
+  const [draft, setDraft] = useState<Campaign | null>(
+    () => campaigns.find((c) => c.id === activeId) ?? campaigns[0] ?? null,
+  );
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<{text: string; isError: boolean} | null>(null);
+  const brandProfiles = getBrandProfiles();
+
+  useEffect(() => {
+    getLibraryEntries().then(setEntries);
+  }, []);
+
+  const refresh = () => setCampaigns(getCampaigns());
+
+  const updateDraft = (patch: Partial<Campaign>) =>
+    setDraft((prev) => (prev ? {...prev, ...patch} : prev));
+
+  const draftEntries = draft ? filterByCampaign(entries, draft.id) : [];
+  const isSaved = !!draft && campaigns.some((c) => c.id === draft.id);
+
+  const handleSave = (): Campaign | null => {
+    if (!draft) return null;
+    const campaign = {...draft, name: draft.name.trim() || 'Untitled Campaign'};
+    try {
+      saveCampaign(campaign);
+      refresh();
+      setDraft(campaign);
+      setMessage({text: `Saved "${campaign.name}".`, isError: false});
+      return campaign;
+    } catch (error) {
+      setMessage({text: (error as Error).message, isError: true});
+      return null;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !draft ||
+      !confirm(`Delete the campaign "${draft.name}"? Its videos stay in the library.`)
+    ) {
+      return;
+    }
+    deleteCampaign(draft.id);
+    await clearCampaignFromLibrary(draft.id);
+    if (draft.id === activeId) onActivate(undefined);
+    const remaining = getCampaigns();
+    setCampaigns(remaining);
+    setDraft(remaining[0] ?? null);
+    setEntries(await getLibraryEntries());
+  };
+
+  const handleExport = async () => {
+    if (!draft) return;
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const blob = await buildCampaignArchive(draft, draftEntries);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getArchiveFileName(draft);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export campaign:', error);
+      setMessage({text: 'Could not export the campaign. Please try again.', isError: true});
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-4xl w-full p-8 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">Campaigns</h2>
+        <div className="flex flex-col md:flex-row gap-6 max-h-[65vh] overflow-y-auto">
+          {/* Campaign list */}
+          <div className="md:w-56 flex-shrink-0 space-y-2">
+            {campaigns.map((campaign) => (
+              <button
+                key={campaign.id}
+                onClick={() => setDraft(campaign)}
+                className={`w-full p-2 rounded-lg border text-left transition-colors ${
+                  draft?.id === campaign.id
+                    ? 'bg-indigo-900/50 border-indigo-500'
+                    : 'bg-gray-900 border-gray-700 hover:bg-gray-700'
+                }`}>
+                <span className="block truncate text-sm">{campaign.name}</span>
+                <span className="block text-xs text-gray-500">
+                  {campaign.id === activeId ? 'Active · ' : ''}
+                  {filterByCampaign(entries, campaign.id).length} video(s)
+                </span>
+              </button>
+            ))}
+            <button
+              onClick={() => setDraft(createCampaign())}
+              className="w-full flex items-center justify-center gap-1.5 px-3 py-2 text-xs bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors">
+              <PlusIcon className="w-4 h-4" />
+              New Campaign
+            </button>
+          </div>
+
+          {/* Campaign editor */}
+          {draft ? (
+            <div className="flex-grow space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="campaignName" className="block text-sm font-medium text-gray-300">Name</label>
+                  <input
+                    id="campaignName"
+                    value={draft.name}
+                    onChange={(e) => updateDraft({name: e.target.value})}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="campaignBrand" className="block text-sm font-medium text-gray-300">Brand</label>
+                  <select
+                    id="campaignBrand"
+                    value={draft.brandId ?? ''}
+                    onChange={(e) => updateDraft({brandId: e.target.value || undefined})}
+                    className={inputClassName}>
+                    <option value="">Keep current brand</option>
+                    {brandProfiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="campaignProduct" className="block text-sm font-medium text-gray-300">Product Name</label>
+                <input
+                  id="campaignProduct"
+                  value={draft.productName}
+                  onChange={(e) => updateDraft({productName: e.target.value})}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="campaignDescription" className="block text-sm font-medium text-gray-300">Product Description</label>
+                <textarea
+                  id="campaignDescription"
+                  value={draft.productDescription}
+                  onChange={(e) => updateDraft({productDescription: e.target.value})}
+                  rows={2}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="campaignBrief" className="block text-sm font-medium text-gray-300">Brief</label>
+                <textarea
+                  id="campaignBrief"
+                  value={draft.brief}
+                  onChange={(e) => updateDraft({brief: e.target.value})}
+                  rows={3}
+                  placeholder="Audience, goals, channels and deadlines for this campaign."
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="campaignNotes" className="block text-sm font-medium text-gray-300">Notes</label>
+                <textarea
+                  id="campaignNotes"
+                  value={draft.notes}
+                  onChange={(e) => updateDraft({notes: e.target.value})}
+                  rows={3}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2 pt-2">
+                <button
+                  onClick={handleSave}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                  Save
+                </button>
+                <button
+                  onClick={() => {
+                    const campaign = handleSave();
+                    if (campaign) onActivate(campaign);
+                  }}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-semibold transition-colors">
+                  Save & Switch To
+                </button>
+                <button
+                  onClick={handleExport}
+                  disabled={!isSaved || draftEntries.length === 0 || isExporting}
+                  title="Downloads the videos, voiceovers, scripts and a manifest as a zip."
+                  className="flex items-center gap-1.5 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50">
+                  <DownloadIcon className="w-4 h-4" />
+                  {isExporting ? 'Exporting...' : `Export Zip (${draftEntries.length})`}
+                </button>
+                {isSaved && (
+                  <button
+                    onClick={handleDelete}
+                    className="px-4 py-2 bg-gray-700 hover:bg-red-900/60 rounded-lg transition-colors">
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="flex-grow text-gray-400 text-center py-8">
+              No campaigns yet. Create one to keep its brief, brand and videos together.
+            </p>
+          )}
+        </div>
+        {message && (
+          <p className={`mt-4 text-sm text-center ${message.isError ? 'text-red-400' : 'text-green-400'}`}>
+            {message.text}
+          </p>
+        )}
+        <button
+          onClick={onClose}
+          className="mt-6 self-center px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CampaignDialog;
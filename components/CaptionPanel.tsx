@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {CaptionCue, CaptionGranularity, CaptionStyle} from '../types';
+import {DEFAULT_CAPTION_STYLE, toSrt, toVtt} from '../services/captionService';
+import {describeError} from '../services/errorService';
+import {DownloadIcon, WandIcon} from './icons';
+
+interface CaptionPanelProps {
+  text: string;
+  onTextChange: (text: string) => void;
+  granularity: CaptionGranularity;
+  onGranularityChange: (granularity: CaptionGranularity) => void;
+  showCaptions: boolean;
+  onShowCaptionsChange: (show: boolean) => void;
+  burnIn: boolean;
+  onBurnInChange: (burnIn: boolean) => void;
+  style: CaptionStyle;
+  onStyleChange: (style: CaptionStyle) => void;
+  cues: CaptionCue[];
+  onTranscribe?: () => Promise<string>; // Only offered for recorded voiceovers
+}
+
+const fontScales = [
+  {label: 'Small', value: 0.045},
+  {label: 'Medium', value: DEFAULT_CAPTION_STYLE.fontScale},
+  {label: 'Large', value: 0.08},
+];
+
+const downloadText = (contents: string, type: string, extension: string) => {
+  const url = URL.createObjectURL(new Blob([contents], {type}));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `adspark-studio-captions-${Date.now()}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const selectClassName =
+  'mt-1 block w-full bg-gray-800 border-gray-600 rounded-md py-1.5 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const CaptionPanel: React.FC<CaptionPanelProps> = ({
+  text,
+  onTextChange,
+  granularity,
+  onGranularityChange,
+  showCaptions,
+  onShowCaptionsChange,
+  burnIn,
+  onBurnInChange,
+  style,
+  onStyleChange,
+  cues,
+  onTranscribe,
+}) => {
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcribeError, setTranscribeError] = useState<string | null>(null);
+
+  const handleTranscribe = async () => {
+    if (!onTranscribe) return;
+    setIsTranscribing(true);
+    setTranscribeError(null);
+    try {
+      onTextChange(await onTranscribe());
+    } catch (error) {
+      console.error('Failed to transcribe recording:', error);
+      setTranscribeError(`Could not transcribe the recording. ${describeError(error)}`);
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl space-y-4 p-4 bg-gray-900/50 border border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-medium text-gray-200">Captions</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={showCaptions}
+            onChange={(e) => onShowCaptionsChange(e.target.checked)}
+            className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+          />
+          Show in preview
+        </label>
+      </div>
+      <div className="relative">
+        <textarea
+          value={text}
+          onChange={(e) => onTextChange(e.target.value)}
+          rows={2}
+          placeholder="Type what the voiceover says, or transcribe your recording."
+          className="w-full bg-gray-800 border-gray-600 rounded-md shadow-sm p-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm pr-32"
+        />
+        {onTranscribe && (
+          <button
+            type="button"
+            onClick={handleTranscribe}
+            disabled={isTranscribing}
+            className="absolute top-2 right-2 flex items-center gap-1.5 px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-700 rounded-md font-semibold transition-colors disabled:bg-gray-600">
+            {isTranscribing ? (
+              '...'
+            ) : (
+              <>
+                <WandIcon className="w-4 h-4" /> Transcribe
+              </>
+            )}
+          </button>
+        )}
+      </div>
+      {transcribeError && <p className="text-xs text-red-400">{transcribeError}</p>}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <label className="text-sm text-gray-400">
+          Timing
+          <select
+            value={granularity}
+            onChange={(e) => onGranularityChange(e.target.value as CaptionGranularity)}
+            className={selectClassName}>
+            <option value="phrase">Per phrase</option>
+            <option value="word">Per word</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-400">
+          Position
+          <select
+            value={style.position}
+            onChange={(e) =>
+              onStyleChange({...style, position: e.target.value as CaptionStyle['position']})
+            }
+            className={selectClassName}>
+            <option value="bottom">Bottom</option>
+            <option value="top">Top</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-400">
+          Size
+          <select
+            value={style.fontScale}
+            onChange={(e) => onStyleChange({...style, fontScale: Number(e.target.value)})}
+            className={selectClassName}>
+            {fontScales.map(({label, value}) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="text-sm text-gray-400">
+          Colors
+          <div className="mt-1 flex items-center gap-2">
+            <input
+              type="color"
+              value={style.color}
+              onChange={(e) => onStyleChange({...style, color: e.target.value})}
+              title="Text color"
+              className="w-8 h-8 bg-transparent"
+            />
+            <label className="flex items-center gap-1 text-xs">
+              <input
+                type="checkbox"
+                checked={style.background !== 'transparent'}
+                onChange={(e) =>
+                  onStyleChange({
+                    ...style,
+                    background: e.target.checked
+                      ? DEFAULT_CAPTION_STYLE.background
+                      : 'transparent',
+                  })
+                }
+                className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+              />
+              Box
+            </label>
+          </div>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={burnIn}
+            onChange={(e) => onBurnInChange(e.target.checked)}
+            className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+          />
+          Burn captions into the downloaded video
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => downloadText(toSrt(cues), 'application/x-subrip', 'srt')}
+            disabled={cues.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50">
+            <DownloadIcon className="w-3 h-3" />
+            SRT
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadText(toVtt(cues), 'text/vtt', 'vtt')}
+            disabled={cues.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50">
+            <DownloadIcon className="w-3 h-3" />
+            WebVTT
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaptionPanel;
@@ -0,0 +1,355 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {LibraryEntry, TimelineClip} from '../types';
+import {
+  CROSSFADE_OPTIONS,
+  MIN_CLIP_SECONDS,
+  createTimelineClip,
+  getClipLength,
+  getEditFileName,
+  layoutTimeline,
+  renderTimeline,
+} from '../services/clipEditorService';
+import {getLibraryEntries, saveEditToLibrary} from '../services/libraryService';
+import {isAbortError} from '../services/operationService';
+import {getMediaDuration} from '../utils';
+import {
+  ChevronDownIcon,
+  ChevronUpIcon,
+  DownloadIcon,
+  FilmIcon,
+  PlusIcon,
+  TrashIcon,
+} from './icons';
+
+interface ClipEditorDialogProps {
+  onClose: () => void;
+}
+
+// The most recent render, kept until the timeline changes.
+interface RenderResult {
+  blob: Blob;
+  url: string;
+  savedId?: string;
+}
+
+const inputClassName =
+  'w-16 bg-gray-800 border border-gray-700 rounded-md py-1 px-2 text-xs focus:ring-indigo-500 focus:border-indigo-500';
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+const ClipEditorDialog: React.FC<ClipEditorDialogProps> = ({onClose}) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [clips, setClips] = useState<TimelineClip[]>([]);
+  const [addingId, setAddingId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<RenderResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const resultRef = useRef(result);
+  resultRef.current = result;
+
+  useEffect(() => {
+    getLibraryEntries().then((loaded) => {
+      setEntries(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      abortControllerRef.current?.abort();
+      if (resultRef.current) URL.revokeObjectURL(resultRef.current.url);
+    };
+  }, []);
+
+  const posterUrls = useMemo(
+    () =>
+      new Map(
+        entries.flatMap((entry) =>
+          entry.poster ? [[entry.id, URL.createObjectURL(entry.poster)] as const] : [],
+        ),
+      ),
+    [entries],
+  );
+  useEffect(() => () => posterUrls.forEach((url) => URL.revokeObjectURL(url)), [posterUrls]);
+
+  const {total} = layoutTimeline(clips);
+  const isRendering = progress !== null;
+
+  // Any change to the timeline makes the last render out of date.
+  const updateClips = (update: (prev: TimelineClip[]) => TimelineClip[]) => {
+    if (result) URL.revokeObjectURL(result.url);
+    setResult(null);
+    setClips(update);
+  };
+
+  const handleAdd = async (entry: LibraryEntry) => {
+    setAddingId(entry.id);
+    setError(null);
+    try {
+      const duration = await getMediaDuration(entry.videoBlob);
+      updateClips((prev) => [...prev, createTimelineClip(entry, duration)]);
+    } catch (addError) {
+      console.error('Failed to add clip:', addError);
+      setError('Could not read that video. Please try another one.');
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  const updateClip = (id: string, changes: Partial<TimelineClip>) =>
+    updateClips((prev) => prev.map((clip) => (clip.id === id ? {...clip, ...changes} : clip)));
+
+  // Keeps at least MIN_CLIP_SECONDS of the clip, whichever end is trimmed.
+  const handleTrim = (clip: TimelineClip, end: 'trimStart' | 'trimEnd', value: number) => {
+    const other = end === 'trimStart' ? clip.trimEnd : clip.trimStart;
+    const max = Math.max(0, clip.duration - other - MIN_CLIP_SECONDS);
+    updateClip(clip.id, {[end]: Math.min(max, Math.max(0, value || 0))});
+  };
+
+  const moveClip = (index: number, offset: number) =>
+    updateClips((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const removeClip = (id: string) => updateClips((prev) => prev.filter((clip) => clip.id !== id));
+
+  const handleRender = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setProgress(0);
+    setError(null);
+    try {
+      const blob = await renderTimeline(clips, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      setResult({blob, url: URL.createObjectURL(blob)});
+    } catch (renderError) {
+      if (!isAbortError(renderError)) {
+        console.error('Failed to render edit:', renderError);
+        setError('Could not render the edit. Please try again.');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const firstEntry = entries.find((entry) => entry.id === clips[0]?.entryId);
+
+  const handleDownload = () => {
+    const link = document.createElement('a');
+    link.href = result!.url;
+    link.download = getEditFileName(firstEntry?.params.productName ?? '', result!.blob.type);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    const saved = await saveEditToLibrary(
+      firstEntry!.params,
+      result!.blob,
+      clips.map((clip) => clip.entryId),
+    );
+    setIsSaving(false);
+    if (saved) {
+      setEntries((prev) => [saved, ...prev]);
+      setResult((prev) => prev && {...prev, savedId: saved.id});
+    } else {
+      setError('Could not save the edit to the library.');
+    }
+  };
+
+  const handleClose = () => {
+    if (isRendering) {
+      abortControllerRef.current?.abort();
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={handleClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-5xl w-full p-8 flex flex-col max-h-[95vh]" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold text-white mb-2 text-center">Edit & Combine</h2>
+        <p className="text-sm text-gray-400 text-center mb-6">
+          Trim saved clips, put them in order and join them with optional cross-fades. The
+          result is rendered in your browser, in real time.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6 min-h-0 flex-grow">
+          <div className="md:col-span-2 flex flex-col min-h-0">
+            <h3 className="text-sm font-semibold text-gray-300 mb-2">Library</h3>
+            <div className="overflow-y-auto pr-2 space-y-2 max-h-[55vh]">
+              {isLoading ? (
+                <p className="text-gray-400 text-sm text-center py-4">Loading library...</p>
+              ) : entries.length === 0 ? (
+                <p className="text-gray-400 text-sm text-center py-4">Your library is empty.</p>
+              ) : (
+                entries.map((entry) => (
+                  <button
+                    key={entry.id}
+                    onClick={() => handleAdd(entry)}
+                    disabled={isRendering || addingId !== null}
+                    title="Add to the end of the timeline"
+                    className="w-full flex items-center gap-3 p-2 bg-gray-900 border border-gray-700 rounded-lg text-left hover:border-indigo-500 transition-colors disabled:opacity-50">
+                    {posterUrls.has(entry.id) ? (
+                      <img
+                        src={posterUrls.get(entry.id)}
+                        alt=""
+                        className="w-20 aspect-video object-cover rounded bg-black flex-shrink-0"
+                      />
+                    ) : (
+                      <div className="w-20 aspect-video rounded bg-black flex-shrink-0" />
+                    )}
+                    <div className="min-w-0 flex-grow">
+                      <p className="text-sm font-semibold text-indigo-300 truncate">
+                        {entry.params.productName || 'Untitled'}
+                      </p>
+                      <p className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleString()}</p>
+                    </div>
+                    <PlusIcon className={`w-5 h-5 flex-shrink-0 ${addingId === entry.id ? 'animate-pulse' : ''}`} />
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+          <div className="md:col-span-3 flex flex-col min-h-0">
+            <div className="flex items-baseline justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-300">Timeline</h3>
+              {clips.length > 0 && (
+                <span className="text-xs text-gray-400 tabular-nums">Total {formatSeconds(total)}</span>
+              )}
+            </div>
+            <div className="overflow-y-auto pr-2 space-y-2 max-h-[55vh]">
+              {clips.length === 0 ? (
+                <p className="text-gray-400 text-sm text-center py-4 border border-dashed border-gray-700 rounded-lg">
+                  Pick videos from the library to add them here.
+                </p>
+              ) : (
+                clips.map((clip, index) => (
+                  <div key={clip.id} className="p-3 bg-gray-900 border border-gray-700 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-gray-500 tabular-nums w-5">{index + 1}.</span>
+                      <p className="flex-grow text-sm font-semibold text-indigo-300 truncate">{clip.label}</p>
+                      <span className="text-xs text-gray-400 tabular-nums">
+                        {formatSeconds(getClipLength(clip))} of {formatSeconds(clip.duration)}
+                      </span>
+                      <button
+                        onClick={() => moveClip(index, -1)}
+                        disabled={index === 0 || isRendering}
+                        title="Move earlier"
+                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                        <ChevronUpIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveClip(index, 1)}
+                        disabled={index === clips.length - 1 || isRendering}
+                        title="Move later"
+                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                        <ChevronDownIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => removeClip(clip.id)}
+                        disabled={isRendering}
+                        title="Remove from timeline"
+                        className="p-1 disabled:opacity-30">
+                        <TrashIcon className="w-4 h-4 text-red-400 hover:text-red-300" />
+                      </button>
+                    </div>
+                    <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-400">
+                      <label className="flex items-center gap-1.5">
+                        Trim start
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={clip.trimStart}
+                          onChange={(e) => handleTrim(clip, 'trimStart', Number(e.target.value))}
+                          disabled={isRendering}
+                          className={inputClassName}
+                        />
+                      </label>
+                      <label className="flex items-center gap-1.5">
+                        Trim end
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={clip.trimEnd}
+                          onChange={(e) => handleTrim(clip, 'trimEnd', Number(e.target.value))}
+                          disabled={isRendering}
+                          className={inputClassName}
+                        />
+                      </label>
+                      {index > 0 && (
+                        <label className="flex items-center gap-1.5">
+                          Cross-fade in
+                          <select
+                            value={clip.crossfade}
+                            onChange={(e) => updateClip(clip.id, {crossfade: Number(e.target.value)})}
+                            disabled={isRendering}
+                            className="bg-gray-800 border border-gray-700 rounded-md py-1 px-2 text-xs focus:ring-indigo-500 focus:border-indigo-500">
+                            {CROSSFADE_OPTIONS.map((seconds) => (
+                              <option key={seconds} value={seconds}>
+                                {seconds === 0 ? 'Cut' : formatSeconds(seconds)}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+        {result && (
+          <div className="mt-6 flex flex-col items-center gap-3">
+            <video src={result.url} controls playsInline className="max-h-64 rounded-lg bg-black" />
+            <div className="flex gap-3">
+              <button
+                onClick={handleDownload}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-semibold text-sm transition-colors">
+                <DownloadIcon className="w-4 h-4" />
+                Download
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !!result.savedId || !firstEntry}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold text-sm transition-colors disabled:opacity-50">
+                {result.savedId ? 'Saved to Library' : isSaving ? 'Saving...' : 'Save to Library'}
+              </button>
+            </div>
+          </div>
+        )}
+        {error && <p className="mt-4 text-sm text-center text-red-400">{error}</p>}
+        <div className="mt-6 flex justify-center gap-4">
+          <button
+            onClick={handleRender}
+            disabled={clips.length === 0 || isRendering}
+            className="flex items-center gap-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+            <FilmIcon className="w-5 h-5" />
+            {isRendering ? `Rendering... ${Math.round(progress * 100)}%` : 'Render'}
+          </button>
+          <button
+            onClick={handleClose}
+            className="px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors">
+            {isRendering ? 'Cancel' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClipEditorDialog;
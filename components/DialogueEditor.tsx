@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {DialogueSpeaker, GenerationProvider, VoiceName} from '../types';
+import {describeError} from '../services/errorService';
+import {
+  MULTI_SPEAKER_COUNT,
+  findSpeaker,
+  parseDialogue,
+} from '../services/dialogueService';
+import {createAudioContext} from '../utils';
+import {PlayIcon, PlusIcon, StopCircleIcon, TrashIcon} from './icons';
+
+interface DialogueEditorProps {
+  script: string;
+  speakers: DialogueSpeaker[];
+  onSpeakersChange: (speakers: DialogueSpeaker[]) => void;
+  provider: GenerationProvider;
+}
+
+const DialogueEditor: React.FC<DialogueEditorProps> = ({
+  script,
+  speakers,
+  onSpeakersChange,
+  provider,
+}) => {
+  const [loadingIndex, setLoadingIndex] = useState<number | null>(null);
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Rendered lines, keyed by voice and text, so replaying costs nothing.
+  const cacheRef = useRef(new Map<string, AudioBuffer>());
+  const lines = parseDialogue(script);
+
+  const stopPlayback = () => {
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      sourceRef.current.stop();
+      sourceRef.current = null;
+    }
+    setPlayingIndex(null);
+  };
+
+  useEffect(() => () => {
+    sourceRef.current?.stop();
+    audioContextRef.current?.close();
+  }, []);
+
+  const updateSpeaker = (index: number, patch: Partial<DialogueSpeaker>) =>
+    onSpeakersChange(speakers.map((s, i) => (i === index ? {...s, ...patch} : s)));
+
+  const addSpeaker = () => {
+    const used = speakers.map((s) => s.voiceName);
+    const voice =
+      Object.values(VoiceName).find((v) => !used.includes(v)) ?? VoiceName.ZEPHYR;
+    onSpeakersChange([...speakers, {label: `Speaker ${speakers.length + 1}`, voiceName: voice}]);
+  };
+
+  const playLine = async (index: number) => {
+    stopPlayback();
+    const line = lines[index];
+    const speaker = findSpeaker(speakers, line.speaker);
+    if (!speaker) return;
+    const key = `${speaker.voiceName}|${line.text}`;
+    setError(null);
+    try {
+      let buffer = cacheRef.current.get(key);
+      if (!buffer) {
+        setLoadingIndex(index);
+        buffer = await provider.generateSpeech(line.text, speaker.voiceName);
+        cacheRef.current.set(key, buffer);
+      }
+      if (!audioContextRef.current) {
+        audioContextRef.current = createAudioContext();
+      }
+      const ctx = audioContextRef.current;
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => {
+        sourceRef.current = null;
+        setPlayingIndex(null);
+      };
+      source.start();
+      sourceRef.current = source;
+      setPlayingIndex(index);
+    } catch (previewError) {
+      console.error('Failed to preview line:', previewError);
+      setError(`Could not preview that line. ${describeError(previewError)}`);
+    } finally {
+      setLoadingIndex(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 bg-gray-900/50 border border-gray-700 rounded-md">
+      <div className="space-y-2">
+        {speakers.map((speaker, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={speaker.label}
+              onChange={(e) => updateSpeaker(index, {label: e.target.value})}
+              placeholder="Speaker name"
+              className="flex-grow min-w-0 bg-gray-800 border-gray-600 rounded-md py-1.5 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <select
+              value={speaker.voiceName}
+              onChange={(e) => updateSpeaker(index, {voiceName: e.target.value as VoiceName})}
+              className="bg-gray-800 border-gray-600 rounded-md py-1.5 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              {Object.values(VoiceName).map((v) => (
+                <option key={v} value={v}>
+                  {v}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onSpeakersChange(speakers.filter((_, i) => i !== index))}
+              disabled={speakers.length <= 2}
+              title="Remove speaker"
+              className="disabled:opacity-30">
+              <TrashIcon className="w-5 h-5 text-red-400 hover:text-red-300" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={addSpeaker}
+          className="flex items-center gap-1.5 text-xs text-indigo-400 hover:text-indigo-300">
+          <PlusIcon className="w-4 h-4" /> Add Speaker
+        </button>
+        {speakers.length !== MULTI_SPEAKER_COUNT && (
+          <p className="text-xs text-gray-500">
+            With more than {MULTI_SPEAKER_COUNT} speakers each line is voiced separately
+            and joined, so turns may sound less natural.
+          </p>
+        )}
+      </div>
+
+      {lines.length > 0 && (
+        <ul className="space-y-1 pt-2 border-t border-gray-700">
+          {lines.map((line, index) => {
+            const speaker = findSpeaker(speakers, line.speaker);
+            const isPlaying = playingIndex === index;
+            return (
+              <li key={index} className="flex items-start gap-2 text-sm">
+                <button
+                  type="button"
+                  onClick={() => (isPlaying ? stopPlayback() : playLine(index))}
+                  disabled={!speaker || loadingIndex !== null}
+                  title={speaker ? `Preview as ${speaker.voiceName}` : 'Unknown speaker'}
+                  className="mt-0.5 flex-shrink-0 text-indigo-400 hover:text-indigo-300 disabled:text-gray-600">
+                  {loadingIndex === index ? (
+                    <span className="block w-4 h-4 text-center leading-4">…</span>
+                  ) : isPlaying ? (
+                    <StopCircleIcon className="w-4 h-4" />
+                  ) : (
+                    <PlayIcon className="w-4 h-4" />
+                  )}
+                </button>
+                <span className={`font-semibold ${speaker ? 'text-gray-300' : 'text-red-400'}`}>
+                  {line.speaker}:
+                </span>
+                <span className="text-gray-400">{line.text}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default DialogueEditor;
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useRef, useState} from 'react';
+import {CaptionCue, CaptionStyle, FitMode, OverlayElement, PlatformTarget} from '../types';
+import {
+  PLATFORM_TARGETS,
+  buildExportFileName,
+  matchesTargetAspect,
+} from '../services/exportService';
+import {isAbortError} from '../services/operationService';
+import {getVideoExtension, renderVideoWithAudio} from '../services/renderService';
+import {resolveMediaDuration} from '../utils';
+import {DownloadIcon} from './icons';
+
+interface ExportDialogProps {
+  videoUrl: string;
+  audio: AudioBuffer | null; // The voiceover and music mix, if any
+  captions?: CaptionCue[]; // Only given when captions are burned in
+  captionStyle: CaptionStyle;
+  overlays?: OverlayElement[]; // Only given when overlays are shown
+  productName: string;
+  onClose: () => void;
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Shades the parts of the frame the platform's interface covers.
+const SafeZoneOverlay: React.FC<{target: PlatformTarget}> = ({target}) => {
+  const {top, bottom, left, right} = target.safeZone;
+  const shade = 'absolute bg-red-500/30';
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <div className={`${shade} inset-x-0 top-0`} style={{height: `${top * 100}%`}} />
+      <div className={`${shade} inset-x-0 bottom-0`} style={{height: `${bottom * 100}%`}} />
+      <div
+        className={`${shade} left-0`}
+        style={{top: `${top * 100}%`, bottom: `${bottom * 100}%`, width: `${left * 100}%`}}
+      />
+      <div
+        className={`${shade} right-0`}
+        style={{top: `${top * 100}%`, bottom: `${bottom * 100}%`, width: `${right * 100}%`}}
+      />
+      <div
+        className="absolute border border-dashed border-white/70"
+        style={{
+          top: `${top * 100}%`,
+          bottom: `${bottom * 100}%`,
+          left: `${left * 100}%`,
+          right: `${right * 100}%`,
+        }}
+      />
+    </div>
+  );
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  videoUrl,
+  audio,
+  captions,
+  captionStyle,
+  overlays,
+  productName,
+  onClose,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([PLATFORM_TARGETS[0].id]);
+  const [previewId, setPreviewId] = useState(PLATFORM_TARGETS[0].id);
+  const [fit, setFit] = useState<FitMode>('crop');
+  const [focus, setFocus] = useState(0.5);
+  const [showSafeZone, setShowSafeZone] = useState(true);
+  const [source, setSource] = useState<{width: number; height: number; duration: number} | null>(null);
+  const [progress, setProgress] = useState<{name: string; fraction: number} | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const previewTarget = PLATFORM_TARGETS.find((t) => t.id === previewId) ?? PLATFORM_TARGETS[0];
+  const selectedTargets = PLATFORM_TARGETS.filter((t) => selectedIds.includes(t.id));
+
+  const toggleTarget = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id],
+    );
+    setPreviewId(id);
+  };
+
+  // A copy of the original is enough when nothing about the picture or
+  // sound needs to change.
+  const canCopyOriginal = (target: PlatformTarget) =>
+    !!source &&
+    !audio &&
+    !captions?.length &&
+    !overlays?.length &&
+    matchesTargetAspect(source.width, source.height, target) &&
+    source.duration <= target.maxDuration;
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setError(null);
+    try {
+      for (const target of selectedTargets) {
+        const baseName = buildExportFileName(target, productName);
+        setProgress({name: target.name, fraction: 0});
+        if (canCopyOriginal(target)) {
+          const blob = await (await fetch(videoUrl)).blob();
+          downloadBlob(blob, `${baseName}.${getVideoExtension(blob.type)}`);
+          continue;
+        }
+        const blob = await renderVideoWithAudio({
+          videoUrl,
+          voiceover: audio,
+          captions,
+          captionStyle,
+          overlays,
+          output: {width: target.width, height: target.height, fit, focus},
+          safeZone: target.safeZone,
+          maxDuration: target.maxDuration,
+          signal: controller.signal,
+          onProgress: (fraction) => setProgress({name: target.name, fraction}),
+        });
+        downloadBlob(blob, `${baseName}.${getVideoExtension(blob.type)}`);
+      }
+    } catch (exportError) {
+      if (!isAbortError(exportError)) {
+        console.error('Failed to export video:', exportError);
+        setError('Could not export the video. Please try again.');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={handleClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-4xl w-full p-8 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">Export for Platforms</h2>
+        <div className="flex flex-col md:flex-row gap-6 max-h-[70vh] overflow-y-auto">
+          {/* Targets and framing */}
+          <div className="md:w-80 flex-shrink-0 space-y-2">
+            {PLATFORM_TARGETS.map((target) => (
+              <label
+                key={target.id}
+                onMouseEnter={() => setPreviewId(target.id)}
+                className={`flex items-start gap-3 p-2 rounded-lg border cursor-pointer transition-colors ${
+                  previewId === target.id
+                    ? 'bg-indigo-900/50 border-indigo-500'
+                    : 'bg-gray-900 border-gray-700 hover:bg-gray-700'
+                }`}>
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(target.id)}
+                  onChange={() => toggleTarget(target.id)}
+                  className="mt-1 focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+                />
+                <span className="min-w-0">
+                  <span className="block text-sm">{target.name}</span>
+                  <span className="block text-xs text-gray-500">
+                    {target.aspect} · {target.width}×{target.height} · up to {target.maxDuration}s
+                  </span>
+                  <span className="block text-xs text-gray-500 truncate font-mono">
+                    {buildExportFileName(target, productName)}
+                  </span>
+                  {source && source.duration > target.maxDuration && (
+                    <span className="block text-xs text-amber-400">
+                      Will be cut to {target.maxDuration}s.
+                    </span>
+                  )}
+                </span>
+              </label>
+            ))}
+            <div className="grid grid-cols-2 gap-3 pt-2">
+              <label className="text-sm text-gray-400">
+                Reframe
+                <select
+                  value={fit}
+                  onChange={(e) => setFit(e.target.value as FitMode)}
+                  className="mt-1 block w-full bg-gray-900 border-gray-600 rounded-md py-1.5 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+                  <option value="crop">Crop to fill</option>
+                  <option value="letterbox">Letterbox</option>
+                </select>
+              </label>
+              <label className={`text-sm text-gray-400 ${fit === 'crop' ? '' : 'opacity-50'}`}>
+                Crop position
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={focus}
+                  onChange={(e) => setFocus(Number(e.target.value))}
+                  disabled={fit !== 'crop'}
+                  className="mt-3 w-full accent-indigo-500"
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={showSafeZone}
+                onChange={(e) => setShowSafeZone(e.target.checked)}
+                className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+              />
+              Show safe zones in preview
+            </label>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-grow flex flex-col items-center gap-2">
+            <div
+              className="relative h-96 max-w-full bg-black rounded-lg overflow-hidden"
+              style={{aspectRatio: `${previewTarget.width} / ${previewTarget.height}`}}>
+              <video
+                src={videoUrl}
+                muted
+                autoPlay
+                loop
+                playsInline
+                onLoadedMetadata={async (e) => {
+                  const video = e.currentTarget;
+                  setSource({
+                    width: video.videoWidth,
+                    height: video.videoHeight,
+                    duration: await resolveMediaDuration(video),
+                  });
+                }}
+                className="w-full h-full"
+                style={{
+                  objectFit: fit === 'crop' ? 'cover' : 'contain',
+                  objectPosition: `${focus * 100}% ${focus * 100}%`,
+                }}
+              />
+              {showSafeZone && <SafeZoneOverlay target={previewTarget} />}
+            </div>
+            <p className="text-xs text-gray-500">
+              {previewTarget.name} preview. Keep text and the product outside the shaded areas.
+            </p>
+          </div>
+        </div>
+        {error && <p className="mt-4 text-sm text-center text-red-400">{error}</p>}
+        <div className="mt-6 flex justify-center gap-4">
+          <button
+            onClick={handleExport}
+            disabled={selectedTargets.length === 0 || progress !== null}
+            className="flex items-center gap-2 px-6 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-semibold transition-colors disabled:bg-gray-600 disabled:cursor-wait">
+            <DownloadIcon className="w-5 h-5" />
+            {progress
+              ? `Rendering ${progress.name}... ${Math.round(progress.fraction * 100)}%`
+              : `Export ${selectedTargets.length} File(s)`}
+          </button>
+          <button
+            onClick={handleClose}
+            className="px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors">
+            {progress ? 'Cancel' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {ImageFile} from '../types';
+import {FRAME_IMAGE_TYPES} from '../services/modelConstraints';
+import {TrashIcon} from './icons';
+
+interface FrameImageSlotProps {
+  id: string;
+  label: string;
+  hint: string;
+  image?: ImageFile;
+  disabled?: boolean; // e.g. the end frame until there is a start frame
+  onSelect: (file: File) => void;
+  onRemove: () => void;
+}
+
+const FrameImageSlot: React.FC<FrameImageSlotProps> = ({
+  id,
+  label,
+  hint,
+  image,
+  disabled,
+  onSelect,
+  onRemove,
+}) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onSelect(file);
+  };
+
+  return (
+    <div className="flex-1 min-w-0">
+      <p className="text-xs font-medium text-gray-400 mb-1">{label}</p>
+      {image ? (
+        <div className="relative">
+          {/* A data URL avoids leaking an object URL on every render. */}
+          <img
+            src={`data:${image.file.type};base64,${image.base64}`}
+            alt={image.file.name}
+            className="w-full aspect-video object-contain bg-black rounded-md border border-gray-700"
+          />
+          <button
+            type="button"
+            onClick={onRemove}
+            title="Remove frame"
+            className="absolute top-1 right-1 p-1 bg-gray-900/80 rounded-md">
+            <TrashIcon className="w-4 h-4 text-red-400 hover:text-red-300" />
+          </button>
+          <p className="text-xs text-gray-500 truncate mt-1" title={image.file.name}>
+            {image.file.name}
+          </p>
+        </div>
+      ) : (
+        <label
+          htmlFor={id}
+          className={`flex flex-col items-center justify-center w-full aspect-video border-2 border-gray-600 border-dashed rounded-md text-center px-2 ${
+            disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-indigo-500'
+          }`}>
+          <span className="text-sm font-medium text-indigo-400">Upload image</span>
+          <span className="text-xs text-gray-500 mt-1">{hint}</span>
+          <input
+            id={id}
+            type="file"
+            className="sr-only"
+            onChange={handleChange}
+            accept={FRAME_IMAGE_TYPES.join(',')}
+            disabled={disabled}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default FrameImageSlot;
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  FrameFormat,
+  buildContactSheet,
+  formatFrameTime,
+  getFrameFileName,
+  grabFrame,
+  loadFrameSource,
+  suggestCoverFrames,
+} from '../services/frameService';
+import {isAbortError} from '../services/operationService';
+import {resolveMediaDuration} from '../utils';
+import {DownloadIcon, SparklesIcon, TrashIcon} from './icons';
+
+interface FrameToolDialogProps {
+  videoUrl: string;
+  productName: string;
+  onClose: () => void;
+}
+
+// A grabbed or suggested frame, encoded in the format chosen when it was made.
+interface Still {
+  id: number;
+  time: number;
+  blob: Blob;
+  url: string;
+  score?: number; // Set for suggested covers
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const FrameToolDialog: React.FC<FrameToolDialogProps> = ({videoUrl, productName, onClose}) => {
+  const previewRef = useRef<HTMLVideoElement>(null);
+  // A second, hidden copy for analysis, so the preview does not jump around.
+  const sourceRef = useRef<Promise<HTMLVideoElement> | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const nextIdRef = useRef(1);
+  const [duration, setDuration] = useState(0);
+  const [time, setTime] = useState(0);
+  const [format, setFormat] = useState<FrameFormat>('image/jpeg');
+  const [stills, setStills] = useState<Still[]>([]);
+  const [busy, setBusy] = useState<'grab' | 'covers' | 'sheet' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stillsRef = useRef(stills);
+  stillsRef.current = stills;
+
+  useEffect(() => {
+    sourceRef.current = loadFrameSource(videoUrl);
+    // A load failure is reported when a tool first uses the video.
+    sourceRef.current.catch(() => {});
+    return () => {
+      abortControllerRef.current?.abort();
+      stillsRef.current.forEach((still) => URL.revokeObjectURL(still.url));
+    };
+  }, [videoUrl]);
+
+  const addStill = (still: Omit<Still, 'id' | 'url'>) => ({
+    ...still,
+    id: nextIdRef.current++,
+    url: URL.createObjectURL(still.blob),
+  });
+
+  const handleScrub = (value: number) => {
+    setTime(value);
+    if (previewRef.current) previewRef.current.currentTime = value;
+  };
+
+  // Runs one of the tools, reporting failures in the dialog.
+  const run = async (kind: 'grab' | 'covers' | 'sheet', task: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setBusy(kind);
+    setError(null);
+    try {
+      await task(controller.signal);
+    } catch (taskError) {
+      if (!isAbortError(taskError)) {
+        console.error('Frame tool failed:', taskError);
+        setError('Could not read frames from the video. Please try again.');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setBusy(null);
+    }
+  };
+
+  const handleGrab = () =>
+    run('grab', async () => {
+      const blob = await grabFrame(await sourceRef.current!, time, format);
+      setStills((prev) => [...prev, addStill({time, blob})]);
+    });
+
+  const handleSuggest = () =>
+    run('covers', async (signal) => {
+      const video = await sourceRef.current!;
+      const suggestions = await suggestCoverFrames(video, {signal});
+      const covers: Still[] = [];
+      for (const suggestion of suggestions) {
+        const blob = await grabFrame(video, suggestion.time, format);
+        covers.push(addStill({time: suggestion.time, blob, score: suggestion.score}));
+      }
+      // Replace earlier suggestions; keep hand-picked frames.
+      stillsRef.current
+        .filter((still) => still.score !== undefined)
+        .forEach((still) => URL.revokeObjectURL(still.url));
+      setStills((prev) => [...covers, ...prev.filter((still) => still.score === undefined)]);
+    });
+
+  const handleContactSheet = () =>
+    run('sheet', async (signal) => {
+      const blob = await buildContactSheet(await sourceRef.current!, {
+        title: productName,
+        format,
+        signal,
+      });
+      downloadBlob(blob, getFrameFileName(productName, 'contact-sheet', format));
+    });
+
+  const removeStill = (still: Still) => {
+    URL.revokeObjectURL(still.url);
+    setStills((prev) => prev.filter((s) => s.id !== still.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-3xl w-full p-8 flex flex-col max-h-[95vh]" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold text-white mb-2 text-center">Frames & Covers</h2>
+        <p className="text-sm text-gray-400 text-center mb-6">
+          Scrub to a moment and grab it, or let us suggest crisp frames at scene changes for
+          cover images and thumbnails.
+        </p>
+        <div className="w-full aspect-video rounded-lg overflow-hidden bg-black">
+          <video
+            ref={previewRef}
+            src={videoUrl}
+            muted
+            playsInline
+            preload="auto"
+            onLoadedMetadata={async (e) => setDuration(await resolveMediaDuration(e.currentTarget))}
+            className="w-full h-full object-contain"
+          />
+        </div>
+        <div className="flex items-center gap-3 mt-3">
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.04}
+            value={time}
+            onChange={(e) => handleScrub(Number(e.target.value))}
+            aria-label="Frame time"
+            className="flex-grow accent-indigo-500"
+          />
+          <span className="text-sm text-gray-400 tabular-nums w-16 text-right">{formatFrameTime(time)}</span>
+        </div>
+        <div className="mt-4 flex flex-wrap items-center justify-center gap-3">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as FrameFormat)}
+            aria-label="Image format"
+            className="bg-gray-900 border border-gray-700 rounded-md py-2 px-3 text-sm focus:ring-indigo-500 focus:border-indigo-500">
+            <option value="image/jpeg">JPEG</option>
+            <option value="image/png">PNG</option>
+          </select>
+          <button
+            onClick={handleGrab}
+            disabled={busy !== null || !duration}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold text-sm transition-colors disabled:bg-gray-600">
+            {busy === 'grab' ? 'Grabbing...' : 'Grab Frame'}
+          </button>
+          <button
+            onClick={handleSuggest}
+            disabled={busy !== null || !duration}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg font-semibold text-sm transition-colors disabled:bg-gray-600">
+            <SparklesIcon className="w-4 h-4" />
+            {busy === 'covers' ? 'Analyzing...' : 'Suggest Covers'}
+          </button>
+          <button
+            onClick={handleContactSheet}
+            disabled={busy !== null || !duration}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold text-sm transition-colors disabled:opacity-50">
+            <DownloadIcon className="w-4 h-4" />
+            {busy === 'sheet' ? 'Building...' : 'Contact Sheet'}
+          </button>
+        </div>
+        {error && <p className="mt-3 text-sm text-center text-red-400">{error}</p>}
+        {stills.length > 0 && (
+          <div className="mt-6 grid grid-cols-2 sm:grid-cols-4 gap-3 overflow-y-auto">
+            {stills.map((still) => (
+              <div key={still.id} className="bg-gray-900 border border-gray-700 rounded-lg overflow-hidden">
+                <button
+                  onClick={() => handleScrub(still.time)}
+                  title="Show in preview"
+                  className="relative block w-full">
+                  <img src={still.url} alt={`Frame at ${formatFrameTime(still.time)}`} className="w-full aspect-video object-cover bg-black" />
+                  {still.score !== undefined && (
+                    <span className="absolute top-1 left-1 px-1.5 py-0.5 text-xs bg-purple-600 rounded">
+                      Cover {Math.round(still.score * 100)}
+                    </span>
+                  )}
+                </button>
+                <div className="flex items-center justify-between px-2 py-1 text-xs text-gray-400">
+                  <span className="tabular-nums">{formatFrameTime(still.time)}</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() =>
+                        downloadBlob(
+                          still.blob,
+                          getFrameFileName(productName, still.time, still.blob.type as FrameFormat),
+                        )
+                      }
+                      title="Download">
+                      <DownloadIcon className="w-4 h-4 hover:text-white" />
+                    </button>
+                    <button onClick={() => removeStill(still)} title="Remove">
+                      <TrashIcon className="w-4 h-4 text-red-400 hover:text-red-300" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="mt-6 flex justify-center">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FrameToolDialog;
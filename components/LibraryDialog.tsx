@@ -0,0 +1,267 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo, useState} from 'react';
+import {Campaign, LibraryEntry, VideoModel} from '../types';
+import {getActiveCampaignId, getCampaigns} from '../services/campaignService';
+import {
+  addEntryPoster,
+  deleteLibraryEntry,
+  filterByCampaign,
+  getLibraryEntries,
+  getStorageEstimate,
+  searchLibrary,
+  setEntryCampaign,
+} from '../services/libraryService';
+import {ArrowPathIcon, FilmIcon, PlayIcon, TrashIcon} from './icons';
+
+interface LibraryDialogProps {
+  onReplay: (entry: LibraryEntry) => void;
+  onReuse: (entry: LibraryEntry) => void;
+  onOpenEditor: () => void;
+  onClose: () => void;
+}
+
+// Formats a byte count as a short human-readable size.
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const LibraryDialog: React.FC<LibraryDialogProps> = ({ onReplay, onReuse, onOpenEditor, onClose }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [campaigns] = useState<Campaign[]>(getCampaigns);
+  // Opens on the active campaign; 'all' and 'none' are also accepted.
+  const [campaignFilter, setCampaignFilter] = useState(() => getActiveCampaignId() ?? 'all');
+  const [storage, setStorage] = useState<{usage: number; quota: number} | null>(null);
+
+  const refresh = async () => {
+    setEntries(await getLibraryEntries());
+    setStorage(await getStorageEstimate());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // One object URL per video, revoked when the list changes or the dialog closes.
+  const videoUrls = useMemo(
+    () => new Map(entries.map((entry) => [entry.id, URL.createObjectURL(entry.videoBlob)])),
+    [entries],
+  );
+  useEffect(() => () => videoUrls.forEach((url) => URL.revokeObjectURL(url)), [videoUrls]);
+  const posterUrls = useMemo(
+    () =>
+      new Map(
+        entries.flatMap((entry) =>
+          entry.poster ? [[entry.id, URL.createObjectURL(entry.poster)] as const] : [],
+        ),
+      ),
+    [entries],
+  );
+  useEffect(() => () => posterUrls.forEach((url) => URL.revokeObjectURL(url)), [posterUrls]);
+
+  // Entries saved before poster frames existed get one, one at a time.
+  const hasMissingPosters = entries.some((entry) => !entry.poster);
+  useEffect(() => {
+    if (!hasMissingPosters) return;
+    let isCancelled = false;
+    (async () => {
+      for (const entry of entries.filter((e) => !e.poster)) {
+        const updated = await addEntryPoster(entry);
+        if (isCancelled) return;
+        if (updated) {
+          setEntries((prev) => prev.map((e) => (e.id === updated.id ? updated : e)));
+        }
+      }
+    })();
+    return () => {
+      isCancelled = true;
+    };
+    // Only start once per load; updates from the loop itself must not restart it.
+  }, [isLoading]);
+
+  const visibleEntries = searchLibrary(filterByCampaign(entries, campaignFilter), query);
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!confirm(`Delete the ad for "${entry.params.productName || 'Untitled'}"? This cannot be undone.`)) {
+      return;
+    }
+    await deleteLibraryEntry(entry.id);
+    await refresh();
+  };
+
+  const handleMove = async (entry: LibraryEntry, campaignId: string) => {
+    await setEntryCampaign(entry.id, campaignId || undefined);
+    await refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-5xl w-full p-8 flex flex-col items-center" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold text-white mb-6">Media Library</h2>
+        <div className="w-full mb-6 flex flex-col sm:flex-row gap-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by product, prompt or script..."
+            className="flex-grow bg-gray-900 border border-gray-700 rounded-md p-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <select
+            value={campaignFilter}
+            onChange={(e) => setCampaignFilter(e.target.value)}
+            aria-label="Campaign"
+            className="sm:w-56 bg-gray-900 border border-gray-700 rounded-md p-2 focus:ring-indigo-500 focus:border-indigo-500">
+            <option value="all">All campaigns</option>
+            <option value="none">No campaign</option>
+            {campaigns.map((campaign) => (
+              <option key={campaign.id} value={campaign.id}>
+                {campaign.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="w-full max-h-[60vh] overflow-y-auto pr-2">
+          {isLoading ? (
+            <p className="text-gray-400 text-center py-8">Loading library...</p>
+          ) : visibleEntries.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {visibleEntries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="bg-gray-900 border border-gray-700 rounded-lg overflow-hidden flex flex-col">
+                  <div className="relative">
+                    {posterUrls.has(entry.id) ? (
+                      <img
+                        src={posterUrls.get(entry.id)}
+                        alt={entry.params.productName || 'Untitled'}
+                        className="w-full aspect-video object-cover bg-black"
+                      />
+                    ) : (
+                      <video
+                        src={videoUrls.get(entry.id)}
+                        muted
+                        preload="metadata"
+                        className="w-full aspect-video object-cover bg-black"
+                      />
+                    )}
+                    {entry.params.startFrame && (
+                      <div className="absolute bottom-2 left-2 flex gap-1">
+                        {[entry.params.startFrame, entry.params.endFrame].map(
+                          (frame, index) =>
+                            frame && (
+                              <img
+                                key={index}
+                                src={`data:${frame.file.type};base64,${frame.base64}`}
+                                alt={index === 0 ? 'Start frame' : 'End frame'}
+                                title={`${index === 0 ? 'Start' : 'End'} frame: ${frame.file.name}`}
+                                className="w-12 h-12 object-cover rounded border border-gray-500 bg-black"
+                              />
+                            ),
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="p-3 flex-grow flex flex-col">
+                    <p className="font-semibold text-indigo-300 truncate" title={entry.params.productName}>
+                      {entry.params.productName || 'Untitled'}
+                    </p>
+                    <p className="text-gray-400 text-xs mt-1 line-clamp-2" title={entry.params.prompt}>
+                      {entry.params.prompt || 'No Prompt'}
+                    </p>
+                    <p className="text-gray-500 text-xs mt-2">
+                      {new Date(entry.createdAt).toLocaleString()} ·{' '}
+                      {entry.sourceIds
+                        ? `Edit of ${entry.sourceIds.length} clip${entry.sourceIds.length > 1 ? 's' : ''}`
+                        : `${entry.params.model === VideoModel.VEO_HIGH ? 'High Quality' : 'Fast'}, ${entry.params.resolution}, ${entry.params.aspectRatio}`}
+                    </p>
+                    {campaigns.length > 0 && (
+                      <select
+                        value={entry.campaignId ?? ''}
+                        onChange={(e) => handleMove(entry, e.target.value)}
+                        aria-label="Move to campaign"
+                        className="mt-2 w-full bg-gray-800 border border-gray-700 rounded-md py-1 px-2 text-xs focus:ring-indigo-500 focus:border-indigo-500">
+                        <option value="">No campaign</option>
+                        {campaigns.map((campaign) => (
+                          <option key={campaign.id} value={campaign.id}>
+                            {campaign.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <div className="flex gap-2 mt-3">
+                      <button
+                        onClick={() => onReplay(entry)}
+                        className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs bg-indigo-600 hover:bg-indigo-700 rounded-md font-semibold transition-colors">
+                        <PlayIcon className="w-4 h-4" />
+                        Play
+                      </button>
+                      <button
+                        onClick={() => onReuse(entry)}
+                        className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors">
+                        <ArrowPathIcon className="w-4 h-4" />
+                        Reuse
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        title="Delete"
+                        className="px-2 py-1.5 bg-gray-800 hover:bg-red-900/50 rounded-md transition-colors">
+                        <TrashIcon className="w-4 h-4 text-red-400" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-400 text-center py-8">
+              {entries.length > 0
+                ? 'No videos match your search or campaign.'
+                : 'Your library is empty. Generate an ad to see it here.'}
+            </p>
+          )}
+        </div>
+        {storage && storage.quota > 0 && (
+          <div className="w-full mt-6">
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>Storage used</span>
+              <span>
+                {formatBytes(storage.usage)} of {formatBytes(storage.quota)}
+              </span>
+            </div>
+            <div className="w-full h-2 bg-gray-900 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-500"
+                style={{width: `${Math.min(100, (storage.usage / storage.quota) * 100)}%`}}
+              />
+            </div>
+          </div>
+        )}
+        <div className="mt-8 flex gap-4">
+          <button
+            onClick={onOpenEditor}
+            disabled={entries.length === 0}
+            title="Trim, reorder and join saved clips into one video"
+            className="flex items-center gap-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+            <FilmIcon className="w-5 h-5" />
+            Edit & Combine
+          </button>
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryDialog;
@@ -22,10 +22,21 @@ const loadingMessages = [
 
 interface LoadingIndicatorProps {
   task?: string | null;
+  startedAt?: number | null; // Epoch ms when the run began, for elapsed time
+  onCancel?: () => void;
 }
 
-const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ task }) => {
+// Formats a duration in milliseconds as m:ss.
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ task, startedAt, onCancel }) => {
   const [messageIndex, setMessageIndex] = useState(0);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     const intervalId = setInterval(() => {
@@ -35,6 +46,12 @@ const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ task }) => {
     return () => clearInterval(intervalId);
   }, []);
 
+  useEffect(() => {
+    if (!startedAt) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [startedAt]);
+
   return (
     <div className="flex flex-col items-center justify-center p-12 bg-gray-800/50 rounded-lg border border-gray-700">
       <div className="w-16 h-16 border-4 border-t-transparent border-indigo-500 rounded-full animate-spin"></div>
@@ -42,6 +59,18 @@ const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ task }) => {
       <p className="mt-2 text-gray-400 text-center transition-opacity duration-500 h-6">
         {task || loadingMessages[messageIndex]}
       </p>
+      {startedAt && (
+        <p className="mt-4 text-sm text-gray-500 tabular-nums">
+          Elapsed: {formatElapsed(now - startedAt)}
+        </p>
+      )}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-6 px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useRef, useState} from 'react';
+import {LocalizedAd, VoiceName} from '../types';
+import {
+  LOCALES,
+  buildLocalizationArchive,
+  createLocalizedAds,
+  getLocalizationArchiveName,
+} from '../services/localizationService';
+import {isAbortError} from '../services/operationService';
+import {ArrowPathIcon, DownloadIcon, PlayIcon} from './icons';
+
+interface LocalizationDialogProps {
+  ads: LocalizedAd[];
+  isRunning: boolean;
+  hasVoiceover: boolean; // Whether there is a script or recording to translate
+  isDialogue: boolean; // Dialogues keep their cast, so voices cannot be picked
+  videoUrl: string;
+  productName: string;
+  onStart: (ads: LocalizedAd[]) => void;
+  onRetry: (locale: string) => void;
+  onReview: (locale: string) => void;
+  onClose: () => void;
+}
+
+const statusText: Record<LocalizedAd['status'], string> = {
+  queued: 'Queued',
+  running: 'Working...',
+  done: 'Ready',
+  error: 'Failed',
+};
+
+const LocalizationDialog: React.FC<LocalizationDialogProps> = ({
+  ads,
+  isRunning,
+  hasVoiceover,
+  isDialogue,
+  videoUrl,
+  productName,
+  onStart,
+  onRetry,
+  onReview,
+  onClose,
+}) => {
+  const [selected, setSelected] = useState<string[]>(() => ads.map((ad) => ad.locale));
+  const [voices, setVoices] = useState<Record<string, VoiceName>>({});
+  const [bundleProgress, setBundleProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const finishedCount = ads.filter((ad) => ad.status === 'done').length;
+
+  const toggleLocale = (code: string) =>
+    setSelected((prev) =>
+      prev.includes(code) ? prev.filter((c) => c !== code) : [...prev, code],
+    );
+
+  const handleStart = () => {
+    // Keep finished locales; only new or changed ones need to run again.
+    const toRun = createLocalizedAds(selected)
+      .map((ad) => ({...ad, voiceName: voices[ad.locale] ?? ad.voiceName}))
+      .filter((ad) => {
+        const existing = ads.find((a) => a.locale === ad.locale);
+        return !existing || existing.status !== 'done' || existing.voiceName !== ad.voiceName;
+      });
+    if (toRun.length > 0) onStart(toRun);
+  };
+
+  const handleDownloadBundle = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setError(null);
+    setBundleProgress(0);
+    try {
+      const zip = await buildLocalizationArchive(videoUrl, productName, ads, {
+        signal: controller.signal,
+        onProgress: setBundleProgress,
+      });
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getLocalizationArchiveName(productName);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (bundleError) {
+      if (!isAbortError(bundleError)) {
+        console.error('Failed to build localization bundle:', bundleError);
+        setError('Could not build the bundle. Please try again.');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setBundleProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={handleClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-3xl w-full p-8 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold text-white mb-2 text-center">Localize Ad</h2>
+        <p className="text-sm text-gray-400 text-center mb-6">
+          The voiceover is translated and re-recorded for each market. The picture stays the same.
+        </p>
+        {!hasVoiceover ? (
+          <p className="text-center text-amber-400">
+            This ad has no voiceover to translate. Generate it with a TTS script or a
+            recording to localize it.
+          </p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto space-y-2">
+            {LOCALES.map((locale) => {
+              const ad = ads.find((a) => a.locale === locale.code);
+              const voice = voices[locale.code] ?? ad?.voiceName ?? locale.voiceName;
+              return (
+                <div
+                  key={locale.code}
+                  className="flex flex-wrap items-center gap-3 p-2 bg-gray-900 border border-gray-700 rounded-lg">
+                  <label className="flex items-center gap-2 flex-grow min-w-0 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(locale.code)}
+                      onChange={() => toggleLocale(locale.code)}
+                      disabled={isRunning}
+                      className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+                    />
+                    <span className="truncate">{locale.language}</span>
+                    <span className="text-xs text-gray-500 font-mono">{locale.code}</span>
+                  </label>
+                  {!isDialogue && (
+                    <select
+                      value={voice}
+                      onChange={(e) =>
+                        setVoices((prev) => ({...prev, [locale.code]: e.target.value as VoiceName}))
+                      }
+                      disabled={isRunning}
+                      className="bg-gray-800 border-gray-600 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+                      {Object.values(VoiceName).map((v) => (
+                        <option key={v} value={v}>
+                          {v}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {ad && (
+                    <span
+                      className={`text-xs w-24 text-right ${
+                        ad.status === 'error' ? 'text-red-400' : 'text-gray-400'
+                      }`}
+                      title={ad.error}>
+                      {ad.status === 'running' ? ad.task ?? statusText.running : statusText[ad.status]}
+                    </span>
+                  )}
+                  {ad?.status === 'done' && (
+                    <button
+                      onClick={() => onReview(locale.code)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors">
+                      <PlayIcon className="w-3 h-3" /> Review
+                    </button>
+                  )}
+                  {ad?.status === 'error' && !isRunning && (
+                    <button
+                      onClick={() => onRetry(locale.code)}
+                      title={ad.error}
+                      className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+                      <ArrowPathIcon className="w-3 h-3" /> Retry
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {error && <p className="mt-4 text-sm text-center text-red-400">{error}</p>}
+        <div className="mt-6 flex flex-wrap justify-center gap-4">
+          {hasVoiceover && (
+            <button
+              onClick={handleStart}
+              disabled={isRunning || selected.length === 0}
+              className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors disabled:bg-gray-600 disabled:cursor-wait">
+              {isRunning ? 'Localizing...' : `Localize ${selected.length} Language(s)`}
+            </button>
+          )}
+          {finishedCount > 0 && (
+            <button
+              onClick={handleDownloadBundle}
+              disabled={isRunning || bundleProgress !== null}
+              className="flex items-center gap-2 px-6 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-semibold transition-colors disabled:bg-gray-600 disabled:cursor-wait">
+              <DownloadIcon className="w-5 h-5" />
+              {bundleProgress !== null
+                ? `Rendering... ${Math.round(bundleProgress * 100)}%`
+                : `Download Bundle (${finishedCount})`}
+            </button>
+          )}
+          <button
+            onClick={handleClose}
+            className="px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors">
+            {bundleProgress !== null ? 'Cancel' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocalizationDialog;
@@ -0,0 +1,304 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {OverlayAnimation, OverlayElement, OverlayFont} from '../types';
+import {
+  OVERLAY_ANIMATIONS,
+  OVERLAY_FONTS,
+  createOverlayElement,
+} from '../services/overlayService';
+import {ArrowPathIcon, PlusIcon, TrashIcon} from './icons';
+
+interface OverlayPanelProps {
+  elements: OverlayElement[];
+  onElementsChange: (elements: OverlayElement[]) => void;
+  enabled: boolean; // Shown in the preview and burned into downloads
+  onEnabledChange: (enabled: boolean) => void;
+  onReset: () => void; // Restores the default end card
+  videoDuration: number;
+}
+
+const sizes = [
+  {label: 'XS', value: 0.035},
+  {label: 'S', value: 0.045},
+  {label: 'M', value: 0.07},
+  {label: 'L', value: 0.1},
+  {label: 'XL', value: 0.14},
+];
+
+const fileToDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+const selectClassName =
+  'mt-1 block w-full bg-gray-800 border-gray-600 rounded-md py-1.5 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const OverlayPanel: React.FC<OverlayPanelProps> = ({
+  elements,
+  onElementsChange,
+  enabled,
+  onEnabledChange,
+  onReset,
+  videoDuration,
+}) => {
+  const updateElement = (id: string, changes: Partial<OverlayElement>) =>
+    onElementsChange(elements.map((element) => (element.id === id ? {...element, ...changes} : element)));
+
+  const removeElement = (id: string) =>
+    onElementsChange(elements.filter((element) => element.id !== id));
+
+  const addElement = (kind: OverlayElement['kind']) =>
+    onElementsChange([
+      ...elements,
+      createOverlayElement({
+        kind,
+        label: kind === 'logo' ? 'Logo' : 'Text',
+        size: kind === 'logo' ? 0.14 : 0.07,
+        end: videoDuration,
+      }),
+    ]);
+
+  const handleLogoChange = async (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      updateElement(id, {logo: await fileToDataUrl(file)});
+    }
+  };
+
+  // Keeps the range inside the video and at least a tenth of a second long.
+  const handleTime = (element: OverlayElement, field: 'start' | 'end', value: number) => {
+    const time = Math.min(videoDuration, Math.max(0, value || 0));
+    updateElement(
+      element.id,
+      field === 'start'
+        ? {start: Math.min(time, element.end - 0.1)}
+        : {end: Math.max(time, element.start + 0.1)},
+    );
+  };
+
+  return (
+    <div className="w-full max-w-2xl space-y-4 p-4 bg-gray-900/50 border border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-medium text-gray-200">End Card & Overlays</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+          />
+          Show and include in downloads
+        </label>
+      </div>
+      {!enabled && (
+        <p className="text-sm text-gray-400">
+          Add a closing card with your logo, price and call to action, or your own text.
+        </p>
+      )}
+      {enabled && (
+        <>
+          {elements.map((element) => (
+            <div key={element.id} className="p-3 bg-gray-800/60 border border-gray-700 rounded-md space-y-3">
+              <div className="flex items-center gap-3">
+                <input
+                  type="text"
+                  value={element.label}
+                  onChange={(e) => updateElement(element.id, {label: e.target.value})}
+                  aria-label="Element name"
+                  className="w-32 bg-transparent border-0 border-b border-gray-700 p-0 pb-1 text-sm font-semibold text-indigo-300 focus:ring-0 focus:border-indigo-500"
+                />
+                {element.kind === 'text' ? (
+                  <input
+                    type="text"
+                    value={element.text}
+                    onChange={(e) => updateElement(element.id, {text: e.target.value})}
+                    placeholder={`${element.label} text`}
+                    className="flex-grow bg-gray-800 border-gray-600 rounded-md py-1.5 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                ) : (
+                  <div className="flex-grow flex items-center gap-3">
+                    {element.logo && (
+                      <img src={element.logo} alt="Logo" className="w-8 h-8 object-contain rounded bg-white/10" />
+                    )}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => handleLogoChange(element.id, e)}
+                      className="text-xs text-gray-400"
+                    />
+                  </div>
+                )}
+                <button type="button" onClick={() => removeElement(element.id)} title="Remove">
+                  <TrashIcon className="w-4 h-4 text-red-400 hover:text-red-300" />
+                </button>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <label className="text-sm text-gray-400">
+                  Across {Math.round(element.x * 100)}%
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={element.x}
+                    onChange={(e) => updateElement(element.id, {x: Number(e.target.value)})}
+                    className="mt-2 block w-full accent-indigo-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-400">
+                  Down {Math.round(element.y * 100)}%
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={element.y}
+                    onChange={(e) => updateElement(element.id, {y: Number(e.target.value)})}
+                    className="mt-2 block w-full accent-indigo-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-400">
+                  Size
+                  <select
+                    value={element.size}
+                    onChange={(e) => updateElement(element.id, {size: Number(e.target.value)})}
+                    className={selectClassName}>
+                    {/* Keep a custom size selectable when it is not a preset. */}
+                    {!sizes.some(({value}) => value === element.size) && (
+                      <option value={element.size}>Custom</option>
+                    )}
+                    {sizes.map(({label, value}) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-400">
+                  Entrance
+                  <select
+                    value={element.animation}
+                    onChange={(e) =>
+                      updateElement(element.id, {animation: e.target.value as OverlayAnimation})
+                    }
+                    className={selectClassName}>
+                    {OVERLAY_ANIMATIONS.map(({value, label}) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {element.kind === 'text' && (
+                  <>
+                    <label className="text-sm text-gray-400">
+                      Font
+                      <select
+                        value={element.font}
+                        onChange={(e) => updateElement(element.id, {font: e.target.value as OverlayFont})}
+                        className={selectClassName}>
+                        {OVERLAY_FONTS.map(({value, label}) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className="text-sm text-gray-400">
+                      Colors
+                      <div className="mt-1 flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={element.color}
+                          onChange={(e) => updateElement(element.id, {color: e.target.value})}
+                          title="Text color"
+                          className="w-8 h-8 bg-transparent"
+                        />
+                        <input
+                          type="color"
+                          value={element.background === 'transparent' ? '#000000' : element.background}
+                          onChange={(e) => updateElement(element.id, {background: e.target.value})}
+                          disabled={element.background === 'transparent'}
+                          title="Box color"
+                          className="w-8 h-8 bg-transparent disabled:opacity-30"
+                        />
+                        <label className="flex items-center gap-1 text-xs">
+                          <input
+                            type="checkbox"
+                            checked={element.background !== 'transparent'}
+                            onChange={(e) =>
+                              updateElement(element.id, {
+                                background: e.target.checked ? '#000000' : 'transparent',
+                              })
+                            }
+                            className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+                          />
+                          Box
+                        </label>
+                      </div>
+                    </div>
+                  </>
+                )}
+                <label className="text-sm text-gray-400">
+                  From (s)
+                  <input
+                    type="number"
+                    min={0}
+                    max={videoDuration}
+                    step={0.1}
+                    value={Number(element.start.toFixed(2))}
+                    onChange={(e) => handleTime(element, 'start', Number(e.target.value))}
+                    className={selectClassName}
+                  />
+                </label>
+                <label className="text-sm text-gray-400">
+                  To (s)
+                  <input
+                    type="number"
+                    min={0}
+                    max={videoDuration}
+                    step={0.1}
+                    value={Number(element.end.toFixed(2))}
+                    onChange={(e) => handleTime(element, 'end', Number(e.target.value))}
+                    className={selectClassName}
+                  />
+                </label>
+              </div>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => addElement('text')}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+              <PlusIcon className="w-3 h-3" />
+              Text
+            </button>
+            <button
+              type="button"
+              onClick={() => addElement('logo')}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+              <PlusIcon className="w-3 h-3" />
+              Logo
+            </button>
+            <button
+              type="button"
+              onClick={onReset}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+              <ArrowPathIcon className="w-3 h-3" />
+              Reset End Card
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OverlayPanel;
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef} from 'react';
+import {OverlayElement} from '../types';
+import {drawOverlays, loadOverlayImages} from '../services/overlayService';
+
+interface OverlayPreviewProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  elements: OverlayElement[];
+}
+
+// A canvas laid over the video that draws the overlays at the video's current
+// time, using the same code as the render.
+const OverlayPreview: React.FC<OverlayPreviewProps> = ({videoRef, elements}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    let frameHandle = 0;
+    let images = new Map<string, HTMLImageElement>();
+    loadOverlayImages(elements).then((loaded) => {
+      images = loaded;
+    });
+
+    const draw = () => {
+      if (isCancelled) return;
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && video && ctx && video.videoWidth) {
+        // Match the video's own resolution so sizes agree with the render.
+        if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
+        }
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        drawOverlays(ctx, elements, video.currentTime, images);
+      }
+      frameHandle = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => {
+      isCancelled = true;
+      cancelAnimationFrame(frameHandle);
+    };
+  }, [videoRef, elements]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+    />
+  );
+};
+
+export default OverlayPreview;
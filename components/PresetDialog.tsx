@@ -2,62 +2,413 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { Preset } from '../types';
+import React, {useRef, useState} from 'react';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  Preset,
+  Resolution,
+  VideoModel,
+  VoiceName,
+} from '../types';
+import {
+  PRESET_VARIABLES,
+  createPreset,
+  createPresetFromParams,
+  deletePreset,
+  exportPresets,
+  findTemplateVariables,
+  getPresetTags,
+  getPresets,
+  importPresets,
+  savePreset,
+} from '../services/presetService';
+import {DownloadIcon, PlusIcon} from './icons';
 
-const presets: Preset[] = [
-  {
-    title: 'Humorous Unboxing',
-    description: 'A funny, relatable take on opening a new product.',
-    prompt: 'A humorous, fast-paced unboxing video. The person is overly excited and fumbles with the package. Close-ups on the product\'s best features, with funny on-screen text. Bright, energetic lighting.',
-  },
+interface PresetDialogProps {
+  currentParams: GenerateVideoParams; // Offered as the starting point for a new preset
+  onSelect: (preset: Preset) => void;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'mt-1 w-full bg-gray-900 border border-gray-700 rounded-md p-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm';
+
+// Settings a preset can leave alone; an empty value keeps the form's setting.
+const settingFields: {
+  key: 'model' | 'resolution' | 'aspectRatio' | 'voiceName';
+  label: string;
+  options: {value: string; label: string}[];
+}[] = [
   {
-    title: 'Cinematic Product Showcase',
-    description: 'A dramatic, high-quality look at your product.',
-    prompt: 'A cinematic, slow-motion video showcasing the product on a rotating pedestal. Dramatic lighting with dark shadows. Epic, inspiring orchestral music. No people, just the product as the hero.',
+    key: 'model',
+    label: 'Model',
+    options: [
+      {value: VideoModel.VEO_HIGH, label: 'High Quality'},
+      {value: VideoModel.VEO_FAST, label: 'Fast'},
+    ],
   },
   {
-    title: 'Viral TikTok Trend',
-    description: 'Jump on a popular trend with your product.',
-    prompt: 'A short video that mimics a popular TikTok dance or audio trend, but the product is seamlessly integrated as a main character. Use upbeat, trending audio style. Shot vertically.',
+    key: 'resolution',
+    label: 'Resolution',
+    options: [
+      {value: Resolution.P720, label: '720p'},
+      {value: Resolution.P1080, label: '1080p'},
+    ],
   },
   {
-    title: 'Problem/Solution Demo',
-    description: 'Show how your product solves a common problem.',
-    prompt: 'A split-screen video. On the left, a person struggles with a common problem in black and white. On the right, a person uses the product to solve the problem effortlessly, in vibrant color. Satisfying and clear.',
+    key: 'aspectRatio',
+    label: 'Aspect Ratio',
+    options: [
+      {value: AspectRatio.PORTRAIT, label: '9:16 (Portrait)'},
+      {value: AspectRatio.LANDSCAPE, label: '16:9 (Landscape)'},
+    ],
   },
   {
-    title: 'Aesthetic "Day in the Life"',
-    description: 'Fit your product into a desirable lifestyle.',
-    prompt: 'An aesthetic "day in the life" vlog-style video. The product is used naturally in beautiful, clean settings. Soft, natural lighting. Lo-fi, chill-hop background music. Focus on the feeling and lifestyle.',
+    key: 'voiceName',
+    label: 'Voice',
+    options: Object.values(VoiceName).map((v) => ({value: v, label: v})),
   },
 ];
 
-interface PresetDialogProps {
-  onSelect: (prompt: string) => void;
-  onClose: () => void;
-}
+const PresetDialog: React.FC<PresetDialogProps> = ({currentParams, onSelect, onClose}) => {
+  const [presets, setPresets] = useState<Preset[]>(getPresets);
+  const [draft, setDraft] = useState<Preset | null>(null);
+  const [search, setSearch] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [message, setMessage] = useState<{text: string; isError: boolean} | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+
+  const refresh = () => setPresets(getPresets());
+
+  const updateDraft = (patch: Partial<Preset>) =>
+    setDraft((prev) => (prev ? {...prev, ...patch} : prev));
+
+  const query = search.trim().toLowerCase();
+  const visiblePresets = presets.filter(
+    (preset) =>
+      (!activeTag || preset.tags.includes(activeTag)) &&
+      (!query ||
+        `${preset.title} ${preset.description} ${preset.tags.join(' ')}`
+          .toLowerCase()
+          .includes(query)),
+  );
+  const userPresets = presets.filter((p) => !p.builtIn);
+  const knownVariables = PRESET_VARIABLES.map((v) => v.name);
+  const unknownVariables = draft
+    ? findTemplateVariables(`${draft.prompt} ${draft.scriptTemplate ?? ''}`).filter(
+        (name) => !knownVariables.includes(name),
+      )
+    : [];
+
+  // Saves the draft with its tags cleaned up.
+  const handleSave = (): Preset | null => {
+    if (!draft) return null;
+    const preset = {
+      ...draft,
+      title: draft.title.trim() || 'Untitled Preset',
+      tags: [...new Set(draft.tags.map((t) => t.trim().toLowerCase()).filter(Boolean))],
+      scriptTemplate: draft.scriptTemplate?.trim() || undefined,
+    };
+    try {
+      savePreset(preset);
+      refresh();
+      setDraft(preset);
+      setMessage({text: `Saved "${preset.title}".`, isError: false});
+      return preset;
+    } catch (error) {
+      setMessage({text: (error as Error).message, isError: true});
+      return null;
+    }
+  };
+
+  const handleDelete = () => {
+    if (!draft || !confirm(`Delete the preset "${draft.title}"?`)) return;
+    deletePreset(draft.id);
+    refresh();
+    setDraft(null);
+  };
+
+  const handleDuplicate = (preset: Preset) => {
+    const {id, builtIn, ...rest} = preset;
+    setDraft({...createPreset(), ...rest, title: `${preset.title} (copy)`});
+  };
+
+  // Inserts a variable at the cursor in the prompt template.
+  const insertVariable = (name: string) => {
+    if (!draft) return;
+    const textarea = promptRef.current;
+    const position = textarea?.selectionStart ?? draft.prompt.length;
+    const placeholder = `{{${name}}}`;
+    updateDraft({
+      prompt: draft.prompt.slice(0, position) + placeholder + draft.prompt.slice(position),
+    });
+    textarea?.focus();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(userPresets)], {type: 'application/json'});
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'adspark-presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importPresets(await file.text());
+      refresh();
+      setDraft(imported[0]);
+      setMessage({text: `Imported ${imported.length} preset(s).`, isError: false});
+    } catch (error) {
+      setMessage({text: (error as Error).message, isError: true});
+    }
+  };
+
+  const isSaved = !!draft && presets.some((p) => p.id === draft.id);
 
-const PresetDialog: React.FC<PresetDialogProps> = ({ onSelect, onClose }) => {
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
-      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-2xl w-full p-8 flex flex-col items-center" onClick={(e) => e.stopPropagation()}>
-        <h2 className="text-3xl font-bold text-white mb-6">Choose a Style Preset</h2>
-        <div className="w-full space-y-4">
-          {presets.map((preset) => (
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-4xl w-full p-8 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">Style Presets</h2>
+        <div className="flex flex-col md:flex-row gap-6 max-h-[65vh] overflow-y-auto">
+          {/* Preset list */}
+          <div className="md:w-64 flex-shrink-0 space-y-2">
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search presets"
+              className={inputClassName}
+            />
+            <div className="flex flex-wrap gap-1">
+              {getPresetTags(presets).map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                  className={`px-2 py-0.5 text-xs rounded-full transition-colors ${
+                    activeTag === tag
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}>
+                  {tag}
+                </button>
+              ))}
+            </div>
+            {visiblePresets.map((preset) => (
+              <button
+                key={preset.id}
+                onClick={() => setDraft(preset)}
+                className={`w-full p-2 rounded-lg border text-left transition-colors ${
+                  draft?.id === preset.id
+                    ? 'bg-indigo-900/50 border-indigo-500'
+                    : 'bg-gray-900 border-gray-700 hover:bg-gray-700'
+                }`}>
+                <span className="block truncate text-sm text-indigo-300">{preset.title}</span>
+                <span className="block truncate text-xs text-gray-500">
+                  {preset.builtIn ? 'Built-in' : preset.tags.join(', ') || 'No tags'}
+                </span>
+              </button>
+            ))}
+            {visiblePresets.length === 0 && (
+              <p className="text-xs text-gray-500 text-center py-2">No presets match.</p>
+            )}
             <button
-              key={preset.title}
-              onClick={() => onSelect(preset.prompt)}
-              className="w-full text-left p-4 bg-gray-900 hover:bg-indigo-900/50 border border-gray-700 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            >
-              <h3 className="font-semibold text-lg text-indigo-300">{preset.title}</h3>
-              <p className="text-gray-400 text-sm">{preset.description}</p>
+              onClick={() => setDraft(createPreset())}
+              className="w-full flex items-center justify-center gap-1.5 px-3 py-2 text-xs bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors">
+              <PlusIcon className="w-4 h-4" />
+              New Preset
             </button>
-          ))}
+            <button
+              onClick={() => setDraft(createPresetFromParams(currentParams))}
+              className="w-full px-3 py-2 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+              New from Current Form
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex-1 px-3 py-2 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+                Import
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={userPresets.length === 0}
+                title="Exports your own presets as a JSON pack."
+                className="flex-1 flex items-center justify-center gap-1 px-3 py-2 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50">
+                <DownloadIcon className="w-3 h-3" />
+                Export
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImport}
+              />
+            </div>
+          </div>
+
+          {/* Preset details */}
+          {draft?.builtIn ? (
+            <div className="flex-grow space-y-4">
+              <div>
+                <h3 className="font-semibold text-lg text-indigo-300">{draft.title}</h3>
+                <p className="text-gray-400 text-sm">{draft.description}</p>
+              </div>
+              <p className="text-sm bg-gray-900 rounded-md p-3 text-gray-300">{draft.prompt}</p>
+              <div className="flex flex-wrap gap-2 pt-2">
+                <button
+                  onClick={() => onSelect(draft)}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-semibold transition-colors">
+                  Use
+                </button>
+                <button
+                  onClick={() => handleDuplicate(draft)}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+                  Duplicate & Edit
+                </button>
+              </div>
+            </div>
+          ) : draft ? (
+            <div className="flex-grow space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="presetTitle" className="block text-sm font-medium text-gray-300">Title</label>
+                  <input
+                    id="presetTitle"
+                    value={draft.title}
+                    onChange={(e) => updateDraft({title: e.target.value})}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="presetTags" className="block text-sm font-medium text-gray-300">
+                    Tags (comma separated)
+                  </label>
+                  <input
+                    id="presetTags"
+                    value={draft.tags.join(', ')}
+                    onChange={(e) =>
+                      updateDraft({tags: e.target.value.split(',').map((t) => t.trimStart())})
+                    }
+                    placeholder="e.g., social, holiday"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="presetDescription" className="block text-sm font-medium text-gray-300">Description</label>
+                <input
+                  id="presetDescription"
+                  value={draft.description}
+                  onChange={(e) => updateDraft({description: e.target.value})}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="presetPrompt" className="block text-sm font-medium text-gray-300">Prompt</label>
+                <textarea
+                  id="presetPrompt"
+                  ref={promptRef}
+                  value={draft.prompt}
+                  onChange={(e) => updateDraft({prompt: e.target.value})}
+                  rows={4}
+                  className={inputClassName}
+                />
+                <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-gray-500">
+                  Insert:
+                  {PRESET_VARIABLES.map(({name, description}) => (
+                    <button
+                      key={name}
+                      type="button"
+                      onClick={() => insertVariable(name)}
+                      title={description}
+                      className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 font-mono">
+                      {`{{${name}}}`}
+                    </button>
+                  ))}
+                </div>
+                {unknownVariables.length > 0 && (
+                  <p className="mt-1 text-xs text-amber-400">
+                    Unknown variables will be left as written:{' '}
+                    {unknownVariables.map((name) => `{{${name}}}`).join(', ')}.
+                  </p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {settingFields.map(({key, label, options}) => (
+                  <div key={key}>
+                    <label htmlFor={`preset-${key}`} className="block text-sm font-medium text-gray-300">{label}</label>
+                    <select
+                      id={`preset-${key}`}
+                      value={draft[key] ?? ''}
+                      onChange={(e) => updateDraft({[key]: e.target.value || undefined})}
+                      className={inputClassName}>
+                      <option value="">Keep current</option>
+                      {options.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <label htmlFor="presetScript" className="block text-sm font-medium text-gray-300">
+                  Voiceover Script Template (optional)
+                </label>
+                <textarea
+                  id="presetScript"
+                  value={draft.scriptTemplate ?? ''}
+                  onChange={(e) => updateDraft({scriptTemplate: e.target.value})}
+                  rows={2}
+                  placeholder="e.g., Meet {{productName}}. {{productDescription}}"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2 pt-2">
+                <button
+                  onClick={handleSave}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                  Save
+                </button>
+                <button
+                  onClick={() => {
+                    const preset = handleSave();
+                    if (preset) onSelect(preset);
+                  }}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-semibold transition-colors">
+                  Save & Use
+                </button>
+                {isSaved && (
+                  <button
+                    onClick={handleDelete}
+                    className="px-4 py-2 bg-gray-700 hover:bg-red-900/60 rounded-lg transition-colors">
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="flex-grow text-gray-400 text-center py-8">
+              Pick a preset to use it, or create your own from scratch or from the current form.
+            </p>
+          )}
         </div>
+        {message && (
+          <p className={`mt-4 text-sm text-center ${message.isError ? 'text-red-400' : 'text-green-400'}`}>
+            {message.text}
+          </p>
+        )}
         <button
           onClick={onClose}
-          className="mt-8 px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors"
+          className="mt-6 self-center px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors"
         >
           Close
         </button>
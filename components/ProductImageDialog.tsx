@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  BrandProfile,
+  GenerationProvider,
+  ImageFile,
+  ProductImageStyle,
+} from '../types';
+import {describeError} from '../services/errorService';
+import {REFERENCE_IMAGE_ASPECT_RATIO} from '../services/modelConstraints';
+import {PRODUCT_IMAGE_COUNT, PRODUCT_IMAGE_STYLES} from '../services/productImageService';
+import {SparklesIcon} from './icons';
+
+interface ProductImageDialogProps {
+  productName: string;
+  productDescription: string;
+  brand?: BrandProfile;
+  sourceImages: ImageFile[]; // Current reference images, which can be restyled
+  maxSelection: number; // Free reference image slots
+  provider: GenerationProvider;
+  onSelect: (images: ImageFile[]) => void;
+  onClose: () => void;
+}
+
+// One cell of the results grid.
+interface ShotResult {
+  status: 'running' | 'done' | 'error';
+  image?: ImageFile;
+  error?: string;
+}
+
+const inputClassName =
+  'mt-1 block w-full bg-gray-900 border border-gray-700 rounded-md p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500';
+
+const ProductImageDialog: React.FC<ProductImageDialogProps> = ({
+  productName,
+  productDescription,
+  brand,
+  sourceImages,
+  maxSelection,
+  provider,
+  onSelect,
+  onClose,
+}) => {
+  const [style, setStyle] = useState<ProductImageStyle>(
+    sourceImages.length > 0 ? 'cutout' : 'studio',
+  );
+  const [sourceIndex, setSourceIndex] = useState(sourceImages.length > 0 ? 0 : -1);
+  const [notes, setNotes] = useState('');
+  const [results, setResults] = useState<ShotResult[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  // Bumped on every run and on close, so late results from an old run are dropped.
+  const runRef = useRef(0);
+
+  useEffect(() => () => {
+    runRef.current++;
+  }, []);
+
+  const isGenerating = results.some((result) => result.status === 'running');
+  const canGenerate = !!productName.trim() && !!productDescription.trim();
+
+  const handleGenerate = () => {
+    const run = ++runRef.current;
+    setSelected([]);
+    setResults(Array.from({length: PRODUCT_IMAGE_COUNT}, () => ({status: 'running'})));
+    const updateResult = (index: number, result: ShotResult) => {
+      if (run !== runRef.current) return;
+      setResults((prev) => prev.map((r, i) => (i === index ? result : r)));
+    };
+    for (let variation = 0; variation < PRODUCT_IMAGE_COUNT; variation++) {
+      provider
+        .generateProductImage(
+          productName,
+          productDescription,
+          {
+            style,
+            aspectRatio: REFERENCE_IMAGE_ASPECT_RATIO,
+            sourceImage: sourceImages[sourceIndex],
+            notes,
+            variation,
+          },
+          brand,
+        )
+        .then((image) => updateResult(variation, {status: 'done', image}))
+        .catch((error) => {
+          console.error('Failed to generate product image:', error);
+          updateResult(variation, {status: 'error', error: describeError(error)});
+        });
+    }
+  };
+
+  const toggleSelected = (index: number) =>
+    setSelected((prev) =>
+      prev.includes(index)
+        ? prev.filter((i) => i !== index)
+        : prev.length < maxSelection
+          ? [...prev, index]
+          : prev,
+    );
+
+  const handleAdd = () => {
+    onSelect(selected.map((index) => results[index].image!));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-3xl w-full p-8 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold text-white mb-2 text-center">Generate Product Images</h2>
+        <p className="text-sm text-gray-400 text-center mb-6">
+          Create product shots from the name and description, or restyle a photo you uploaded.
+          Picked images are added to the reference images.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="text-sm text-gray-400">
+            Style
+            <select
+              value={style}
+              onChange={(e) => setStyle(e.target.value as ProductImageStyle)}
+              className={inputClassName}>
+              {PRODUCT_IMAGE_STYLES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-400">
+            Start from
+            <select
+              value={sourceIndex}
+              onChange={(e) => setSourceIndex(Number(e.target.value))}
+              className={inputClassName}>
+              <option value={-1}>Nothing (create from the description)</option>
+              {sourceImages.map((image, index) => (
+                <option key={`${image.file.name}-${index}`} value={index}>
+                  Restyle {image.file.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-400 sm:col-span-2">
+            Extra direction (optional)
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. on a marble countertop next to a window"
+              className={inputClassName}
+            />
+          </label>
+        </div>
+        {!canGenerate && (
+          <p className="mt-4 text-sm text-center text-amber-400">
+            Enter a product name and description first.
+          </p>
+        )}
+        {results.length > 0 && (
+          <div className="mt-6 grid grid-cols-2 gap-3 max-h-[50vh] overflow-y-auto">
+            {results.map((result, index) => {
+              const isSelected = selected.includes(index);
+              return result.status === 'done' ? (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => toggleSelected(index)}
+                  className={`relative rounded-lg overflow-hidden border-2 transition-colors ${
+                    isSelected ? 'border-indigo-500' : 'border-transparent hover:border-gray-500'
+                  }`}>
+                  <img
+                    src={`data:${result.image!.file.type};base64,${result.image!.base64}`}
+                    alt={`Option ${index + 1}`}
+                    className="w-full aspect-video object-cover bg-black"
+                  />
+                  {isSelected && (
+                    <span className="absolute top-2 right-2 px-2 py-0.5 text-xs bg-indigo-600 rounded-md font-semibold">
+                      Selected
+                    </span>
+                  )}
+                </button>
+              ) : (
+                <div
+                  key={index}
+                  title={result.error}
+                  className={`flex items-center justify-center aspect-video rounded-lg border border-gray-700 bg-gray-900 text-sm text-center p-2 ${
+                    result.status === 'error' ? 'text-red-400' : 'text-gray-500 animate-pulse'
+                  }`}>
+                  {result.status === 'error' ? 'Failed' : 'Generating...'}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {results.length > 0 && maxSelection > 0 && (
+          <p className="mt-2 text-xs text-gray-500 text-center">
+            Pick up to {maxSelection} image{maxSelection > 1 ? 's' : ''}.
+          </p>
+        )}
+        {maxSelection === 0 && (
+          <p className="mt-4 text-sm text-center text-amber-400">
+            All reference image slots are in use. Remove one to add a generated image.
+          </p>
+        )}
+        <div className="mt-6 flex flex-wrap justify-center gap-4">
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={!canGenerate || isGenerating}
+            className="flex items-center gap-2 px-6 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg font-semibold transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+            <SparklesIcon className="w-5 h-5" />
+            {isGenerating ? 'Generating...' : results.length > 0 ? 'Generate Again' : 'Generate'}
+          </button>
+          {selected.length > 0 && (
+            <button
+              type="button"
+              onClick={handleAdd}
+              className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+              Add {selected.length} to References
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductImageDialog;
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {
+  GenerationProvider,
+  PromptContext,
+  PromptSuggestion,
+  PromptSuggestionKind,
+} from '../types';
+import {describeError} from '../services/errorService';
+import {
+  applySuggestion,
+  diffWords,
+  lintPrompt,
+  mergeSuggestions,
+} from '../services/promptAssistService';
+import {WandIcon} from './icons';
+
+interface PromptAssistPanelProps {
+  prompt: string;
+  context: PromptContext;
+  provider: GenerationProvider;
+  onPromptChange: (prompt: string) => void;
+}
+
+type SuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+const kindLabels: Record<PromptSuggestionKind, {label: string; className: string}> = {
+  enhance: {label: 'Enhance', className: 'bg-indigo-600/30 text-indigo-300'},
+  conflict: {label: 'Conflict', className: 'bg-amber-600/30 text-amber-300'},
+  policy: {label: 'Policy', className: 'bg-red-600/30 text-red-300'},
+  aspect: {label: 'Aspect ratio', className: 'bg-sky-600/30 text-sky-300'},
+};
+
+const SuggestionDiff: React.FC<{before: string; after: string}> = ({before, after}) => (
+  <p className="text-sm bg-gray-900 rounded-md p-2 whitespace-pre-wrap">
+    {diffWords(before, after).map((part, index) =>
+      part.type === 'same' ? (
+        <span key={index} className="text-gray-300">
+          {part.text}
+        </span>
+      ) : part.type === 'removed' ? (
+        <del key={index} className="bg-red-900/40 text-red-300">
+          {part.text}
+        </del>
+      ) : (
+        <ins key={index} className="bg-green-900/40 text-green-300 no-underline">
+          {part.text}
+        </ins>
+      ),
+    )}
+  </p>
+);
+
+const PromptAssistPanel: React.FC<PromptAssistPanelProps> = ({
+  prompt,
+  context,
+  provider,
+  onPromptChange,
+}) => {
+  const [suggestions, setSuggestions] = useState<PromptSuggestion[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, SuggestionStatus>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasRun, setHasRun] = useState(false);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    const local = lintPrompt(prompt, context.aspectRatio);
+    try {
+      const remote = await provider.assistPrompt(prompt, context);
+      setSuggestions(mergeSuggestions(remote, local));
+    } catch (runError) {
+      console.error('Prompt assist failed:', runError);
+      // The local checks still help when the model is unavailable.
+      setSuggestions(local);
+      setError(`Could not enhance the prompt. ${describeError(runError)}`);
+    } finally {
+      setStatuses({});
+      setHasRun(true);
+      setIsRunning(false);
+    }
+  };
+
+  const handleAccept = (suggestion: PromptSuggestion) => {
+    const updated = applySuggestion(prompt, suggestion);
+    if (updated === null) return;
+    onPromptChange(updated);
+    setStatuses((prev) => ({...prev, [suggestion.id]: 'accepted'}));
+  };
+
+  const handleReject = (suggestion: PromptSuggestion) => {
+    setStatuses((prev) => ({...prev, [suggestion.id]: 'rejected'}));
+  };
+
+  const pending = suggestions.filter((s) => (statuses[s.id] ?? 'pending') === 'pending');
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-900/50 border border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-400">
+          Expands your idea into shot, lighting, camera and audio direction, and checks
+          for conflicts, likely policy blocks and framing that does not suit{' '}
+          {context.aspectRatio}.
+        </p>
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={isRunning || !prompt.trim()}
+          className="flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-700 rounded-md font-semibold transition-colors disabled:bg-gray-600">
+          {isRunning ? (
+            '...'
+          ) : (
+            <>
+              <WandIcon className="w-4 h-4" /> {hasRun ? 'Check again' : 'Check prompt'}
+            </>
+          )}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {hasRun && !isRunning && pending.length === 0 && (
+        <p className="text-xs text-green-400">No open suggestions.</p>
+      )}
+      <ul className="space-y-3">
+        {pending.map((suggestion) => {
+          const {label, className} = kindLabels[suggestion.kind];
+          const isStale = applySuggestion(prompt, suggestion) === null;
+          return (
+            <li key={suggestion.id} className="space-y-2 p-3 bg-gray-800 rounded-md">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <span className={`text-xs font-semibold px-2 py-0.5 rounded ${className}`}>
+                    {label}
+                  </span>
+                  <p className="mt-1 text-sm font-medium text-gray-200">{suggestion.title}</p>
+                  <p className="text-xs text-gray-400">{suggestion.explanation}</p>
+                </div>
+                <div className="flex flex-shrink-0 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleAccept(suggestion)}
+                    disabled={isStale}
+                    title={isStale ? 'The prompt has changed since this was suggested.' : undefined}
+                    className="px-3 py-1 text-xs bg-green-700 hover:bg-green-600 rounded-md font-semibold transition-colors disabled:opacity-50">
+                    Accept
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleReject(suggestion)}
+                    className="px-3 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+                    Reject
+                  </button>
+                </div>
+              </div>
+              <SuggestionDiff before={suggestion.before} after={suggestion.after} />
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default PromptAssistPanel;
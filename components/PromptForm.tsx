@@ -2,27 +2,78 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useState, useEffect} from 'react';
+import React, {useState, useEffect, useRef} from 'react';
 import {
   AspectRatio,
+  BatchOptions,
+  BrandProfile,
+  Campaign,
   GenerateVideoParams,
+  GenerationProvider,
   ImageFile,
+  Preset,
   Resolution,
-  StorableParams,
   VideoModel,
   VoiceName,
 } from '../types';
 import {
   BookOpenIcon,
-  ClockIcon,
+  FilmIcon,
   SparklesIcon,
-  TrashIcon,
   WandIcon,
 } from './icons';
 import AudioRecorder from './AudioRecorder';
+import BatchSettings from './BatchSettings';
+import BrandKitDialog from './BrandKitDialog';
+import CampaignDialog from './CampaignDialog';
+import DialogueEditor from './DialogueEditor';
+import FrameImageSlot from './FrameImageSlot';
 import PresetDialog from './PresetDialog';
-import HistoryDialog from './HistoryDialog';
-import {getHistory} from '../services/historyService';
+import ProductImageDialog from './ProductImageDialog';
+import PromptAssistPanel from './PromptAssistPanel';
+import ReferenceImageList from './ReferenceImageList';
+import ScriptGenerator from './ScriptGenerator';
+import StoryboardEditor from './StoryboardEditor';
+import {buildVariants} from '../services/batchService';
+import {
+  applyBrandDefaults,
+  findBannedWords,
+  getBrandProfiles,
+  getSelectedBrand,
+  setSelectedBrandId,
+} from '../services/brandKitService';
+import {
+  applyCampaign,
+  getActiveCampaign,
+  getCampaigns,
+  setActiveCampaignId,
+} from '../services/campaignService';
+import {createDefaultSpeakers, validateDialogue} from '../services/dialogueService';
+import {
+  MAX_ASSET_IMAGES,
+  MAX_STYLE_IMAGES,
+  applyReferenceImageRequirements,
+  validateGenerationParams,
+} from '../services/modelConstraints';
+import {
+  applyPreset,
+  fillParamsTemplates,
+  fillTemplate,
+  findTemplateVariables,
+  getTemplateValues,
+} from '../services/presetService';
+import {getTargetScriptSeconds} from '../services/scriptService';
+import {
+  checkBudget,
+  estimateAdCost,
+  formatCost,
+  getBudget,
+  getPriceTable,
+  getSpendTotals,
+  getUsageRecords,
+  isBilledProvider,
+} from '../services/usageService';
+import {getMediaDuration} from '../utils';
 
 // Helper to convert File to Base64
 const fileToBase64 = (file: File): Promise<string> => {
@@ -45,34 +96,89 @@ const defaultParams: Omit<GenerateVideoParams, 'productName' | 'productDescripti
   voiceName: VoiceName.ZEPHYR,
 };
 
+const defaultBatchOptions: BatchOptions = {
+  prompts: [],
+  aspectRatios: [],
+  voiceNames: [],
+  concurrency: 2,
+};
+
+// A fresh form: the selected brand's defaults and the active campaign's product.
+const createInitialParams = (): GenerateVideoParams => {
+  const params = applyBrandDefaults(
+    {productName: '', productDescription: '', ...defaultParams},
+    getSelectedBrand(),
+  );
+  const campaign = getActiveCampaign();
+  return campaign ? applyCampaign(params, campaign, params.brand) : params;
+};
+
 interface PromptFormProps {
   onGenerate: (params: GenerateVideoParams) => void;
-  generateScript: (
-    productName: string,
-    productDescription: string,
-  ) => Promise<string>;
+  onGenerateBatch: (params: GenerateVideoParams, options: BatchOptions) => void;
+  onGenerateStoryboard: (params: GenerateVideoParams, scenePrompts: string[]) => void;
+  provider: GenerationProvider;
+  onOpenLibrary: () => void;
+  onOpenUsage: () => void;
   initialValues?: Partial<GenerateVideoParams> | null;
 }
 
 const PromptForm: React.FC<PromptFormProps> = ({
   onGenerate,
-  generateScript,
+  onGenerateBatch,
+  onGenerateStoryboard,
+  provider,
+  onOpenLibrary,
+  onOpenUsage,
   initialValues,
 }) => {
-  const [params, setParams] = useState<GenerateVideoParams>({
-    productName: '',
-    productDescription: '',
-    ...defaultParams,
-  });
-  const [isGeneratingScript, setIsGeneratingScript] = useState(false);
+  const [params, setParams] = useState<GenerateVideoParams>(createInitialParams);
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  const [brandProfiles, setBrandProfiles] =
+    useState<BrandProfile[]>(getBrandProfiles);
+  const [showBrandKit, setShowBrandKit] = useState(false);
+  const [campaigns, setCampaigns] = useState<Campaign[]>(getCampaigns);
+  const [activeCampaign, setActiveCampaign] = useState<Campaign | undefined>(
+    getActiveCampaign,
+  );
+  const [showCampaigns, setShowCampaigns] = useState(false);
+  // The length of the video being extended, once known.
+  const [sourceSeconds, setSourceSeconds] = useState<number | undefined>();
   const [showPresets, setShowPresets] = useState(false);
-  const [showHistory, setShowHistory] = useState(false);
+  const [showProductImages, setShowProductImages] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showPromptAssist, setShowPromptAssist] = useState(false);
+  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [batchOptions, setBatchOptions] =
+    useState<BatchOptions>(defaultBatchOptions);
+  const [isStoryboardMode, setIsStoryboardMode] = useState(false);
+  const [storyboardScenes, setStoryboardScenes] = useState<string[]>(['']);
+  // Uploaded images are either references or the clip's start and end frames.
+  const [imageInput, setImageInput] = useState<'references' | 'frames'>('references');
   const [imageConstraintMessage, setImageConstraintMessage] = useState<
     string | null
   >(null);
+  const [spendTotals, setSpendTotals] = useState({today: 0, month: 0});
+
+  useEffect(() => {
+    getUsageRecords().then((records) => setSpendTotals(getSpendTotals(records)));
+  }, []);
 
   useEffect(() => {
+    setSourceSeconds(undefined);
+    if (!params.inputVideo) return;
+    let isCurrent = true;
+    getMediaDuration(params.inputVideo.file)
+      .then((seconds) => isCurrent && setSourceSeconds(seconds))
+      .catch((error) => console.warn('Could not read the source video length:', error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [params.inputVideo]);
+
+  useEffect(() => {
+    setImageInput(initialValues?.startFrame ? 'frames' : 'references');
     if (initialValues) {
       setParams((prev) => ({...prev, ...initialValues}));
       // If there's an initial video, it implies advanced settings were used.
@@ -81,7 +187,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
       }
     } else {
       // Reset to default when there are no initial values
-      setParams({productName: '', productDescription: '', ...defaultParams});
+      setParams(createInitialParams());
     }
   }, [initialValues]);
 
@@ -99,71 +205,164 @@ const PromptForm: React.FC<PromptFormProps> = ({
     setParams((prev) => ({...prev, [name]: checked}));
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      const base64 = await fileToBase64(file);
-      const newImage: ImageFile = {file, base64};
-      // Enforce model constraints when an image is used
-      setParams((prev) => ({
-        ...prev,
-        referenceImages: [newImage],
-        model: VideoModel.VEO_HIGH,
-        resolution: Resolution.P720,
-        aspectRatio: AspectRatio.LANDSCAPE,
-      }));
-      setImageConstraintMessage(
-        'Using an image requires the high-quality model and locks settings to 720p / 16:9.',
-      );
-    }
-  };
-
-  const handleRemoveImage = () => {
+  // Switches the TTS script between a single voice and a labeled dialogue.
+  const handleDialogueToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const {checked} = e.target;
     setParams((prev) => ({
       ...prev,
-      referenceImages: [],
-      model: VideoModel.VEO_HIGH,
+      speakers: checked ? createDefaultSpeakers(prev.voiceName) : undefined,
     }));
+  };
+
+  // Replaces the reference images, adjusting settings the images require.
+  // Takes an updater like setState, applied to the latest params, so callers
+  // that await (e.g. reading files) build on the current images rather than
+  // the ones from before the await.
+  const updateReferenceImages = (images: React.SetStateAction<ImageFile[]>) => {
+    const current = paramsRef.current;
+    const result = applyReferenceImageRequirements({
+      ...current,
+      referenceImages:
+        typeof images === 'function' ? images(current.referenceImages ?? []) : images,
+    });
+    paramsRef.current = result.params;
+    setParams(result.params);
+    setImageConstraintMessage(
+      result.changes.length > 0
+        ? `Reference images need specific settings, so we ${result.changes.join(' and ')}.`
+        : null,
+    );
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    const newImages: ImageFile[] = await Promise.all(
+      files.map(async (file) => ({
+        file,
+        base64: await fileToBase64(file),
+        referenceType: 'asset',
+      })),
+    );
+    updateReferenceImages((current) => [...current, ...newImages]);
+  };
+
+  // Switches how uploaded images are used, dropping the ones for the other use.
+  const handleImageInputChange = (input: 'references' | 'frames') => {
+    setImageInput(input);
     setImageConstraintMessage(null);
+    setParams((prev) =>
+      input === 'frames'
+        ? {...prev, referenceImages: []}
+        : {...prev, startFrame: undefined, endFrame: undefined},
+    );
   };
 
-  const handleGenerateScript = async () => {
-    if (!params.productName || !params.productDescription) {
-      alert('Please enter a product name and description first.');
-      return;
-    }
-    setIsGeneratingScript(true);
-    try {
-      const script = await generateScript(
-        params.productName,
-        params.productDescription,
-      );
-      setParams((prev) => ({...prev, voiceoverScript: script}));
-    } catch (error) {
-      console.error('Failed to generate script:', error);
-      alert('Could not generate script. Please try again.');
-    } finally {
-      setIsGeneratingScript(false);
-    }
+  const handleFrameSelect = async (slot: 'startFrame' | 'endFrame', file: File) => {
+    const image: ImageFile = {file, base64: await fileToBase64(file)};
+    setParams((prev) => ({...prev, [slot]: image}));
   };
 
+  // Batches and storyboards cannot extend an existing video; they start fresh.
+  const canUseModes = !params.inputVideoObject;
+  const useBatch = canUseModes && isBatchMode;
+  const useStoryboard = canUseModes && isStoryboardMode;
+  const batchVariantCount = useBatch
+    ? buildVariants(params, batchOptions).length
+    : 1;
+  const storyboardSceneCount =
+    1 + storyboardScenes.filter((scene) => scene.trim()).length;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onGenerate(params);
+    // Fill in preset variables that had no value when the preset was applied.
+    const submitted = fillParamsTemplates(params);
+    if (useBatch) {
+      onGenerateBatch(submitted, batchOptions);
+    } else if (useStoryboard) {
+      const values = getTemplateValues(params);
+      onGenerateStoryboard(submitted, [
+        submitted.prompt,
+        ...storyboardScenes.map((scene) => fillTemplate(scene, values)),
+      ]);
+    } else {
+      onGenerate(submitted);
+    }
   };
 
-  const handlePresetSelect = (prompt: string) => {
-    setParams((prev) => ({...prev, prompt}));
-    setShowPresets(false);
+  const handleBrandSelect = (brand: BrandProfile | undefined) => {
+    setSelectedBrandId(brand?.id ?? null);
+    setParams((prev) => applyBrandDefaults(prev, brand));
+  };
+
+  // Switches the campaign new videos are filed under and fills in its
+  // product and brand.
+  const handleCampaignSelect = (campaign: Campaign | undefined) => {
+    setActiveCampaignId(campaign?.id ?? null);
+    setActiveCampaign(campaign);
+    if (!campaign) return;
+    const brand = brandProfiles.find((p) => p.id === campaign.brandId);
+    if (campaign.brandId) setSelectedBrandId(brand?.id ?? null);
+    setParams((prev) => applyCampaign(prev, campaign, brand));
+  };
+
+  const handleCampaignsClose = () => {
+    setShowCampaigns(false);
+    // Pick up edits to the active campaign and drop a deleted one.
+    setCampaigns(getCampaigns());
+    setActiveCampaign(getActiveCampaign());
   };
 
-  const handleHistorySelect = (selectedParams: StorableParams) => {
-    setParams((prev) => ({...prev, ...selectedParams}));
-    setShowHistory(false);
+  const handleBrandKitClose = () => {
+    setShowBrandKit(false);
+    // Pick up edits to the selected profile and drop deleted ones.
+    const profiles = getBrandProfiles();
+    setBrandProfiles(profiles);
+    setParams((prev) =>
+      prev.brand
+        ? {...prev, brand: profiles.find((p) => p.id === prev.brand?.id)}
+        : prev,
+    );
+  };
+
+  const bannedWordsInPrompt = params.brand
+    ? findBannedWords(`${params.prompt} ${params.voiceoverScript ?? ''}`, params.brand)
+    : [];
+
+  // Applies a preset, keeping any settings the reference images require.
+  const handlePresetSelect = (preset: Preset) => {
+    const result = applyReferenceImageRequirements(applyPreset(params, preset));
+    setParams(result.params);
+    setImageConstraintMessage(
+      result.changes.length > 0
+        ? `Reference images need specific settings, so we ${result.changes.join(' and ')}.`
+        : null,
+    );
+    setShowPresets(false);
   };
 
-  const isImageUsed =
-    params.referenceImages && params.referenceImages.length > 0;
+  // Preset variables that have no value yet and would be sent as written.
+  const templateValues = getTemplateValues(params);
+  const missingVariables = findTemplateVariables(
+    `${params.prompt} ${params.voiceoverScript ?? ''}`,
+  ).filter((name) => !templateValues[name]);
+
+  const referenceImages = params.referenceImages ?? [];
+  const isDialogue = params.voiceoverMode === 'tts' && !!params.speakers?.length;
+  const validationIssues = [
+    ...validateGenerationParams(params),
+    ...(isDialogue ? validateDialogue(params.voiceoverScript ?? '', params.speakers ?? []) : []),
+  ];
+  const costEstimate = isBilledProvider(provider.id)
+    ? estimateAdCost(
+        params,
+        getPriceTable(),
+        useBatch ? batchVariantCount : useStoryboard ? storyboardSceneCount : 1,
+        useStoryboard,
+      )
+    : {total: 0, lines: [{label: 'Offline provider', cost: 0}]};
+  const budgetCheck = checkBudget(costEstimate.total, spendTotals, getBudget());
 
   return (
     <form
@@ -171,18 +370,112 @@ const PromptForm: React.FC<PromptFormProps> = ({
       className="w-full space-y-8 p-8 bg-gray-800/50 rounded-lg border border-gray-700">
       {showPresets && (
         <PresetDialog
+          currentParams={params}
           onSelect={handlePresetSelect}
           onClose={() => setShowPresets(false)}
         />
       )}
-      {showHistory && (
-        <HistoryDialog
-          history={getHistory()}
-          onSelect={handleHistorySelect}
-          onClose={() => setShowHistory(false)}
+      {showProductImages && (
+        <ProductImageDialog
+          productName={params.productName}
+          productDescription={params.productDescription}
+          brand={params.brand}
+          sourceImages={referenceImages}
+          maxSelection={Math.max(0, MAX_ASSET_IMAGES - referenceImages.length)}
+          provider={provider}
+          onSelect={(images) => {
+            updateReferenceImages((current) => [...current, ...images]);
+            setShowProductImages(false);
+          }}
+          onClose={() => setShowProductImages(false)}
+        />
+      )}
+      {showCampaigns && (
+        <CampaignDialog
+          activeId={activeCampaign?.id}
+          onActivate={(campaign) => {
+            handleCampaignSelect(campaign);
+            handleCampaignsClose();
+          }}
+          onClose={handleCampaignsClose}
+        />
+      )}
+      {showBrandKit && (
+        <BrandKitDialog
+          selectedId={params.brand?.id}
+          onSelect={(brand) => {
+            handleBrandSelect(brand);
+            handleBrandKitClose();
+          }}
+          onClose={handleBrandKitClose}
         />
       )}
       <div className="space-y-4">
+        <div>
+          <div className="flex items-end gap-2">
+            <div className="flex-grow">
+              <label
+                htmlFor="campaign"
+                className="block text-sm font-medium text-gray-300 mb-1">
+                Campaign
+              </label>
+              <select
+                id="campaign"
+                value={activeCampaign?.id ?? ''}
+                onChange={(e) =>
+                  handleCampaignSelect(campaigns.find((c) => c.id === e.target.value))
+                }
+                className="w-full bg-gray-900 border border-gray-700 rounded-md p-2 focus:ring-indigo-500 focus:border-indigo-500">
+                <option value="">No campaign</option>
+                {campaigns.map((campaign) => (
+                  <option key={campaign.id} value={campaign.id}>
+                    {campaign.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={() => setShowCampaigns(true)}
+              className="px-4 py-2 text-sm bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors">
+              Manage Campaigns
+            </button>
+          </div>
+          {activeCampaign?.brief.trim() && (
+            <p className="text-xs text-gray-400 mt-2 whitespace-pre-line line-clamp-3" title={activeCampaign.brief}>
+              Brief: {activeCampaign.brief.trim()}
+            </p>
+          )}
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="flex-grow">
+            <label
+              htmlFor="brand"
+              className="block text-sm font-medium text-gray-300 mb-1">
+              Brand
+            </label>
+            <select
+              id="brand"
+              value={params.brand?.id ?? ''}
+              onChange={(e) =>
+                handleBrandSelect(brandProfiles.find((p) => p.id === e.target.value))
+              }
+              className="w-full bg-gray-900 border border-gray-700 rounded-md p-2 focus:ring-indigo-500 focus:border-indigo-500">
+              <option value="">No brand</option>
+              {brandProfiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowBrandKit(true)}
+            className="px-4 py-2 text-sm bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors">
+            Manage Brands
+          </button>
+        </div>
         <div>
           <label
             htmlFor="productName"
@@ -237,10 +530,10 @@ const PromptForm: React.FC<PromptFormProps> = ({
             <div className="absolute top-2 right-2 flex items-center gap-2">
               <button
                 type="button"
-                onClick={() => setShowHistory(true)}
+                onClick={onOpenLibrary}
                 className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors">
-                <ClockIcon className="w-4 h-4" />
-                History
+                <FilmIcon className="w-4 h-4" />
+                Library
               </button>
               <button
                 type="button"
@@ -251,6 +544,39 @@ const PromptForm: React.FC<PromptFormProps> = ({
               </button>
             </div>
           </div>
+          {bannedWordsInPrompt.length > 0 && (
+            <p className="text-xs text-amber-400 mt-2">
+              Your brand bans: {bannedWordsInPrompt.join(', ')}. Consider rewording.
+            </p>
+          )}
+          {missingVariables.length > 0 && (
+            <p className="text-xs text-amber-400 mt-2">
+              {missingVariables.map((name) => `{{${name}}}`).join(', ')} has no value yet.
+              Fill in the form, or it will be sent as written.
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowPromptAssist((prev) => !prev)}
+            className="mt-2 flex items-center gap-1.5 text-sm text-purple-400 hover:text-purple-300">
+            <WandIcon className="w-4 h-4" />
+            {showPromptAssist ? 'Hide prompt assist' : 'Enhance & check prompt'}
+          </button>
+          {showPromptAssist && (
+            <div className="mt-2">
+              <PromptAssistPanel
+                prompt={params.prompt}
+                context={{
+                  productName: params.productName,
+                  productDescription: params.productDescription,
+                  aspectRatio: params.aspectRatio,
+                  brand: params.brand,
+                }}
+                provider={provider}
+                onPromptChange={(prompt) => setParams((prev) => ({...prev, prompt}))}
+              />
+            </div>
+          )}
         </div>
       </div>
 
@@ -263,7 +589,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
             type="checkbox"
             checked={params.autoExtend}
             onChange={handleCheckboxChange}
-            disabled={!!params.inputVideoObject}
+            disabled={!!params.inputVideoObject || useStoryboard}
             className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800 disabled:opacity-50"
           />
         </div>
@@ -279,22 +605,87 @@ const PromptForm: React.FC<PromptFormProps> = ({
 
       {/* Image Upload Section */}
       <div>
-        <label className="block text-sm font-medium text-gray-300 mb-2">
-          Product Image (Optional)
-        </label>
-        {params.referenceImages && params.referenceImages.length > 0 ? (
-          <div className="flex items-center gap-4 p-2 bg-gray-900 border border-gray-700 rounded-md">
-            <img
-              src={URL.createObjectURL(params.referenceImages[0].file)}
-              alt="Product Preview"
-              className="w-16 h-16 object-cover rounded"
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <label className="block text-sm font-medium text-gray-300">
+            {imageInput === 'frames' ? 'Start & End Frames' : 'Reference Images'} (Optional)
+          </label>
+          <div className="flex rounded-md overflow-hidden border border-gray-600 text-xs">
+            {(
+              [
+                ['references', 'References'],
+                ['frames', 'Start & End Frames'],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => handleImageInputChange(value)}
+                className={`px-3 py-1 font-semibold transition-colors ${
+                  imageInput === value ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                }`}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {imageInput === 'frames' ? (
+          <div className="space-y-2">
+            <div className="flex gap-4">
+              <FrameImageSlot
+                id="start-frame-upload"
+                label="Start frame"
+                hint="The clip opens on this exact image, e.g. a packshot"
+                image={params.startFrame}
+                onSelect={(file) => handleFrameSelect('startFrame', file)}
+                onRemove={() =>
+                  setParams((prev) => ({...prev, startFrame: undefined, endFrame: undefined}))
+                }
+              />
+              <FrameImageSlot
+                id="end-frame-upload"
+                label="End frame (optional)"
+                hint="The clip lands on this image, e.g. an end card"
+                image={params.endFrame}
+                disabled={!params.startFrame}
+                onSelect={(file) => handleFrameSelect('endFrame', file)}
+                onRemove={() => setParams((prev) => ({...prev, endFrame: undefined}))}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              PNG or JPG, ideally at the same aspect ratio as the video. Describe the motion between
+              the frames in the prompt.
+            </p>
+          </div>
+        ) : referenceImages.length > 0 ? (
+          <div className="space-y-2">
+            <ReferenceImageList
+              images={referenceImages}
+              onChange={updateReferenceImages}
             />
-            <span className="flex-grow text-gray-400 truncate">
-              {params.referenceImages[0].file.name}
-            </span>
-            <button type="button" onClick={handleRemoveImage}>
-              <TrashIcon className="w-6 h-6 text-red-400 hover:text-red-300" />
-            </button>
+            <div className="flex flex-wrap gap-2">
+              {referenceImages.length < MAX_ASSET_IMAGES && (
+                <label
+                  htmlFor="file-upload-more"
+                  className="inline-block cursor-pointer px-3 py-1.5 text-xs bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors">
+                  + Add Images
+                  <input
+                    id="file-upload-more"
+                    type="file"
+                    className="sr-only"
+                    onChange={handleFileChange}
+                    accept="image/*"
+                    multiple
+                  />
+                </label>
+              )}
+              <button
+                type="button"
+                onClick={() => setShowProductImages(true)}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-700 rounded-md font-semibold transition-colors">
+                <SparklesIcon className="w-4 h-4" />
+                Generate or Restyle
+              </button>
+            </div>
           </div>
         ) : (
           <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-600 border-dashed rounded-md">
@@ -316,7 +707,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
                 <label
                   htmlFor="file-upload"
                   className="relative cursor-pointer bg-gray-900 rounded-md font-medium text-indigo-400 hover:text-indigo-300 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-offset-gray-900 focus-within:ring-indigo-500">
-                  <span>Upload a file</span>
+                  <span>Upload images</span>
                   <input
                     id="file-upload"
                     name="file-upload"
@@ -324,11 +715,21 @@ const PromptForm: React.FC<PromptFormProps> = ({
                     className="sr-only"
                     onChange={handleFileChange}
                     accept="image/*"
+                    multiple
                   />
                 </label>
                 <p className="pl-1">or drag and drop</p>
               </div>
-              <p className="text-xs text-gray-600">PNG, JPG, GIF up to 10MB</p>
+              <p className="text-xs text-gray-600">
+                PNG, JPG, GIF up to 10MB · up to {MAX_ASSET_IMAGES} product images or {MAX_STYLE_IMAGES} style image
+              </p>
+              <button
+                type="button"
+                onClick={() => setShowProductImages(true)}
+                className="mt-2 inline-flex items-center gap-1.5 px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-700 rounded-md font-semibold transition-colors">
+                <SparklesIcon className="w-4 h-4" />
+                No photos? Generate product images
+              </button>
             </div>
           </div>
         )}
@@ -374,8 +775,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
                       name="resolution"
                       value={params.resolution}
                       onChange={handleInputChange}
-                      className="mt-1 block w-full bg-gray-800 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 disabled:bg-gray-700/50 disabled:cursor-not-allowed"
-                      disabled={isImageUsed}>
+                      className="mt-1 block w-full bg-gray-800 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 disabled:bg-gray-700/50 disabled:cursor-not-allowed">
                       <option value={Resolution.P720}>720p (Faster)</option>
                       <option value={Resolution.P1080}>
                         1080p (Higher Quality)
@@ -393,8 +793,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
                       name="aspectRatio"
                       value={params.aspectRatio}
                       onChange={handleInputChange}
-                      className="mt-1 block w-full bg-gray-800 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 disabled:bg-gray-700/50 disabled:cursor-not-allowed"
-                      disabled={isImageUsed}>
+                      className="mt-1 block w-full bg-gray-800 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 disabled:bg-gray-700/50 disabled:cursor-not-allowed">
                       <option value={AspectRatio.PORTRAIT}>
                         9:16 (Portrait)
                       </option>
@@ -414,8 +813,7 @@ const PromptForm: React.FC<PromptFormProps> = ({
                       name="model"
                       value={params.model}
                       onChange={handleInputChange}
-                      className="mt-1 block w-full bg-gray-800 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 disabled:bg-gray-700/50 disabled:cursor-not-allowed"
-                      disabled={isImageUsed}>
+                      className="mt-1 block w-full bg-gray-800 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50 disabled:bg-gray-700/50 disabled:cursor-not-allowed">
                       <option value={VideoModel.VEO_HIGH}>High Quality</option>
                       <option value={VideoModel.VEO_FAST}>Fast</option>
                     </select>
@@ -465,40 +863,63 @@ const PromptForm: React.FC<PromptFormProps> = ({
               </div>
               {params.voiceoverMode === 'tts' && (
                 <div className="pl-7 space-y-3">
-                  <div className="relative">
-                    <textarea
-                      name="voiceoverScript"
-                      value={params.voiceoverScript}
-                      onChange={handleInputChange}
-                      rows={3}
-                      placeholder="Enter voiceover script here..."
-                      className="w-full bg-gray-800 border-gray-600 rounded-md shadow-sm p-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm pr-28"
+                  <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={isDialogue}
+                      onChange={handleDialogueToggle}
+                      className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
                     />
-                    <button
-                      type="button"
-                      onClick={handleGenerateScript}
-                      disabled={isGeneratingScript}
-                      className="absolute top-2 right-2 flex items-center gap-1.5 px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-700 rounded-md font-semibold transition-colors disabled:bg-gray-600">
-                      {isGeneratingScript ? (
-                        '...'
-                      ) : (
-                        <>
-                          <WandIcon className="w-4 h-4" /> Generate
-                        </>
-                      )}
-                    </button>
-                  </div>
-                  <select
-                    name="voiceName"
-                    value={params.voiceName}
+                    Dialogue with multiple speakers
+                  </label>
+                  <textarea
+                    name="voiceoverScript"
+                    value={params.voiceoverScript}
                     onChange={handleInputChange}
-                    className="block w-full bg-gray-800 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm">
-                    {Object.values(VoiceName).map((v) => (
-                      <option key={v} value={v}>
-                        {v}
-                      </option>
-                    ))}
-                  </select>
+                    rows={isDialogue ? 5 : 3}
+                    placeholder={
+                      isDialogue
+                        ? 'Host: Ever tried...?\nGuest: Not yet, tell me more!'
+                        : 'Enter voiceover script here...'
+                    }
+                    className="w-full bg-gray-800 border-gray-600 rounded-md shadow-sm p-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  />
+                  <ScriptGenerator
+                    productName={params.productName}
+                    productDescription={params.productDescription}
+                    brand={params.brand}
+                    speakers={isDialogue ? params.speakers?.map((s) => s.label.trim()) : undefined}
+                    clipSeconds={getTargetScriptSeconds(
+                      params,
+                      useStoryboard ? storyboardSceneCount : 1,
+                      sourceSeconds,
+                    )}
+                    script={params.voiceoverScript ?? ''}
+                    provider={provider}
+                    onSelect={(script, language) =>
+                      setParams((prev) => ({...prev, voiceoverScript: script, voiceoverLanguage: language}))
+                    }
+                  />
+                  {isDialogue ? (
+                    <DialogueEditor
+                      script={params.voiceoverScript ?? ''}
+                      speakers={params.speakers ?? []}
+                      onSpeakersChange={(speakers) => setParams((prev) => ({...prev, speakers}))}
+                      provider={provider}
+                    />
+                  ) : (
+                    <select
+                      name="voiceName"
+                      value={params.voiceName}
+                      onChange={handleInputChange}
+                      className="block w-full bg-gray-800 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm">
+                      {Object.values(VoiceName).map((v) => (
+                        <option key={v} value={v}>
+                          {v}
+                        </option>
+                      ))}
+                    </select>
+                  )}
                 </div>
               )}
               <div className="flex items-center">
@@ -521,23 +942,133 @@ const PromptForm: React.FC<PromptFormProps> = ({
                 <div className="pl-7">
                   <AudioRecorder
                     onRecordingComplete={(blob) =>
-                      setParams((prev) => ({...prev, recordedAudioBlob: blob}))
+                      setParams((prev) => ({...prev, recordedAudioBlob: blob ?? undefined}))
                     }
                   />
                 </div>
               )}
             </div>
           </fieldset>
+
+          {/* Storyboard Options */}
+          {canUseModes && (
+            <fieldset>
+              <legend className="text-base font-medium text-gray-200">
+                Storyboard
+              </legend>
+              <div className="mt-4 space-y-4">
+                <div className="flex items-center">
+                  <input
+                    id="storyboardMode"
+                    type="checkbox"
+                    checked={isStoryboardMode}
+                    onChange={(e) => {
+                      setIsStoryboardMode(e.target.checked);
+                      if (e.target.checked) setIsBatchMode(false);
+                    }}
+                    className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+                  />
+                  <label
+                    htmlFor="storyboardMode"
+                    className="ml-3 block text-sm font-medium text-gray-300">
+                    Build the ad scene by scene
+                  </label>
+                </div>
+                {isStoryboardMode && (
+                  <StoryboardEditor
+                    firstScene={params.prompt}
+                    scenes={storyboardScenes}
+                    onChange={setStoryboardScenes}
+                  />
+                )}
+              </div>
+            </fieldset>
+          )}
+
+          {/* Batch Options */}
+          {canUseModes && (
+            <fieldset>
+              <legend className="text-base font-medium text-gray-200">
+                Batch Variants
+              </legend>
+              <div className="mt-4 space-y-4">
+                <div className="flex items-center">
+                  <input
+                    id="batchMode"
+                    type="checkbox"
+                    checked={isBatchMode}
+                    onChange={(e) => {
+                      setIsBatchMode(e.target.checked);
+                      if (e.target.checked) setIsStoryboardMode(false);
+                    }}
+                    className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-500 rounded bg-gray-800"
+                  />
+                  <label
+                    htmlFor="batchMode"
+                    className="ml-3 block text-sm font-medium text-gray-300">
+                    Generate several variants to compare
+                  </label>
+                </div>
+                {isBatchMode && (
+                  <BatchSettings
+                    options={batchOptions}
+                    onChange={setBatchOptions}
+                    isTts={params.voiceoverMode === 'tts'}
+                    variantCount={batchVariantCount}
+                  />
+                )}
+              </div>
+            </fieldset>
+          )}
         </div>
       )}
 
+      {validationIssues.length > 0 && (
+        <ul className="text-sm text-red-400 list-disc pl-5 space-y-1">
+          {validationIssues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+
       {/* Submission Button */}
-      <div className="flex justify-end">
+      <div className="flex flex-wrap items-center justify-end gap-4">
+        <div className="text-right text-sm">
+          <p
+            className="text-gray-300"
+            title={costEstimate.lines
+              .map((line) => `${line.label}: ${formatCost(line.cost)}`)
+              .join('\n')}>
+            Estimated cost:{' '}
+            <span className="font-semibold tabular-nums">
+              {formatCost(costEstimate.total)}
+            </span>
+          </p>
+          {budgetCheck.message && (
+            <p
+              className={
+                budgetCheck.level === 'block' ? 'text-red-400' : 'text-amber-400'
+              }>
+              {budgetCheck.message}
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={onOpenUsage}
+            className="text-xs font-medium text-indigo-400 hover:text-indigo-300">
+            View usage & budgets
+          </button>
+        </div>
         <button
           type="submit"
-          className="flex items-center gap-2 px-8 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg transition-colors text-lg">
+          disabled={validationIssues.length > 0 || budgetCheck.level === 'block'}
+          className="flex items-center gap-2 px-8 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg transition-colors text-lg disabled:bg-gray-600 disabled:cursor-not-allowed">
           <SparklesIcon className="w-6 h-6" />
-          Generate Ad
+          {useBatch
+            ? `Generate ${batchVariantCount} Variants`
+            : useStoryboard
+              ? `Generate ${storyboardSceneCount}-Scene Ad`
+              : 'Generate Ad'}
         </button>
       </div>
     </form>
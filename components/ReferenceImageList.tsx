@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {ImageFile, ReferenceImageType} from '../types';
+import {getReferenceType} from '../services/modelConstraints';
+import {ChevronDownIcon, ChevronUpIcon, TrashIcon} from './icons';
+
+interface ReferenceImageListProps {
+  images: ImageFile[];
+  onChange: (images: ImageFile[]) => void;
+}
+
+const ReferenceImageList: React.FC<ReferenceImageListProps> = ({images, onChange}) => {
+  const updateType = (index: number, referenceType: ReferenceImageType) =>
+    onChange(images.map((img, i) => (i === index ? {...img, referenceType} : img)));
+
+  const moveImage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= images.length) return;
+    const next = [...images];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeImage = (index: number) =>
+    onChange(images.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-2">
+      {images.map((image, index) => (
+        <div
+          key={`${image.file.name}-${index}`}
+          className="flex items-center gap-4 p-2 bg-gray-900 border border-gray-700 rounded-md">
+          {/* A data URL avoids leaking an object URL on every render. */}
+          <img
+            src={`data:${image.file.type};base64,${image.base64}`}
+            alt={image.file.name}
+            className="w-16 h-16 object-cover rounded"
+          />
+          <span className="flex-grow text-gray-400 truncate">{image.file.name}</span>
+          <select
+            value={getReferenceType(image)}
+            onChange={(e) => updateType(index, e.target.value as ReferenceImageType)}
+            title="How the model should use this image"
+            className="bg-gray-800 border-gray-600 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            <option value="asset">Asset (show it)</option>
+            <option value="style">Style (match its look)</option>
+          </select>
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => moveImage(index, -1)}
+              disabled={index === 0}
+              title="Move up"
+              className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+              <ChevronUpIcon className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveImage(index, 1)}
+              disabled={index === images.length - 1}
+              title="Move down"
+              className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+              <ChevronDownIcon className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => removeImage(index)}
+              title="Remove image"
+              className="p-1">
+              <TrashIcon className="w-5 h-5 text-red-400 hover:text-red-300" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReferenceImageList;
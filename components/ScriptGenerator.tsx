@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {
+  BrandProfile,
+  GenerationProvider,
+  ScriptAlternative,
+  ScriptTone,
+} from '../types';
+import {getSpokenText} from '../services/dialogueService';
+import {describeError} from '../services/errorService';
+import {
+  SCRIPT_LANGUAGES,
+  SCRIPT_TONES,
+  estimateSpokenSeconds,
+} from '../services/scriptService';
+import {WandIcon} from './icons';
+
+interface ScriptGeneratorProps {
+  productName: string;
+  productDescription: string;
+  brand?: BrandProfile;
+  speakers?: string[]; // Speaker labels, when the script is a dialogue
+  clipSeconds: number; // How long the finished video will be
+  script: string; // The current script, to show its estimated length
+  provider: GenerationProvider;
+  onSelect: (script: string, language: string) => void; // The language it was written in
+}
+
+const inputClassName =
+  'mt-1 block w-full bg-gray-800 border-gray-600 rounded-md py-1.5 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+// Scripts up to this much longer than the clip still count as fitting.
+const FIT_TOLERANCE_SECONDS = 0.5;
+
+const LengthBadge: React.FC<{seconds: number; targetSeconds: number}> = ({
+  seconds,
+  targetSeconds,
+}) => {
+  const fits = seconds <= targetSeconds + FIT_TOLERANCE_SECONDS;
+  return (
+    <span
+      className={`flex-shrink-0 px-1.5 py-0.5 rounded text-xs tabular-nums ${
+        fits ? 'bg-green-900/60 text-green-300' : 'bg-amber-900/60 text-amber-300'
+      }`}
+      title={fits ? 'Fits the video' : 'Likely too long for the video'}>
+      ~{seconds.toFixed(1)}s
+    </span>
+  );
+};
+
+const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({
+  productName,
+  productDescription,
+  brand,
+  speakers,
+  clipSeconds,
+  script,
+  provider,
+  onSelect,
+}) => {
+  const [targetSeconds, setTargetSeconds] = useState(clipSeconds);
+  const [tone, setTone] = useState<ScriptTone>('neutral');
+  const [callToAction, setCallToAction] = useState('');
+  const [language, setLanguage] = useState(SCRIPT_LANGUAGES[0].language);
+  const [alternatives, setAlternatives] = useState<ScriptAlternative[]>([]);
+  // The alternatives keep the language they were written in if the picker changes.
+  const [alternativesLanguage, setAlternativesLanguage] = useState(language);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the clip length, e.g. when auto-extend is switched on.
+  useEffect(() => setTargetSeconds(clipSeconds), [clipSeconds]);
+
+  const handleGenerate = async () => {
+    if (!productName || !productDescription) {
+      setError('Enter a product name and description first.');
+      return;
+    }
+    setError(null);
+    setIsGenerating(true);
+    try {
+      setAlternatives(
+        await provider.generateScript(
+          productName,
+          productDescription,
+          {targetSeconds, tone, callToAction, language, speakers},
+          brand,
+        ),
+      );
+      setAlternativesLanguage(language);
+    } catch (generateError) {
+      console.error('Failed to generate script:', generateError);
+      setError(`Could not generate scripts. ${describeError(generateError)}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const currentSeconds = script.trim()
+    ? estimateSpokenSeconds(speakers ? getSpokenText(script) : script)
+    : null;
+
+  return (
+    <div className="space-y-3">
+      {currentSeconds !== null && (
+        <p className="flex items-center gap-2 text-xs text-gray-400">
+          <LengthBadge seconds={currentSeconds} targetSeconds={clipSeconds} />
+          estimated for this script; the video is about {clipSeconds}s long.
+        </p>
+      )}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <label className="text-xs text-gray-400">
+          Length (s)
+          <input
+            type="number"
+            min={3}
+            max={60}
+            value={targetSeconds}
+            onChange={(e) => setTargetSeconds(Math.max(1, Number(e.target.value)))}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Tone
+          <select
+            value={tone}
+            onChange={(e) => setTone(e.target.value as ScriptTone)}
+            className={inputClassName}>
+            {SCRIPT_TONES.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400">
+          Language
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            className={inputClassName}>
+            {SCRIPT_LANGUAGES.map((l) => (
+              <option key={l.code} value={l.language}>
+                {l.language}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400">
+          Call to Action
+          <input
+            type="text"
+            value={callToAction}
+            onChange={(e) => setCallToAction(e.target.value)}
+            placeholder="e.g. Shop now"
+            className={inputClassName}
+          />
+        </label>
+      </div>
+      <button
+        type="button"
+        onClick={handleGenerate}
+        disabled={isGenerating}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-700 rounded-md font-semibold transition-colors disabled:bg-gray-600">
+        <WandIcon className="w-4 h-4" />
+        {isGenerating ? 'Writing...' : 'Write Script Options'}
+      </button>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {alternatives.length > 0 && (
+        <ul className="space-y-2">
+          {alternatives.map((alternative) => (
+            <li
+              key={alternative.text}
+              className={`flex items-start gap-3 p-2 rounded-md border text-sm ${
+                alternative.text === script.trim()
+                  ? 'bg-indigo-900/40 border-indigo-500'
+                  : 'bg-gray-900 border-gray-700'
+              }`}>
+              <LengthBadge seconds={alternative.estimatedSeconds} targetSeconds={targetSeconds} />
+              <span className="flex-grow whitespace-pre-line text-gray-300">{alternative.text}</span>
+              <button
+                type="button"
+                onClick={() => onSelect(alternative.text, alternativesLanguage)}
+                className="flex-shrink-0 px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-md transition-colors">
+                Use
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScriptGenerator;
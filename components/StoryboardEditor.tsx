@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {MAX_STORYBOARD_SCENES} from '../services/storyboardService';
+import {ChevronDownIcon, ChevronUpIcon, PlusIcon, TrashIcon} from './icons';
+
+interface StoryboardEditorProps {
+  firstScene: string; // The main prompt, which is always scene 1
+  scenes: string[]; // Scenes 2..n
+  onChange: (scenes: string[]) => void;
+}
+
+const StoryboardEditor: React.FC<StoryboardEditorProps> = ({
+  firstScene,
+  scenes,
+  onChange,
+}) => {
+  const updateScene = (index: number, value: string) =>
+    onChange(scenes.map((scene, i) => (i === index ? value : scene)));
+
+  const moveScene = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= scenes.length) return;
+    const next = [...scenes];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeScene = (index: number) =>
+    onChange(scenes.filter((_, i) => i !== index));
+
+  const canAdd = scenes.length + 1 < MAX_STORYBOARD_SCENES;
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-gray-800 border border-gray-700 rounded-md">
+        <p className="text-xs font-semibold text-gray-400 mb-1">Scene 1 (main prompt)</p>
+        <p className="text-sm text-gray-300 line-clamp-2">
+          {firstScene || <span className="italic text-gray-500">Write the ad prompt above.</span>}
+        </p>
+      </div>
+      {scenes.map((scene, index) => (
+        <div key={index} className="p-3 bg-gray-800 border border-gray-700 rounded-md">
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-xs font-semibold text-gray-400">Scene {index + 2}</p>
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => moveScene(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                <ChevronUpIcon className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveScene(index, 1)}
+                disabled={index === scenes.length - 1}
+                title="Move down"
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                <ChevronDownIcon className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => removeScene(index)}
+                title="Remove scene"
+                className="p-1">
+                <TrashIcon className="w-4 h-4 text-red-400 hover:text-red-300" />
+              </button>
+            </div>
+          </div>
+          <textarea
+            value={scene}
+            onChange={(e) => updateScene(index, e.target.value)}
+            rows={2}
+            placeholder="What happens next in the ad?"
+            className="w-full bg-gray-900 border-gray-600 rounded-md shadow-sm p-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...scenes, ''])}
+        disabled={!canAdd}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-gray-600 hover:bg-gray-700 rounded-md font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+        <PlusIcon className="w-4 h-4" />
+        Add Scene
+      </button>
+      <p className="text-xs text-gray-500">
+        Each scene extends the previous clip by about 7 seconds. Extensions run at 720p.
+      </p>
+    </div>
+  );
+};
+
+export default StoryboardEditor;
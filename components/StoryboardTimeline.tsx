@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {StoryboardSegment} from '../types';
+import {ArrowPathIcon} from './icons';
+
+interface StoryboardTimelineProps {
+  segments: StoryboardSegment[];
+  isRunning: boolean;
+  onPromptChange: (index: number, prompt: string) => void;
+  onRegenerateFrom: (index: number) => void;
+  onCancel: () => void;
+}
+
+const statusStyles: Record<StoryboardSegment['status'], string> = {
+  pending: 'bg-gray-700 text-gray-300',
+  running: 'bg-indigo-600 text-white',
+  done: 'bg-green-600 text-white',
+  error: 'bg-red-600 text-white',
+};
+
+const StoryboardTimeline: React.FC<StoryboardTimelineProps> = ({
+  segments,
+  isRunning,
+  onPromptChange,
+  onRegenerateFrom,
+  onCancel,
+}) => {
+  const doneCount = segments.filter((s) => s.status === 'done').length;
+
+  return (
+    <div className="w-full flex flex-col gap-6 p-8 bg-gray-800/50 rounded-lg border border-gray-700">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-200">Storyboard</h2>
+        <p className="text-gray-400 mt-1">
+          {doneCount} of {segments.length} scenes ready
+        </p>
+        <div className="mt-3 w-full h-2 bg-gray-900 rounded-full overflow-hidden flex">
+          {segments.map((segment) => (
+            <div
+              key={segment.id}
+              className={`flex-1 border-r border-gray-900 last:border-r-0 ${
+                segment.status === 'done'
+                  ? 'bg-green-500'
+                  : segment.status === 'running'
+                    ? 'bg-indigo-500 animate-pulse'
+                    : segment.status === 'error'
+                      ? 'bg-red-500'
+                      : ''
+              }`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <ol className="space-y-4">
+        {segments.map((segment, index) => (
+          <li
+            key={segment.id}
+            className="flex flex-col sm:flex-row gap-4 p-4 bg-gray-900 border border-gray-700 rounded-lg">
+            <div className="sm:w-48 flex-shrink-0 aspect-video bg-black rounded overflow-hidden flex items-center justify-center">
+              {segment.video ? (
+                <video
+                  src={segment.video.objectUrl}
+                  controls
+                  muted
+                  className="w-full h-full object-contain"
+                />
+              ) : segment.status === 'running' ? (
+                <div className="w-8 h-8 border-4 border-t-transparent border-indigo-500 rounded-full animate-spin"></div>
+              ) : (
+                <span className="text-xs text-gray-600">Not generated</span>
+              )}
+            </div>
+            <div className="flex-grow flex flex-col gap-2">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold text-indigo-300">Scene {index + 1}</p>
+                <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${statusStyles[segment.status]}`}>
+                  {segment.status}
+                </span>
+              </div>
+              <textarea
+                value={segment.prompt}
+                onChange={(e) => onPromptChange(index, e.target.value)}
+                disabled={isRunning}
+                rows={2}
+                className="w-full bg-gray-800 border-gray-600 rounded-md shadow-sm p-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-60"
+              />
+              {segment.error && <p className="text-xs text-red-400">{segment.error}</p>}
+              <div className="flex justify-end">
+                <button
+                  onClick={() => onRegenerateFrom(index)}
+                  disabled={isRunning || (index > 0 && segments[index - 1].status !== 'done')}
+                  title="Regenerate this scene and every scene after it"
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded-md font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                  <ArrowPathIcon className="w-4 h-4" />
+                  Regenerate from here
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {isRunning && (
+        <div className="flex justify-center">
+          <button
+            onClick={onCancel}
+            className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoryboardTimeline;
@@ -0,0 +1,333 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {PriceTable, UsageBudget, UsageRecord, VideoModel} from '../types';
+import {
+  DEFAULT_PRICE_TABLE,
+  clearUsageRecords,
+  formatCost,
+  getBudget,
+  getDailyTotals,
+  getPriceTable,
+  getSpendTotals,
+  getUsageRecords,
+  saveBudget,
+  savePriceTable,
+} from '../services/usageService';
+import {TrashIcon} from './icons';
+
+interface UsageDialogProps {
+  onClose: () => void;
+}
+
+const CHART_DAYS = 14;
+const RECENT_RECORDS = 50;
+
+const modelLabels: Record<VideoModel, string> = {
+  [VideoModel.VEO_HIGH]: 'High Quality video, per second',
+  [VideoModel.VEO_FAST]: 'Fast video, per second',
+};
+
+const outcomeStyles: Record<UsageRecord['outcome'], string> = {
+  success: 'text-green-400',
+  error: 'text-red-400',
+  cancelled: 'text-gray-400',
+};
+
+const inputClassName =
+  'mt-1 w-full bg-gray-900 border border-gray-700 rounded-md p-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm';
+
+// Parses an optional amount; an empty field means "no limit".
+const parseLimit = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Math.max(0, Number(value));
+
+interface SpendBarProps {
+  label: string;
+  spent: number;
+  limit?: number;
+}
+
+const SpendBar: React.FC<SpendBarProps> = ({label, spent, limit}) => {
+  const fraction = limit ? Math.min(1, spent / limit) : 0;
+  return (
+    <div className="p-4 bg-gray-900 border border-gray-700 rounded-lg">
+      <p className="text-sm text-gray-400">{label}</p>
+      <p className="text-2xl font-bold text-white tabular-nums">
+        {formatCost(spent)}
+        {limit !== undefined && (
+          <span className="text-sm font-normal text-gray-400"> of {formatCost(limit)}</span>
+        )}
+      </p>
+      {limit !== undefined && (
+        <div className="mt-2 h-2 bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${fraction >= 1 ? 'bg-red-500' : fraction >= 0.8 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+            style={{width: `${fraction * 100}%`}}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const UsageDialog: React.FC<UsageDialogProps> = ({onClose}) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [budget, setBudget] = useState<UsageBudget>(getBudget);
+  const [prices, setPrices] = useState<PriceTable>(getPriceTable);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setRecords(await getUsageRecords());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const totals = getSpendTotals(records);
+  const dailyTotals = getDailyTotals(records, CHART_DAYS);
+  const maxDaily = Math.max(...dailyTotals.map((day) => day.cost), 0.01);
+
+  const handleSave = () => {
+    saveBudget(budget);
+    savePriceTable(prices);
+    setSavedMessage('Budget and prices saved.');
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Clear the usage history? Spend totals will start again from zero.')) {
+      return;
+    }
+    await clearUsageRecords();
+    await refresh();
+  };
+
+  const updatePrice = (patch: Partial<PriceTable>) => {
+    setPrices((prev) => ({...prev, ...patch}));
+    setSavedMessage(null);
+  };
+
+  const updateBudget = (patch: Partial<UsageBudget>) => {
+    setBudget((prev) => ({...prev, ...patch}));
+    setSavedMessage(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-xl max-w-4xl w-full p-8 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">Usage & Budgets</h2>
+        <div className="max-h-[65vh] overflow-y-auto pr-2 space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <SpendBar label="Today" spent={totals.today} limit={budget.dailyLimit} />
+            <SpendBar label="This month" spent={totals.month} limit={budget.monthlyLimit} />
+          </div>
+
+          {/* Daily spend chart */}
+          <div>
+            <p className="text-sm font-medium text-gray-300 mb-2">Last {CHART_DAYS} days</p>
+            <div className="flex items-end gap-1 h-24 p-2 bg-gray-900 border border-gray-700 rounded-lg">
+              {dailyTotals.map((day) => (
+                <div
+                  key={day.date.getTime()}
+                  title={`${day.date.toLocaleDateString()}: ${formatCost(day.cost)}`}
+                  className="flex-1 bg-indigo-500/80 rounded-t"
+                  style={{height: `${(day.cost / maxDaily) * 100}%`}}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Budget */}
+          <fieldset className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <legend className="text-base font-medium text-gray-200 mb-2">Budget</legend>
+            <label className="text-sm text-gray-400">
+              Daily limit (USD)
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={budget.dailyLimit ?? ''}
+                onChange={(e) => updateBudget({dailyLimit: parseLimit(e.target.value)})}
+                placeholder="No limit"
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              Monthly limit (USD)
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={budget.monthlyLimit ?? ''}
+                onChange={(e) => updateBudget({monthlyLimit: parseLimit(e.target.value)})}
+                placeholder="No limit"
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              When over budget
+              <select
+                value={budget.mode}
+                onChange={(e) => updateBudget({mode: e.target.value as UsageBudget['mode']})}
+                className={inputClassName}>
+                <option value="warn">Warn me</option>
+                <option value="block">Block new videos</option>
+              </select>
+            </label>
+          </fieldset>
+
+          {/* Price table */}
+          <fieldset className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <legend className="text-base font-medium text-gray-200 mb-2">
+              Prices (USD)
+              <button
+                type="button"
+                onClick={() => updatePrice(DEFAULT_PRICE_TABLE)}
+                className="ml-3 text-xs font-medium text-indigo-400 hover:text-indigo-300">
+                Reset to defaults
+              </button>
+            </legend>
+            {Object.values(VideoModel).map((model) => (
+              <label key={model} className="text-sm text-gray-400">
+                {modelLabels[model]}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={prices.videoPerSecond[model]}
+                  onChange={(e) =>
+                    updatePrice({
+                      videoPerSecond: {...prices.videoPerSecond, [model]: Number(e.target.value)},
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+            <label className="text-sm text-gray-400">
+              1080p price multiplier
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={prices.video1080pMultiplier}
+                onChange={(e) => updatePrice({video1080pMultiplier: Number(e.target.value)})}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              Voiceover, per second
+              <input
+                type="number"
+                min={0}
+                step={0.0001}
+                value={prices.speechPerSecond}
+                onChange={(e) => updatePrice({speechPerSecond: Number(e.target.value)})}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              Script, prompt assist or translation, per call
+              <input
+                type="number"
+                min={0}
+                step={0.001}
+                value={prices.scriptPerCall}
+                onChange={(e) => updatePrice({scriptPerCall: Number(e.target.value)})}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              Product image, per image
+              <input
+                type="number"
+                min={0}
+                step={0.001}
+                value={prices.imagePerCall}
+                onChange={(e) => updatePrice({imagePerCall: Number(e.target.value)})}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              Transcription, per call
+              <input
+                type="number"
+                min={0}
+                step={0.001}
+                value={prices.transcriptionPerCall}
+                onChange={(e) => updatePrice({transcriptionPerCall: Number(e.target.value)})}
+                className={inputClassName}
+              />
+            </label>
+          </fieldset>
+
+          {/* Ledger */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium text-gray-300">Recent calls</p>
+              <button
+                onClick={handleClear}
+                disabled={records.length === 0}
+                className="flex items-center gap-1 text-xs text-red-400 hover:text-red-300 disabled:opacity-50">
+                <TrashIcon className="w-4 h-4" />
+                Clear history
+              </button>
+            </div>
+            {isLoading ? (
+              <p className="text-gray-400 text-center py-4">Loading usage...</p>
+            ) : records.length > 0 ? (
+              <table className="w-full text-xs text-left">
+                <thead className="text-gray-400">
+                  <tr>
+                    <th className="py-1">When</th>
+                    <th>Call</th>
+                    <th>Model</th>
+                    <th>Length</th>
+                    <th>Outcome</th>
+                    <th className="text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {records.slice(0, RECENT_RECORDS).map((record) => (
+                    <tr key={record.id} className="border-t border-gray-700">
+                      <td className="py-1">{new Date(record.timestamp).toLocaleString()}</td>
+                      <td className="capitalize">{record.kind}</td>
+                      <td className="truncate max-w-[12rem]" title={record.model}>
+                        {record.model}
+                        {record.resolution ? ` · ${record.resolution}` : ''}
+                      </td>
+                      <td>{record.seconds !== undefined ? `${record.seconds.toFixed(1)}s` : '—'}</td>
+                      <td className={`capitalize ${outcomeStyles[record.outcome]}`}>{record.outcome}</td>
+                      <td className="text-right tabular-nums">{formatCost(record.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-gray-400 text-center py-4">No usage recorded yet.</p>
+            )}
+          </div>
+        </div>
+        {savedMessage && <p className="mt-4 text-sm text-center text-green-400">{savedMessage}</p>}
+        <div className="mt-6 flex justify-center gap-4">
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+            Save
+          </button>
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDialog;
@@ -2,8 +2,41 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useRef, useEffect, useCallback} from 'react';
-import {ArrowPathIcon, DownloadIcon, PlusIcon, SparklesIcon} from './icons';
+import React, {useRef, useCallback, useEffect, useMemo, useState} from 'react';
+import {
+  AudioMixSettings,
+  BrandProfile,
+  CaptionGranularity,
+  CaptionStyle,
+  LocalizedAd,
+  OverlayElement,
+} from '../types';
+import {useVoiceoverSync} from '../hooks/useVoiceoverSync';
+import {createAudioMix, renderAudioMix} from '../services/audioMixService';
+import {
+  DEFAULT_CAPTION_STYLE,
+  buildCaptionCues,
+  toVtt,
+} from '../services/captionService';
+import {buildEndCardTemplate} from '../services/overlayService';
+import {getVideoExtension, renderVideoWithAudio} from '../services/renderService';
+import {getScriptLanguageCode} from '../services/scriptService';
+import {resolveMediaDuration} from '../utils';
+import AudioEditorPanel from './AudioEditorPanel';
+import CaptionPanel from './CaptionPanel';
+import ExportDialog from './ExportDialog';
+import FrameToolDialog from './FrameToolDialog';
+import OverlayPanel from './OverlayPanel';
+import OverlayPreview from './OverlayPreview';
+import {
+  ArrowPathIcon,
+  DownloadIcon,
+  FilmIcon,
+  GlobeIcon,
+  PhotoIcon,
+  PlusIcon,
+  SparklesIcon,
+} from './icons';
 
 interface VideoResultProps {
   videoUrl: string;
@@ -12,6 +45,16 @@ interface VideoResultProps {
   onNewVideo: () => void;
   onExtend: () => void;
   canExtend: boolean;
+  captionScript?: string; // The TTS script, used as the initial caption text
+  scriptLanguage?: string; // The TTS script's language, if the script writer wrote it
+  onTranscribe?: () => Promise<string>; // Transcribes a recorded voiceover
+  productName?: string; // Used to name exported files and fill the end card
+  productDescription?: string; // Fills the end card
+  brand?: BrandProfile; // Supplies the end card's logo and accent color
+  localizations?: LocalizedAd[]; // Finished language versions to review
+  activeLocale?: string | null; // The language under review, or null for the original
+  onLocaleChange?: (locale: string | null) => void;
+  onLocalize?: () => void;
 }
 
 const VideoResult: React.FC<VideoResultProps> = ({
@@ -21,88 +64,232 @@ const VideoResult: React.FC<VideoResultProps> = ({
   onNewVideo,
   onExtend,
   canExtend,
+  captionScript,
+  scriptLanguage,
+  onTranscribe,
+  productName = '',
+  productDescription = '',
+  brand,
+  localizations = [],
+  activeLocale = null,
+  onLocaleChange,
+  onLocalize,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
-
-  // Function to play the audio buffer in sync with the video
-  const playAudio = () => {
-    if (!voiceoverBuffer || !videoRef.current) return;
-    
-    // Stop any existing audio
-    if (audioSourceRef.current) {
-      audioSourceRef.current.stop();
+  const [audioMix, setAudioMix] = useState<AudioMixSettings>(() =>
+    createAudioMix(voiceoverBuffer),
+  );
+  const [music, setMusic] = useState<{name: string; buffer: AudioBuffer} | null>(null);
+  const [mixedAudio, setMixedAudio] = useState<AudioBuffer | null>(null);
+  const [isMixing, setIsMixing] = useState(false);
+  const [mixError, setMixError] = useState<string | null>(null);
+  // The duration is 0 if the video's length could not be read.
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [isVideoLoaded, setIsVideoLoaded] = useState(false);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [captionText, setCaptionText] = useState(captionScript ?? '');
+  const [captionGranularity, setCaptionGranularity] =
+    useState<CaptionGranularity>('phrase');
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [burnCaptions, setBurnCaptions] = useState(false);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(DEFAULT_CAPTION_STYLE);
+  const [captionTrackUrl, setCaptionTrackUrl] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showFrames, setShowFrames] = useState(false);
+  // Filled with the default end card once the video's length is known. Off
+  // until the user turns it on, so plain downloads stay the original file.
+  const [overlays, setOverlays] = useState<OverlayElement[] | null>(null);
+  const [showOverlays, setShowOverlays] = useState(false);
+  // The preview plays the same offline mix that downloads and exports use.
+  useVoiceoverSync(videoRef, videoUrl, mixedAudio);
+
+  // Re-mix shortly after the settings stop changing, e.g. while dragging.
+  useEffect(() => {
+    if (!isVideoLoaded || (!voiceoverBuffer && !music)) {
+      setMixedAudio(null);
+      setMixError(null);
+      setIsMixing(false);
+      return;
     }
-    
-    // Initialize AudioContext on user interaction
-    if (!audioContextRef.current) {
-      // FIX: Cast window to any to allow access to webkitAudioContext for broader browser support.
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    // Pending from the first change, so nothing saves a mix that is out of date.
+    setIsMixing(true);
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const mixed = await renderAudioMix({
+          voiceover: voiceoverBuffer,
+          music: music?.buffer ?? null,
+          settings: audioMix,
+          duration: videoDuration,
+        });
+        if (!isCancelled) {
+          setMixedAudio(mixed);
+          setMixError(null);
+        }
+      } catch (error) {
+        console.error('Failed to mix audio:', error);
+        if (!isCancelled) {
+          setMixedAudio(null);
+          setMixError('Could not mix the voiceover and music, so the video plays without them.');
+        }
+      } finally {
+        if (!isCancelled) setIsMixing(false);
+      }
+    }, 200);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [voiceoverBuffer, music, audioMix, videoDuration, isVideoLoaded]);
+
+  useEffect(() => {
+    if (videoDuration && overlays === null) {
+      setOverlays(buildEndCardTemplate(productName, productDescription, videoDuration, brand));
     }
-    
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = voiceoverBuffer;
-    source.connect(audioContextRef.current.destination);
-    source.start(0, videoRef.current.currentTime); // Start from video's current time
-    audioSourceRef.current = source;
-  };
+  }, [videoDuration, overlays, productName, productDescription, brand]);
+
+  const activeOverlays = useMemo(
+    () => (showOverlays && overlays ? overlays : []),
+    [showOverlays, overlays],
+  );
 
-  // Function to stop the audio
-  const stopAudio = () => {
-    if (audioSourceRef.current) {
-      audioSourceRef.current.stop();
-      audioSourceRef.current = null;
+  // Captions follow the voiceover, including its start offset and trim.
+  const captions = useMemo(
+    () =>
+      voiceoverBuffer
+        ? buildCaptionCues(
+            captionText,
+            voiceoverBuffer,
+            captionGranularity,
+            audioMix.offset - audioMix.trimStart,
+            {start: audioMix.trimStart, end: audioMix.trimEnd},
+          )
+        : [],
+    [
+      captionText,
+      voiceoverBuffer,
+      captionGranularity,
+      audioMix.offset,
+      audioMix.trimStart,
+      audioMix.trimEnd,
+    ],
+  );
+  // Language versions have their own code; the original uses its script's.
+  const localization = localizations.find((ad) => ad.locale === activeLocale);
+  const captionLanguage = localization
+    ? {name: localization.language, code: localization.locale}
+    : {name: scriptLanguage, code: getScriptLanguageCode(scriptLanguage)};
+
+  useEffect(() => {
+    if (!showCaptions || captions.length === 0) {
+      setCaptionTrackUrl(null);
+      return;
     }
+    const url = URL.createObjectURL(new Blob([toVtt(captions)], {type: 'text/vtt'}));
+    setCaptionTrackUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [captions, showCaptions]);
+
+  // Recorded clips can report an infinite duration until it is looked up.
+  const handleLoadedMetadata = async (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    setVideoDuration(await resolveMediaDuration(e.currentTarget));
+    setIsVideoLoaded(true);
   };
-  
-  const handleDownload = useCallback(() => {
-    if (!videoUrl) return;
+
+  // Downloads and exports wait for the mix rather than saving a silent video.
+  const hasAudio = Boolean(voiceoverBuffer || music);
+  const isAudioPending = hasAudio && (!isVideoLoaded || isMixing);
+
+  const downloadUrl = (url: string, extension: string) => {
     const link = document.createElement('a');
-    link.href = videoUrl;
-    link.download = `adspark-studio-video-${Date.now()}.mp4`;
+    link.href = url;
+    link.download = `adspark-studio-video-${Date.now()}.${extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-  }, [videoUrl]);
-
+  };
 
-  useEffect(() => {
-    const videoElement = videoRef.current;
-    if (!videoElement || !voiceoverBuffer) return;
-
-    const handlePlay = () => playAudio();
-    const handlePause = () => stopAudio();
-    const handleEnded = () => stopAudio();
-    const handleSeeked = () => {
-        // If video is playing after seek, restart audio from new time
-        if (!videoElement.paused) {
-            playAudio();
-        }
+  const handleDownload = useCallback(async () => {
+    if (!videoUrl) return;
+    if (hasAudio && !mixedAudio) {
+      setRenderError('The voiceover and music could not be mixed, so the download would be silent. Adjust the audio settings to mix again.');
+      return;
     }
 
-    videoElement.addEventListener('play', handlePlay);
-    videoElement.addEventListener('pause', handlePause);
-    videoElement.addEventListener('ended', handleEnded);
-    videoElement.addEventListener('seeked', handleSeeked);
-
-    // Mute the video element itself so only our synced audio plays
-    videoElement.muted = true;
-
-    return () => {
-      videoElement.removeEventListener('play', handlePlay);
-      videoElement.removeEventListener('pause', handlePause);
-      videoElement.removeEventListener('ended', handleEnded);
-      videoElement.removeEventListener('seeked', handleSeeked);
-      stopAudio(); // Cleanup on unmount
-    };
-  }, [videoUrl, voiceoverBuffer]);
+    setRenderError(null);
+    const burnedCaptions = burnCaptions && captions.length > 0 ? captions : undefined;
+    if (!mixedAudio && !burnedCaptions && activeOverlays.length === 0) {
+      try {
+        const blob = await (await fetch(videoUrl)).blob();
+        downloadUrl(videoUrl, getVideoExtension(blob.type));
+      } catch (error) {
+        console.error('Failed to download video:', error);
+        setRenderError('Could not download the video. Please try again.');
+      }
+      return;
+    }
 
+    // Burn the mix, captions and overlays into the file so it matches what the preview plays.
+    setRenderProgress(0);
+    try {
+      const blob = await renderVideoWithAudio({
+        videoUrl,
+        voiceover: mixedAudio,
+        captions: burnedCaptions,
+        captionStyle,
+        overlays: activeOverlays,
+        onProgress: setRenderProgress,
+      });
+      const url = URL.createObjectURL(blob);
+      downloadUrl(url, getVideoExtension(blob.type));
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to render video:', error);
+      setRenderError('Could not render the voiceover, captions and overlays into the video. Please try again.');
+    } finally {
+      setRenderProgress(null);
+    }
+  }, [videoUrl, hasAudio, mixedAudio, burnCaptions, captions, captionStyle, activeOverlays]);
 
   return (
     <div className="w-full flex flex-col items-center gap-8 p-8 bg-gray-800/50 rounded-lg border border-gray-700 shadow-2xl">
+      {showExport && (
+        <ExportDialog
+          videoUrl={videoUrl}
+          audio={mixedAudio}
+          captions={burnCaptions ? captions : undefined}
+          captionStyle={captionStyle}
+          overlays={activeOverlays}
+          productName={productName}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+      {showFrames && (
+        <FrameToolDialog
+          videoUrl={videoUrl}
+          productName={productName}
+          onClose={() => setShowFrames(false)}
+        />
+      )}
       <h2 className="text-2xl font-bold text-gray-200">Your Ad is Ready!</h2>
-      <div className="w-full max-w-2xl aspect-video rounded-lg overflow-hidden bg-black shadow-lg">
+      {localizations.length > 0 && onLocaleChange && (
+        <label className="flex items-center gap-3 text-sm text-gray-400">
+          Language
+          <select
+            value={activeLocale ?? ''}
+            onChange={(e) => onLocaleChange(e.target.value || null)}
+            className="bg-gray-800 border-gray-600 rounded-md py-1.5 px-3 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            <option value="">Original</option>
+            {localizations.map((ad) => (
+              <option key={ad.locale} value={ad.locale}>
+                {ad.language} ({ad.locale})
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <div className="relative w-full max-w-2xl aspect-video rounded-lg overflow-hidden bg-black shadow-lg">
         <video
           ref={videoRef}
           key={videoUrl} // Use key to force re-render on new video
@@ -110,17 +297,101 @@ const VideoResult: React.FC<VideoResultProps> = ({
           controls
           autoPlay
           loop
-          className="w-full h-full object-contain"
-        />
+          onLoadedMetadata={handleLoadedMetadata}
+          className="w-full h-full object-contain">
+          {captionTrackUrl && (
+            <track
+              key={captionTrackUrl}
+              kind="captions"
+              label={captionLanguage.name ? `Captions (${captionLanguage.name})` : 'Captions'}
+              srcLang={captionLanguage.code}
+              src={captionTrackUrl}
+              default
+            />
+          )}
+        </video>
+        {activeOverlays.length > 0 && (
+          <OverlayPreview videoRef={videoRef} elements={activeOverlays} />
+        )}
       </div>
 
+      <AudioEditorPanel
+        voiceover={voiceoverBuffer}
+        music={music}
+        onMusicChange={setMusic}
+        settings={audioMix}
+        onSettingsChange={setAudioMix}
+        videoDuration={videoDuration}
+        isMixing={isMixing}
+      />
+      {mixError && <p className="text-sm text-red-400">{mixError}</p>}
+
+      {overlays && (
+        <OverlayPanel
+          elements={overlays}
+          onElementsChange={setOverlays}
+          enabled={showOverlays}
+          onEnabledChange={setShowOverlays}
+          onReset={() =>
+            setOverlays(buildEndCardTemplate(productName, productDescription, videoDuration, brand))
+          }
+          videoDuration={videoDuration}
+        />
+      )}
+
+      {voiceoverBuffer && (
+        <CaptionPanel
+          text={captionText}
+          onTextChange={setCaptionText}
+          granularity={captionGranularity}
+          onGranularityChange={setCaptionGranularity}
+          showCaptions={showCaptions}
+          onShowCaptionsChange={setShowCaptions}
+          burnIn={burnCaptions}
+          onBurnInChange={setBurnCaptions}
+          style={captionStyle}
+          onStyleChange={setCaptionStyle}
+          cues={captions}
+          onTranscribe={onTranscribe}
+        />
+      )}
+
+      {renderError && <p className="text-sm text-red-400">{renderError}</p>}
+
       <div className="flex flex-wrap justify-center gap-4">
         <button
           onClick={handleDownload}
-          className="flex items-center gap-2 px-6 py-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors">
+          disabled={renderProgress !== null || isAudioPending}
+          className="flex items-center gap-2 px-6 py-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-wait">
           <DownloadIcon className="w-5 h-5" />
-          Download Video
+          {renderProgress !== null
+            ? `Rendering... ${Math.round(renderProgress * 100)}%`
+            : isAudioPending
+              ? 'Mixing audio...'
+              : 'Download Video'}
+        </button>
+        <button
+          onClick={() => setShowExport(true)}
+          disabled={renderProgress !== null || isAudioPending || (hasAudio && !mixedAudio)}
+          className="flex items-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors disabled:opacity-50">
+          <FilmIcon className="w-5 h-5" />
+          Export for Platforms
         </button>
+        <button
+          onClick={() => setShowFrames(true)}
+          className="flex items-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors">
+          <PhotoIcon className="w-5 h-5" />
+          Frames & Covers
+        </button>
+        {onLocalize && (
+          <button
+            onClick={onLocalize}
+            disabled={renderProgress !== null}
+            className="flex items-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors disabled:opacity-50">
+            <GlobeIcon className="w-5 h-5" />
+            Localize
+          </button>
+        )}
         <button
           onClick={onRetry}
           className="flex items-center gap-2 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors">
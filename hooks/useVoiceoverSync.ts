@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {RefObject, useEffect, useRef} from 'react';
+import {scheduleVoiceover} from '../services/renderService';
+import {createAudioContext} from '../utils';
+
+// How the voiceover is placed over the video.
+export interface VoiceoverMix {
+  gain: number; // Linear gain, 1 is unchanged
+  offset: number; // Seconds; positive delays the voiceover
+}
+
+const DEFAULT_MIX: VoiceoverMix = {gain: 1, offset: 0};
+
+/**
+ * Plays a voiceover AudioBuffer in sync with a <video> element. The video is
+ * muted and the buffer is (re)started whenever the video plays or seeks.
+ * @param videoRef The video element to follow.
+ * @param videoUrl The video's source; re-binds when the element is re-created.
+ * @param voiceoverBuffer The audio to play, or null for none.
+ * @param mix Volume and timing for the voiceover.
+ */
+export const useVoiceoverSync = (
+  videoRef: RefObject<HTMLVideoElement | null>,
+  videoUrl: string | undefined,
+  voiceoverBuffer: AudioBuffer | null,
+  {gain, offset}: VoiceoverMix = DEFAULT_MIX,
+) => {
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!videoElement || !voiceoverBuffer) return;
+
+    // Function to stop the audio
+    const stopAudio = () => {
+      if (audioSourceRef.current) {
+        audioSourceRef.current.stop();
+        audioSourceRef.current = null;
+      }
+    };
+
+    // Function to play the audio buffer in sync with the video
+    const playAudio = () => {
+      stopAudio();
+
+      // Initialize AudioContext on user interaction
+      if (!audioContextRef.current) {
+        audioContextRef.current = createAudioContext();
+      }
+
+      const ctx = audioContextRef.current;
+      // Start from the video's current time, honoring the voiceover offset
+      audioSourceRef.current = scheduleVoiceover(
+        ctx,
+        voiceoverBuffer,
+        ctx.destination,
+        gain,
+        offset,
+        videoElement.currentTime,
+      );
+    };
+
+    const handleSeeked = () => {
+      // If video is playing after seek, restart audio from new time
+      if (!videoElement.paused) {
+        playAudio();
+      }
+    };
+
+    videoElement.addEventListener('play', playAudio);
+    videoElement.addEventListener('pause', stopAudio);
+    videoElement.addEventListener('ended', stopAudio);
+    videoElement.addEventListener('seeked', handleSeeked);
+
+    // Mute the video element itself so only our synced audio plays
+    videoElement.muted = true;
+
+    // Re-binding mid-playback (e.g. after a mix change) restarts the audio.
+    if (!videoElement.paused) {
+      playAudio();
+    }
+
+    return () => {
+      videoElement.removeEventListener('play', playAudio);
+      videoElement.removeEventListener('pause', stopAudio);
+      videoElement.removeEventListener('ended', stopAudio);
+      videoElement.removeEventListener('seeked', handleSeeked);
+      stopAudio(); // Cleanup on unmount
+      videoElement.muted = false; // Hand the clip's own audio back if the buffer goes away
+    };
+  }, [videoRef, videoUrl, voiceoverBuffer, gain, offset]);
+};
@@ -5,6 +5,21 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import {withRetries} from './services/errorService';
+import {geminiProvider} from './services/geminiService';
+import {mockProvider} from './services/mockService';
+import {withUsageTracking} from './services/usageService';
+
+// Pick the generation backend. `?provider=mock` in the URL (or AD_PROVIDER=mock
+// in .env.local) runs the app fully offline against canned assets.
+const providerName =
+  new URLSearchParams(window.location.search).get('provider') ??
+  process.env.AD_PROVIDER;
+// Every call is recorded in the usage ledger behind the cost dashboard, and
+// failures are retried according to their kind. Each retry is recorded too.
+const provider = withRetries(
+  withUsageTracking(providerName === 'mock' ? mockProvider : geminiProvider),
+);
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,6 +29,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <App provider={provider} />
   </React.StrictMode>
 );
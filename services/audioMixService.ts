@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AudioMixSettings} from '../types';
+import {createAudioContext} from '../utils';
+
+// The voiceover and music bed are mixed offline into a single buffer that
+// both the preview and the export play, so what users hear is what they get.
+
+const MIX_SAMPLE_RATE = 48000;
+const SPEECH_WINDOW_SECONDS = 0.05;
+const SPEECH_THRESHOLD = 0.02; // RMS level treated as speech
+const DUCK_ATTACK_SECONDS = 0.15;
+const DUCK_RELEASE_SECONDS = 0.4;
+// Shorter pauses do not release the duck. Longer than the attack and release
+// together, so the music never ducks again before it has recovered.
+const SPEECH_GAP_SECONDS = 0.6;
+const MUSIC_FADE_OUT_SECONDS = 1;
+
+/**
+ * Creates the default mix for a voiceover: untrimmed, at full volume and
+ * starting with the video.
+ * @param voiceover The voiceover, if any.
+ * @returns The settings.
+ */
+export const createAudioMix = (voiceover: AudioBuffer | null): AudioMixSettings => ({
+  offset: 0,
+  trimStart: 0,
+  trimEnd: voiceover?.duration ?? 0,
+  fadeIn: 0,
+  fadeOut: 0,
+  gain: 1,
+  musicGain: 0.5,
+  ducking: true,
+  duckLevel: 0.3,
+});
+
+/**
+ * Summarizes a buffer for drawing as a waveform.
+ * @param buffer The audio.
+ * @param bins How many bars to draw.
+ * @returns The peak amplitude of each bar, from 0 to 1.
+ */
+export const computeWaveform = (buffer: AudioBuffer, bins: number): number[] => {
+  const data = buffer.getChannelData(0);
+  const size = Math.max(1, Math.floor(data.length / bins));
+  const peaks: number[] = [];
+  for (let bin = 0; bin < bins; bin++) {
+    let peak = 0;
+    for (let i = bin * size; i < Math.min((bin + 1) * size, data.length); i++) {
+      peak = Math.max(peak, Math.abs(data[i]));
+    }
+    peaks.push(Math.min(1, peak));
+  }
+  return peaks;
+};
+
+/**
+ * Finds the stretches of a voiceover where someone is speaking.
+ * @param buffer The voiceover.
+ * @returns The regions, in seconds from the start of the buffer.
+ */
+export const findSpeechRegions = (
+  buffer: AudioBuffer,
+): {start: number; end: number}[] => {
+  const data = buffer.getChannelData(0);
+  const windowSize = Math.max(1, Math.round(buffer.sampleRate * SPEECH_WINDOW_SECONDS));
+  const regions: {start: number; end: number}[] = [];
+
+  for (let from = 0; from < data.length; from += windowSize) {
+    let sum = 0;
+    const to = Math.min(from + windowSize, data.length);
+    for (let i = from; i < to; i++) sum += data[i] * data[i];
+    if (Math.sqrt(sum / (to - from)) < SPEECH_THRESHOLD) continue;
+
+    const start = from / buffer.sampleRate;
+    const end = to / buffer.sampleRate;
+    const last = regions[regions.length - 1];
+    if (last && start - last.end <= SPEECH_GAP_SECONDS) {
+      last.end = end;
+    } else {
+      regions.push({start, end});
+    }
+  }
+  return regions;
+};
+
+/**
+ * Decodes an uploaded music file.
+ * @param file The file, in any format the browser can play.
+ * @returns A promise that resolves with the decoded audio.
+ */
+export const decodeAudioFile = async (file: Blob): Promise<AudioBuffer> => {
+  const ctx = createAudioContext();
+  try {
+    return await ctx.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    ctx.close();
+  }
+};
+
+/**
+ * Mixes the voiceover and music bed into one buffer the length of the video.
+ * If the video's length is unknown, the mix runs until the voiceover ends.
+ * @param options The voiceover, music, settings and video duration.
+ * @returns A promise that resolves with the stereo mix.
+ */
+export const renderAudioMix = async ({
+  voiceover,
+  music,
+  settings,
+  duration,
+}: {
+  voiceover: AudioBuffer | null;
+  music: AudioBuffer | null;
+  settings: AudioMixSettings;
+  duration: number;
+}): Promise<AudioBuffer> => {
+  if (!Number.isFinite(duration) || duration <= 0) {
+    duration = voiceover
+      ? Math.max(0, settings.offset) + voiceover.duration
+      : music?.duration ?? 0;
+  }
+  const length = Math.max(1, Math.ceil(duration * MIX_SAMPLE_RATE));
+  const ctx = new OfflineAudioContext(2, length, MIX_SAMPLE_RATE);
+  // Where the voiceover plays on the video's timeline, if at all.
+  let speechWindow: {start: number; end: number; skip: number} | null = null;
+
+  if (voiceover) {
+    const trimStart = Math.max(0, Math.min(settings.trimStart, voiceover.duration));
+    const trimEnd = Math.max(trimStart, Math.min(settings.trimEnd, voiceover.duration));
+    // A negative offset starts the voiceover before the video, i.e. skips into it.
+    const skip = Math.max(0, -settings.offset);
+    const start = Math.max(0, settings.offset);
+    const playLength = Math.min(trimEnd - trimStart - skip, duration - start);
+
+    if (playLength > 0) {
+      speechWindow = {start, end: start + playLength, skip: trimStart + skip};
+      const source = ctx.createBufferSource();
+      source.buffer = voiceover;
+      const gain = ctx.createGain();
+      source.connect(gain).connect(ctx.destination);
+
+      const fadeIn = Math.min(settings.fadeIn, playLength / 2);
+      const fadeOut = Math.min(settings.fadeOut, playLength / 2);
+      const end = start + playLength;
+      gain.gain.setValueAtTime(fadeIn > 0 ? 0 : settings.gain, start);
+      if (fadeIn > 0) gain.gain.linearRampToValueAtTime(settings.gain, start + fadeIn);
+      if (fadeOut > 0) {
+        gain.gain.setValueAtTime(settings.gain, end - fadeOut);
+        gain.gain.linearRampToValueAtTime(0, end);
+      }
+      source.start(start, speechWindow.skip, playLength);
+    }
+  }
+
+  if (music) {
+    const source = ctx.createBufferSource();
+    source.buffer = music;
+    source.loop = true;
+    const gain = ctx.createGain();
+    // A separate stage for the closing fade, so it works from any duck level.
+    const fade = ctx.createGain();
+    source.connect(gain).connect(fade).connect(ctx.destination);
+    gain.gain.setValueAtTime(settings.musicGain, 0);
+
+    if (voiceover && speechWindow && settings.ducking) {
+      const ducked = settings.musicGain * settings.duckLevel;
+      const placed = speechWindow;
+      const regions = findSpeechRegions(voiceover)
+        .map((region) => ({
+          start: region.start - placed.skip + placed.start,
+          end: region.end - placed.skip + placed.start,
+        }))
+        .filter((region) => region.end > placed.start && region.start < placed.end);
+      for (const region of regions) {
+        const duckStart = Math.max(0, Math.max(region.start, placed.start) - DUCK_ATTACK_SECONDS);
+        const duckEnd = Math.max(
+          duckStart + DUCK_ATTACK_SECONDS,
+          Math.min(region.end, placed.end),
+        );
+        gain.gain.setValueAtTime(settings.musicGain, duckStart);
+        gain.gain.linearRampToValueAtTime(ducked, duckStart + DUCK_ATTACK_SECONDS);
+        gain.gain.setValueAtTime(ducked, duckEnd);
+        gain.gain.linearRampToValueAtTime(settings.musicGain, duckEnd + DUCK_RELEASE_SECONDS);
+      }
+    }
+
+    // Let the music tail off instead of stopping abruptly.
+    fade.gain.setValueAtTime(1, Math.max(0, duration - MUSIC_FADE_OUT_SECONDS));
+    fade.gain.linearRampToValueAtTime(0, duration);
+    source.start(0);
+  }
+
+  return ctx.startRendering();
+};
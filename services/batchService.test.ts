@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it, vi} from 'vitest';
+import {AspectRatio, GenerateVideoParams, VoiceName} from '../types';
+import {buildVariants, runQueue} from './batchService';
+
+describe('buildVariants', () => {
+  const base = {
+    prompt: 'A serum bottle',
+    aspectRatio: AspectRatio.LANDSCAPE,
+    voiceoverMode: 'tts',
+    voiceName: VoiceName.KORE,
+  } as GenerateVideoParams;
+
+  it('makes one variant per combination, labelled by what differs', () => {
+    const variants = buildVariants(base, {
+      prompts: ['A', 'B'],
+      aspectRatios: [AspectRatio.LANDSCAPE, AspectRatio.PORTRAIT],
+      voiceNames: [VoiceName.PUCK],
+      concurrency: 2,
+    });
+    expect(variants.map((v) => v.label)).toEqual([
+      'Prompt 1 · 16:9',
+      'Prompt 1 · 9:16',
+      'Prompt 2 · 16:9',
+      'Prompt 2 · 9:16',
+    ]);
+    expect(variants[3].params).toMatchObject({
+      prompt: 'B',
+      aspectRatio: AspectRatio.PORTRAIT,
+      voiceName: VoiceName.PUCK,
+    });
+    expect(variants.every((v) => v.status === 'queued' && !v.isWinner)).toBe(true);
+  });
+
+  it('falls back to the base params for empty dimensions', () => {
+    const variants = buildVariants(base, {
+      prompts: [],
+      aspectRatios: [],
+      voiceNames: [],
+      concurrency: 1,
+    });
+    expect(variants).toHaveLength(1);
+    expect(variants[0].label).toBe('Variant 1');
+    expect(variants[0].params).toMatchObject({
+      prompt: 'A serum bottle',
+      aspectRatio: AspectRatio.LANDSCAPE,
+      voiceName: VoiceName.KORE,
+    });
+  });
+
+  it('ignores voices when the voiceover is not TTS', () => {
+    const variants = buildVariants(
+      {...base, voiceoverMode: 'record'},
+      {prompts: [], aspectRatios: [], voiceNames: [VoiceName.PUCK, VoiceName.ZEPHYR], concurrency: 1},
+    );
+    expect(variants).toHaveLength(1);
+  });
+});
+
+describe('runQueue', () => {
+  it('never runs more items than the concurrency at once', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const done: number[] = [];
+    await runQueue([1, 2, 3, 4, 5], 2, async (item) => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await Promise.resolve();
+      done.push(item);
+      running--;
+    });
+    expect(mostRunning).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('keeps going after a worker fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const worker = vi.fn(async (item: number) => {
+      if (item === 1) throw new Error('Failed');
+    });
+    await runQueue([1, 2, 3], 1, worker);
+    expect(worker).toHaveBeenCalledTimes(3);
+    vi.restoreAllMocks();
+  });
+
+  it('starts nothing new once aborted', async () => {
+    const controller = new AbortController();
+    const worker = vi.fn(async () => controller.abort());
+    await runQueue([1, 2, 3], 1, worker, controller.signal);
+    expect(worker).toHaveBeenCalledTimes(1);
+  });
+});
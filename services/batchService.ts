@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {BatchOptions, BatchVariant, GenerateVideoParams} from '../types';
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+/**
+ * Expands a brief into one variant per combination of prompt, aspect ratio and
+ * voice. Dimensions left empty fall back to the base params' value.
+ * @param base The params from the form.
+ * @param options The values to vary.
+ * @returns The variants, all queued.
+ */
+export const buildVariants = (
+  base: GenerateVideoParams,
+  options: BatchOptions,
+): BatchVariant[] => {
+  const prompts = options.prompts.length > 0 ? options.prompts : [base.prompt];
+  const aspectRatios =
+    options.aspectRatios.length > 0 ? options.aspectRatios : [base.aspectRatio];
+  const voiceNames =
+    base.voiceoverMode === 'tts' && options.voiceNames.length > 0
+      ? options.voiceNames
+      : [base.voiceName];
+
+  const variants: BatchVariant[] = [];
+  prompts.forEach((prompt, promptIndex) => {
+    for (const aspectRatio of aspectRatios) {
+      for (const voiceName of voiceNames) {
+        const labelParts = [];
+        if (prompts.length > 1) labelParts.push(`Prompt ${promptIndex + 1}`);
+        if (aspectRatios.length > 1) labelParts.push(aspectRatio);
+        if (voiceNames.length > 1 && voiceName) labelParts.push(voiceName);
+
+        variants.push({
+          id: crypto.randomUUID(),
+          label: labelParts.join(' · ') || `Variant ${variants.length + 1}`,
+          params: {...base, prompt, aspectRatio, voiceName},
+          status: 'queued',
+          isWinner: false,
+        });
+      }
+    }
+  });
+  return variants;
+};
+
+/**
+ * Runs async work over a list of items with at most `concurrency` in flight.
+ * Failures are left to the worker to record; they do not stop the queue.
+ * Aborting the signal stops new items from starting.
+ * @param items The items to process, in order.
+ * @param concurrency The maximum number of workers running at once.
+ * @param worker Processes one item.
+ * @param signal An optional signal that stops the queue.
+ */
+export const runQueue = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> => {
+  let next = 0;
+  const runWorker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        console.error('Batch worker failed:', error);
+      }
+    }
+  };
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({length: workerCount}, runWorker));
+};
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  BrandProfile,
+  GenerateVideoParams,
+  VoiceName,
+} from '../types';
+import {parseImportList, readOneOf, readString, readStringList} from './importService';
+
+const BRAND_KIT_KEY = 'adspark_studio_brand_kits';
+const SELECTED_BRAND_KEY = 'adspark_studio_selected_brand';
+const EXPORT_VERSION = 1;
+
+/**
+ * Creates an empty profile with sensible defaults.
+ * @param name The display name for the new profile.
+ * @returns A new, unsaved profile.
+ */
+export const createBrandProfile = (name = 'New Brand'): BrandProfile => ({
+  id: crypto.randomUUID(),
+  name,
+  palette: [],
+  toneOfVoice: '',
+  bannedWords: [],
+  defaultVoiceName: VoiceName.ZEPHYR,
+  defaultAspectRatio: AspectRatio.PORTRAIT,
+});
+
+/**
+ * Retrieves all saved brand profiles from localStorage.
+ * @returns An array of profiles, in the order they were created.
+ */
+export const getBrandProfiles = (): BrandProfile[] => {
+  try {
+    const json = localStorage.getItem(BRAND_KIT_KEY);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('Error reading brand kits from localStorage', error);
+    return [];
+  }
+};
+
+const writeBrandProfiles = (profiles: BrandProfile[]) => {
+  try {
+    localStorage.setItem(BRAND_KIT_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    // Most likely the quota was exceeded by a large logo.
+    console.error('Error saving brand kits to localStorage', error);
+    throw new Error('Could not save the brand kit. Try a smaller logo image.');
+  }
+};
+
+/**
+ * Creates or updates a profile.
+ * @param profile The profile to save; matched by id.
+ */
+export const saveBrandProfile = (profile: BrandProfile) => {
+  const profiles = getBrandProfiles();
+  const index = profiles.findIndex((p) => p.id === profile.id);
+  if (index >= 0) {
+    profiles[index] = profile;
+  } else {
+    profiles.push(profile);
+  }
+  writeBrandProfiles(profiles);
+};
+
+/**
+ * Deletes a profile, deselecting it if it was selected.
+ * @param id The profile to delete.
+ */
+export const deleteBrandProfile = (id: string) => {
+  writeBrandProfiles(getBrandProfiles().filter((p) => p.id !== id));
+  if (getSelectedBrandId() === id) {
+    setSelectedBrandId(null);
+  }
+};
+
+export const getSelectedBrandId = (): string | null =>
+  localStorage.getItem(SELECTED_BRAND_KEY);
+
+export const setSelectedBrandId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(SELECTED_BRAND_KEY, id);
+  } else {
+    localStorage.removeItem(SELECTED_BRAND_KEY);
+  }
+};
+
+/**
+ * Looks up the profile that new generations should use.
+ * @returns The selected profile, or undefined if none is selected.
+ */
+export const getSelectedBrand = (): BrandProfile | undefined => {
+  const id = getSelectedBrandId();
+  return id ? getBrandProfiles().find((p) => p.id === id) : undefined;
+};
+
+/**
+ * Attaches a brand to the params and applies its default voice and aspect ratio.
+ * @param params The params to update.
+ * @param brand The brand to apply, or undefined to remove the brand.
+ * @returns The updated params.
+ */
+export const applyBrandDefaults = <T extends Partial<GenerateVideoParams>>(
+  params: T,
+  brand: BrandProfile | undefined,
+): T =>
+  brand
+    ? {
+        ...params,
+        brand,
+        voiceName: brand.defaultVoiceName,
+        aspectRatio: brand.defaultAspectRatio,
+      }
+    : {...params, brand: undefined};
+
+/**
+ * Builds the style constraints appended to a video prompt.
+ * @param brand The brand to describe.
+ * @returns The directives, or an empty string if the brand adds none.
+ */
+export const buildBrandVideoDirectives = (brand: BrandProfile): string => {
+  const directives: string[] = [];
+  if (brand.palette.length > 0) {
+    directives.push(`Use a color palette built around ${brand.palette.join(', ')}.`);
+  }
+  if (brand.toneOfVoice.trim()) {
+    directives.push(`The overall mood should feel ${brand.toneOfVoice.trim()}.`);
+  }
+  return directives.length > 0 ? `Brand style: ${directives.join(' ')}` : '';
+};
+
+/**
+ * Builds the instructions added to the voiceover script prompt.
+ * @param brand The brand whose voice the script should follow.
+ * @returns The instructions, or an empty string if the brand adds none.
+ */
+export const buildBrandScriptInstructions = (brand: BrandProfile): string => {
+  const instructions: string[] = [];
+  if (brand.toneOfVoice.trim()) {
+    instructions.push(`Write in this brand's tone of voice: ${brand.toneOfVoice.trim()}.`);
+  }
+  if (brand.bannedWords.length > 0) {
+    instructions.push(`Never use these words: ${brand.bannedWords.join(', ')}.`);
+  }
+  return instructions.join('\n  ');
+};
+
+/**
+ * Finds the brand's banned words that appear in a piece of text.
+ * @param text The text to check.
+ * @param brand The brand whose banned words to look for.
+ * @returns The banned words found, in the brand's order.
+ */
+export const findBannedWords = (text: string, brand: BrandProfile): string[] => {
+  const lower = text.toLowerCase();
+  return brand.bannedWords.filter(
+    (word) => word.trim() && lower.includes(word.trim().toLowerCase()),
+  );
+};
+
+/**
+ * Serializes profiles into a shareable JSON document.
+ * @param profiles The profiles to export.
+ * @returns The JSON string.
+ */
+export const exportBrandProfiles = (profiles: BrandProfile[]): string =>
+  JSON.stringify({version: EXPORT_VERSION, profiles}, null, 2);
+
+/**
+ * Parses profiles from an exported JSON document and saves them. Profiles
+ * with an id that already exists replace the saved copy.
+ * @param json The JSON string to import.
+ * @returns The imported profiles.
+ */
+export const importBrandProfiles = (json: string): BrandProfile[] => {
+  const imported: BrandProfile[] = parseImportList(json, 'profiles')
+    .filter((p) => readString(p, 'name') !== undefined)
+    .map((p) => ({
+      ...createBrandProfile(readString(p, 'name')),
+      id: readString(p, 'id') ?? crypto.randomUUID(),
+      logo: readString(p, 'logo'),
+      palette: readStringList(p, 'palette'),
+      toneOfVoice: readString(p, 'toneOfVoice') ?? '',
+      bannedWords: readStringList(p, 'bannedWords'),
+      defaultVoiceName: readOneOf(p, 'defaultVoiceName', Object.values(VoiceName)) ?? VoiceName.ZEPHYR,
+      defaultAspectRatio:
+        readOneOf(p, 'defaultAspectRatio', Object.values(AspectRatio)) ?? AspectRatio.PORTRAIT,
+    }));
+
+  if (imported.length === 0) {
+    throw new Error('No brand profiles were found in the file.');
+  }
+  imported.forEach(saveBrandProfile);
+  return imported;
+};
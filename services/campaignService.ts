@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  BrandProfile,
+  Campaign,
+  GenerateVideoParams,
+  LibraryEntry,
+  StorableParams,
+} from '../types';
+import {createZip, slugify, storedAudioToWav} from '../utils';
+import {applyBrandDefaults} from './brandKitService';
+import {getVideoExtension} from './renderService';
+
+const CAMPAIGNS_KEY = 'adspark_studio_campaigns';
+const ACTIVE_CAMPAIGN_KEY = 'adspark_studio_active_campaign';
+const MANIFEST_VERSION = 1;
+
+/**
+ * Creates an empty campaign.
+ * @param name The display name for the new campaign.
+ * @returns A new, unsaved campaign.
+ */
+export const createCampaign = (name = 'New Campaign'): Campaign => ({
+  id: crypto.randomUUID(),
+  name,
+  createdAt: Date.now(),
+  productName: '',
+  productDescription: '',
+  brief: '',
+  notes: '',
+});
+
+/**
+ * Retrieves all saved campaigns from localStorage.
+ * @returns An array of campaigns, in the order they were created.
+ */
+export const getCampaigns = (): Campaign[] => {
+  try {
+    const json = localStorage.getItem(CAMPAIGNS_KEY);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('Error reading campaigns from localStorage', error);
+    return [];
+  }
+};
+
+const writeCampaigns = (campaigns: Campaign[]) => {
+  try {
+    localStorage.setItem(CAMPAIGNS_KEY, JSON.stringify(campaigns));
+  } catch (error) {
+    console.error('Error saving campaigns to localStorage', error);
+    throw new Error('Could not save the campaign. Storage may be full.');
+  }
+};
+
+/**
+ * Creates or updates a campaign.
+ * @param campaign The campaign to save; matched by id.
+ */
+export const saveCampaign = (campaign: Campaign) => {
+  const campaigns = getCampaigns();
+  const index = campaigns.findIndex((c) => c.id === campaign.id);
+  if (index >= 0) {
+    campaigns[index] = campaign;
+  } else {
+    campaigns.push(campaign);
+  }
+  writeCampaigns(campaigns);
+};
+
+/**
+ * Deletes a campaign, switching away from it if it was active. Its library
+ * entries are kept; see `clearCampaignFromLibrary`.
+ * @param id The campaign to delete.
+ */
+export const deleteCampaign = (id: string) => {
+  writeCampaigns(getCampaigns().filter((c) => c.id !== id));
+  if (getActiveCampaignId() === id) {
+    setActiveCampaignId(null);
+  }
+};
+
+export const getActiveCampaignId = (): string | null =>
+  localStorage.getItem(ACTIVE_CAMPAIGN_KEY);
+
+export const setActiveCampaignId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_CAMPAIGN_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_CAMPAIGN_KEY);
+  }
+};
+
+/**
+ * Looks up the campaign new generations are filed under.
+ * @returns The active campaign, or undefined if none is active.
+ */
+export const getActiveCampaign = (): Campaign | undefined => {
+  const id = getActiveCampaignId();
+  return id ? getCampaigns().find((c) => c.id === id) : undefined;
+};
+
+/**
+ * Fills the form from a campaign's product details and brand. Fields the
+ * campaign leaves empty keep their current value.
+ * @param params The params to update.
+ * @param campaign The campaign being switched to.
+ * @param brand The campaign's brand profile, if it still exists.
+ * @returns The updated params.
+ */
+export const applyCampaign = <T extends Partial<GenerateVideoParams>>(
+  params: T,
+  campaign: Campaign,
+  brand: BrandProfile | undefined,
+): T => {
+  const updated = {
+    ...params,
+    productName: campaign.productName || params.productName,
+    productDescription: campaign.productDescription || params.productDescription,
+  };
+  return campaign.brandId ? applyBrandDefaults(updated, brand) : updated;
+};
+
+/**
+ * Strips the media and API objects from params so they can be written as JSON.
+ * @param params The params to convert.
+ * @returns The storable params.
+ */
+export const toStorableParams = ({
+  referenceImages,
+  startFrame,
+  endFrame,
+  inputVideo,
+  inputVideoObject,
+  recordedAudioBlob,
+  ...rest
+}: GenerateVideoParams): StorableParams => rest;
+
+/**
+ * Builds a zip of a campaign's videos, voiceovers and scripts, with a
+ * manifest.json describing the params each video was generated with.
+ * @param campaign The campaign to export.
+ * @param entries The campaign's library entries.
+ * @returns A promise that resolves with the zip archive.
+ */
+export const buildCampaignArchive = async (
+  campaign: Campaign,
+  entries: LibraryEntry[],
+): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const files: {path: string; data: Uint8Array}[] = [];
+  const manifestEntries = [];
+
+  // Oldest first, so the numbering follows the order the ads were made in.
+  const ordered = [...entries].sort((a, b) => a.createdAt - b.createdAt);
+  for (const [index, entry] of ordered.entries()) {
+    const base = `${String(index + 1).padStart(2, '0')}-${slugify(entry.params.productName) || 'untitled'}`;
+    const video = `videos/${base}.${getVideoExtension(entry.videoBlob.type || 'video/mp4')}`;
+    files.push({path: video, data: new Uint8Array(await entry.videoBlob.arrayBuffer())});
+
+    let voiceover: string | undefined;
+    if (entry.voiceover) {
+      voiceover = `voiceovers/${base}.wav`;
+      files.push({path: voiceover, data: storedAudioToWav(entry.voiceover)});
+    }
+
+    let script: string | undefined;
+    if (entry.params.voiceoverScript?.trim()) {
+      script = `scripts/${base}.txt`;
+      files.push({path: script, data: encoder.encode(entry.params.voiceoverScript.trim())});
+    }
+
+    manifestEntries.push({
+      id: entry.id,
+      createdAt: new Date(entry.createdAt).toISOString(),
+      files: {video, voiceover, script},
+      referenceImages: (entry.params.referenceImages ?? []).map((img) => ({
+        name: img.file.name,
+        referenceType: img.referenceType ?? 'asset',
+      })),
+      startFrame: entry.params.startFrame?.file.name,
+      endFrame: entry.params.endFrame?.file.name,
+      params: toStorableParams(entry.params),
+    });
+  }
+
+  const manifest = {
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    campaign,
+    entries: manifestEntries,
+  };
+  files.push({path: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2))});
+  if (campaign.brief.trim() || campaign.notes.trim()) {
+    files.push({
+      path: 'brief.txt',
+      data: encoder.encode(
+        [
+          `# ${campaign.name}`,
+          campaign.brief.trim(),
+          campaign.notes.trim() && `Notes:\n${campaign.notes.trim()}`,
+        ]
+          .filter(Boolean)
+          .join('\n\n'),
+      ),
+    });
+  }
+  return createZip(files);
+};
+
+/**
+ * Builds a file name for a campaign export.
+ * @param campaign The campaign being exported.
+ * @returns e.g. "adspark-summer-launch.zip"
+ */
+export const getArchiveFileName = (campaign: Campaign): string =>
+  `adspark-${slugify(campaign.name) || 'untitled'}.zip`;
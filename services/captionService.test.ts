@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {buildCaptionCues, getActiveCue, toSrt, toVtt} from './captionService';
+
+const SAMPLE_RATE = 1000;
+
+// A voiceover that is loud from start to end, so speech fills all of it.
+const createVoiceover = (seconds: number) =>
+  ({
+    duration: seconds,
+    sampleRate: SAMPLE_RATE,
+    getChannelData: () => new Float32Array(seconds * SAMPLE_RATE).fill(0.5),
+  }) as unknown as AudioBuffer;
+
+const script = 'One two three four five six seven eight';
+
+describe('buildCaptionCues', () => {
+  it('spreads the words over the speech, shifted by the offset', () => {
+    const cues = buildCaptionCues(script, createVoiceover(8), 'word', 1);
+    expect(cues).toHaveLength(8);
+    expect(cues[0].start).toBe(1);
+    expect(cues[cues.length - 1].end).toBeCloseTo(9);
+  });
+
+  it('cuts cues to a trimmed voiceover', () => {
+    // Plays seconds 2 to 5 of the voiceover from the start of the video.
+    const cues = buildCaptionCues(script, createVoiceover(8), 'word', -2, {start: 2, end: 5});
+    expect(cues[0].start).toBe(0);
+    expect(cues[cues.length - 1].end).toBeCloseTo(3);
+    expect(cues.every((cue) => cue.end > cue.start)).toBe(true);
+    expect(cues.map((cue) => cue.text)).not.toContain('eight');
+  });
+});
+
+describe('caption files', () => {
+  const cues = [
+    {start: 0, end: 1.5, text: 'Meet Glow.'},
+    {start: 61.25, end: 3725, text: 'Shop now.'},
+  ];
+
+  it('writes SubRip', () => {
+    expect(toSrt(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nMeet Glow.\n\n2\n00:01:01,250 --> 01:02:05,000\nShop now.\n',
+    );
+  });
+
+  it('writes WebVTT', () => {
+    expect(toVtt(cues)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nMeet Glow.\n\n00:01:01.250 --> 01:02:05.000\nShop now.\n',
+    );
+  });
+
+  it('finds the cue on screen', () => {
+    expect(getActiveCue(cues, 1)?.text).toBe('Meet Glow.');
+    expect(getActiveCue(cues, 1.5)).toBeUndefined();
+  });
+});
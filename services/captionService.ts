@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {CaptionCue, CaptionGranularity, CaptionStyle} from '../types';
+
+// Captions are timed from the text alone: each word gets a share of the
+// spoken part of the voiceover proportional to its length, with extra time
+// for the pause after punctuation. This is close enough for short ad reads
+// without needing word-level timestamps from the TTS model.
+
+const SILENCE_THRESHOLD = 0.02; // Peak amplitude treated as silence
+const SILENCE_WINDOW_SECONDS = 0.02;
+const WORD_WEIGHT_BASE = 2; // Weight of a word on top of its letter count
+const PAUSE_WEIGHT = 4; // Extra weight after a sentence or clause ends
+const MAX_PHRASE_WORDS = 6;
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontScale: 0.06,
+  color: '#ffffff',
+  background: 'rgba(0, 0, 0, 0.6)',
+  position: 'bottom',
+};
+
+/**
+ * Finds where speech starts and ends in a voiceover, ignoring leading and
+ * trailing silence.
+ * @param buffer The voiceover.
+ * @returns The start and end of speech, in seconds.
+ */
+export const findSpeechBounds = (
+  buffer: AudioBuffer,
+): {start: number; end: number} => {
+  const data = buffer.getChannelData(0);
+  const windowSize = Math.max(1, Math.round(buffer.sampleRate * SILENCE_WINDOW_SECONDS));
+  const isLoud = (from: number) => {
+    for (let i = from; i < Math.min(from + windowSize, data.length); i++) {
+      if (Math.abs(data[i]) > SILENCE_THRESHOLD) return true;
+    }
+    return false;
+  };
+
+  let first = 0;
+  while (first < data.length && !isLoud(first)) first += windowSize;
+  let last = data.length - windowSize;
+  while (last > first && !isLoud(last)) last -= windowSize;
+
+  if (first >= data.length) {
+    return {start: 0, end: buffer.duration}; // All silent; use the whole clip
+  }
+  return {
+    start: first / buffer.sampleRate,
+    end: Math.min(buffer.duration, (last + windowSize) / buffer.sampleRate),
+  };
+};
+
+const endsClause = (word: string) => /[.,!?;:]$/.test(word);
+
+/**
+ * Groups words into short phrases, breaking at punctuation.
+ * @param words The words in order.
+ * @returns The phrases, each a list of word indices.
+ */
+const groupPhrases = (words: string[]): number[][] => {
+  const phrases: number[][] = [];
+  let current: number[] = [];
+  words.forEach((word, index) => {
+    current.push(index);
+    if (endsClause(word) || current.length >= MAX_PHRASE_WORDS) {
+      phrases.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) phrases.push(current);
+  return phrases;
+};
+
+/**
+ * Times captions for a voiceover from its script or transcript.
+ * @param text The words spoken in the voiceover.
+ * @param buffer The voiceover, used for its timing.
+ * @param granularity Whether each cue is a single word or a phrase.
+ * @param offset Seconds the voiceover is delayed relative to the video.
+ * @param trim The part of the voiceover that plays, in its own seconds, if it
+ *     is trimmed. Cues are cut to it.
+ * @returns The cues, in order.
+ */
+export const buildCaptionCues = (
+  text: string,
+  buffer: AudioBuffer,
+  granularity: CaptionGranularity,
+  offset = 0,
+  trim: {start: number; end: number} = {start: 0, end: buffer.duration},
+): CaptionCue[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const {start, end} = findSpeechBounds(buffer);
+  // A pause follows every clause except the last one.
+  const pauses = words.map((word, index) =>
+    endsClause(word) && index < words.length - 1 ? PAUSE_WEIGHT : 0,
+  );
+  const weights = words.map(
+    (word, index) =>
+      word.replace(/[^\p{L}\p{N}]/gu, '').length + WORD_WEIGHT_BASE + pauses[index],
+  );
+  const secondsPerWeight = (end - start) / weights.reduce((a, b) => a + b, 0);
+
+  let cursor = start;
+  const timings = words.map((_, index) => {
+    const wordStart = cursor;
+    cursor += weights[index] * secondsPerWeight;
+    return {start: wordStart, end: cursor - pauses[index] * secondsPerWeight};
+  });
+
+  const groups =
+    granularity === 'word' ? words.map((_, index) => [index]) : groupPhrases(words);
+  return groups
+    .map((group) => ({
+      start: Math.max(timings[group[0]].start, trim.start) + offset,
+      end: Math.min(timings[group[group.length - 1]].end, trim.end) + offset,
+      text: group.map((index) => words[index]).join(' '),
+    }))
+    .filter((cue) => cue.end > 0 && cue.end > cue.start)
+    .map((cue) => ({...cue, start: Math.max(0, cue.start)}));
+};
+
+/**
+ * Finds the cue on screen at a point in the video.
+ * @param cues The cues, in order.
+ * @param time The time in seconds.
+ * @returns The active cue, or undefined between cues.
+ */
+export const getActiveCue = (
+  cues: CaptionCue[],
+  time: number,
+): CaptionCue | undefined =>
+  cues.find((cue) => time >= cue.start && time < cue.end);
+
+const formatTimestamp = (seconds: number, decimalSeparator: ',' | '.') => {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${decimalSeparator}${pad(totalMs % 1000, 3)}`;
+};
+
+/**
+ * Serializes cues as a SubRip (.srt) file.
+ * @param cues The cues to write.
+ * @returns The file contents.
+ */
+export const toSrt = (cues: CaptionCue[]): string =>
+  cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`,
+    )
+    .join('\n');
+
+/**
+ * Serializes cues as a WebVTT (.vtt) file.
+ * @param cues The cues to write.
+ * @returns The file contents.
+ */
+export const toVtt = (cues: CaptionCue[]): string =>
+  `WEBVTT\n\n${cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`,
+    )
+    .join('\n')}`;
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {LibraryEntry, TimelineClip} from '../types';
+import {
+  createTimelineClip,
+  getClipLength,
+  getEditFileName,
+  layoutTimeline,
+} from './clipEditorService';
+
+const clip = (changes: Partial<TimelineClip> = {}): TimelineClip => ({
+  id: crypto.randomUUID(),
+  entryId: 'entry',
+  label: 'Clip',
+  videoBlob: new Blob(),
+  duration: 8,
+  trimStart: 0,
+  trimEnd: 0,
+  crossfade: 0,
+  ...changes,
+});
+
+describe('createTimelineClip', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const entry = {
+    id: 'entry-1',
+    createdAt: 0,
+    params: {productName: 'Glow Serum'},
+    videoBlob: new Blob(),
+  } as LibraryEntry;
+
+  it('starts untrimmed and labelled with the product', () => {
+    expect(createTimelineClip(entry, 8)).toMatchObject({
+      entryId: 'entry-1',
+      label: 'Glow Serum',
+      duration: 8,
+      trimStart: 0,
+      trimEnd: 0,
+      crossfade: 0,
+      voiceover: undefined,
+    });
+  });
+
+  it('keeps the entry\'s separate voiceover', () => {
+    vi.stubGlobal(
+      'AudioBuffer',
+      class {
+        readonly channels: Float32Array[] = [];
+        constructor(readonly options: AudioBufferOptions) {}
+        copyToChannel(data: Float32Array, channel: number) {
+          this.channels[channel] = data;
+        }
+      },
+    );
+    const samples = new Float32Array([0.1, 0.2]);
+    const voiced = {...entry, voiceover: {sampleRate: 24000, channels: [samples]}};
+
+    const {voiceover} = createTimelineClip(voiced, 8);
+    expect(voiceover).toMatchObject({
+      options: {length: 2, numberOfChannels: 1, sampleRate: 24000},
+      channels: [samples],
+    });
+  });
+});
+
+describe('layoutTimeline', () => {
+  it('plays clips back to back without cross-fades', () => {
+    expect(layoutTimeline([clip(), clip({trimStart: 1, trimEnd: 2})])).toEqual({
+      starts: [0, 8],
+      crossfades: [0, 0],
+      total: 13,
+    });
+  });
+
+  it('overlaps a clip with the one before it by its cross-fade', () => {
+    const clips = [clip({crossfade: 1}), clip({crossfade: 0.5}), clip({crossfade: 1})];
+    expect(layoutTimeline(clips)).toEqual({
+      starts: [0, 7.5, 14.5],
+      crossfades: [0, 0.5, 1],
+      total: 22.5,
+    });
+  });
+
+  it('shortens a cross-fade that does not fit either clip', () => {
+    const clips = [clip({trimEnd: 7}), clip({crossfade: 1})];
+    expect(layoutTimeline(clips)).toEqual({starts: [0, 0.5], crossfades: [0, 0.5], total: 8.5});
+  });
+
+  it('is empty without clips', () => {
+    expect(layoutTimeline([])).toEqual({starts: [], crossfades: [], total: 0});
+  });
+});
+
+describe('getClipLength', () => {
+  it('never goes below zero', () => {
+    expect(getClipLength(clip({trimStart: 5, trimEnd: 5}))).toBe(0);
+  });
+});
+
+describe('getEditFileName', () => {
+  it('names the edit after the product and the rendered type', () => {
+    expect(getEditFileName('Glow Serum', 'video/webm;codecs=vp9')).toBe(
+      'adspark-glow-serum-edit.webm',
+    );
+    expect(getEditFileName('', 'video/mp4')).toBe('adspark-ad-edit.mp4');
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LibraryEntry, TimelineClip} from '../types';
+import {createAudioContext, slugify, storedToAudioBuffer, withWebmDuration} from '../utils';
+import {computeFitRect} from './exportService';
+import {getRecordingMimeType, getVideoExtension} from './renderService';
+
+// Joins trimmed library clips into one video in the browser. Like the
+// voiceover render, the clips are played into a canvas and recorded in real
+// time; each clip's own audio and its entry's voiceover are mixed in through
+// Web Audio, and cross-fades blend both picture and sound.
+
+export const CROSSFADE_OPTIONS = [0, 0.25, 0.5, 1];
+// Shortest part of a clip that can be kept.
+export const MIN_CLIP_SECONDS = 0.5;
+// Start playing a clip this early so it is running when its turn comes.
+const PLAY_LEAD_SECONDS = 0.05;
+
+/**
+ * Puts a library video on the timeline, untrimmed.
+ * @param entry The library entry.
+ * @param duration The video's length in seconds.
+ * @returns The clip.
+ */
+export const createTimelineClip = (entry: LibraryEntry, duration: number): TimelineClip => ({
+  id: crypto.randomUUID(),
+  entryId: entry.id,
+  label: entry.params.productName || 'Untitled',
+  videoBlob: entry.videoBlob,
+  duration,
+  trimStart: 0,
+  trimEnd: 0,
+  crossfade: 0,
+  voiceover: entry.voiceover ? storedToAudioBuffer(entry.voiceover) : undefined,
+});
+
+/**
+ * Works out how much of a clip is kept.
+ * @param clip The clip.
+ * @returns The kept length in seconds.
+ */
+export const getClipLength = (clip: TimelineClip): number =>
+  Math.max(0, clip.duration - clip.trimStart - clip.trimEnd);
+
+/**
+ * Works out when each clip starts in the finished video. A cross-fade
+ * overlaps a clip with the one before it, and is shortened if either clip is
+ * too short to give it room.
+ * @param clips The clips, in order.
+ * @returns Each clip's start and actual cross-fade, and the total length.
+ */
+export const layoutTimeline = (
+  clips: TimelineClip[],
+): {starts: number[]; crossfades: number[]; total: number} => {
+  const starts: number[] = [];
+  const crossfades: number[] = [];
+  let end = 0;
+  clips.forEach((clip, index) => {
+    const length = getClipLength(clip);
+    const previous = index > 0 ? getClipLength(clips[index - 1]) : 0;
+    const crossfade =
+      index === 0 ? 0 : Math.max(0, Math.min(clip.crossfade, previous / 2, length / 2));
+    const start = end - crossfade;
+    starts.push(start);
+    crossfades.push(crossfade);
+    end = start + length;
+  });
+  return {starts, crossfades, total: end};
+};
+
+/**
+ * Loads a clip into a detached element with its sound on, seeked to a point.
+ * @param url The video source.
+ * @param time Where to seek to, in seconds.
+ * @returns A promise that resolves once the frame at that point is ready.
+ */
+const loadClipAt = (url: string, time: number): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.src = url;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      video.onseeked = () => {
+        video.onseeked = null;
+        resolve(video);
+      };
+      video.currentTime = time;
+    };
+    video.onerror = () => reject(new Error('Could not load a clip for rendering.'));
+  });
+
+/**
+ * Renders the timeline into a single video file.
+ * @param clips The clips, in order, with their trims and cross-fades.
+ * @param options Cancellation and progress, from 0 to 1.
+ * @returns A promise that resolves with the rendered file.
+ */
+export const renderTimeline = async (
+  clips: TimelineClip[],
+  {signal, onProgress}: {signal?: AbortSignal; onProgress?: (fraction: number) => void} = {},
+): Promise<Blob> => {
+  if (clips.length === 0) {
+    throw new Error('Add at least one clip to render.');
+  }
+  const {starts, crossfades, total} = layoutTimeline(clips);
+  const urls = clips.map((clip) => URL.createObjectURL(clip.videoBlob));
+  let videos: HTMLVideoElement[];
+  try {
+    videos = await Promise.all(urls.map((url, index) => loadClipAt(url, clips[index].trimStart)));
+  } catch (error) {
+    urls.forEach((url) => URL.revokeObjectURL(url));
+    throw error;
+  }
+
+  // The first clip sets the frame; others are fitted into it.
+  const canvas = document.createElement('canvas');
+  canvas.width = videos[0].videoWidth;
+  canvas.height = videos[0].videoHeight;
+  const ctx = canvas.getContext('2d')!;
+  const rects = videos.map((video) =>
+    computeFitRect(video.videoWidth, video.videoHeight, canvas.width, canvas.height, 'letterbox'),
+  );
+
+  const audioContext = createAudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const gains = videos.map((video) => {
+    const gain = audioContext.createGain();
+    gain.gain.value = 0;
+    audioContext.createMediaElementSource(video).connect(gain).connect(audioDestination);
+    return gain;
+  });
+  // Voiceovers share their clip's gain so they follow its cross-fades.
+  const voiceovers = clips.map((clip, index) => {
+    if (!clip.voiceover) return null;
+    const source = audioContext.createBufferSource();
+    source.buffer = clip.voiceover;
+    source.connect(gains[index]);
+    return source;
+  });
+  const stream = new MediaStream([
+    ...canvas.captureStream(30).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+
+  const mimeType = getRecordingMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? {mimeType} : {});
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const state = videos.map((): 'waiting' | 'playing' | 'done' => 'waiting');
+  let startedAt = 0;
+  let frameHandle = 0;
+  const drawFrame = () => {
+    const t = audioContext.currentTime - startedAt;
+    let isDrawing = false;
+    clips.forEach((clip, index) => {
+      const start = starts[index];
+      const end = start + getClipLength(clip);
+      const video = videos[index];
+      if (state[index] === 'waiting' && t >= start - PLAY_LEAD_SECONDS) {
+        state[index] = 'playing';
+        video.play().catch((error) => console.warn('Clip did not play:', error));
+      }
+      if (state[index] === 'playing' && t >= end) {
+        state[index] = 'done';
+        video.pause();
+      }
+      if (t < start || t >= end) return;
+      if (!isDrawing) {
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        isDrawing = true;
+      }
+      // Later clips fade in on top of the one they overlap.
+      ctx.globalAlpha = crossfades[index] > 0 ? Math.min(1, (t - start) / crossfades[index]) : 1;
+      const rect = rects[index];
+      ctx.drawImage(video, rect.sx, rect.sy, rect.sw, rect.sh, rect.dx, rect.dy, rect.dw, rect.dh);
+    });
+    ctx.globalAlpha = 1;
+    onProgress?.(Math.min(1, t / total));
+    if (t >= total && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+    frameHandle = requestAnimationFrame(drawFrame);
+  };
+
+  const cleanup = () => {
+    cancelAnimationFrame(frameHandle);
+    videos.forEach((video) => video.pause());
+    stream.getTracks().forEach((track) => track.stop());
+    audioContext.close();
+    urls.forEach((url) => URL.revokeObjectURL(url));
+  };
+
+  return new Promise<Blob>((resolve, reject) => {
+    const onAbort = () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    signal?.addEventListener('abort', onAbort, {once: true});
+
+    recorder.onstop = () => {
+      signal?.removeEventListener('abort', onAbort);
+      cleanup();
+      if (signal?.aborted) {
+        reject(new DOMException('Rendering was cancelled.', 'AbortError'));
+        return;
+      }
+      onProgress?.(1);
+      resolve(withWebmDuration(new Blob(chunks, {type: recorder.mimeType || 'video/webm'}), total));
+    };
+
+    (async () => {
+      try {
+        await audioContext.resume();
+        startedAt = audioContext.currentTime;
+        // Fade each clip's sound in and out with its cross-fades.
+        clips.forEach((clip, index) => {
+          const start = startedAt + starts[index];
+          const end = start + getClipLength(clip);
+          const fadeIn = crossfades[index];
+          const fadeOut = crossfades[index + 1] ?? 0;
+          const gain = gains[index].gain;
+          gain.setValueAtTime(0, start);
+          gain.linearRampToValueAtTime(1, start + fadeIn);
+          gain.setValueAtTime(1, end - fadeOut);
+          gain.linearRampToValueAtTime(0, end);
+          // The voiceover is cut with the clip, so a trimmed head skips its start too.
+          const voiceover = voiceovers[index];
+          if (voiceover && clip.trimStart < voiceover.buffer!.duration) {
+            voiceover.start(start, clip.trimStart, getClipLength(clip));
+          }
+        });
+        recorder.start();
+        drawFrame();
+      } catch (error) {
+        signal?.removeEventListener('abort', onAbort);
+        cleanup();
+        reject(error);
+      }
+    })();
+  });
+};
+
+/**
+ * Builds a file name for a rendered edit.
+ * @param productName The product of the first clip.
+ * @param mimeType The rendered video's type.
+ * @returns e.g. "adspark-glow-serum-edit.webm"
+ */
+export const getEditFileName = (productName: string, mimeType: string): string =>
+  `adspark-${slugify(productName) || 'ad'}-edit.${getVideoExtension(mimeType)}`;
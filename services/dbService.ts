@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A thin promise wrapper around the app's IndexedDB database. Unlike
+// localStorage, IndexedDB can hold Blobs and Files directly, which lets us
+// persist full generation params and media.
+
+const DB_NAME = 'adspark_studio';
+const DB_VERSION = 3;
+
+// Every object store, keyed by its primary key path.
+const STORES: Record<string, string> = {
+  operations: 'name',
+  library: 'id',
+  usage: 'id',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and if needed creates or upgrades) the app database.
+ * The connection is cached for the lifetime of the page.
+ * @returns A promise that resolves with the open database.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [name, keyPath] of Object.entries(STORES)) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, {keyPath});
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against an object store and resolves with its result.
+ * @param storeName The object store to use.
+ * @param mode The transaction mode.
+ * @param run Creates the request from the store.
+ * @returns A promise that resolves once the transaction completes.
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const dbGet = <T>(storeName: string, key: IDBValidKey) =>
+  runRequest<T | undefined>(storeName, 'readonly', (store) => store.get(key));
+
+export const dbGetAll = <T>(storeName: string) =>
+  runRequest<T[]>(storeName, 'readonly', (store) => store.getAll());
+
+export const dbPut = <T>(storeName: string, value: T) =>
+  runRequest<IDBValidKey>(storeName, 'readwrite', (store) => store.put(value));
+
+export const dbDelete = (storeName: string, key: IDBValidKey) =>
+  runRequest<void>(storeName, 'readwrite', (store) => store.delete(key));
+
+export const dbClear = (storeName: string) =>
+  runRequest<void>(storeName, 'readwrite', (store) => store.clear());
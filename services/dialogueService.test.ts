@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {VoiceName} from '../types';
+import {
+  createDefaultSpeakers,
+  formatDialogue,
+  getSpokenText,
+  parseDialogue,
+  validateDialogue,
+} from './dialogueService';
+
+const speakers = createDefaultSpeakers(VoiceName.ZEPHYR);
+
+describe('parseDialogue', () => {
+  it('splits turns and joins unlabeled text to the turn above', () => {
+    expect(
+      parseDialogue('Intro text\nHost: Have you tried Glow?\n\nGuest: Every day.\nIt works.'),
+    ).toEqual([
+      {speaker: 'Host', text: 'Have you tried Glow?'},
+      {speaker: 'Guest', text: 'Every day. It works.'},
+    ]);
+  });
+
+  it('strips labels for captions', () => {
+    expect(getSpokenText('Host: Hi!\nGuest: Hello.')).toBe('Hi! Hello.');
+  });
+});
+
+describe('formatDialogue', () => {
+  it('writes labels the way the cast spells them', () => {
+    expect(formatDialogue([{speaker: 'host', text: 'Hi!'}], speakers)).toBe('Host: Hi!');
+  });
+});
+
+describe('validateDialogue', () => {
+  it('accepts a script that matches its cast', () => {
+    expect(validateDialogue('Host: Hi!\nguest: Hello.', speakers)).toEqual([]);
+  });
+
+  it('reports unlabeled scripts, unknown speakers and duplicate names', () => {
+    expect(validateDialogue('Just words', speakers)).toHaveLength(1);
+    expect(validateDialogue('Narrator: Once upon a time.', speakers)[0]).toContain('Narrator');
+    expect(
+      validateDialogue('Host: Hi!', [speakers[0], {...speakers[1], label: 'host '}]),
+    ).toContain('Speaker names must be different from each other.');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {DialogueLine, DialogueSpeaker, VoiceName} from '../types';
+
+// A dialogue script is plain text with one "Label: line" per speaker turn.
+// Text without a label continues the turn above it.
+
+// The TTS model's multi-speaker mode takes exactly this many voices; other
+// casts are rendered line by line and joined.
+export const MULTI_SPEAKER_COUNT = 2;
+const LINE_GAP_SECONDS = 0.25; // Pause between turns when joining lines
+const LABEL_PATTERN = /^\s*([^:\n]{1,30}?)\s*:\s*(.*)$/;
+
+/**
+ * Creates the starting cast for a new dialogue.
+ * @param firstVoice The voice for the first speaker, e.g. the brand's.
+ * @returns Two speakers with different voices.
+ */
+export const createDefaultSpeakers = (
+  firstVoice: VoiceName = VoiceName.ZEPHYR,
+): DialogueSpeaker[] => [
+  {label: 'Host', voiceName: firstVoice},
+  {
+    label: 'Guest',
+    voiceName: firstVoice === VoiceName.PUCK ? VoiceName.KORE : VoiceName.PUCK,
+  },
+];
+
+/**
+ * Splits a dialogue script into speaker turns.
+ * @param script The script, with one "Label: line" per turn.
+ * @returns The turns, in order. Text before the first label is dropped.
+ */
+export const parseDialogue = (script: string): DialogueLine[] => {
+  const lines: DialogueLine[] = [];
+  for (const row of script.split('\n')) {
+    if (!row.trim()) continue;
+    const match = row.match(LABEL_PATTERN);
+    if (match && match[2].trim()) {
+      lines.push({speaker: match[1], text: match[2].trim()});
+    } else if (lines.length > 0) {
+      const last = lines[lines.length - 1];
+      last.text = `${last.text} ${row.trim()}`;
+    }
+  }
+  return lines;
+};
+
+/**
+ * Finds the speaker a line belongs to. Labels are matched case-insensitively.
+ * @param speakers The cast.
+ * @param label The label used in the script.
+ * @returns The speaker, or undefined if the label is not in the cast.
+ */
+export const findSpeaker = (
+  speakers: DialogueSpeaker[],
+  label: string,
+): DialogueSpeaker | undefined =>
+  speakers.find((s) => s.label.trim().toLowerCase() === label.trim().toLowerCase());
+
+/**
+ * Writes turns back out as a script, using each speaker's label as entered
+ * in the cast so the TTS model can match them.
+ * @param lines The turns.
+ * @param speakers The cast.
+ * @returns The script.
+ */
+export const formatDialogue = (lines: DialogueLine[], speakers: DialogueSpeaker[]): string =>
+  lines
+    .map((line) => `${findSpeaker(speakers, line.speaker)?.label.trim() ?? line.speaker}: ${line.text}`)
+    .join('\n');
+
+/**
+ * Strips the speaker labels from a dialogue script, e.g. for captions.
+ * @param script The script.
+ * @returns The spoken words only.
+ */
+export const getSpokenText = (script: string): string =>
+  parseDialogue(script)
+    .map((line) => line.text)
+    .join(' ');
+
+/**
+ * Checks a dialogue script against its cast.
+ * @param script The script.
+ * @param speakers The cast.
+ * @returns A human-readable description of each problem found.
+ */
+export const validateDialogue = (script: string, speakers: DialogueSpeaker[]): string[] => {
+  const issues: string[] = [];
+  const labels = speakers.map((s) => s.label.trim().toLowerCase());
+  if (speakers.length < 2) {
+    issues.push('A dialogue needs at least two speakers.');
+  }
+  if (labels.some((label) => !label)) {
+    issues.push('Every speaker needs a name.');
+  } else if (new Set(labels).size !== labels.length) {
+    issues.push('Speaker names must be different from each other.');
+  }
+  const lines = parseDialogue(script);
+  if (script.trim() && lines.length === 0) {
+    issues.push('Start each line of the dialogue with a speaker name, e.g. "Host: Hi!".');
+  }
+  const unknown = [
+    ...new Set(lines.filter((l) => !findSpeaker(speakers, l.speaker)).map((l) => l.speaker)),
+  ];
+  if (unknown.length > 0) {
+    issues.push(`The script uses speakers not in the cast: ${unknown.join(', ')}.`);
+  }
+  return issues;
+};
+
+/**
+ * Joins clips end to end with a short pause between each.
+ * @param buffers The clips, all at the same sample rate.
+ * @param gapSeconds The pause between clips.
+ * @returns A mono buffer with every clip.
+ */
+export const joinAudioBuffers = (
+  buffers: AudioBuffer[],
+  gapSeconds = LINE_GAP_SECONDS,
+): AudioBuffer => {
+  const sampleRate = buffers[0]?.sampleRate ?? 24000;
+  const gap = Math.round(gapSeconds * sampleRate);
+  const length = buffers.reduce((sum, b) => sum + b.length, 0) + gap * Math.max(0, buffers.length - 1);
+  const joined = new AudioBuffer({length: Math.max(1, length), numberOfChannels: 1, sampleRate});
+  const output = joined.getChannelData(0);
+  let position = 0;
+  for (const buffer of buffers) {
+    output.set(buffer.getChannelData(0), position);
+    position += buffer.length + gap;
+  }
+  return joined;
+};
+
+/**
+ * Speaks a dialogue one turn at a time and joins the turns.
+ * @param script The dialogue script.
+ * @param speakers The cast.
+ * @param speak Renders one line with one voice.
+ * @returns A promise that resolves with the whole dialogue.
+ */
+export const renderDialogueByLine = async (
+  script: string,
+  speakers: DialogueSpeaker[],
+  speak: (text: string, voiceName: VoiceName) => Promise<AudioBuffer>,
+): Promise<AudioBuffer> => {
+  const buffers: AudioBuffer[] = [];
+  // One at a time, so a long script does not trip the rate limit.
+  for (const line of parseDialogue(script)) {
+    const speaker = findSpeaker(speakers, line.speaker) ?? speakers[0];
+    buffers.push(await speak(line.text, speaker.voiceName));
+  }
+  return joinAudioBuffers(buffers);
+};
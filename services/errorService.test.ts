@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ApiError} from '@google/genai';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {GenerateVideoParams, GenerationProvider} from '../types';
+import {classifyError, GenerationError, withRetries} from './errorService';
+import {createProvider} from './testProviders';
+
+describe('classifyError', () => {
+  it('uses the HTTP status when there is one', () => {
+    expect(classifyError(new ApiError({message: 'Forbidden', status: 403})).kind).toBe('auth');
+    expect(classifyError(new ApiError({message: 'Slow down', status: 429})).kind).toBe('quota');
+    expect(classifyError(new ApiError({message: 'Oops', status: 503})).kind).toBe('network');
+    expect(
+      classifyError(new ApiError({message: 'API key not valid. Please pass a valid key.', status: 400}))
+        .kind,
+    ).toBe('auth');
+  });
+
+  it('falls back to the wording of the message', () => {
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED')).kind).toBe('quota');
+    expect(classifyError(new Error('Video generation timed out.')).kind).toBe('timeout');
+    expect(classifyError(new Error('Failed to fetch')).kind).toBe('network');
+    expect(classifyError(new Error('No videos were generated.')).kind).toBe('empty');
+    expect(classifyError('not an error').kind).toBe('unknown');
+  });
+
+  it('only reads status codes when they are written as codes', () => {
+    expect(classifyError(new Error('13 INTERNAL: Try again')).kind).toBe('network');
+    expect(classifyError(new Error('International shipping is unsupported')).kind).toBe('unknown');
+    expect(classifyError(new Error('Request blocked by CORS policy')).kind).toBe('unknown');
+    expect(classifyError(new Error('Finish reason: BLOCKLIST')).kind).toBe('safety');
+  });
+
+  it('keeps errors that are already classified', () => {
+    const error = new GenerationError('budget', 'Over budget');
+    expect(classifyError(error)).toBe(error);
+  });
+});
+
+describe('withRetries', () => {
+  const params = {prompt: 'A serum bottle'} as GenerateVideoParams;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('re-attaches to a started job after a dropped connection', async () => {
+    const resumeVideo = vi.fn().mockResolvedValue('video');
+    const provider = withRetries(
+      createProvider(() => Promise.reject(new Error('Failed to fetch')), {resumeVideo}),
+    );
+    const onRetry = vi.fn();
+
+    const result = provider.generateVideo(params, {onRetry});
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('video');
+    expect(resumeVideo).toHaveBeenCalledWith('operations/1', expect.anything());
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({kind: 'network', attempt: 2, delayMs: 2000}),
+    );
+  });
+
+  it('does not retry failures that would fail again', async () => {
+    const generateSpeech = vi.fn().mockRejectedValue(new Error('Blocked by safety filter'));
+    const provider = withRetries({generateSpeech} as unknown as GenerationProvider);
+    await expect(provider.generateSpeech('Hi', undefined as never)).rejects.toMatchObject({
+      kind: 'safety',
+    });
+    expect(generateSpeech).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves a video that came back empty for the user to retry', async () => {
+    const finish = vi.fn().mockRejectedValue(new Error('No videos were generated.'));
+    const provider = withRetries(createProvider(finish));
+    await expect(provider.generateVideo(params)).rejects.toMatchObject({kind: 'empty'});
+    expect(finish).toHaveBeenCalledTimes(1);
+  });
+
+  it('still retries other calls that came back empty', async () => {
+    const generateSpeech = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('no data received'))
+      .mockResolvedValue('audio');
+    const provider = withRetries({generateSpeech} as unknown as GenerationProvider);
+
+    const result = provider.generateSpeech('Hi', undefined as never);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('audio');
+    expect(generateSpeech).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ApiError} from '@google/genai';
+import {
+  GenerationErrorKind,
+  GenerationOptions,
+  GenerationProvider,
+  RetryNotice,
+  RetryPolicy,
+} from '../types';
+import {isAbortError, sleep} from './operationService';
+
+// Every failure from a provider is turned into a GenerationError so the UI
+// can react to what went wrong instead of to the wording of the message.
+
+export const RETRY_POLICIES: Record<GenerationErrorKind, RetryPolicy> = {
+  auth: {maxAttempts: 1, initialDelayMs: 0, backoffFactor: 1, maxDelayMs: 0},
+  quota: {maxAttempts: 3, initialDelayMs: 20000, backoffFactor: 2, maxDelayMs: 60000},
+  budget: {maxAttempts: 1, initialDelayMs: 0, backoffFactor: 1, maxDelayMs: 0},
+  safety: {maxAttempts: 1, initialDelayMs: 0, backoffFactor: 1, maxDelayMs: 0},
+  network: {maxAttempts: 4, initialDelayMs: 2000, backoffFactor: 2, maxDelayMs: 15000},
+  // The job may still finish; resuming beats paying for a second one.
+  timeout: {maxAttempts: 1, initialDelayMs: 0, backoffFactor: 1, maxDelayMs: 0},
+  // Not used for videos: each attempt is a new billed job, so the user decides.
+  empty: {maxAttempts: 2, initialDelayMs: 5000, backoffFactor: 1, maxDelayMs: 5000},
+  invalid: {maxAttempts: 1, initialDelayMs: 0, backoffFactor: 1, maxDelayMs: 0},
+  unknown: {maxAttempts: 1, initialDelayMs: 0, backoffFactor: 1, maxDelayMs: 0},
+};
+
+const ERROR_TEXT: Record<GenerationErrorKind, {title: string; guidance: string}> = {
+  auth: {
+    title: 'API key problem',
+    guidance: 'Your API key is invalid, lacks permissions, or cannot access this model. Please select a valid, billing-enabled API key.',
+  },
+  quota: {
+    title: 'Rate limit or quota reached',
+    guidance: 'The API is limiting requests from your key. Wait a minute and try again, or check the quota for your project.',
+  },
+  budget: {
+    title: 'Budget limit reached',
+    guidance: 'Raise your limit under "View usage & budgets", or switch the budget to warn instead of block.',
+  },
+  safety: {
+    title: 'Blocked by the safety filter',
+    guidance: 'Reword the request and try again.',
+  },
+  network: {
+    title: 'Connection problem',
+    guidance: 'The service could not be reached. Check your connection and try again.',
+  },
+  timeout: {
+    title: 'Generation is taking too long',
+    guidance: 'The job may still finish. Reload the page to resume it, or try again later.',
+  },
+  empty: {
+    title: 'Nothing was generated',
+    guidance: 'The model returned no result. Generate again, or adjust the prompt if it keeps happening.',
+  },
+  invalid: {
+    title: 'Request not accepted',
+    guidance: 'Check the settings below and adjust them before trying again.',
+  },
+  unknown: {
+    title: 'Generation failed',
+    guidance: 'Something unexpected went wrong. Please try again.',
+  },
+};
+
+// Topics the safety filter commonly blocks, used to point at the phrase most
+// likely to have triggered it.
+const SENSITIVE_TOPICS: {topic: string; pattern: RegExp}[] = [
+  {
+    topic: 'real people or celebrities',
+    pattern: /\b(celebrit(y|ies)|famous|president|politician|real person|look-?alike)\b/i,
+  },
+  {topic: 'children', pattern: /\b(child|children|kids?|bab(y|ies)|toddlers?|minors?|teens?)\b/i},
+  {
+    topic: 'violence or weapons',
+    pattern: /\b(guns?|weapons?|knife|knives|blood|kill\w*|fight\w*|explo(de|sion)s?|shoot\w*|bombs?|war)\b/i,
+  },
+  {topic: 'medical claims', pattern: /\b(cures?|heal\w*|disease|cancer|weight loss)\b/i},
+  {
+    topic: 'alcohol, drugs or tobacco',
+    pattern: /\b(beer|wine|alcohol\w*|drunk|drugs?|cigarettes?|vap(e|ing)|smok\w*)\b/i,
+  },
+  {topic: 'adult content', pattern: /\b(sexy|nude|naked|lingerie)\b/i},
+];
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly title: string;
+  readonly guidance: string;
+  // Specifics for the user, e.g. the phrases that tripped the safety filter.
+  readonly details: string[];
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    {guidance, details = [], cause}: {guidance?: string; details?: string[]; cause?: unknown} = {},
+  ) {
+    super(message, {cause});
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.title = ERROR_TEXT[kind].title;
+    this.guidance = guidance ?? ERROR_TEXT[kind].guidance;
+    this.details = details;
+  }
+}
+
+/**
+ * Finds the sentences of a text that touch on commonly blocked topics.
+ * @param text The text to check.
+ * @returns Each flagged sentence with the topic it touches on.
+ */
+export const findSensitiveSentences = (
+  text: string,
+): {sentence: string; topic: string}[] =>
+  text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .flatMap((sentence) => {
+      const match = SENSITIVE_TOPICS.find(({pattern}) => pattern.test(sentence));
+      return match ? [{sentence, topic: match.topic}] : [];
+    });
+
+/**
+ * Lists the sentences of a text that touch on commonly blocked topics.
+ * @param text The text that was blocked.
+ * @returns One line per flagged sentence, naming the topic.
+ */
+export const findFlaggedPhrases = (text: string): string[] =>
+  findSensitiveSentences(text).map(
+    ({sentence, topic}) => `"${sentence}" mentions ${topic}.`,
+  );
+
+/**
+ * Creates the error for a request the safety filter blocked.
+ * @param reasons Reasons reported by the API, if any.
+ * @param text The text that was submitted.
+ * @param field What the text is, as shown to the user, e.g. "prompt".
+ * @returns The error, pointing at the phrases to change.
+ */
+export const createSafetyError = (
+  reasons: string[],
+  text: string,
+  field: string,
+): GenerationError => {
+  const flagged = findFlaggedPhrases(text);
+  const guidance = flagged.length
+    ? `Reword these parts of your ${field} and try again:`
+    : `Nothing in your ${field} stands out. Try describing the scene more neutrally, and avoid real people, children, violence or medical claims.`;
+  return new GenerationError(
+    'safety',
+    reasons.length ? reasons.join(' ') : `The ${field} was blocked by the safety filter.`,
+    {guidance, details: flagged},
+  );
+};
+
+const kindFromStatus = (status: number, message: string): GenerationErrorKind | null => {
+  if (status === 401 || status === 403) return 'auth';
+  // A missing model almost always means the key cannot see it.
+  if (status === 404) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 400) return /API key not valid|API_KEY_INVALID/i.test(message) ? 'auth' : 'invalid';
+  if (status >= 500) return 'network';
+  return null;
+};
+
+const kindFromMessage = (message: string): GenerationErrorKind => {
+  if (/Requested entity was not found|API_KEY_INVALID|API key not valid|permission denied|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return 'auth';
+  }
+  if (/RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i.test(message)) return 'quota';
+  // Status codes are matched as written, so "blocked by CORS" or
+  // "international" in a message do not count.
+  if (/safety|responsible ai|prohibited/i.test(message) || /\bBLOCKLIST\b/.test(message)) {
+    return 'safety';
+  }
+  if (/timed out/i.test(message)) return 'timeout';
+  if (
+    /Failed to fetch|NetworkError|network|ECONNRESET/i.test(message) ||
+    /\b(UNAVAILABLE|DEADLINE_EXCEEDED|INTERNAL)\b/.test(message)
+  ) {
+    return 'network';
+  }
+  if (/No videos (were )?generated|missing a URI|no data received/i.test(message)) return 'empty';
+  if (/INVALID_ARGUMENT/i.test(message)) return 'invalid';
+  return 'unknown';
+};
+
+/**
+ * Sorts any error thrown while generating into a GenerationError.
+ * @param error The caught error.
+ * @returns The error itself if already classified, otherwise a new one.
+ */
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+  const kind =
+    (error instanceof ApiError && kindFromStatus(error.status, message)) ||
+    kindFromMessage(message);
+  return new GenerationError(kind, message, {cause: error});
+};
+
+/**
+ * Checks whether a video job may still finish after a failure, so it should
+ * be kept for resuming rather than forgotten.
+ * @param error The caught error.
+ * @returns True for timeouts and dropped connections.
+ */
+export const isResumableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const {kind} = classifyError(error);
+  return kind === 'timeout' || kind === 'network';
+};
+
+/**
+ * Formats an error as one line for compact places such as batch cards.
+ * @param error The caught error.
+ * @returns The title and guidance.
+ */
+export const describeError = (error: unknown): string => {
+  const {title, guidance, details} = classifyError(error);
+  return [`${title}. ${guidance}`, ...details].join(' ');
+};
+
+/**
+ * Describes an upcoming retry for a progress message.
+ * @param notice The retry.
+ * @returns e.g. "Connection problem. Retrying in 4s (attempt 2 of 4)..."
+ */
+export const formatRetryNotice = ({title, attempt, maxAttempts, delayMs}: RetryNotice): string =>
+  `${title}. Retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt} of ${maxAttempts})...`;
+
+/**
+ * Runs a call, retrying it according to the policy for the way it failed.
+ * @param run Makes one attempt.
+ * @param options The signal that cancels waiting, and the retry callback.
+ * @param manualKinds Failures to leave for the user to retry.
+ * @returns A promise that resolves with the first successful result.
+ */
+const runWithRetries = async <T>(
+  run: () => Promise<T>,
+  {signal, onRetry}: Pick<GenerationOptions, 'signal' | 'onRetry'> = {},
+  manualKinds: GenerationErrorKind[] = [],
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const classified = classifyError(error);
+      const policy = RETRY_POLICIES[classified.kind];
+      if (attempt >= policy.maxAttempts || manualKinds.includes(classified.kind)) {
+        throw classified;
+      }
+
+      const delayMs = Math.min(
+        policy.initialDelayMs * policy.backoffFactor ** (attempt - 1),
+        policy.maxDelayMs,
+      );
+      console.warn(`${classified.title}; retrying in ${delayMs} ms.`, error);
+      onRetry?.({
+        kind: classified.kind,
+        title: classified.title,
+        attempt: attempt + 1,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+      });
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+/**
+ * Wraps a provider so that failures are classified and retried according to
+ * RETRY_POLICIES. A video job that already started is re-attached to rather
+ * than started again, so a dropped connection does not pay twice.
+ * @param provider The provider to wrap.
+ * @returns A provider with the same behaviour plus retries.
+ */
+export const withRetries = (provider: GenerationProvider): GenerationProvider => ({
+  ...provider,
+  generateVideo: (params, options = {}) => {
+    let operationName: string | undefined;
+    const attemptOptions: GenerationOptions = {
+      ...options,
+      onOperationStarted: (name) => {
+        operationName = name;
+        options.onOperationStarted?.(name);
+      },
+    };
+    // A job that finished with nothing would need a new billed job, so
+    // that is left to the user.
+    return runWithRetries(
+      () =>
+        operationName
+          ? provider.resumeVideo(operationName, attemptOptions)
+          : provider.generateVideo(params, attemptOptions),
+      options,
+      ['empty'],
+    );
+  },
+  resumeVideo: (operationName, options = {}) =>
+    runWithRetries(() => provider.resumeVideo(operationName, options), options, ['empty']),
+  generateSpeech: (script, voiceName) =>
+    runWithRetries(() => provider.generateSpeech(script, voiceName)),
+  generateDialogue: (script, speakers) =>
+    runWithRetries(() => provider.generateDialogue(script, speakers)),
+  generateScript: (productName, productDescription, options, brand) =>
+    runWithRetries(() =>
+      provider.generateScript(productName, productDescription, options, brand),
+    ),
+  translateScript: (script, language, targetSeconds) =>
+    runWithRetries(() => provider.translateScript(script, language, targetSeconds)),
+  generateProductImage: (productName, productDescription, options, brand) =>
+    runWithRetries(() =>
+      provider.generateProductImage(productName, productDescription, options, brand),
+    ),
+  transcribeAudio: (audio) => runWithRetries(() => provider.transcribeAudio(audio)),
+  assistPrompt: (prompt, context) =>
+    runWithRetries(() => provider.assistPrompt(prompt, context)),
+});
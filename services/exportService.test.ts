@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  PLATFORM_TARGETS,
+  buildExportFileName,
+  computeFitRect,
+  matchesTargetAspect,
+} from './exportService';
+
+const tiktok = PLATFORM_TARGETS.find((t) => t.id === 'tiktok')!;
+
+describe('computeFitRect', () => {
+  it('crops a landscape clip to fill a vertical frame around the focus', () => {
+    expect(computeFitRect(1920, 1080, 1080, 1920, 'crop')).toEqual({
+      sx: 656.25,
+      sy: 0,
+      sw: 607.5,
+      sh: 1080,
+      dx: 0,
+      dy: 0,
+      dw: 1080,
+      dh: 1920,
+    });
+    expect(computeFitRect(1920, 1080, 1080, 1920, 'crop', 0).sx).toBe(0);
+    expect(computeFitRect(1920, 1080, 1080, 1920, 'crop', 1).sx).toBe(1312.5);
+  });
+
+  it('fits a landscape clip into a vertical frame with bars', () => {
+    expect(computeFitRect(1920, 1080, 1080, 1920, 'letterbox')).toEqual({
+      sx: 0,
+      sy: 0,
+      sw: 1920,
+      sh: 1080,
+      dx: 0,
+      dy: 656.25,
+      dw: 1080,
+      dh: 607.5,
+    });
+  });
+
+  it('scales a clip of the same shape to the whole frame', () => {
+    const rect = computeFitRect(1280, 720, 1920, 1080, 'letterbox');
+    expect(rect).toMatchObject({dx: 0, dy: 0, dw: 1920, dh: 1080});
+  });
+});
+
+describe('matchesTargetAspect', () => {
+  it('allows for rounding in the source size', () => {
+    expect(matchesTargetAspect(720, 1280, tiktok)).toBe(true);
+    expect(matchesTargetAspect(721, 1280, tiktok)).toBe(true);
+    expect(matchesTargetAspect(1280, 720, tiktok)).toBe(false);
+  });
+});
+
+describe('buildExportFileName', () => {
+  it('fills the platform naming pattern', () => {
+    expect(buildExportFileName(tiktok, 'Glow Serum', new Date('2025-03-04T12:00:00Z'))).toBe(
+      'glow-serum_tiktok_9x16_20250304',
+    );
+  });
+});
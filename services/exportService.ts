@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {FitMode, PlatformTarget} from '../types';
+import {slugify} from '../utils';
+
+// Safe zones follow each platform's published ad specs, rounded outward so
+// that text placed inside them stays clear of captions, buttons and handles.
+export const PLATFORM_TARGETS: PlatformTarget[] = [
+  {
+    id: 'tiktok',
+    name: 'TikTok',
+    aspect: '9:16',
+    width: 1080,
+    height: 1920,
+    maxDuration: 60,
+    safeZone: {top: 0.08, bottom: 0.2, left: 0.06, right: 0.12},
+    fileNamePattern: '{product}_tiktok_{aspect}_{date}',
+  },
+  {
+    id: 'reels',
+    name: 'Instagram Reels',
+    aspect: '9:16',
+    width: 1080,
+    height: 1920,
+    maxDuration: 90,
+    safeZone: {top: 0.14, bottom: 0.35, left: 0.06, right: 0.06},
+    fileNamePattern: '{product}_reels_{aspect}_{date}',
+  },
+  {
+    id: 'shorts',
+    name: 'YouTube Shorts',
+    aspect: '9:16',
+    width: 1080,
+    height: 1920,
+    maxDuration: 60,
+    safeZone: {top: 0.12, bottom: 0.2, left: 0.06, right: 0.14},
+    fileNamePattern: '{product}_shorts_{aspect}_{date}',
+  },
+  {
+    id: 'feed-square',
+    name: 'Instagram / Facebook Feed',
+    aspect: '1:1',
+    width: 1080,
+    height: 1080,
+    maxDuration: 60,
+    safeZone: {top: 0.05, bottom: 0.05, left: 0.05, right: 0.05},
+    fileNamePattern: '{product}_feed_{aspect}_{date}',
+  },
+  {
+    id: 'landscape',
+    name: 'YouTube / Landscape Placements',
+    aspect: '16:9',
+    width: 1920,
+    height: 1080,
+    maxDuration: 180,
+    safeZone: {top: 0.05, bottom: 0.12, left: 0.05, right: 0.05},
+    fileNamePattern: '{product}_landscape_{aspect}_{date}',
+  },
+];
+
+/**
+ * Builds a download name from a target's naming convention.
+ * @param target The platform the file is for.
+ * @param productName The product the ad is for.
+ * @param date When the file is exported.
+ * @returns The file name, without an extension.
+ */
+export const buildExportFileName = (
+  target: PlatformTarget,
+  productName: string,
+  date = new Date(),
+): string => {
+  const tokens: Record<string, string> = {
+    product: slugify(productName) || 'ad',
+    platform: slugify(target.name),
+    aspect: target.aspect.replace(':', 'x'),
+    date: date.toISOString().slice(0, 10).replace(/-/g, ''),
+  };
+  return target.fileNamePattern.replace(/\{(\w+)\}/g, (token, name: string) => tokens[name] ?? token);
+};
+
+/**
+ * Works out where a clip lands in a frame of another shape.
+ * @param sourceWidth The clip's width.
+ * @param sourceHeight The clip's height.
+ * @param width The frame's width.
+ * @param height The frame's height.
+ * @param fit Whether to crop the clip to fill the frame or fit it with bars.
+ * @param focus Where to crop, from 0 (left or top) to 1 (right or bottom).
+ * @returns The source and destination rectangles for `drawImage`.
+ */
+export const computeFitRect = (
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+  fit: FitMode,
+  focus = 0.5,
+) => {
+  const scale =
+    fit === 'crop'
+      ? Math.max(width / sourceWidth, height / sourceHeight)
+      : Math.min(width / sourceWidth, height / sourceHeight);
+  if (fit === 'crop') {
+    // The part of the source that is visible once scaled to cover the frame.
+    const sw = width / scale;
+    const sh = height / scale;
+    return {
+      sx: (sourceWidth - sw) * focus,
+      sy: (sourceHeight - sh) * focus,
+      sw,
+      sh,
+      dx: 0,
+      dy: 0,
+      dw: width,
+      dh: height,
+    };
+  }
+  const dw = sourceWidth * scale;
+  const dh = sourceHeight * scale;
+  return {
+    sx: 0,
+    sy: 0,
+    sw: sourceWidth,
+    sh: sourceHeight,
+    dx: (width - dw) / 2,
+    dy: (height - dh) / 2,
+    dw,
+    dh,
+  };
+};
+
+/**
+ * Checks whether a clip already has a target's shape.
+ * @param sourceWidth The clip's width.
+ * @param sourceHeight The clip's height.
+ * @param target The platform to check against.
+ * @returns True if the aspect ratios match within 1%.
+ */
+export const matchesTargetAspect = (
+  sourceWidth: number,
+  sourceHeight: number,
+  target: PlatformTarget,
+): boolean =>
+  Math.abs(sourceWidth / sourceHeight / (target.width / target.height) - 1) < 0.01;
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  FrameSample,
+  computeFrameDifference,
+  computeSharpness,
+  formatFrameTime,
+  pickCoverFrames,
+} from './frameService';
+
+describe('computeSharpness', () => {
+  it('is zero for a flat frame', () => {
+    expect(computeSharpness(new Float32Array(16).fill(128), 4, 4)).toBe(0);
+  });
+
+  it('is higher for hard edges than for a soft ramp', () => {
+    const checkerboard = Float32Array.from({length: 25}, (_, i) =>
+      (i % 5 + Math.floor(i / 5)) % 2 ? 255 : 0,
+    );
+    const ramp = Float32Array.from({length: 25}, (_, i) => (i % 5) * 10);
+    expect(computeSharpness(checkerboard, 5, 5)).toBeGreaterThan(computeSharpness(ramp, 5, 5));
+  });
+
+  it('is zero for frames too small to measure', () => {
+    expect(computeSharpness(new Float32Array([0, 255, 0, 255]), 2, 2)).toBe(0);
+  });
+});
+
+describe('computeFrameDifference', () => {
+  it('scales the mean difference to 0..1', () => {
+    expect(computeFrameDifference(new Float32Array([0, 0]), new Float32Array([255, 0]))).toBe(0.5);
+    expect(computeFrameDifference(new Float32Array(), new Float32Array())).toBe(0);
+  });
+});
+
+describe('pickCoverFrames', () => {
+  const sample = (time: number, changes: Partial<FrameSample> = {}): FrameSample => ({
+    time,
+    sharpness: 10,
+    change: 0.1,
+    brightness: 0.5,
+    ...changes,
+  });
+
+  it('picks the sharpest frames first', () => {
+    const picks = pickCoverFrames(
+      [sample(0), sample(2, {sharpness: 100}), sample(4, {sharpness: 50})],
+      2,
+      1,
+    );
+    expect(picks.map((p) => p.time)).toEqual([2, 4]);
+    expect(picks[0].score).toBeCloseTo(1);
+  });
+
+  it('keeps picks apart', () => {
+    const picks = pickCoverFrames(
+      [sample(2, {sharpness: 100}), sample(2.5, {sharpness: 90}), sample(6)],
+      2,
+      1,
+    );
+    expect(picks.map((p) => p.time)).toEqual([2, 6]);
+  });
+
+  it('passes over dark frames', () => {
+    const picks = pickCoverFrames(
+      [sample(0, {sharpness: 100, brightness: 0.02}), sample(3, {sharpness: 40})],
+      1,
+      1,
+    );
+    expect(picks.map((p) => p.time)).toEqual([3]);
+  });
+});
+
+describe('formatFrameTime', () => {
+  it('shows minutes and tenths of a second', () => {
+    expect(formatFrameTime(3.24)).toBe('0:03.2');
+    expect(formatFrameTime(75.5)).toBe('1:15.5');
+  });
+});
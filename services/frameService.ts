@@ -0,0 +1,361 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {resolveMediaDuration, slugify} from '../utils';
+
+// Grabs still frames from a clip for covers, thumbnails and contact sheets.
+// Cover suggestions score evenly spaced sample frames on sharpness and on how
+// much they differ from the frame before (a scene change), and skip frames
+// that are nearly black, such as fades.
+
+export type FrameFormat = 'image/png' | 'image/jpeg';
+
+// One analysed sample frame.
+export interface FrameSample {
+  time: number; // Seconds
+  sharpness: number; // Variance of the Laplacian; higher is crisper
+  change: number; // Mean difference from the previous sample, 0 to 1
+  brightness: number; // Mean luma, 0 to 1
+}
+
+// A suggested cover frame, with its score from 0 to 1.
+export interface CoverSuggestion extends FrameSample {
+  score: number;
+}
+
+export const COVER_SUGGESTION_COUNT = 4;
+const COVER_SAMPLE_COUNT = 24;
+const ANALYSIS_WIDTH = 160;
+const SHARPNESS_WEIGHT = 0.7; // The rest goes to scene change
+const DARK_FRAME_BRIGHTNESS = 0.08;
+const DARK_FRAME_PENALTY = 0.2;
+// Keep clear of the very start and end, which are often fades.
+const EDGE_MARGIN = 0.05;
+const JPEG_QUALITY = 0.92;
+const POSTER_WIDTH = 640;
+
+/**
+ * Formats a timestamp for labels and file names.
+ * @param seconds The time.
+ * @returns e.g. "0:03.2".
+ */
+export const formatFrameTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = (seconds - minutes * 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${rest}`;
+};
+
+/**
+ * Converts RGBA pixels to luma.
+ * @param data The pixels, e.g. from `getImageData`.
+ * @returns One value per pixel, from 0 to 255.
+ */
+export const toGrayscale = (data: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Measures how crisp a frame is: the variance of its Laplacian, which is low
+ * for blurred or motion-smeared frames.
+ * @param gray The frame's luma.
+ * @param width The frame's width in pixels.
+ * @param height The frame's height in pixels.
+ * @returns The sharpness; only meaningful relative to other frames.
+ */
+export const computeSharpness = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+/**
+ * Measures how different two frames of the same size are.
+ * @param a The first frame's luma.
+ * @param b The second frame's luma.
+ * @returns The mean absolute difference, from 0 to 1.
+ */
+export const computeFrameDifference = (a: Float32Array, b: Float32Array): number => {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / length / 255;
+};
+
+/**
+ * Scores sample frames and picks the best, spread out over the clip.
+ * @param samples The analysed frames.
+ * @param count How many to pick.
+ * @param minGap The least time between two picks, in seconds.
+ * @returns The picks, best first.
+ */
+export const pickCoverFrames = (
+  samples: FrameSample[],
+  count: number,
+  minGap: number,
+): CoverSuggestion[] => {
+  const maxSharpness = Math.max(...samples.map((s) => s.sharpness), 1e-9);
+  const maxChange = Math.max(...samples.map((s) => s.change), 1e-9);
+  const scored = samples
+    .map((sample) => {
+      let score =
+        SHARPNESS_WEIGHT * (sample.sharpness / maxSharpness) +
+        (1 - SHARPNESS_WEIGHT) * (sample.change / maxChange);
+      if (sample.brightness < DARK_FRAME_BRIGHTNESS) score *= DARK_FRAME_PENALTY;
+      return {...sample, score};
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const picks: CoverSuggestion[] = [];
+  for (const candidate of scored) {
+    if (picks.length >= count) break;
+    if (picks.every((pick) => Math.abs(pick.time - candidate.time) >= minGap)) {
+      picks.push(candidate);
+    }
+  }
+  return picks;
+};
+
+/**
+ * Loads a video into a detached element, ready to seek.
+ * @param url The video source.
+ * @returns A promise that resolves once the first frame and the video's
+ *     length are available.
+ */
+export const loadFrameSource = (url: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.src = url;
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = async () => {
+      video.onloadeddata = null;
+      // Recorded clips may not know their length until it is looked up.
+      await resolveMediaDuration(video);
+      resolve(video);
+    };
+    video.onerror = () => reject(new Error('Could not load the video to grab frames.'));
+  });
+
+/**
+ * Reads a loaded video's length.
+ * @param video The video.
+ * @returns The duration in seconds, or 0 if it is unknown, so that seeks fall
+ *     back to the first frame.
+ */
+const getDuration = (video: HTMLVideoElement): number =>
+  Number.isFinite(video.duration) ? video.duration : 0;
+
+/**
+ * Seeks a video and waits for the frame to be ready to draw.
+ * @param video The video.
+ * @param time The time to seek to, in seconds.
+ * @param signal Cancels the wait.
+ */
+const seekTo = (video: HTMLVideoElement, time: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Frame extraction was cancelled.', 'AbortError'));
+      return;
+    }
+    video.onseeked = () => {
+      video.onseeked = null;
+      resolve();
+    };
+    video.currentTime = Math.min(Math.max(0, time), Math.max(0, getDuration(video) - 0.01));
+  });
+
+/**
+ * Draws the video's current frame onto a new canvas.
+ * @param video The video, already seeked.
+ * @param maxWidth Scales the frame down to at most this width.
+ * @returns The canvas.
+ */
+const drawFrame = (video: HTMLVideoElement, maxWidth = Infinity): HTMLCanvasElement => {
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Encodes a canvas as an image file.
+ * @param canvas The canvas.
+ * @param format PNG or JPEG.
+ * @returns A promise that resolves with the image.
+ */
+const canvasToBlob = (canvas: HTMLCanvasElement, format: FrameFormat): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the frame.'))),
+      format,
+      JPEG_QUALITY,
+    );
+  });
+
+/**
+ * Grabs one full-resolution frame.
+ * @param video A video loaded with `loadFrameSource`.
+ * @param time The time of the frame, in seconds.
+ * @param format PNG or JPEG.
+ * @returns A promise that resolves with the image.
+ */
+export const grabFrame = async (
+  video: HTMLVideoElement,
+  time: number,
+  format: FrameFormat,
+): Promise<Blob> => {
+  await seekTo(video, time);
+  return canvasToBlob(drawFrame(video), format);
+};
+
+/**
+ * Samples a clip evenly and suggests the frames that make the best covers.
+ * @param video A video loaded with `loadFrameSource`.
+ * @param options How many suggestions and samples, and cancellation.
+ * @returns A promise that resolves with the suggestions, best first.
+ */
+export const suggestCoverFrames = async (
+  video: HTMLVideoElement,
+  {
+    count = COVER_SUGGESTION_COUNT,
+    sampleCount = COVER_SAMPLE_COUNT,
+    signal,
+  }: {count?: number; sampleCount?: number; signal?: AbortSignal} = {},
+): Promise<CoverSuggestion[]> => {
+  const duration = getDuration(video);
+  const start = duration * EDGE_MARGIN;
+  const span = duration * (1 - EDGE_MARGIN * 2);
+  const samples: FrameSample[] = [];
+  let previous: Float32Array | null = null;
+  for (let i = 0; i < sampleCount; i++) {
+    const time = start + (span * i) / Math.max(1, sampleCount - 1);
+    await seekTo(video, time, signal);
+    const canvas = drawFrame(video, ANALYSIS_WIDTH);
+    const {data} = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    const gray = toGrayscale(data);
+    samples.push({
+      time,
+      sharpness: computeSharpness(gray, canvas.width, canvas.height),
+      change: previous ? computeFrameDifference(previous, gray) : 0,
+      brightness: gray.reduce((sum, value) => sum + value, 0) / gray.length / 255,
+    });
+    previous = gray;
+  }
+  return pickCoverFrames(samples, count, span / (count * 2));
+};
+
+/**
+ * Lays out evenly spaced frames in a grid, each labelled with its time.
+ * @param video A video loaded with `loadFrameSource`.
+ * @param options The grid size, tile width, title, format and cancellation.
+ * @returns A promise that resolves with the contact sheet image.
+ */
+export const buildContactSheet = async (
+  video: HTMLVideoElement,
+  {
+    columns = 4,
+    rows = 3,
+    tileWidth = 320,
+    title = '',
+    format = 'image/jpeg',
+    signal,
+  }: {
+    columns?: number;
+    rows?: number;
+    tileWidth?: number;
+    title?: string;
+    format?: FrameFormat;
+    signal?: AbortSignal;
+  } = {},
+): Promise<Blob> => {
+  const tileHeight = Math.round((tileWidth * video.videoHeight) / video.videoWidth);
+  const gap = 8;
+  const header = title ? 40 : 0;
+  const sheet = document.createElement('canvas');
+  sheet.width = columns * tileWidth + (columns + 1) * gap;
+  sheet.height = header + rows * tileHeight + (rows + 1) * gap;
+  const ctx = sheet.getContext('2d')!;
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, sheet.width, sheet.height);
+  if (title) {
+    ctx.fillStyle = 'white';
+    ctx.font = 'bold 20px sans-serif';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(title, gap, header / 2 + gap / 2);
+  }
+
+  const count = columns * rows;
+  for (let i = 0; i < count; i++) {
+    // Centre each frame in its share of the clip.
+    const time = (getDuration(video) * (i + 0.5)) / count;
+    await seekTo(video, time, signal);
+    const x = gap + (i % columns) * (tileWidth + gap);
+    const y = header + gap + Math.floor(i / columns) * (tileHeight + gap);
+    ctx.drawImage(video, x, y, tileWidth, tileHeight);
+
+    const label = formatFrameTime(time);
+    ctx.font = '14px monospace';
+    ctx.textBaseline = 'bottom';
+    const labelWidth = ctx.measureText(label).width + 8;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(x + 4, y + tileHeight - 24, labelWidth, 20);
+    ctx.fillStyle = 'white';
+    ctx.fillText(label, x + 8, y + tileHeight - 7);
+  }
+  return canvasToBlob(sheet, format);
+};
+
+/**
+ * Picks a poster frame for a clip, e.g. for the media library.
+ * @param videoBlob The clip.
+ * @returns A promise that resolves with a small JPEG of the best cover frame.
+ */
+export const createPosterFrame = async (videoBlob: Blob): Promise<Blob> => {
+  const url = URL.createObjectURL(videoBlob);
+  try {
+    const video = await loadFrameSource(url);
+    const [best] = await suggestCoverFrames(video, {count: 1, sampleCount: 8});
+    await seekTo(video, best?.time ?? 0);
+    return await canvasToBlob(drawFrame(video, POSTER_WIDTH), 'image/jpeg');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Builds a file name for a grabbed frame.
+ * @param productName The product the ad is for.
+ * @param time The frame's time, in seconds.
+ * @param format The image format.
+ * @returns e.g. "adspark-glow-serum-frame-3.2s.png"
+ */
+export const getFrameFileName = (
+  productName: string,
+  time: number | 'contact-sheet',
+  format: FrameFormat,
+): string => {
+  const slug = slugify(productName);
+  const suffix = time === 'contact-sheet' ? 'contact-sheet' : `frame-${time.toFixed(1)}s`;
+  return `adspark-${slug || 'ad'}-${suffix}.${format === 'image/png' ? 'png' : 'jpg'}`;
+};
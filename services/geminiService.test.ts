@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {transcribeAudio} from './geminiService';
+
+const generateContent = vi.fn();
+
+// The service creates an AudioContext for TTS when it loads.
+vi.hoisted(() => {
+  vi.stubGlobal('window', {AudioContext: class {}});
+});
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    models = {generateContent};
+  },
+}));
+
+const recording = new Blob([new Uint8Array([1, 2, 3])], {type: 'audio/webm'});
+
+describe('transcribeAudio', () => {
+  beforeEach(() => {
+    generateContent.mockReset();
+  });
+
+  it('returns the spoken words', async () => {
+    generateContent.mockResolvedValue({text: ' Hello there. \n'});
+    await expect(transcribeAudio(recording)).resolves.toBe('Hello there.');
+  });
+
+  it('returns an empty string when nothing was said', async () => {
+    generateContent.mockResolvedValue({text: undefined});
+    await expect(transcribeAudio(recording)).resolves.toBe('');
+  });
+
+  it('reports a blocked recording as a safety error', async () => {
+    generateContent.mockResolvedValue({text: undefined, promptFeedback: {blockReason: 'OTHER'}});
+    await expect(transcribeAudio(recording)).rejects.toMatchObject({kind: 'safety'});
+  });
+});
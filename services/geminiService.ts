@@ -3,30 +3,174 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import {
+  FinishReason,
+  GenerateContentResponse,
+  GenerateVideosOperation,
   GoogleGenAI,
   Modality,
-  Video,
+  Part,
+  Type,
   VideoGenerationReferenceImage,
   VideoGenerationReferenceType,
 } from '@google/genai';
-import {GenerateVideoParams, VoiceName} from '../types';
-import {decode, decodeAudioData} from '../utils';
+import {
+  BrandProfile,
+  DialogueSpeaker,
+  GeneratedVideo,
+  GenerateVideoParams,
+  GenerationOptions,
+  GenerationProvider,
+  ImageFile,
+  ProductImageOptions,
+  PromptContext,
+  PromptSuggestion,
+  PromptSuggestionKind,
+  ScriptAlternative,
+  ScriptOptions,
+  VoiceName,
+} from '../types';
+import {createAudioContext, decode, decodeAudioData, encode} from '../utils';
+import {
+  buildBrandScriptInstructions,
+  buildBrandVideoDirectives,
+} from './brandKitService';
+import {
+  MULTI_SPEAKER_COUNT,
+  formatDialogue,
+  parseDialogue,
+  renderDialogueByLine,
+} from './dialogueService';
+import {GenerationError, createSafetyError} from './errorService';
+import {getReferenceType, validateGenerationParams} from './modelConstraints';
+import {pollUntilDone} from './operationService';
+import {buildProductImagePrompt, createProductImageFile} from './productImageService';
+import {createSuggestion} from './promptAssistService';
+import {
+  SCRIPT_ALTERNATIVE_COUNT,
+  SCRIPT_TONES,
+  createScriptAlternatives,
+  getWordBudget,
+} from './scriptService';
 
 // Create a single, reusable AudioContext for decoding TTS output.
-// FIX: Cast window to any to allow access to webkitAudioContext for broader browser support.
-const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({sampleRate: 24000});
+const outputAudioContext = createAudioContext({sampleRate: 24000});
+
+// Creates a client for the currently selected API key. A new client is created
+// per call because the key can change when the user re-selects it.
+const getClient = () => new GoogleGenAI({apiKey: process.env.API_KEY});
+
+const SAFETY_FINISH_REASONS = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
 
+/**
+ * Throws a safety error if a text or speech response was blocked.
+ * @param response The model response.
+ * @param text The text that was submitted.
+ * @param field What the text is, as shown to the user.
+ */
+const throwIfBlocked = (
+  response: GenerateContentResponse,
+  text: string,
+  field: string,
+) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    const reason = response.promptFeedback?.blockReasonMessage ?? blockReason ?? finishReason;
+    throw createSafetyError(reason ? [`Blocked: ${reason}.`] : [], text, field);
+  }
+};
+
+/**
+ * Polls a video operation to completion and downloads the resulting clip.
+ * @param ai The client to poll with.
+ * @param operation The started (or re-attached) operation.
+ * @param options Cancellation and polling options.
+ * @param prompt The prompt, if known, used to explain safety blocks.
+ * @returns A promise that resolves with the downloaded video.
+ */
+const completeVideoOperation = async (
+  ai: GoogleGenAI,
+  operation: GenerateVideosOperation,
+  options: GenerationOptions,
+  prompt = '',
+): Promise<GeneratedVideo> => {
+  const {signal} = options;
+  operation = await pollUntilDone(
+    operation,
+    (current) =>
+      ai.operations.getVideosOperation({
+        operation: current,
+        config: {abortSignal: signal},
+      }),
+    options.poll,
+    signal,
+  );
+
+  if (operation?.response) {
+    const videos = operation.response.generatedVideos;
+
+    if (!videos || videos.length === 0) {
+      if (operation.response.raiMediaFilteredCount) {
+        throw createSafetyError(
+          operation.response.raiMediaFilteredReasons ?? [],
+          prompt,
+          'prompt',
+        );
+      }
+      throw new GenerationError('empty', 'No videos were generated.');
+    }
+
+    const firstVideo = videos[0];
+    if (!firstVideo?.video?.uri) {
+      throw new GenerationError('empty', 'Generated video is missing a URI.');
+    }
+    const videoObject = firstVideo.video;
+
+    const url = decodeURIComponent(videoObject.uri);
+    console.log('Fetching video from:', url);
+
+    const res = await fetch(`${url}&key=${process.env.API_KEY}`, {signal});
+
+    if (!res.ok) {
+      throw new Error(`Failed to fetch video: ${res.status} ${res.statusText}`);
+    }
+
+    const videoBlob = await res.blob();
+    const objectUrl = URL.createObjectURL(videoBlob);
+
+    return {objectUrl, blob: videoBlob, uri: url, video: videoObject};
+  } else {
+    console.error('Operation failed:', operation);
+    // Let the error taxonomy sort out what the operation's own error means.
+    const message = operation?.error?.message;
+    throw typeof message === 'string'
+      ? new Error(message)
+      : new GenerationError('empty', 'No videos generated.');
+  }
+};
 
 export const generateVideo = async (
   params: GenerateVideoParams,
-): Promise<{objectUrl: string; blob: Blob; uri: string; video: Video}> => {
+  options: GenerationOptions = {},
+): Promise<GeneratedVideo> => {
   console.log('Starting video generation with params:', params);
 
-  const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
+  const issues = validateGenerationParams(params);
+  if (issues.length > 0) {
+    throw new GenerationError('invalid', issues.join(' '));
+  }
+
+  const ai = getClient();
 
   const config: any = {
     numberOfVideos: 1,
     resolution: params.resolution,
+    abortSignal: options.signal,
   };
 
   // Aspect ratio is not used for extending videos.
@@ -43,7 +187,20 @@ export const generateVideo = async (
     generateVideoPayload.prompt = params.prompt;
   }
 
-  // Handle reference images (for initial ad creation with a product image)
+  // Apply the selected brand's style and keep its banned words out of frame.
+  if (params.brand) {
+    const directives = buildBrandVideoDirectives(params.brand);
+    if (directives) {
+      generateVideoPayload.prompt = [params.prompt, directives]
+        .filter(Boolean)
+        .join('\n\n');
+    }
+    if (params.brand.bannedWords.length > 0) {
+      config.negativePrompt = params.brand.bannedWords.join(', ');
+    }
+  }
+
+  // Handle reference images (for initial ad creation with product or style images)
   if (params.referenceImages && params.referenceImages.length > 0) {
     const referenceImagesPayload: VideoGenerationReferenceImage[] = [];
     for (const img of params.referenceImages) {
@@ -53,12 +210,31 @@ export const generateVideo = async (
           imageBytes: img.base64,
           mimeType: img.file.type,
         },
-        referenceType: VideoGenerationReferenceType.ASSET,
+        referenceType:
+          getReferenceType(img) === 'style'
+            ? VideoGenerationReferenceType.STYLE
+            : VideoGenerationReferenceType.ASSET,
       });
     }
     generateVideoPayload.config.referenceImages = referenceImagesPayload;
   }
 
+  // Handle frame conditioning (open on an exact image, optionally end on one)
+  if (params.startFrame) {
+    console.log(`Adding start frame: ${params.startFrame.file.name}`);
+    generateVideoPayload.image = {
+      imageBytes: params.startFrame.base64,
+      mimeType: params.startFrame.file.type,
+    };
+    if (params.endFrame) {
+      console.log(`Adding end frame: ${params.endFrame.file.name}`);
+      config.lastFrame = {
+        imageBytes: params.endFrame.base64,
+        mimeType: params.endFrame.file.type,
+      };
+    }
+  }
+
   // Handle video extension
   if (params.inputVideoObject) {
     generateVideoPayload.video = params.inputVideoObject;
@@ -66,45 +242,31 @@ export const generateVideo = async (
   }
 
   console.log('Submitting video generation request...', generateVideoPayload);
-  let operation = await ai.models.generateVideos(generateVideoPayload);
+  const operation = await ai.models.generateVideos(generateVideoPayload);
   console.log('Video generation operation started:', operation);
 
-  while (!operation.done) {
-    await new Promise((resolve) => setTimeout(resolve, 10000));
-    console.log('...Generating...');
-    operation = await ai.operations.getVideosOperation({operation: operation});
+  if (operation.name) {
+    options.onOperationStarted?.(operation.name);
   }
 
-  if (operation?.response) {
-    const videos = operation.response.generatedVideos;
-
-    if (!videos || videos.length === 0) {
-      throw new Error('No videos were generated.');
-    }
-
-    const firstVideo = videos[0];
-    if (!firstVideo?.video?.uri) {
-      throw new Error('Generated video is missing a URI.');
-    }
-    const videoObject = firstVideo.video;
-
-    const url = decodeURIComponent(videoObject.uri);
-    console.log('Fetching video from:', url);
-
-    const res = await fetch(`${url}&key=${process.env.API_KEY}`);
-
-    if (!res.ok) {
-      throw new Error(`Failed to fetch video: ${res.status} ${res.statusText}`);
-    }
-
-    const videoBlob = await res.blob();
-    const objectUrl = URL.createObjectURL(videoBlob);
+  return completeVideoOperation(ai, operation, options, params.prompt);
+};
 
-    return {objectUrl, blob: videoBlob, uri: url, video: videoObject};
-  } else {
-    console.error('Operation failed:', operation);
-    throw new Error('No videos generated.');
-  }
+/**
+ * Re-attaches to a video operation started earlier, e.g. before a reload.
+ * @param operationName The server-assigned operation name.
+ * @param options Cancellation and polling options.
+ * @returns A promise that resolves with the downloaded video.
+ */
+export const resumeVideo = async (
+  operationName: string,
+  options: GenerationOptions = {},
+): Promise<GeneratedVideo> => {
+  const ai = getClient();
+  const operation = new GenerateVideosOperation();
+  operation.name = operationName;
+  console.log('Resuming video generation operation:', operationName);
+  return completeVideoOperation(ai, operation, options);
 };
 
 /**
@@ -117,7 +279,7 @@ export const generateSpeech = async (
   script: string,
   voiceName: VoiceName,
 ): Promise<AudioBuffer> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const ai = getClient();
   const response = await ai.models.generateContent({
     model: 'gemini-2.5-flash-preview-tts',
     contents: [{parts: [{text: script}]}],
@@ -135,7 +297,8 @@ export const generateSpeech = async (
     response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
 
   if (!base64Audio) {
-    throw new Error('Audio generation failed, no data received.');
+    throwIfBlocked(response, script, 'voiceover script');
+    throw new GenerationError('empty', 'Audio generation failed, no data received.');
   }
 
   const decodedAudio = decode(base64Audio);
@@ -145,25 +308,352 @@ export const generateSpeech = async (
 };
 
 /**
- * Generates a short, catchy voiceover script for an ad.
+ * Speaks a dialogue script with a different voice per speaker. Two speakers
+ * use the TTS model's multi-speaker mode; other casts are spoken line by line.
+ * @param script The script, with one "Label: line" per turn.
+ * @param speakers The cast.
+ * @returns A promise that resolves with an AudioBuffer.
+ */
+export const generateDialogue = async (
+  script: string,
+  speakers: DialogueSpeaker[],
+): Promise<AudioBuffer> => {
+  if (speakers.length !== MULTI_SPEAKER_COUNT) {
+    return renderDialogueByLine(script, speakers, generateSpeech);
+  }
+
+  const ai = getClient();
+  const labels = speakers.map((speaker) => speaker.label.trim());
+  const dialogue = formatDialogue(parseDialogue(script), speakers);
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash-preview-tts',
+    contents: [
+      {parts: [{text: `TTS the following conversation between ${labels.join(' and ')}:\n${dialogue}`}]},
+    ],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: speakers.map((speaker) => ({
+            speaker: speaker.label.trim(),
+            voiceConfig: {prebuiltVoiceConfig: {voiceName: speaker.voiceName}},
+          })),
+        },
+      },
+    },
+  });
+
+  const base64Audio =
+    response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+
+  if (!base64Audio) {
+    throwIfBlocked(response, script, 'voiceover script');
+    throw new GenerationError('empty', 'Audio generation failed, no data received.');
+  }
+
+  return decodeAudioData(decode(base64Audio), outputAudioContext, 24000, 1);
+};
+
+const SCRIPT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    scripts: {type: Type.ARRAY, items: {type: Type.STRING}},
+  },
+  required: ['scripts'],
+};
+
+/**
+ * Writes alternative voiceover scripts for an ad.
  * @param productName The name of the product.
  * @param productDescription The description of the product.
- * @returns A promise that resolves with the generated script string.
+ * @param options The length, tone, call to action, language and speakers.
+ * @param brand An optional brand whose voice the scripts should follow.
+ * @returns A promise that resolves with the scripts, closest to the target
+ *   length first.
  */
 export const generateScript = async (
   productName: string,
   productDescription: string,
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const prompt = `Write a very short, punchy, and exciting 5-10 second voiceover script for a video ad.
+  options: ScriptOptions,
+  brand?: BrandProfile,
+): Promise<ScriptAlternative[]> => {
+  const ai = getClient();
+  const tone = SCRIPT_TONES.find((t) => t.value === options.tone) ?? SCRIPT_TONES[0];
+  let prompt = `Write ${SCRIPT_ALTERNATIVE_COUNT} different voiceover scripts for a ${options.targetSeconds}-second video ad.
   Product Name: "${productName}"
   Product Description: "${productDescription}"
-  The script should be a single sentence or two very short sentences. Make it catchy and memorable.`;
-  
+  Each script must take about ${options.targetSeconds} seconds to read aloud at a natural pace, so use at most ${getWordBudget(options.targetSeconds)} words.
+  Tone: ${tone.direction}
+  Write the scripts in ${options.language}.`;
+  if (options.callToAction.trim()) {
+    prompt += `\n  End each script with this call to action, translated if needed: "${options.callToAction.trim()}"`;
+  }
+  if (options.speakers?.length) {
+    prompt += `\n  Write each script as a dialogue between ${options.speakers.join(', ')}. Put each turn on its own line, starting with the speaker's name and a colon, e.g. "${options.speakers[0]}: ...".`;
+  }
+  if (brand) {
+    const instructions = buildBrandScriptInstructions(brand);
+    if (instructions) {
+      prompt += `\n  ${instructions}`;
+    }
+  }
+
   const response = await ai.models.generateContent({
     model: 'gemini-2.5-flash',
     contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: SCRIPT_SCHEMA,
+    },
   });
 
-  return response.text.trim();
+  throwIfBlocked(response, `${productName}. ${productDescription}`, 'product name or description');
+  let scripts: string[];
+  try {
+    scripts = JSON.parse(response.text).scripts ?? [];
+  } catch (error) {
+    throw new GenerationError('empty', 'The script writer returned no usable scripts.', {
+      cause: error,
+    });
+  }
+  const alternatives = createScriptAlternatives(scripts, options);
+  if (alternatives.length === 0) {
+    throw new GenerationError('empty', 'The script writer returned no usable scripts.');
+  }
+  return alternatives;
+};
+
+/**
+ * Creates a product shot, or restyles a photo of the product.
+ * @param productName The product's name.
+ * @param productDescription What the product is.
+ * @param options The style, framing and optional photo to restyle.
+ * @param brand The brand whose palette and mood to follow, if any.
+ * @returns A promise that resolves with the image.
+ */
+export const generateProductImage = async (
+  productName: string,
+  productDescription: string,
+  options: ProductImageOptions,
+  brand?: BrandProfile,
+): Promise<ImageFile> => {
+  const ai = getClient();
+  const prompt = buildProductImagePrompt(
+    productName,
+    productDescription,
+    options,
+    brand ? buildBrandVideoDirectives(brand) : '',
+  );
+  const parts: Part[] = [{text: prompt}];
+  if (options.sourceImage) {
+    parts.unshift({
+      inlineData: {
+        mimeType: options.sourceImage.file.type,
+        data: options.sourceImage.base64,
+      },
+    });
+  }
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash-image',
+    contents: [{parts}],
+    config: {
+      responseModalities: [Modality.IMAGE],
+      imageConfig: {aspectRatio: options.aspectRatio},
+    },
+  });
+
+  const image = response.candidates?.[0]?.content?.parts?.find(
+    (part) => part.inlineData?.data,
+  )?.inlineData;
+  if (!image?.data) {
+    throwIfBlocked(response, `${productName}. ${productDescription}`, 'product name or description');
+    throw new GenerationError('empty', 'The image model returned no image.');
+  }
+  return createProductImageFile(image.data, image.mimeType ?? 'image/png', productName, options);
+};
+
+/**
+ * Translates a voiceover script for another market.
+ * @param script The script; may be a dialogue with speaker labels.
+ * @param language The language to translate into, e.g. "Spanish (Mexico)".
+ * @param targetSeconds How long the translation may take to say.
+ * @returns A promise that resolves with the translated script.
+ */
+export const translateScript = async (
+  script: string,
+  language: string,
+  targetSeconds: number,
+): Promise<string> => {
+  const ai = getClient();
+  const prompt = `Translate this video ad voiceover script into ${language}.
+  Adapt idioms and wordplay so they land with local audiences rather than translating word for word, but keep product and brand names unchanged.
+  It must take no more than ${targetSeconds} seconds to read aloud at a natural pace, so shorten it if needed.
+  If lines start with a speaker name and a colon, keep those names exactly as they are and translate only the rest of each line.
+  Reply with the translated script only.
+  Script:
+  ${script}`;
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+  });
+
+  throwIfBlocked(response, script, 'voiceover script');
+  const translated = response.text?.trim();
+  if (!translated) {
+    throw new GenerationError('empty', 'The translation came back empty.');
+  }
+  return translated;
+};
+
+/**
+ * Transcribes recorded speech.
+ * @param audio The recording.
+ * @returns A promise that resolves with the spoken words as plain text, or an
+ *     empty string if nothing was said.
+ */
+export const transcribeAudio = async (audio: Blob): Promise<string> => {
+  const ai = getClient();
+  const data = encode(new Uint8Array(await audio.arrayBuffer()));
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: [
+      {
+        parts: [
+          {inlineData: {mimeType: audio.type || 'audio/webm', data}},
+          {
+            text: 'Transcribe the speech in this recording. Reply with only the spoken words, punctuated, with no timestamps or speaker labels.',
+          },
+        ],
+      },
+    ],
+  });
+
+  throwIfBlocked(response, '', 'recording');
+  // A recording with no speech in it comes back without text.
+  return response.text?.trim() ?? '';
+};
+
+const PROMPT_ASSIST_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    enhancedPrompt: {type: Type.STRING},
+    issues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: {type: Type.STRING, enum: ['conflict', 'policy', 'aspect']},
+          title: {type: Type.STRING},
+          explanation: {type: Type.STRING},
+          original: {type: Type.STRING},
+          replacement: {type: Type.STRING},
+        },
+        required: ['kind', 'title', 'explanation', 'original', 'replacement'],
+      },
+    },
+  },
+  required: ['enhancedPrompt', 'issues'],
+};
+
+/**
+ * Asks the text model for a structured rewrite of a prompt and for the
+ * problems in it.
+ * @param prompt The current prompt; may be a short idea.
+ * @param context The product, aspect ratio and brand.
+ * @returns A promise that resolves with the rewrite followed by one
+ *   suggestion per issue.
+ */
+export const assistPrompt = async (
+  prompt: string,
+  context: PromptContext,
+): Promise<PromptSuggestion[]> => {
+  const ai = getClient();
+  let instructions = `You are helping write a prompt for an 8-second AI-generated video ad.
+  Product Name: "${context.productName}"
+  Product Description: "${context.productDescription}"
+  Aspect ratio: ${context.aspectRatio}
+  Current prompt: "${prompt}"
+  1. Rewrite the prompt as a structured cinematic prompt of at most 120 words with one line each for the subject, shot, lighting, camera move and audio cues. Keep every idea from the original.
+  2. List problems in the current prompt: instructions that conflict with each other ("conflict"), wording a video safety filter is likely to block ("policy"), and framing that does not suit the aspect ratio ("aspect"). For each, quote the exact original text and give a replacement, or an empty replacement to remove it.`;
+  if (context.brand) {
+    const directives = buildBrandVideoDirectives(context.brand);
+    if (directives) {
+      instructions += `\n  Follow these brand directives in the rewrite: ${directives}`;
+    }
+  }
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: instructions,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: PROMPT_ASSIST_SCHEMA,
+    },
+  });
+
+  throwIfBlocked(response, prompt, 'prompt');
+  let result: {
+    enhancedPrompt?: string;
+    issues?: {
+      kind: PromptSuggestionKind;
+      title: string;
+      explanation: string;
+      original: string;
+      replacement: string;
+    }[];
+  };
+  try {
+    result = JSON.parse(response.text);
+  } catch (error) {
+    throw new GenerationError('empty', 'The prompt assistant returned no usable suggestions.', {
+      cause: error,
+    });
+  }
+
+  const suggestions: PromptSuggestion[] = [];
+  const enhanced = result.enhancedPrompt?.trim();
+  if (enhanced && enhanced !== prompt.trim()) {
+    suggestions.push(
+      createSuggestion(
+        'enhance',
+        'Structured cinematic prompt',
+        'Adds shot, lighting, camera and audio direction so the result is less left to chance.',
+        prompt,
+        enhanced,
+      ),
+    );
+  }
+  for (const issue of result.issues ?? []) {
+    // Only keep issues that quote the prompt, so they can be applied as edits.
+    if (!issue.original || !prompt.includes(issue.original)) continue;
+    suggestions.push(
+      createSuggestion(
+        issue.kind,
+        issue.title,
+        issue.explanation,
+        issue.original,
+        issue.replacement,
+      ),
+    );
+  }
+  return suggestions;
+};
+
+/**
+ * The production provider, backed by the Gemini API.
+ */
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  requiresApiKey: true,
+  generateVideo,
+  resumeVideo,
+  generateSpeech,
+  generateDialogue,
+  generateScript,
+  generateProductImage,
+  translateScript,
+  transcribeAudio,
+  assistPrompt,
 };
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {AspectRatio, VoiceName} from '../types';
+import {importBrandProfiles} from './brandKitService';
+import {BUILT_IN_PRESETS, importPresets} from './presetService';
+import {parseImportList, readOneOf, readString, readStringList} from './importService';
+
+// A minimal in-memory localStorage for the services that save imports.
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createStorage());
+});
+
+describe('parseImportList', () => {
+  it('rejects text that is not JSON', () => {
+    expect(() => parseImportList('{oops', 'profiles')).toThrow('not valid JSON');
+  });
+
+  it('returns only the objects in the list', () => {
+    const json = JSON.stringify({profiles: [{name: 'A'}, null, 'B', [1], {name: 'C'}]});
+    expect(parseImportList(json, 'profiles')).toEqual([{name: 'A'}, {name: 'C'}]);
+  });
+
+  it('returns nothing when the list is missing or not a list', () => {
+    expect(parseImportList('[]', 'profiles')).toEqual([]);
+    expect(parseImportList('{"profiles": {"name": "A"}}', 'profiles')).toEqual([]);
+  });
+});
+
+describe('field readers', () => {
+  const record = {name: 'Acme', size: 3, tags: ['a', 2, 'b'], ratio: '9:16'};
+
+  it('narrows each field to its type', () => {
+    expect(readString(record, 'name')).toBe('Acme');
+    expect(readString(record, 'size')).toBeUndefined();
+    expect(readStringList(record, 'tags')).toEqual(['a', 'b']);
+    expect(readStringList(record, 'name')).toEqual([]);
+    expect(readOneOf(record, 'ratio', Object.values(AspectRatio))).toBe(AspectRatio.PORTRAIT);
+    expect(readOneOf(record, 'name', Object.values(AspectRatio))).toBeUndefined();
+  });
+});
+
+describe('importBrandProfiles', () => {
+  it('keeps valid fields and replaces invalid ones with defaults', () => {
+    const [profile] = importBrandProfiles(
+      JSON.stringify({
+        profiles: [
+          {
+            id: 'brand-1',
+            name: 'Acme',
+            palette: ['#fff', 7],
+            bannedWords: 'cheap',
+            defaultVoiceName: 'Nobody',
+            defaultAspectRatio: AspectRatio.LANDSCAPE,
+          },
+          {palette: ['#000']}, // No name
+        ],
+      }),
+    );
+    expect(profile).toMatchObject({
+      id: 'brand-1',
+      name: 'Acme',
+      palette: ['#fff'],
+      bannedWords: [],
+      toneOfVoice: '',
+      defaultVoiceName: VoiceName.ZEPHYR,
+      defaultAspectRatio: AspectRatio.LANDSCAPE,
+    });
+  });
+
+  it('fails when the file has no profiles', () => {
+    expect(() => importBrandProfiles('{"profiles": []}')).toThrow('No brand profiles');
+  });
+});
+
+describe('importPresets', () => {
+  it('needs a title and prompt, and drops values it does not know', () => {
+    const imported = importPresets(
+      JSON.stringify({
+        presets: [
+          {title: 'Launch', prompt: 'A reveal', tags: ['new', {}], model: 'veo-9', aspectRatio: '16:9'},
+          {title: 'No prompt'},
+        ],
+      }),
+    );
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({
+      title: 'Launch',
+      prompt: 'A reveal',
+      tags: ['new'],
+      model: undefined,
+      aspectRatio: AspectRatio.LANDSCAPE,
+    });
+  });
+
+  it('gives a copy of a built-in preset a new id', () => {
+    const builtIn = BUILT_IN_PRESETS[0];
+    const [preset] = importPresets(JSON.stringify({presets: [builtIn]}));
+    expect(preset.id).not.toBe(builtIn.id);
+  });
+});
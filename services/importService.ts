@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Shared parsing for the JSON files users import (brand kits, preset packs).
+// Everything read from a file is treated as unknown and narrowed field by
+// field, so a hand-edited or foreign file cannot put bad values in storage.
+
+export type ImportedRecord = Record<string, unknown>;
+
+/**
+ * Checks whether a parsed JSON value is a plain object.
+ * @param value The value.
+ * @returns True for objects that are not arrays or null.
+ */
+export const isRecord = (value: unknown): value is ImportedRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses an exported JSON document and returns the objects in one of its
+ * lists, e.g. `profiles` or `presets`. Entries that are not objects are
+ * skipped.
+ * @param json The JSON string.
+ * @param key The list to read.
+ * @returns The objects in the list, or an empty array if there is none.
+ */
+export const parseImportList = (json: string, key: string): ImportedRecord[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const list = isRecord(data) ? data[key] : undefined;
+  return Array.isArray(list) ? list.filter(isRecord) : [];
+};
+
+/**
+ * Reads a string field.
+ * @param record The imported object.
+ * @param key The field.
+ * @returns The string, or undefined if the field is missing or not a string.
+ */
+export const readString = (record: ImportedRecord, key: string): string | undefined => {
+  const value = record[key];
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Reads a list of strings, dropping anything that is not a string.
+ * @param record The imported object.
+ * @param key The field.
+ * @returns The strings, or an empty array if the field is not a list.
+ */
+export const readStringList = (record: ImportedRecord, key: string): string[] => {
+  const value = record[key];
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+};
+
+/**
+ * Reads a field that must be one of a set of values, e.g. an enum.
+ * @param record The imported object.
+ * @param key The field.
+ * @param values The allowed values.
+ * @returns The value, or undefined if it is not allowed.
+ */
+export const readOneOf = <T extends string>(
+  record: ImportedRecord,
+  key: string,
+  values: T[],
+): T | undefined => {
+  const value = record[key];
+  return values.find((allowed) => allowed === value);
+};
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GeneratedVideo, GenerateVideoParams, LibraryEntry} from '../types';
+import {audioBufferToStored} from '../utils';
+import {getActiveCampaignId} from './campaignService';
+import {dbDelete, dbGet, dbGetAll, dbPut} from './dbService';
+import {createPosterFrame} from './frameService';
+
+const LIBRARY_STORE = 'library';
+
+/**
+ * Builds and stores an entry, with a poster frame, filed under the active
+ * campaign.
+ * @param fields The entry's content.
+ * @returns A promise that resolves with the new entry, or null if saving failed.
+ */
+const addEntry = async (
+  fields: Omit<LibraryEntry, 'id' | 'createdAt' | 'poster' | 'campaignId'>,
+): Promise<LibraryEntry | null> => {
+  let poster: Blob | undefined;
+  try {
+    poster = await createPosterFrame(fields.videoBlob);
+  } catch (error) {
+    // The library falls back to the video itself.
+    console.warn('Could not create a poster frame', error);
+  }
+  const entry: LibraryEntry = {
+    ...fields,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    poster,
+    campaignId: getActiveCampaignId() ?? undefined,
+  };
+  try {
+    await dbPut(LIBRARY_STORE, entry);
+    return entry;
+  } catch (error) {
+    console.error('Error saving video to the library', error);
+    return null;
+  }
+};
+
+/**
+ * Saves a finished generation, including its video and voiceover, to the
+ * library, filed under the active campaign.
+ * @param params The params the video was generated with.
+ * @param result The generated video.
+ * @param voiceoverBuffer The voiceover that plays over the video, if any.
+ * @returns A promise that resolves with the new entry, or null if saving failed.
+ */
+export const saveToLibrary = (
+  params: GenerateVideoParams,
+  result: GeneratedVideo,
+  voiceoverBuffer: AudioBuffer | null,
+): Promise<LibraryEntry | null> =>
+  addEntry({
+    params,
+    videoBlob: result.blob,
+    video: result.video,
+    voiceover: voiceoverBuffer ? audioBufferToStored(voiceoverBuffer) : undefined,
+  });
+
+/**
+ * Saves a video cut together in the clip editor. It has no Veo video
+ * reference, so it cannot be extended.
+ * @param params The params of the first clip, used for its name and filtering.
+ * @param videoBlob The rendered video.
+ * @param sourceIds The library entries it was cut from, in order.
+ * @returns A promise that resolves with the new entry, or null if saving failed.
+ */
+export const saveEditToLibrary = (
+  params: GenerateVideoParams,
+  videoBlob: Blob,
+  sourceIds: string[],
+): Promise<LibraryEntry | null> => addEntry({params, videoBlob, sourceIds});
+
+/**
+ * Retrieves every saved video.
+ * @returns The library entries, newest first.
+ */
+export const getLibraryEntries = async (): Promise<LibraryEntry[]> => {
+  try {
+    const entries = await dbGetAll<LibraryEntry>(LIBRARY_STORE);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('Error reading the library from IndexedDB', error);
+    return [];
+  }
+};
+
+/**
+ * Filters entries by a free-text query over their prompt, product and script.
+ * @param entries The entries to search.
+ * @param query The text to look for; every word must match.
+ * @returns The matching entries, in their original order.
+ */
+export const searchLibrary = (
+  entries: LibraryEntry[],
+  query: string,
+): LibraryEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return entries;
+  }
+  return entries.filter((entry) => {
+    const {prompt, productName, productDescription, voiceoverScript} =
+      entry.params;
+    const haystack = [prompt, productName, productDescription, voiceoverScript]
+      .join(' ')
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
+
+/**
+ * Narrows entries to one campaign.
+ * @param entries The entries to filter.
+ * @param campaignId A campaign id, 'none' for entries in no campaign, or
+ *   'all' to keep every entry.
+ * @returns The matching entries, in their original order.
+ */
+export const filterByCampaign = (
+  entries: LibraryEntry[],
+  campaignId: string,
+): LibraryEntry[] => {
+  if (campaignId === 'all') return entries;
+  if (campaignId === 'none') return entries.filter((entry) => !entry.campaignId);
+  return entries.filter((entry) => entry.campaignId === campaignId);
+};
+
+/**
+ * Moves an entry to another campaign.
+ * @param id The entry to move.
+ * @param campaignId The campaign to file it under, or undefined for none.
+ */
+export const setEntryCampaign = async (id: string, campaignId: string | undefined) => {
+  try {
+    const entry = await dbGet<LibraryEntry>(LIBRARY_STORE, id);
+    if (entry) {
+      await dbPut(LIBRARY_STORE, {...entry, campaignId});
+    }
+  } catch (error) {
+    console.error('Error moving library entry', error);
+  }
+};
+
+/**
+ * Creates and saves a poster frame for an entry saved without one.
+ * @param entry The entry.
+ * @returns A promise that resolves with the updated entry, or null on failure.
+ */
+export const addEntryPoster = async (entry: LibraryEntry): Promise<LibraryEntry | null> => {
+  try {
+    const updated = {...entry, poster: await createPosterFrame(entry.videoBlob)};
+    await dbPut(LIBRARY_STORE, updated);
+    return updated;
+  } catch (error) {
+    console.error('Error adding a poster frame to a library entry', error);
+    return null;
+  }
+};
+
+/**
+ * Takes every entry out of a campaign, e.g. after the campaign is deleted.
+ * @param campaignId The campaign to empty.
+ */
+export const clearCampaignFromLibrary = async (campaignId: string) => {
+  const entries = filterByCampaign(await getLibraryEntries(), campaignId);
+  for (const entry of entries) {
+    await setEntryCampaign(entry.id, undefined);
+  }
+};
+
+/**
+ * Permanently removes a video from the library.
+ * @param id The entry to delete.
+ */
+export const deleteLibraryEntry = async (id: string) => {
+  try {
+    await dbDelete(LIBRARY_STORE, id);
+  } catch (error) {
+    console.error('Error deleting library entry', error);
+  }
+};
+
+/**
+ * Reports how much browser storage the app uses and how much it may use.
+ * @returns Usage and quota in bytes, or null if the browser cannot tell.
+ */
+export const getStorageEstimate = async (): Promise<{
+  usage: number;
+  quota: number;
+} | null> => {
+  if (!navigator.storage?.estimate) {
+    return null;
+  }
+  const {usage = 0, quota = 0} = await navigator.storage.estimate();
+  return {usage, quota};
+};
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GenerateVideoParams,
+  GenerationProvider,
+  LocalizedAd,
+  VoiceName,
+} from '../types';
+import {audioBufferToStored, createZip, slugify, storedAudioToWav} from '../utils';
+import {buildCaptionCues, toVtt} from './captionService';
+import {getSpokenText} from './dialogueService';
+import {getVideoExtension, renderVideoWithAudio} from './renderService';
+import {estimateSpokenSeconds} from './scriptService';
+
+// A finished ad is localized by translating its voiceover script, speaking
+// the translation and muxing it over the same picture. The video itself is
+// never regenerated, so every locale costs one translation and one TTS call.
+
+const MANIFEST_VERSION = 1;
+
+// The markets we localize for. All voices speak every language; the defaults
+// just give each market a distinct, well-suited voice.
+export const LOCALES: {code: string; language: string; voiceName: VoiceName}[] = [
+  {code: 'es-ES', language: 'Spanish (Spain)', voiceName: VoiceName.KORE},
+  {code: 'es-MX', language: 'Spanish (Mexico)', voiceName: VoiceName.PUCK},
+  {code: 'fr-FR', language: 'French', voiceName: VoiceName.CHARON},
+  {code: 'de-DE', language: 'German', voiceName: VoiceName.FENRIR},
+  {code: 'it-IT', language: 'Italian', voiceName: VoiceName.ZEPHYR},
+  {code: 'pt-BR', language: 'Portuguese (Brazil)', voiceName: VoiceName.PUCK},
+  {code: 'nl-NL', language: 'Dutch', voiceName: VoiceName.KORE},
+  {code: 'ja-JP', language: 'Japanese', voiceName: VoiceName.ZEPHYR},
+  {code: 'ko-KR', language: 'Korean', voiceName: VoiceName.KORE},
+  {code: 'zh-CN', language: 'Chinese (Simplified)', voiceName: VoiceName.CHARON},
+  {code: 'hi-IN', language: 'Hindi', voiceName: VoiceName.PUCK},
+];
+
+/**
+ * Creates queued localizations for the selected locales.
+ * @param codes The locale codes, in the order to run them.
+ * @returns One queued entry per known locale.
+ */
+export const createLocalizedAds = (codes: string[]): LocalizedAd[] =>
+  codes.flatMap((code) => {
+    const locale = LOCALES.find((l) => l.code === code);
+    return locale
+      ? [{locale: code, language: locale.language, voiceName: locale.voiceName, status: 'queued'}]
+      : [];
+  });
+
+/**
+ * Finds the script to translate: the TTS script, or a transcript of the
+ * recorded voiceover.
+ * @param provider The backend used to transcribe.
+ * @param params The params the ad was generated with.
+ * @returns A promise that resolves with the script, or null if the ad has no voiceover.
+ */
+export const getSourceScript = async (
+  provider: GenerationProvider,
+  params: GenerateVideoParams,
+): Promise<string | null> => {
+  if (params.voiceoverMode === 'tts' && params.voiceoverScript?.trim()) {
+    return params.voiceoverScript.trim();
+  }
+  if (params.voiceoverMode === 'record' && params.recordedAudioBlob) {
+    return (await provider.transcribeAudio(params.recordedAudioBlob)).trim() || null;
+  }
+  return null;
+};
+
+/**
+ * Translates and voices one locale.
+ * @param provider The backend to translate and speak with.
+ * @param params The params the ad was generated with.
+ * @param sourceScript The script to translate.
+ * @param ad The locale to produce.
+ * @param onTask Reports the current step.
+ * @returns A promise that resolves with the finished locale.
+ */
+export const localizeAd = async (
+  provider: GenerationProvider,
+  params: GenerateVideoParams,
+  sourceScript: string,
+  ad: LocalizedAd,
+  onTask?: (task: string) => void,
+): Promise<LocalizedAd> => {
+  const isDialogue = params.voiceoverMode === 'tts' && !!params.speakers?.length;
+  // Give the translation the same room as the original, with a little slack
+  // because most languages run longer than English.
+  const sourceSeconds = estimateSpokenSeconds(isDialogue ? getSpokenText(sourceScript) : sourceScript);
+  const targetSeconds = Math.max(3, Math.ceil(sourceSeconds * 1.1));
+
+  onTask?.('Translating...');
+  const script = await provider.translateScript(sourceScript, ad.language, targetSeconds);
+  onTask?.('Recording voiceover...');
+  const voiceoverBuffer = isDialogue
+    ? await provider.generateDialogue(script, params.speakers!)
+    : await provider.generateSpeech(script, ad.voiceName);
+  return {
+    ...ad,
+    status: 'done',
+    task: undefined,
+    error: undefined,
+    script,
+    captionText: isDialogue ? getSpokenText(script) : script,
+    voiceoverBuffer,
+  };
+};
+
+/**
+ * Builds a zip with, for every finished locale, the video with its voiceover
+ * muxed in, a WebVTT caption file, the script and the voiceover on its own.
+ * @param videoUrl The finished ad.
+ * @param productName Used to name the files.
+ * @param ads The localizations; unfinished ones are skipped.
+ * @param options Cancellation and progress, from 0 to 1 over all locales.
+ * @returns A promise that resolves with the zip archive.
+ */
+export const buildLocalizationArchive = async (
+  videoUrl: string,
+  productName: string,
+  ads: LocalizedAd[],
+  {signal, onProgress}: {signal?: AbortSignal; onProgress?: (fraction: number) => void} = {},
+): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const files: {path: string; data: Uint8Array}[] = [];
+  const finished = ads.filter((ad) => ad.status === 'done' && ad.voiceoverBuffer);
+
+  // Rendering runs in real time, so do the locales one after another.
+  for (const [index, ad] of finished.entries()) {
+    const buffer = ad.voiceoverBuffer!;
+    const video = await renderVideoWithAudio({
+      videoUrl,
+      voiceover: buffer,
+      signal,
+      onProgress: (fraction) => onProgress?.((index + fraction) / finished.length),
+    });
+    const cues = buildCaptionCues(ad.captionText ?? '', buffer, 'phrase');
+    files.push(
+      {
+        path: `${ad.locale}/video.${getVideoExtension(video.type)}`,
+        data: new Uint8Array(await video.arrayBuffer()),
+      },
+      {path: `${ad.locale}/captions.vtt`, data: encoder.encode(toVtt(cues))},
+      {path: `${ad.locale}/script.txt`, data: encoder.encode(ad.script ?? '')},
+      {path: `${ad.locale}/voiceover.wav`, data: storedAudioToWav(audioBufferToStored(buffer))},
+    );
+  }
+
+  const manifest = {
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    productName,
+    locales: finished.map((ad) => ({
+      locale: ad.locale,
+      language: ad.language,
+      voiceName: ad.voiceName,
+      voiceoverSeconds: Math.round(ad.voiceoverBuffer!.duration * 10) / 10,
+    })),
+  };
+  files.push({path: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2))});
+  onProgress?.(1);
+  return createZip(files);
+};
+
+/**
+ * Builds a file name for a localization bundle.
+ * @param productName The product the ad is for.
+ * @returns e.g. "adspark-glow-serum-localized.zip"
+ */
+export const getLocalizationArchiveName = (productName: string): string =>
+  `adspark-${slugify(productName) || 'ad'}-localized.zip`;
@@ -0,0 +1,492 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '@google/genai';
+import {
+  AspectRatio,
+  BrandProfile,
+  DialogueSpeaker,
+  GeneratedVideo,
+  GenerateVideoParams,
+  GenerationOptions,
+  GenerationProvider,
+  ImageFile,
+  ProductImageOptions,
+  PromptContext,
+  PromptSuggestion,
+  ScriptAlternative,
+  ScriptOptions,
+  ScriptTone,
+  VoiceName,
+} from '../types';
+import {createAudioContext, decodeAudioData, withWebmDuration} from '../utils';
+import {renderDialogueByLine} from './dialogueService';
+import {GenerationError} from './errorService';
+import {validateGenerationParams} from './modelConstraints';
+import {pollUntilDone} from './operationService';
+import {PRODUCT_IMAGE_STYLES, createProductImageFile} from './productImageService';
+import {createSuggestion} from './promptAssistService';
+import {
+  SCRIPT_ALTERNATIVE_COUNT,
+  createScriptAlternatives,
+  getWordBudget,
+} from './scriptService';
+
+// A deterministic, offline stand-in for the Gemini API. Every asset is derived
+// from a hash of its inputs, so the same params always yield the same clip,
+// voiceover and script. Nothing touches the network or spends quota.
+
+const MOCK_CLIP_SECONDS = 4;
+const MOCK_FPS = 24;
+const MOCK_LABEL_LENGTH = 48; // Characters of the prompt drawn onto a clip
+const MOCK_SAMPLE_RATE = 24000;
+// Simulated job length, in status checks, and the delay between checks.
+const MOCK_OPERATION_POLLS = 3;
+const MOCK_POLL_DELAY_MS = 500;
+
+// Same decoding context setup as the real TTS path.
+const outputAudioContext = createAudioContext({sampleRate: MOCK_SAMPLE_RATE});
+
+const cannedScripts = [
+  'Meet {name}. Your day just got an upgrade.',
+  '{name}: because ordinary is overrated. Grab yours today!',
+  'Stop scrolling. Start living. {name} is here.',
+  'One try of {name} and there is no going back.',
+  '{name}. Small change, big difference. Get it now!',
+];
+
+/**
+ * Produces a stable 32-bit hash (FNV-1a) for a string.
+ * @param value The string to hash.
+ * @returns An unsigned 32-bit integer.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Renders a short sample clip on a canvas and records it with MediaRecorder.
+ * The colors and motion are seeded so identical inputs give identical clips.
+ * The recording is given its duration, which MediaRecorder leaves out.
+ * @param seed The deterministic seed for the clip's look.
+ * @param label Text drawn onto the clip, usually the prompt.
+ * @param aspectRatio The aspect ratio to render.
+ * @param signal An optional signal that stops the recording.
+ * @returns A promise that resolves with the recorded video blob.
+ */
+const renderSampleClip = (
+  seed: number,
+  label: string,
+  aspectRatio: AspectRatio,
+  signal?: AbortSignal,
+): Promise<Blob> => {
+  const isPortrait = aspectRatio === AspectRatio.PORTRAIT;
+  const canvas = document.createElement('canvas');
+  canvas.width = isPortrait ? 360 : 640;
+  canvas.height = isPortrait ? 640 : 360;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return Promise.reject(new Error('Canvas is not supported in this browser.'));
+  }
+
+  const hue = seed % 360;
+  const totalFrames = MOCK_CLIP_SECONDS * MOCK_FPS;
+  const drawFrame = (frame: number) => {
+    const t = frame / totalFrames;
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, `hsl(${hue}, 70%, 35%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60 + t * 60) % 360}, 70%, 20%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const radius = Math.min(canvas.width, canvas.height) * 0.15;
+    const x = radius + (canvas.width - radius * 2) * t;
+    const y = canvas.height / 2 + Math.sin(t * Math.PI * 4) * radius;
+    ctx.fillStyle = `hsl(${(hue + 180) % 360}, 80%, 60%)`;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = 'white';
+    ctx.font = 'bold 16px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('MOCK CLIP', canvas.width / 2, 28);
+    ctx.font = '12px sans-serif';
+    ctx.fillText(label.slice(0, MOCK_LABEL_LENGTH), canvas.width / 2, canvas.height - 16);
+  };
+
+  return new Promise((resolve, reject) => {
+    const stream = canvas.captureStream(MOCK_FPS);
+    // Safari can only record MP4, everything else prefers WebM.
+    const mimeType =
+      ['video/webm', 'video/mp4'].find((type) =>
+        MediaRecorder.isTypeSupported(type),
+      ) ?? '';
+    const recorder = new MediaRecorder(stream, mimeType ? {mimeType} : {});
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onerror = () => reject(new Error('Mock clip recording failed.'));
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      if (signal?.aborted) {
+        reject(new DOMException('Generation was cancelled.', 'AbortError'));
+        return;
+      }
+      withWebmDuration(
+        new Blob(chunks, {type: recorder.mimeType || 'video/webm'}),
+        MOCK_CLIP_SECONDS,
+      ).then(resolve, reject);
+    };
+
+    let frame = 0;
+    drawFrame(frame);
+    recorder.start();
+    const intervalId = setInterval(() => {
+      frame++;
+      if (signal?.aborted) {
+        clearInterval(intervalId);
+        recorder.stop();
+        return;
+      }
+      if (frame >= totalFrames) {
+        clearInterval(intervalId);
+        recorder.stop();
+        return;
+      }
+      drawFrame(frame);
+    }, 1000 / MOCK_FPS);
+  });
+};
+
+/**
+ * Synthesizes 16-bit PCM "speech": one short tone per word, pitched by voice.
+ * The output matches the TTS model's format (24kHz mono PCM).
+ * @param script The text to "speak".
+ * @param voiceName The voice, used to pick the base pitch.
+ * @returns The raw PCM bytes.
+ */
+const synthesizePcm = (script: string, voiceName: VoiceName): Uint8Array => {
+  const words = script.split(/\s+/).filter(Boolean);
+  const wordSamples = Math.floor(MOCK_SAMPLE_RATE * 0.28);
+  const gapSamples = Math.floor(MOCK_SAMPLE_RATE * 0.07);
+  const samples = new Int16Array(
+    Math.max(1, words.length) * (wordSamples + gapSamples),
+  );
+  const basePitch = 140 + (hashString(voiceName) % 120);
+
+  words.forEach((word, index) => {
+    const pitch = basePitch + (hashString(word) % 80);
+    const offset = index * (wordSamples + gapSamples);
+    for (let i = 0; i < wordSamples; i++) {
+      // A short attack/release envelope avoids clicks between words.
+      const envelope = Math.min(1, i / 240, (wordSamples - i) / 240);
+      const value =
+        Math.sin((2 * Math.PI * pitch * i) / MOCK_SAMPLE_RATE) * envelope * 0.3;
+      samples[offset + i] = Math.round(value * 32767);
+    }
+  });
+  return new Uint8Array(samples.buffer);
+};
+
+/**
+ * Simulates polling a long-running job, then renders its clip. The operation
+ * name encodes everything needed to render the clip, including its label, so
+ * a resumed job gives the same clip as the original.
+ * @param operationName A name created by `generateVideo`.
+ * @param options Cancellation and polling options.
+ * @returns A promise that resolves with the rendered video.
+ */
+const completeMockOperation = async (
+  operationName: string,
+  options: GenerationOptions,
+): Promise<GeneratedVideo> => {
+  const [, seedHex, aspectRatio, label = ''] = operationName.match(
+    /^mock\/operations\/([0-9a-f]+)-([^/]+)(?:\/(.*))?$/,
+  ) ?? [];
+  if (!seedHex) {
+    throw new Error(`Unknown mock operation: ${operationName}`);
+  }
+
+  let polls = 0;
+  await pollUntilDone(
+    {done: false},
+    async () => ({done: ++polls >= MOCK_OPERATION_POLLS}),
+    {initialDelayMs: MOCK_POLL_DELAY_MS, backoffFactor: 1, ...options.poll},
+    options.signal,
+  );
+
+  const blob = await renderSampleClip(
+    parseInt(seedHex, 16),
+    decodeURIComponent(label),
+    aspectRatio as AspectRatio,
+    options.signal,
+  );
+  const uri = `mock://videos/${seedHex}`;
+  const video: Video = {uri, mimeType: blob.type};
+  return {objectUrl: URL.createObjectURL(blob), blob, uri, video};
+};
+
+export const generateVideo = async (
+  params: GenerateVideoParams,
+  options: GenerationOptions = {},
+): Promise<GeneratedVideo> => {
+  console.log('[mock] Generating video with params:', params);
+  // Reject what the real API would reject so offline runs surface the same errors.
+  const issues = validateGenerationParams(params);
+  if (issues.length > 0) {
+    throw new GenerationError('invalid', issues.join(' '));
+  }
+  const seedSource = [
+    params.prompt,
+    params.productName,
+    params.aspectRatio,
+    params.inputVideoObject?.uri ?? '',
+    params.startFrame?.file.name ?? '',
+    params.endFrame?.file.name ?? '',
+  ].join('|');
+  const seed = hashString(seedSource);
+
+  const label = encodeURIComponent(params.prompt.slice(0, MOCK_LABEL_LENGTH));
+  const operationName = `mock/operations/${seed.toString(16)}-${params.aspectRatio}/${label}`;
+  options.onOperationStarted?.(operationName);
+  return completeMockOperation(operationName, options);
+};
+
+export const resumeVideo = async (
+  operationName: string,
+  options: GenerationOptions = {},
+): Promise<GeneratedVideo> => {
+  console.log('[mock] Resuming operation:', operationName);
+  return completeMockOperation(operationName, options);
+};
+
+export const generateSpeech = async (
+  script: string,
+  voiceName: VoiceName,
+): Promise<AudioBuffer> => {
+  const pcm = synthesizePcm(script, voiceName);
+  return decodeAudioData(pcm, outputAudioContext, MOCK_SAMPLE_RATE, 1);
+};
+
+export const generateDialogue = async (
+  script: string,
+  speakers: DialogueSpeaker[],
+): Promise<AudioBuffer> => renderDialogueByLine(script, speakers, generateSpeech);
+
+const mockToneEndings: Record<ScriptTone, string> = {
+  neutral: '',
+  humorous: 'Your couch will be jealous.',
+  premium: 'Crafted for those who notice.',
+  urgent: 'Only while stocks last!',
+};
+
+/**
+ * Cuts a script down to a word budget, ending on a full stop.
+ * @param script The script.
+ * @param maxWords The most words to keep.
+ * @returns The script, shortened if needed.
+ */
+const fitToWordBudget = (script: string, maxWords: number): string => {
+  const words = script.split(/\s+/).filter(Boolean);
+  if (words.length <= maxWords) return script;
+  return `${words.slice(0, maxWords).join(' ').replace(/[,;:!?.]*$/, '')}.`;
+};
+
+// Always writes English; the language option only matters to the real model.
+export const generateScript = async (
+  productName: string,
+  productDescription: string,
+  options: ScriptOptions,
+  brand?: BrandProfile,
+): Promise<ScriptAlternative[]> => {
+  // Skip canned scripts that would break the brand's banned-word rules.
+  const banned = brand?.bannedWords.map((word) => word.toLowerCase()) ?? [];
+  const allowed = cannedScripts.filter(
+    (script) => !banned.some((word) => word && script.toLowerCase().includes(word)),
+  );
+  const candidates = allowed.length > 0 ? allowed : cannedScripts;
+  const first = hashString(productName + productDescription);
+  const maxWords = getWordBudget(options.targetSeconds);
+
+  const scripts = Array.from(
+    {length: Math.min(SCRIPT_ALTERNATIVE_COUNT, candidates.length)},
+    (_, index) => {
+      const template = candidates[(first + index) % candidates.length];
+      const ending = [mockToneEndings[options.tone], options.callToAction.trim()]
+        .filter(Boolean)
+        .join(' ');
+      const body = fitToWordBudget(
+        template.replace('{name}', productName),
+        maxWords - ending.split(/\s+/).filter(Boolean).length,
+      );
+      const script = `${body} ${ending}`.trim();
+      if (!options.speakers?.length) return script;
+      // Hand the sentences to the speakers in turn.
+      const sentences = script.match(/[^.!?]+[.!?]*/g) ?? [script];
+      return sentences
+        .map((sentence, i) => `${options.speakers![i % options.speakers!.length]}: ${sentence.trim()}`)
+        .join('\n');
+    },
+  );
+  return createScriptAlternatives(scripts, options);
+};
+
+/**
+ * "Translates" by tagging each line with the language, keeping any speaker
+ * labels, so the output is recognizably different per locale.
+ * @param script The script.
+ * @param language The language to translate into.
+ * @returns A promise that resolves with the tagged script.
+ */
+export const translateScript = async (
+  script: string,
+  language: string,
+): Promise<string> => {
+  await new Promise((resolve) => setTimeout(resolve, MOCK_POLL_DELAY_MS));
+  const tag = `[${language}]`;
+  return script
+    .split('\n')
+    .map((line) => {
+      if (!line.trim()) return line;
+      const match = line.match(/^(\s*[^:\n]{1,30}?\s*:\s*)(.*)$/);
+      return match ? `${match[1]}${tag} ${match[2]}` : `${tag} ${line.trim()}`;
+    })
+    .join('\n');
+};
+
+/**
+ * Draws a placeholder product shot after a short delay. A source photo, if
+ * given, is drawn in the middle, as if restyled.
+ * @param productName Drawn onto the image.
+ * @param productDescription Seeds the colors, with the style and variation.
+ * @param options The style, framing and optional photo to restyle.
+ * @returns A promise that resolves with the image.
+ */
+export const generateProductImage = async (
+  productName: string,
+  productDescription: string,
+  options: ProductImageOptions,
+): Promise<ImageFile> => {
+  await new Promise((resolve) => setTimeout(resolve, MOCK_POLL_DELAY_MS));
+  const isPortrait = options.aspectRatio === AspectRatio.PORTRAIT;
+  const canvas = document.createElement('canvas');
+  canvas.width = isPortrait ? 576 : 1024;
+  canvas.height = isPortrait ? 1024 : 576;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not supported in this browser.');
+  }
+
+  const hue =
+    hashString([productName, productDescription, options.style, options.variation].join('|')) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+  gradient.addColorStop(0, options.style === 'cutout' ? '#ffffff' : `hsl(${hue}, 40%, 75%)`);
+  gradient.addColorStop(1, options.style === 'cutout' ? '#f2f2f2' : `hsl(${hue}, 40%, 45%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const size = Math.min(canvas.width, canvas.height) * 0.45;
+  const x = (canvas.width - size) / 2;
+  const y = (canvas.height - size) / 2;
+  if (options.sourceImage) {
+    const image = new Image();
+    image.src = `data:${options.sourceImage.file.type};base64,${options.sourceImage.base64}`;
+    await image.decode();
+    ctx.drawImage(image, x, y, size, size);
+  } else {
+    ctx.fillStyle = `hsl(${(hue + 180) % 360}, 70%, 50%)`;
+    ctx.fillRect(x, y, size, size);
+  }
+
+  const style = PRODUCT_IMAGE_STYLES.find((s) => s.value === options.style);
+  ctx.fillStyle = options.style === 'cutout' ? '#333333' : 'white';
+  ctx.textAlign = 'center';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.fillText(productName.slice(0, 32) || 'MOCK PRODUCT', canvas.width / 2, y - 24);
+  ctx.font = '18px sans-serif';
+  ctx.fillText(`MOCK ${style?.label ?? options.style} #${options.variation + 1}`, canvas.width / 2, y + size + 40);
+
+  const base64 = canvas.toDataURL('image/png').split(',')[1];
+  return createProductImageFile(base64, 'image/png', productName, options);
+};
+
+/**
+ * Returns a canned transcript after a short delay.
+ * @param audio The recording; its size picks the transcript.
+ * @returns A promise that resolves with the transcript.
+ */
+export const transcribeAudio = async (audio: Blob): Promise<string> => {
+  await new Promise((resolve) => setTimeout(resolve, MOCK_POLL_DELAY_MS));
+  const template = cannedScripts[audio.size % cannedScripts.length];
+  return template.replace('{name}', 'this product');
+};
+
+const mockShots = [
+  'Slow push-in on the product on a clean tabletop',
+  'Low-angle hero shot of the product against the sky',
+  'Overhead flat lay of the product with a few props',
+];
+const mockLighting = [
+  'soft window light with gentle shadows',
+  'warm golden-hour backlight',
+  'crisp studio key light with a subtle rim',
+];
+
+/**
+ * Expands the prompt with a fixed cinematic template. Local checks for
+ * conflicts and policy triggers are left to the prompt assist panel.
+ * @param prompt The current prompt.
+ * @param context The product and format; the aspect ratio picks the framing.
+ * @returns A promise that resolves with a single rewrite suggestion.
+ */
+export const assistPrompt = async (
+  prompt: string,
+  context: PromptContext,
+): Promise<PromptSuggestion[]> => {
+  await new Promise((resolve) => setTimeout(resolve, MOCK_POLL_DELAY_MS));
+  const idea = prompt.trim() || `An ad for ${context.productName || 'the product'}`;
+  const hash = hashString(idea);
+  const framing =
+    context.aspectRatio === AspectRatio.PORTRAIT
+      ? 'framed for a vertical 9:16 screen'
+      : 'framed for a widescreen 16:9 screen';
+  const enhanced = [
+    `${idea.replace(/[.!?]*$/, '.')}`,
+    `Shot: ${mockShots[hash % mockShots.length]}, ${framing}.`,
+    `Lighting: ${mockLighting[hash % mockLighting.length]}.`,
+    'Camera: smooth, steady movement ending on a clear view of the product.',
+    'Audio: upbeat instrumental music with a soft whoosh on the final reveal.',
+  ].join('\n');
+  return [
+    createSuggestion(
+      'enhance',
+      'Structured cinematic prompt',
+      'Adds shot, lighting, camera and audio direction so the result is less left to chance.',
+      prompt,
+      enhanced,
+    ),
+  ];
+};
+
+/**
+ * The offline provider. Select it with `?provider=mock` or `AD_PROVIDER=mock`.
+ */
+export const mockProvider: GenerationProvider = {
+  id: 'mock',
+  requiresApiKey: false,
+  generateVideo,
+  resumeVideo,
+  generateSpeech,
+  generateDialogue,
+  generateScript,
+  generateProductImage,
+  translateScript,
+  transcribeAudio,
+  assistPrompt,
+};
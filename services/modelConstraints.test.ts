@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  ImageFile,
+  Resolution,
+  VideoModel,
+} from '../types';
+import {applyReferenceImageRequirements, validateGenerationParams} from './modelConstraints';
+
+const image = (type = 'image/png', referenceType?: ImageFile['referenceType']): ImageFile =>
+  ({file: {type}, base64: '', referenceType}) as ImageFile;
+
+const base = {
+  prompt: 'A serum bottle',
+  model: VideoModel.VEO_HIGH,
+  aspectRatio: AspectRatio.LANDSCAPE,
+  resolution: Resolution.P1080,
+} as GenerateVideoParams;
+
+describe('validateGenerationParams', () => {
+  it('accepts a plain generation', () => {
+    expect(validateGenerationParams(base)).toEqual([]);
+  });
+
+  it('limits what an extension can use', () => {
+    expect(
+      validateGenerationParams({
+        ...base,
+        inputVideoObject: {},
+        referenceImages: [image()],
+        startFrame: image(),
+      }),
+    ).toEqual([
+      'Reference images cannot be used when extending a video.',
+      'Start and end frames cannot be used when extending a video.',
+      'Extending a video is only supported at 720p.',
+    ]);
+  });
+
+  it('checks start and end frames', () => {
+    expect(validateGenerationParams({...base, endFrame: image('image/webp')})).toEqual([
+      'An end frame needs a start frame.',
+      'Start and end frames must be PNG or JPEG images.',
+    ]);
+    expect(
+      validateGenerationParams({...base, startFrame: image(), referenceImages: [image()]}),
+    ).toContain('Start and end frames cannot be combined with reference images.');
+  });
+
+  it('checks reference images against the model limits', () => {
+    expect(
+      validateGenerationParams({
+        ...base,
+        model: VideoModel.VEO_FAST,
+        aspectRatio: AspectRatio.PORTRAIT,
+        referenceImages: [image(), image(), image(), image(), image('image/png', 'style')],
+      }),
+    ).toEqual([
+      'Use at most 3 asset images (you have 4).',
+      'Asset and style images cannot be combined in one generation.',
+      'Reference images require the High Quality model.',
+      'Reference images are only supported at 16:9 (Landscape).',
+    ]);
+    expect(
+      validateGenerationParams({
+        ...base,
+        referenceImages: [image('image/png', 'style'), image('image/png', 'style')],
+      }),
+    ).toEqual(['Use at most 1 style image (you have 2).']);
+  });
+});
+
+describe('applyReferenceImageRequirements', () => {
+  it('switches the model and aspect ratio for reference images', () => {
+    const {params, changes} = applyReferenceImageRequirements({
+      ...base,
+      model: VideoModel.VEO_FAST,
+      aspectRatio: AspectRatio.PORTRAIT,
+      referenceImages: [image()],
+    });
+    expect(params).toMatchObject({model: VideoModel.VEO_HIGH, aspectRatio: AspectRatio.LANDSCAPE});
+    expect(changes).toEqual(['switched to the High Quality model', 'switched to 16:9']);
+  });
+
+  it('leaves params without reference images alone', () => {
+    const params = {...base, model: VideoModel.VEO_FAST};
+    expect(applyReferenceImageRequirements(params)).toEqual({params, changes: []});
+  });
+});
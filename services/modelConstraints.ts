@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  ImageFile,
+  ReferenceImageType,
+  Resolution,
+  VideoModel,
+} from '../types';
+
+// Limits the video model places on reference images.
+export const MAX_ASSET_IMAGES = 3;
+export const MAX_STYLE_IMAGES = 1;
+export const REFERENCE_IMAGE_MODEL = VideoModel.VEO_HIGH;
+export const REFERENCE_IMAGE_ASPECT_RATIO = AspectRatio.LANDSCAPE;
+// Image formats the model accepts as a start or end frame.
+export const FRAME_IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+/**
+ * Reads an image's reference type, defaulting older entries to 'asset'.
+ * @param image The reference image.
+ * @returns The image's reference type.
+ */
+export const getReferenceType = (image: ImageFile): ReferenceImageType =>
+  image.referenceType ?? 'asset';
+
+/**
+ * Checks the start and end frames of a frame-conditioned generation.
+ * @param params The params to check.
+ * @returns A list of problems, empty if the frames can be submitted.
+ */
+const validateFrames = (params: GenerateVideoParams): string[] => {
+  const issues: string[] = [];
+  if (params.endFrame && !params.startFrame) {
+    issues.push('An end frame needs a start frame.');
+  }
+  if (params.referenceImages?.length) {
+    issues.push('Start and end frames cannot be combined with reference images.');
+  }
+  const frames = [params.startFrame, params.endFrame].filter(Boolean);
+  if (frames.some((frame) => !FRAME_IMAGE_TYPES.includes(frame.file.type))) {
+    issues.push('Start and end frames must be PNG or JPEG images.');
+  }
+  return issues;
+};
+
+/**
+ * Checks generation params against the model's limits.
+ * @param params The params to check.
+ * @returns A list of problems, empty if the params can be submitted.
+ */
+export const validateGenerationParams = (
+  params: GenerateVideoParams,
+): string[] => {
+  const issues: string[] = [];
+  const images = params.referenceImages ?? [];
+  const hasFrames = !!(params.startFrame || params.endFrame);
+
+  if (params.inputVideoObject) {
+    if (images.length > 0) {
+      issues.push('Reference images cannot be used when extending a video.');
+    }
+    if (hasFrames) {
+      issues.push('Start and end frames cannot be used when extending a video.');
+    }
+    if (params.resolution !== Resolution.P720) {
+      issues.push('Extending a video is only supported at 720p.');
+    }
+    return issues;
+  }
+
+  if (hasFrames) {
+    issues.push(...validateFrames(params));
+  }
+  if (images.length === 0) {
+    return issues;
+  }
+
+  const assetCount = images.filter((img) => getReferenceType(img) === 'asset').length;
+  const styleCount = images.length - assetCount;
+  if (assetCount > MAX_ASSET_IMAGES) {
+    issues.push(`Use at most ${MAX_ASSET_IMAGES} asset images (you have ${assetCount}).`);
+  }
+  if (styleCount > MAX_STYLE_IMAGES) {
+    issues.push(`Use at most ${MAX_STYLE_IMAGES} style image (you have ${styleCount}).`);
+  }
+  if (assetCount > 0 && styleCount > 0) {
+    issues.push('Asset and style images cannot be combined in one generation.');
+  }
+  if (params.model !== REFERENCE_IMAGE_MODEL) {
+    issues.push('Reference images require the High Quality model.');
+  }
+  if (params.aspectRatio !== REFERENCE_IMAGE_ASPECT_RATIO) {
+    issues.push('Reference images are only supported at 16:9 (Landscape).');
+  }
+  return issues;
+};
+
+/**
+ * Adjusts the model and aspect ratio so that reference images can be used.
+ * @param params The params to adjust.
+ * @returns The adjusted params and a description of each change made.
+ */
+export const applyReferenceImageRequirements = (
+  params: GenerateVideoParams,
+): {params: GenerateVideoParams; changes: string[]} => {
+  const changes: string[] = [];
+  if (!params.referenceImages?.length) {
+    return {params, changes};
+  }
+  const next = {...params};
+  if (next.model !== REFERENCE_IMAGE_MODEL) {
+    next.model = REFERENCE_IMAGE_MODEL;
+    changes.push('switched to the High Quality model');
+  }
+  if (next.aspectRatio !== REFERENCE_IMAGE_ASPECT_RATIO) {
+    next.aspectRatio = REFERENCE_IMAGE_ASPECT_RATIO;
+    changes.push('switched to 16:9');
+  }
+  return {params: next, changes};
+};
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {PendingOperation, PollOptions} from '../types';
+import {dbDelete, dbGetAll, dbPut} from './dbService';
+
+const OPERATIONS_STORE = 'operations';
+
+export const DEFAULT_POLL_OPTIONS: PollOptions = {
+  initialDelayMs: 5000,
+  maxDelayMs: 20000,
+  backoffFactor: 1.5,
+  timeoutMs: 10 * 60 * 1000,
+};
+
+/**
+ * Creates the error thrown when the user cancels a running generation.
+ * It mirrors the `AbortError` that fetch throws so callers can handle both.
+ */
+const createAbortError = () =>
+  new DOMException('Generation was cancelled.', 'AbortError');
+
+/**
+ * Checks whether an error was caused by an aborted signal.
+ * @param error The caught error.
+ * @returns True if the operation was cancelled.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Waits for the given time, rejecting early if the signal is aborted.
+ * @param ms The delay in milliseconds.
+ * @param signal An optional signal that cancels the wait.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+
+/**
+ * Polls a long-running operation until it reports `done`, backing off between
+ * checks. Stops with an error on abort or when the overall timeout elapses.
+ * Note that aborting only stops polling; the backend job keeps running.
+ * @param operation The operation as returned when it was started.
+ * @param refresh Fetches the latest state of the operation.
+ * @param options Polling options, merged over the defaults.
+ * @param signal An optional signal that cancels polling.
+ * @returns A promise that resolves with the finished operation.
+ */
+export const pollUntilDone = async <T extends {done?: boolean}>(
+  operation: T,
+  refresh: (operation: T) => Promise<T>,
+  options: Partial<PollOptions> = {},
+  signal?: AbortSignal,
+): Promise<T> => {
+  const {initialDelayMs, maxDelayMs, backoffFactor, timeoutMs} = {
+    ...DEFAULT_POLL_OPTIONS,
+    ...options,
+  };
+  const deadline = Date.now() + timeoutMs;
+  let delay = initialDelayMs;
+  let current = operation;
+
+  while (!current.done) {
+    if (Date.now() + delay > deadline) {
+      throw new Error(
+        `Video generation timed out after ${Math.round(timeoutMs / 60000)} minutes.`,
+      );
+    }
+    await sleep(delay, signal);
+    console.log('...Generating...');
+    current = await refresh(current);
+    delay = Math.min(delay * backoffFactor, maxDelayMs);
+  }
+  return current;
+};
+
+/**
+ * Records an in-flight job so it can be resumed after a reload.
+ * @param operation The job to persist.
+ */
+export const savePendingOperation = async (operation: PendingOperation) => {
+  try {
+    await dbPut(OPERATIONS_STORE, operation);
+  } catch (error) {
+    console.error('Error saving pending operation to IndexedDB', error);
+  }
+};
+
+/**
+ * Retrieves the jobs that were still running when the page was last closed.
+ * @param providerId Only return jobs started by this provider.
+ * @returns The pending jobs, newest first.
+ */
+export const getPendingOperations = async (
+  providerId: string,
+): Promise<PendingOperation[]> => {
+  try {
+    const operations = await dbGetAll<PendingOperation>(OPERATIONS_STORE);
+    return operations
+      .filter((op) => op.providerId === providerId)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  } catch (error) {
+    console.error('Error reading pending operations from IndexedDB', error);
+    return [];
+  }
+};
+
+/**
+ * Forgets a job once it has finished, failed or been cancelled.
+ * @param name The operation name.
+ */
+export const clearPendingOperation = async (name: string) => {
+  try {
+    await dbDelete(OPERATIONS_STORE, name);
+  } catch (error) {
+    console.error('Error clearing pending operation from IndexedDB', error);
+  }
+};
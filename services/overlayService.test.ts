@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {BrandProfile} from '../types';
+import {
+  buildEndCardTemplate,
+  createOverlayElement,
+  extractPrice,
+  extractTagline,
+  getOverlayFrame,
+} from './overlayService';
+
+describe('extractPrice', () => {
+  it('finds prices with a symbol or a currency code', () => {
+    expect(extractPrice('A rich serum, now $29.99 for a limited time.')).toBe('$29.99');
+    expect(extractPrice('Only 49 EUR.')).toBe('49 EUR');
+    expect(extractPrice('€ 1,200 and worth it')).toBe('€ 1,200');
+  });
+
+  it('is empty without a price', () => {
+    expect(extractPrice('Hydrates for 24 hours.')).toBe('');
+  });
+});
+
+describe('extractTagline', () => {
+  it('keeps the first sentence', () => {
+    expect(extractTagline('  Glow all day. Made with vitamin C.')).toBe('Glow all day.');
+  });
+
+  it('cuts a long sentence at a word boundary', () => {
+    const tagline = extractTagline(
+      'A lightweight serum that hydrates, brightens and protects your skin all day long',
+    );
+    expect(tagline).toBe('A lightweight serum that hydrates, brightens and protects…');
+  });
+});
+
+describe('buildEndCardTemplate', () => {
+  it('fills the card from the product and shows it over the last seconds', () => {
+    const elements = buildEndCardTemplate('Glow Serum', 'Glow all day. Only $29.', 8);
+    expect(elements.map((e) => [e.label, e.text, e.start, e.end])).toEqual([
+      ['Logo', '', 5, 8],
+      ['Headline', 'Glow Serum', 5, 8],
+      ['Tagline', 'Glow all day.', 5.2, 8],
+      ['Price', '$29', 5.4, 8],
+      ['Call to action', 'Shop Now', 5.6, 8],
+    ]);
+  });
+
+  it('uses the brand logo and accent color', () => {
+    const brand = {logo: 'data:image/png;base64,AA', palette: ['#ff0066']} as BrandProfile;
+    const [logo, , , , cta] = buildEndCardTemplate('Glow', '', 8, brand);
+    expect(logo.logo).toBe(brand.logo);
+    expect(cta.background).toBe('#ff0066');
+  });
+
+  it('keeps every element inside a short video', () => {
+    const elements = buildEndCardTemplate('Glow', '', 2);
+    expect(elements.every((e) => e.start >= 0 && e.start <= 2 && e.end === 2)).toBe(true);
+  });
+});
+
+describe('getOverlayFrame', () => {
+  const element = createOverlayElement({start: 2, end: 5, animation: 'zoom'});
+
+  it('is hidden outside its time range, and still up on its last frame', () => {
+    expect(getOverlayFrame(element, 1.9)).toBeNull();
+    expect(getOverlayFrame(element, 5.1)).toBeNull();
+    expect(getOverlayFrame(element, 5)).toEqual({alpha: 1, offsetY: 0, scale: 1});
+  });
+
+  it('animates its entrance', () => {
+    expect(getOverlayFrame(element, 2)).toEqual({alpha: 0, offsetY: 0, scale: 0.6});
+    const slide = getOverlayFrame({...element, animation: 'slide-up'}, 2);
+    expect(slide).toEqual({alpha: 0, offsetY: 0.08, scale: 1});
+    expect(getOverlayFrame({...element, animation: 'none'}, 2)).toEqual({
+      alpha: 1,
+      offsetY: 0,
+      scale: 1,
+    });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {BrandProfile, OverlayAnimation, OverlayElement, OverlayFont} from '../types';
+
+// Text and logo elements drawn over the video. The same drawing code paints
+// the live preview canvas and the frames of a rendered file, so what the
+// preview shows is what gets exported.
+
+export const END_CARD_SECONDS = 3;
+const ENTRANCE_SECONDS = 0.5;
+const MAX_TAGLINE_LENGTH = 60;
+
+export const OVERLAY_FONTS: {value: OverlayFont; label: string; family: string}[] = [
+  {value: 'sans', label: 'Sans', family: 'Helvetica, Arial, sans-serif'},
+  {value: 'serif', label: 'Serif', family: 'Georgia, "Times New Roman", serif'},
+  {value: 'condensed', label: 'Condensed', family: 'Impact, "Arial Narrow", sans-serif'},
+  {value: 'mono', label: 'Mono', family: '"Courier New", monospace'},
+];
+
+export const OVERLAY_ANIMATIONS: {value: OverlayAnimation; label: string}[] = [
+  {value: 'none', label: 'None'},
+  {value: 'fade', label: 'Fade in'},
+  {value: 'slide-up', label: 'Slide up'},
+  {value: 'zoom', label: 'Zoom in'},
+];
+
+const DEFAULT_ACCENT = '#4f46e5';
+
+/**
+ * Creates a text element with default styling.
+ * @param changes Fields that differ from the defaults.
+ * @returns The element.
+ */
+export const createOverlayElement = (changes: Partial<OverlayElement> = {}): OverlayElement => ({
+  id: crypto.randomUUID(),
+  kind: 'text',
+  label: 'Text',
+  text: '',
+  x: 0.5,
+  y: 0.5,
+  size: 0.07,
+  font: 'sans',
+  color: '#ffffff',
+  background: 'transparent',
+  animation: 'fade',
+  start: 0,
+  end: 5,
+  ...changes,
+});
+
+/**
+ * Finds a price in a product description, e.g. "$29.99" or "49 EUR".
+ * @param description The description.
+ * @returns The price as written, or an empty string if there is none.
+ */
+export const extractPrice = (description: string): string => {
+  const match = description.match(
+    /[$€£¥]\s?\d[\d,]*(?:\.\d{1,2})?|\d[\d,]*(?:\.\d{1,2})?\s?(?:USD|EUR|GBP|€)/i,
+  );
+  return match ? match[0].trim() : '';
+};
+
+/**
+ * Shortens a product description to its first sentence, cut at a word
+ * boundary if it is still too long for one line of an end card.
+ * @param description The description.
+ * @returns The tagline.
+ */
+export const extractTagline = (description: string): string => {
+  const sentence = description.trim().split(/(?<=[.!?])\s/)[0] ?? '';
+  if (sentence.length <= MAX_TAGLINE_LENGTH) return sentence;
+  const cut = sentence.slice(0, MAX_TAGLINE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+};
+
+/**
+ * Builds the default end card: logo, headline, tagline, price and call to
+ * action, shown over the last few seconds of the video.
+ * @param productName Used as the headline.
+ * @param productDescription Supplies the tagline and, if it has one, the price.
+ * @param duration The video's length in seconds.
+ * @param brand Supplies the logo and accent color, if any.
+ * @returns The elements, top to bottom.
+ */
+export const buildEndCardTemplate = (
+  productName: string,
+  productDescription: string,
+  duration: number,
+  brand?: BrandProfile,
+): OverlayElement[] => {
+  const start = Math.max(0, duration - END_CARD_SECONDS);
+  const accent = brand?.palette[0] ?? DEFAULT_ACCENT;
+  // Later elements enter a little after earlier ones.
+  const at = (delay: number) => ({start: Math.min(duration, start + delay), end: duration});
+  return [
+    createOverlayElement({
+      kind: 'logo',
+      label: 'Logo',
+      logo: brand?.logo,
+      y: 0.18,
+      size: 0.14,
+      ...at(0),
+    }),
+    createOverlayElement({
+      label: 'Headline',
+      text: productName,
+      y: 0.38,
+      size: 0.1,
+      animation: 'slide-up',
+      ...at(0),
+    }),
+    createOverlayElement({
+      label: 'Tagline',
+      text: extractTagline(productDescription),
+      y: 0.5,
+      size: 0.045,
+      ...at(0.2),
+    }),
+    createOverlayElement({
+      label: 'Price',
+      text: extractPrice(productDescription),
+      y: 0.63,
+      size: 0.08,
+      animation: 'zoom',
+      ...at(0.4),
+    }),
+    createOverlayElement({
+      label: 'Call to action',
+      text: 'Shop Now',
+      y: 0.8,
+      size: 0.055,
+      background: accent,
+      animation: 'slide-up',
+      ...at(0.6),
+    }),
+  ];
+};
+
+/**
+ * Works out how an element looks at a point in the video, part way through
+ * its entrance.
+ * @param element The element.
+ * @param time The video time in seconds.
+ * @returns Its opacity, vertical offset (a fraction of the frame height) and
+ *     scale, or null if it is not on screen.
+ */
+export const getOverlayFrame = (
+  element: OverlayElement,
+  time: number,
+): {alpha: number; offsetY: number; scale: number} | null => {
+  // Inclusive of the end, so an end card is still up on the last frame.
+  if (time < element.start || time > element.end) return null;
+  const progress = Math.min(1, (time - element.start) / ENTRANCE_SECONDS);
+  const eased = 1 - (1 - progress) ** 3;
+  switch (element.animation) {
+    case 'fade':
+      return {alpha: eased, offsetY: 0, scale: 1};
+    case 'slide-up':
+      return {alpha: eased, offsetY: (1 - eased) * 0.08, scale: 1};
+    case 'zoom':
+      return {alpha: eased, offsetY: 0, scale: 0.6 + 0.4 * eased};
+    default:
+      return {alpha: 1, offsetY: 0, scale: 1};
+  }
+};
+
+/**
+ * Loads the logos used by a set of elements, ready to draw on a canvas.
+ * Logos that fail to load are left out.
+ * @param elements The elements.
+ * @returns A promise that resolves with the images, keyed by data URL.
+ */
+export const loadOverlayImages = async (
+  elements: OverlayElement[],
+): Promise<Map<string, HTMLImageElement>> => {
+  const sources = [...new Set(elements.flatMap((element) => (element.logo ? [element.logo] : [])))];
+  const images = await Promise.all(
+    sources.map(
+      (src) =>
+        new Promise<HTMLImageElement | null>((resolve) => {
+          const image = new Image();
+          image.onload = () => resolve(image);
+          image.onerror = () => resolve(null);
+          image.src = src;
+        }),
+    ),
+  );
+  return new Map(
+    sources.flatMap((src, index) => (images[index] ? [[src, images[index]!] as const] : [])),
+  );
+};
+
+/**
+ * Splits text into lines that fit a width in the canvas's current font.
+ * @param ctx The canvas, with its font set.
+ * @param text The text.
+ * @param maxWidth The widest a line may be.
+ * @returns The lines.
+ */
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+    if (last && ctx.measureText(`${last} ${word}`).width <= maxWidth) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines;
+};
+
+/**
+ * Draws the elements that are on screen at a point in the video.
+ * @param ctx The canvas to draw on, sized to the video frame.
+ * @param elements The elements, drawn in order.
+ * @param time The video time in seconds.
+ * @param images Logos from loadOverlayImages.
+ */
+export const drawOverlays = (
+  ctx: CanvasRenderingContext2D,
+  elements: OverlayElement[],
+  time: number,
+  images: Map<string, HTMLImageElement>,
+) => {
+  const {width, height} = ctx.canvas;
+  for (const element of elements) {
+    const frame = getOverlayFrame(element, time);
+    if (!frame) continue;
+    ctx.save();
+    ctx.globalAlpha = frame.alpha;
+    ctx.translate(element.x * width, (element.y + frame.offsetY) * height);
+    ctx.scale(frame.scale, frame.scale);
+
+    if (element.kind === 'logo') {
+      const image = element.logo && images.get(element.logo);
+      if (image) {
+        const logoHeight = element.size * height;
+        const logoWidth = (image.naturalWidth / image.naturalHeight) * logoHeight;
+        ctx.drawImage(image, -logoWidth / 2, -logoHeight / 2, logoWidth, logoHeight);
+      }
+      ctx.restore();
+      continue;
+    }
+
+    const fontSize = Math.round(element.size * height);
+    const family = OVERLAY_FONTS.find((font) => font.value === element.font)?.family;
+    ctx.font = `bold ${fontSize}px ${family ?? 'sans-serif'}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lines = wrapLines(ctx, element.text, width * 0.85);
+    const lineHeight = fontSize * 1.25;
+    const top = (-lines.length * lineHeight) / 2;
+    if (element.background !== 'transparent' && lines.length > 0) {
+      const padding = fontSize * 0.6;
+      const boxWidth = Math.max(...lines.map((line) => ctx.measureText(line).width)) + padding * 2;
+      ctx.fillStyle = element.background;
+      ctx.fillRect(-boxWidth / 2, top - padding / 2, boxWidth, lines.length * lineHeight + padding);
+    } else {
+      // Keeps text readable over a busy picture.
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+      ctx.shadowBlur = fontSize * 0.25;
+    }
+    ctx.fillStyle = element.color;
+    lines.forEach((line, index) => {
+      ctx.fillText(line, 0, top + index * lineHeight + lineHeight / 2);
+    });
+    ctx.restore();
+  }
+};
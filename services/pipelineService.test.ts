@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {GenerateVideoParams} from '../types';
+import {GenerationError, isResumableError} from './errorService';
+import {clearPendingOperation, savePendingOperation} from './operationService';
+import {runAdPipeline} from './pipelineService';
+import {createProvider} from './testProviders';
+
+vi.mock('./operationService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./operationService')>()),
+  savePendingOperation: vi.fn(),
+  clearPendingOperation: vi.fn(),
+}));
+
+const params = {prompt: 'A serum bottle', voiceoverMode: 'none'} as GenerateVideoParams;
+
+describe('isResumableError', () => {
+  it('keeps jobs that timed out or lost their connection', () => {
+    expect(isResumableError(new Error('Video generation timed out after 10 minutes.'))).toBe(true);
+    expect(isResumableError(new Error('Failed to fetch'))).toBe(true);
+  });
+
+  it('drops jobs that were cancelled or failed for good', () => {
+    expect(isResumableError(new DOMException('Generation was cancelled.', 'AbortError'))).toBe(false);
+    expect(isResumableError(new GenerationError('safety', 'Blocked'))).toBe(false);
+    expect(isResumableError(new Error('No videos were generated.'))).toBe(false);
+  });
+});
+
+describe('runAdPipeline', () => {
+  beforeEach(() => {
+    vi.mocked(savePendingOperation).mockClear();
+    vi.mocked(clearPendingOperation).mockClear();
+  });
+
+  it('forgets the job once the video is ready', async () => {
+    await runAdPipeline(createProvider(async () => ({objectUrl: 'blob:1'})), params);
+    expect(savePendingOperation).toHaveBeenCalledOnce();
+    expect(clearPendingOperation).toHaveBeenCalledWith('operations/1');
+  });
+
+  it('keeps the job after a poll timeout so a reload can resume it', async () => {
+    const provider = createProvider(() =>
+      Promise.reject(new Error('Video generation timed out after 10 minutes.')),
+    );
+    await expect(runAdPipeline(provider, params)).rejects.toThrow('timed out');
+    expect(clearPendingOperation).not.toHaveBeenCalled();
+  });
+
+  it('keeps the job after a network failure', async () => {
+    const provider = createProvider(() => Promise.reject(new Error('Failed to fetch')));
+    await expect(runAdPipeline(provider, params)).rejects.toThrow();
+    expect(clearPendingOperation).not.toHaveBeenCalled();
+  });
+
+  it('forgets the job when the user cancels', async () => {
+    const provider = createProvider(() =>
+      Promise.reject(new DOMException('Generation was cancelled.', 'AbortError')),
+    );
+    await expect(runAdPipeline(provider, params)).rejects.toThrow();
+    expect(clearPendingOperation).toHaveBeenCalledWith('operations/1');
+  });
+
+  it('forgets the job after a terminal backend error', async () => {
+    const provider = createProvider(() => Promise.reject(new GenerationError('safety', 'Blocked')));
+    await expect(runAdPipeline(provider, params)).rejects.toThrow('Blocked');
+    expect(clearPendingOperation).toHaveBeenCalledWith('operations/1');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GeneratedVideo,
+  GenerateVideoParams,
+  GenerationOptions,
+  GenerationProvider,
+  PendingOperation,
+  Resolution,
+} from '../types';
+import {createAudioContext} from '../utils';
+import {formatRetryNotice, isResumableError} from './errorService';
+import {clearPendingOperation, savePendingOperation} from './operationService';
+
+// The assets produced by one full run of the ad pipeline.
+export interface AdResult {
+  video: GeneratedVideo;
+  voiceoverBuffer: AudioBuffer | null;
+}
+
+interface PipelineOptions {
+  signal?: AbortSignal;
+  // Reports a human-readable description of the current step.
+  onTask?: (task: string) => void;
+  // Re-attach to this saved job instead of starting the video stage afresh.
+  resume?: PendingOperation;
+}
+
+/**
+ * Turns a voiceover source (TTS script or recorded blob) into an AudioBuffer.
+ * @param provider The backend used for TTS.
+ * @param params The params describing the voiceover.
+ * @returns A promise that resolves with the audio, or null if there is none.
+ */
+export const produceVoiceover = async (
+  provider: GenerationProvider,
+  params: GenerateVideoParams,
+): Promise<AudioBuffer | null> => {
+  if (params.voiceoverMode === 'tts' && params.voiceoverScript && params.speakers?.length) {
+    return provider.generateDialogue(params.voiceoverScript, params.speakers);
+  } else if (params.voiceoverMode === 'tts' && params.voiceoverScript && params.voiceName) {
+    return provider.generateSpeech(params.voiceoverScript, params.voiceName);
+  } else if (params.voiceoverMode === 'record' && params.recordedAudioBlob) {
+    // Convert recorded blob to AudioBuffer
+    const arrayBuffer = await params.recordedAudioBlob.arrayBuffer();
+    const audioContext = createAudioContext();
+    return audioContext.decodeAudioData(arrayBuffer);
+  }
+  return null;
+};
+
+interface VideoStageOptions {
+  signal?: AbortSignal;
+  onTask?: (task: string) => void;
+  // The params saved with the job, used to finish the run after a resume.
+  // Defaults to the stage's own params.
+  runParams?: GenerateVideoParams;
+  // Re-attach to this saved job instead of starting a new one.
+  resumeName?: string;
+}
+
+/**
+ * Generates (or resumes) one video, saving the job while it runs so it can
+ * be resumed after a reload.
+ * @param provider The backend to generate with.
+ * @param stage Whether the video is a first clip or an extension.
+ * @param params The params for this video.
+ * @param options Cancellation, progress and resume options.
+ * @returns A promise that resolves with the video.
+ */
+export const runVideoStage = async (
+  provider: GenerationProvider,
+  stage: PendingOperation['stage'],
+  params: GenerateVideoParams,
+  {signal, onTask, runParams = params, resumeName}: VideoStageOptions = {},
+): Promise<GeneratedVideo> => {
+  let operationName = resumeName;
+  const options: GenerationOptions = {
+    signal,
+    onRetry: (notice) => onTask?.(formatRetryNotice(notice)),
+    onOperationStarted: (name: string) => {
+      // A retry may replace a job that finished without a video.
+      if (operationName && operationName !== name) {
+        clearPendingOperation(operationName);
+      }
+      operationName = name;
+      savePendingOperation({
+        name,
+        providerId: provider.id,
+        stage,
+        params: runParams,
+        startedAt: Date.now(),
+      });
+    },
+  };
+  try {
+    const result = resumeName
+      ? await provider.resumeVideo(resumeName, options)
+      : await provider.generateVideo(params, options);
+    if (operationName) clearPendingOperation(operationName);
+    return result;
+  } catch (error) {
+    // A job that timed out or lost its connection may still finish, and is
+    // billed either way; keep it so a reload can resume it.
+    if (operationName && !isResumableError(error)) {
+      clearPendingOperation(operationName);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Runs the full ad pipeline: video, optional extension and voiceover. Each
+ * video job is saved while it runs so it can be resumed after a reload.
+ * @param provider The backend to generate with.
+ * @param params The params for the ad.
+ * @param options Cancellation, progress and resume options.
+ * @returns A promise that resolves with the final video and voiceover.
+ */
+export const runAdPipeline = async (
+  provider: GenerationProvider,
+  params: GenerateVideoParams,
+  {signal, onTask, resume}: PipelineOptions = {},
+): Promise<AdResult> => {
+  let finalResult: GeneratedVideo;
+  if (resume?.stage === 'extend') {
+    onTask?.('Resuming ad extension...');
+    finalResult = await runVideoStage(provider, 'extend', params, {
+      signal,
+      onTask,
+      resumeName: resume.name,
+    });
+  } else {
+    // --- Stage 1: Initial Video Generation ---
+    onTask?.(resume ? 'Resuming ad generation...' : 'Generating initial ad scene...');
+    const initialResult = await runVideoStage(provider, 'initial', params, {
+      signal,
+      onTask,
+      resumeName: resume?.name,
+    });
+    finalResult = initialResult;
+
+    // --- Stage 2: Automatic Extension (Optional) ---
+    if (params.autoExtend) {
+      onTask?.('Extending ad to full length...');
+      const extendParams: GenerateVideoParams = {
+        ...params,
+        prompt: 'Continue the ad, showing the product in a new, exciting context.',
+        inputVideoObject: initialResult.video,
+        referenceImages: [], // Not supported when extending
+        startFrame: undefined,
+        endFrame: undefined,
+        resolution: Resolution.P720, // Extension requires 720p
+      };
+      finalResult = await runVideoStage(provider, 'extend', extendParams, {
+        signal,
+        onTask,
+        runParams: params,
+      });
+    }
+  }
+
+  // --- Stage 3: Voiceover Generation (Optional) ---
+  if (params.voiceoverMode !== 'none') {
+    onTask?.(
+      params.voiceoverMode === 'tts'
+        ? 'Crafting AI voiceover...'
+        : 'Processing recorded audio...',
+    );
+  }
+  const voiceoverBuffer = await produceVoiceover(provider, params);
+
+  return {video: finalResult, voiceoverBuffer};
+};
@@ -0,0 +1,296 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  AspectRatio,
+  GenerateVideoParams,
+  Preset,
+  Resolution,
+  VideoModel,
+  VoiceName,
+} from '../types';
+import {parseImportList, readOneOf, readString, readStringList} from './importService';
+
+const PRESETS_KEY = 'adspark_studio_presets';
+const EXPORT_VERSION = 1;
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: 'builtin-humorous-unboxing',
+    title: 'Humorous Unboxing',
+    description: 'A funny, relatable take on opening a new product.',
+    prompt: 'A humorous, fast-paced unboxing video of {{productName}}. The person is overly excited and fumbles with the package. Close-ups on the product\'s best features, with funny on-screen text. Bright, energetic lighting.',
+    tags: ['humor', 'unboxing'],
+    builtIn: true,
+  },
+  {
+    id: 'builtin-cinematic-showcase',
+    title: 'Cinematic Product Showcase',
+    description: 'A dramatic, high-quality look at your product.',
+    prompt: 'A cinematic, slow-motion video showcasing {{productName}} on a rotating pedestal. Dramatic lighting with dark shadows. Epic, inspiring orchestral music. No people, just the product as the hero.',
+    tags: ['cinematic', 'product'],
+    builtIn: true,
+  },
+  {
+    id: 'builtin-viral-trend',
+    title: 'Viral TikTok Trend',
+    description: 'Jump on a popular trend with your product.',
+    prompt: 'A short video that mimics a popular TikTok dance or audio trend, but {{productName}} is seamlessly integrated as a main character. Use upbeat, trending audio style. Shot vertically.',
+    tags: ['social', 'trend'],
+    builtIn: true,
+    aspectRatio: AspectRatio.PORTRAIT,
+  },
+  {
+    id: 'builtin-problem-solution',
+    title: 'Problem/Solution Demo',
+    description: 'Show how your product solves a common problem.',
+    prompt: 'A split-screen video. On the left, a person struggles with a common problem in black and white. On the right, a person uses {{productName}} to solve the problem effortlessly, in vibrant color. Satisfying and clear.',
+    tags: ['demo'],
+    builtIn: true,
+  },
+  {
+    id: 'builtin-day-in-the-life',
+    title: 'Aesthetic "Day in the Life"',
+    description: 'Fit your product into a desirable lifestyle.',
+    prompt: 'An aesthetic "day in the life" vlog-style video. {{productName}} is used naturally in beautiful, clean settings. Soft, natural lighting. Lo-fi, chill-hop background music. Focus on the feeling and lifestyle.',
+    tags: ['lifestyle', 'social'],
+    builtIn: true,
+  },
+];
+
+// The variables a prompt or script template can use, with where each value
+// comes from.
+export const PRESET_VARIABLES: {name: string; description: string}[] = [
+  {name: 'productName', description: 'Product name'},
+  {name: 'productDescription', description: 'Product description'},
+  {name: 'brandName', description: 'Selected brand'},
+  {name: 'brandTone', description: "Selected brand's tone of voice"},
+];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Creates an empty preset.
+ * @param title The display name for the new preset.
+ * @returns A new, unsaved preset.
+ */
+export const createPreset = (title = 'New Preset'): Preset => ({
+  id: crypto.randomUUID(),
+  title,
+  description: '',
+  prompt: '',
+  tags: [],
+});
+
+/**
+ * Creates a preset that captures the form's current settings.
+ * @param params The current form values.
+ * @param title The display name for the new preset.
+ * @returns A new, unsaved preset.
+ */
+export const createPresetFromParams = (
+  params: GenerateVideoParams,
+  title = 'My Preset',
+): Preset => ({
+  ...createPreset(title),
+  prompt: params.prompt,
+  model: params.model,
+  resolution: params.resolution,
+  aspectRatio: params.aspectRatio,
+  voiceName: params.voiceName,
+  scriptTemplate: params.voiceoverMode === 'tts' ? params.voiceoverScript : undefined,
+});
+
+/**
+ * Retrieves the user's saved presets from localStorage.
+ * @returns An array of presets, in the order they were created.
+ */
+export const getUserPresets = (): Preset[] => {
+  try {
+    const json = localStorage.getItem(PRESETS_KEY);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('Error reading presets from localStorage', error);
+    return [];
+  }
+};
+
+/**
+ * Lists every preset, built-in ones first.
+ * @returns The presets.
+ */
+export const getPresets = (): Preset[] => [...BUILT_IN_PRESETS, ...getUserPresets()];
+
+const writeUserPresets = (presets: Preset[]) => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('Error saving presets to localStorage', error);
+    throw new Error('Could not save the preset. Storage may be full.');
+  }
+};
+
+/**
+ * Creates or updates a user preset.
+ * @param preset The preset to save; matched by id.
+ */
+export const savePreset = (preset: Preset) => {
+  if (preset.builtIn) {
+    throw new Error('Built-in presets cannot be changed. Duplicate it instead.');
+  }
+  const presets = getUserPresets();
+  const index = presets.findIndex((p) => p.id === preset.id);
+  if (index >= 0) {
+    presets[index] = preset;
+  } else {
+    presets.push(preset);
+  }
+  writeUserPresets(presets);
+};
+
+/**
+ * Deletes a user preset.
+ * @param id The preset to delete.
+ */
+export const deletePreset = (id: string) => {
+  writeUserPresets(getUserPresets().filter((p) => p.id !== id));
+};
+
+/**
+ * Lists the tags used across presets.
+ * @param presets The presets to collect tags from.
+ * @returns The tags, sorted and without duplicates.
+ */
+export const getPresetTags = (presets: Preset[]): string[] =>
+  [...new Set(presets.flatMap((p) => p.tags))].sort();
+
+/**
+ * Finds the variables a template uses.
+ * @param template The prompt or script template.
+ * @returns The variable names, without duplicates.
+ */
+export const findTemplateVariables = (template: string): string[] => [
+  ...new Set([...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1])),
+];
+
+/**
+ * Looks up the value of each template variable in the form.
+ * @param params The current form values.
+ * @returns The values by variable name; empty values are left out.
+ */
+export const getTemplateValues = (
+  params: GenerateVideoParams,
+): Record<string, string> => {
+  const values: Record<string, string> = {
+    productName: params.productName.trim(),
+    productDescription: params.productDescription.trim(),
+    brandName: params.brand?.name.trim() ?? '',
+    brandTone: params.brand?.toneOfVoice.trim() ?? '',
+  };
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value));
+};
+
+/**
+ * Fills in the variables of a template. Variables without a value are left
+ * in place so they can still be filled once the form is complete.
+ * @param template The prompt or script template.
+ * @param values The values by variable name.
+ * @returns The filled-in text.
+ */
+export const fillTemplate = (
+  template: string,
+  values: Record<string, string>,
+): string =>
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+/**
+ * Fills the template variables left in the prompt and script, e.g. right
+ * before submitting.
+ * @param params The current form values.
+ * @returns The params with every known variable filled in.
+ */
+export const fillParamsTemplates = (
+  params: GenerateVideoParams,
+): GenerateVideoParams => {
+  const values = getTemplateValues(params);
+  return {
+    ...params,
+    prompt: fillTemplate(params.prompt, values),
+    voiceoverScript:
+      params.voiceoverScript && fillTemplate(params.voiceoverScript, values),
+  };
+};
+
+/**
+ * Applies a preset's prompt and settings to the form.
+ * @param params The current form values.
+ * @param preset The preset to apply.
+ * @returns The updated params.
+ */
+export const applyPreset = (
+  params: GenerateVideoParams,
+  preset: Preset,
+): GenerateVideoParams => {
+  const values = getTemplateValues(params);
+  const updated: GenerateVideoParams = {
+    ...params,
+    prompt: fillTemplate(preset.prompt, values),
+    model: preset.model ?? params.model,
+    resolution: preset.resolution ?? params.resolution,
+    aspectRatio: preset.aspectRatio ?? params.aspectRatio,
+    voiceName: preset.voiceName ?? params.voiceName,
+  };
+  if (preset.scriptTemplate) {
+    updated.voiceoverMode = 'tts';
+    updated.voiceoverScript = fillTemplate(preset.scriptTemplate, values);
+  }
+  return updated;
+};
+
+/**
+ * Serializes presets into a shareable JSON pack.
+ * @param presets The presets to export.
+ * @param name A name for the pack, shown to whoever imports it.
+ * @returns The JSON string.
+ */
+export const exportPresets = (presets: Preset[], name = 'AdSpark presets'): string =>
+  JSON.stringify(
+    {version: EXPORT_VERSION, name, presets: presets.map(({builtIn, ...preset}) => preset)},
+    null,
+    2,
+  );
+
+/**
+ * Parses presets from a JSON pack and saves them. Presets with an id that
+ * already exists replace the saved copy.
+ * @param json The JSON string to import.
+ * @returns The imported presets.
+ */
+export const importPresets = (json: string): Preset[] => {
+  const builtInIds = BUILT_IN_PRESETS.map((p) => p.id);
+
+  const imported: Preset[] = parseImportList(json, 'presets')
+    .filter((p) => readString(p, 'title') !== undefined && readString(p, 'prompt') !== undefined)
+    .map((p) => {
+      const id = readString(p, 'id');
+      return {
+        ...createPreset(readString(p, 'title')),
+        id: id !== undefined && !builtInIds.includes(id) ? id : crypto.randomUUID(),
+        description: readString(p, 'description') ?? '',
+        prompt: readString(p, 'prompt') ?? '',
+        tags: readStringList(p, 'tags'),
+        model: readOneOf(p, 'model', Object.values(VideoModel)),
+        resolution: readOneOf(p, 'resolution', Object.values(Resolution)),
+        aspectRatio: readOneOf(p, 'aspectRatio', Object.values(AspectRatio)),
+        voiceName: readOneOf(p, 'voiceName', Object.values(VoiceName)),
+        scriptTemplate: readString(p, 'scriptTemplate'),
+      };
+    });
+
+  if (imported.length === 0) {
+    throw new Error('No presets were found in the file.');
+  }
+  imported.forEach(savePreset);
+  return imported;
+};
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ImageFile, ProductImageOptions, ProductImageStyle} from '../types';
+import {decode, slugify} from '../utils';
+
+// Product shots are generated one per call, so a failed shot can be retried
+// on its own and each one is billed separately.
+
+export const PRODUCT_IMAGE_COUNT = 4;
+
+export const PRODUCT_IMAGE_STYLES: {
+  value: ProductImageStyle;
+  label: string;
+  direction: string;
+}[] = [
+  {
+    value: 'studio',
+    label: 'Studio packshot',
+    direction:
+      'A professional studio packshot on a soft gradient backdrop, with three-point lighting and a gentle reflection.',
+  },
+  {
+    value: 'cutout',
+    label: 'Clean background',
+    direction:
+      'The product alone on a plain, pure white seamless background with a soft contact shadow, as for an e-commerce listing. Nothing else in frame.',
+  },
+  {
+    value: 'lifestyle',
+    label: 'Lifestyle scene',
+    direction:
+      'The product in use in a natural, aspirational everyday setting, with soft daylight and a shallow depth of field.',
+  },
+  {
+    value: 'flatlay',
+    label: 'Flat lay',
+    direction:
+      'A top-down flat lay of the product arranged with a few complementary props on a textured surface.',
+  },
+];
+
+// Nudges each shot in a set in a different direction, so the grid offers
+// real choices rather than near-duplicates.
+const VARIATION_DIRECTIONS = [
+  'Straight-on hero angle.',
+  'Three-quarter angle, slightly from above.',
+  'Close-up that fills the frame with the product.',
+  'Wider framing with more of the surroundings.',
+];
+
+/**
+ * Builds the instruction for one product shot.
+ * @param productName The product's name.
+ * @param productDescription What the product is.
+ * @param options The style and variation, and whether a photo is restyled.
+ * @param brandDirections Extra style directions from the brand, if any.
+ * @returns The prompt for the image model.
+ */
+export const buildProductImagePrompt = (
+  productName: string,
+  productDescription: string,
+  options: ProductImageOptions,
+  brandDirections = '',
+): string => {
+  const style =
+    PRODUCT_IMAGE_STYLES.find((s) => s.value === options.style) ?? PRODUCT_IMAGE_STYLES[0];
+  const lines = options.sourceImage
+    ? [
+        `Restyle the attached photo of "${productName}" (${productDescription}).`,
+        'Keep the product itself exactly as it is, including its shape, colors, labels and logo; change only its surroundings, lighting and framing.',
+      ]
+    : [`Create a photorealistic advertising photo of "${productName}": ${productDescription}.`];
+  lines.push(
+    style.direction,
+    VARIATION_DIRECTIONS[options.variation % VARIATION_DIRECTIONS.length],
+    `Compose for a ${options.aspectRatio} frame. No added text, watermarks or borders.`,
+  );
+  if (options.notes.trim()) {
+    lines.push(`Also: ${options.notes.trim()}`);
+  }
+  if (brandDirections) {
+    lines.push(brandDirections);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Wraps a generated image so it can be used like an uploaded one.
+ * @param base64 The image data.
+ * @param mimeType The image's type, e.g. "image/png".
+ * @param productName Used to name the file.
+ * @param options The options the image was generated with.
+ * @returns The image, ready to add to the reference images.
+ */
+export const createProductImageFile = (
+  base64: string,
+  mimeType: string,
+  productName: string,
+  options: ProductImageOptions,
+): ImageFile => {
+  const slug = slugify(productName) || 'product';
+  const extension = mimeType === 'image/jpeg' ? 'jpg' : mimeType.split('/')[1] || 'png';
+  const name = `${slug}-${options.style}-${options.variation + 1}.${extension}`;
+  return {
+    file: new File([decode(base64)], name, {type: mimeType}),
+    base64,
+    referenceType: 'asset',
+  };
+};
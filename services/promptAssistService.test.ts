@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {AspectRatio} from '../types';
+import {
+  applySuggestion,
+  createSuggestion,
+  diffWords,
+  lintPrompt,
+  mergeSuggestions,
+} from './promptAssistService';
+
+describe('lintPrompt', () => {
+  it('suggests removing the second of two conflicting instructions', () => {
+    const suggestions = lintPrompt(
+      'A slow motion pour of coffee. Fast-paced cuts of the cafe.',
+      AspectRatio.LANDSCAPE,
+    );
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({
+      kind: 'conflict',
+      before: 'Fast-paced cuts of the cafe.',
+      after: '',
+    });
+  });
+
+  it('flags sentences the safety filter often blocks', () => {
+    const suggestions = lintPrompt(
+      'A bottle on a table. This serum cures acne.',
+      AspectRatio.LANDSCAPE,
+    );
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({
+      kind: 'policy',
+      before: 'This serum cures acne.',
+    });
+  });
+
+  it('suggests framing that suits the aspect ratio', () => {
+    const prompt = 'A widescreen shot of a landscape format beach.';
+    const portrait = lintPrompt(prompt, AspectRatio.PORTRAIT);
+    expect(portrait.map(({before, after}) => [before, after])).toEqual([
+      ['widescreen', 'vertical'],
+      ['landscape format', 'vertical format'],
+    ]);
+    expect(lintPrompt(prompt, AspectRatio.LANDSCAPE)).toEqual([]);
+  });
+});
+
+describe('mergeSuggestions', () => {
+  it('drops local suggestions for text the model already addressed', () => {
+    const remote = [createSuggestion('conflict', 'Remote', '', 'At Night.', '')];
+    const local = [
+      createSuggestion('conflict', 'Local', '', 'at night.', ''),
+      createSuggestion('aspect', 'Aspect', '', 'widescreen', 'vertical'),
+    ];
+    expect(mergeSuggestions(remote, local).map((s) => s.title)).toEqual([
+      'Remote',
+      'Aspect',
+    ]);
+  });
+
+  it('puts rewrites first and does not let them hide local suggestions', () => {
+    const prompt = 'A widescreen beach.';
+    const remote = [
+      createSuggestion('policy', 'Policy', '', 'beach', 'coast'),
+      createSuggestion('enhance', 'Rewrite', '', prompt, 'A vertical beach at dawn.'),
+    ];
+    const local = [createSuggestion('aspect', 'Aspect', '', prompt, '')];
+    expect(mergeSuggestions(remote, local).map((s) => s.title)).toEqual([
+      'Rewrite',
+      'Policy',
+      'Aspect',
+    ]);
+  });
+});
+
+describe('applySuggestion', () => {
+  it('replaces the targeted text', () => {
+    const suggestion = createSuggestion('aspect', '', '', 'widescreen', 'vertical');
+    expect(applySuggestion('A widescreen beach.', suggestion)).toBe('A vertical beach.');
+  });
+
+  it('removes a sentence without leaving a double space', () => {
+    const suggestion = createSuggestion('conflict', '', '', 'At night.', '');
+    expect(applySuggestion('A beach. At night. Waves.', suggestion)).toBe('A beach. Waves.');
+  });
+
+  it('keeps spacing outside the edit as typed', () => {
+    const suggestion = createSuggestion('aspect', '', '', 'widescreen', 'vertical');
+    expect(applySuggestion('A  widescreen beach.\n\n  Waves.', suggestion)).toBe(
+      'A vertical beach.\n\n  Waves.',
+    );
+  });
+
+  it('inserts replacement patterns literally', () => {
+    const suggestion = createSuggestion('aspect', '', '', 'cheap', 'a $& $1 deal');
+    expect(applySuggestion('A cheap serum.', suggestion)).toBe('A a $& $1 deal serum.');
+  });
+
+  it('returns null when the targeted text is gone', () => {
+    const suggestion = createSuggestion('aspect', '', '', 'widescreen', 'vertical');
+    expect(applySuggestion('A vertical beach.', suggestion)).toBeNull();
+  });
+
+  it('only applies a rewrite to the prompt it was made for', () => {
+    const rewrite = createSuggestion('enhance', '', '', 'A beach.', 'A beach at dawn.');
+    expect(applySuggestion(' A beach. ', rewrite)).toBe('A beach at dawn.');
+    expect(applySuggestion('A beach at night.', rewrite)).toBeNull();
+  });
+});
+
+describe('diffWords', () => {
+  it('marks added and removed words', () => {
+    expect(diffWords('A red car drives.', 'A blue car drives fast.')).toEqual([
+      {type: 'same', text: 'A '},
+      {type: 'removed', text: 'red '},
+      {type: 'added', text: 'blue '},
+      {type: 'same', text: 'car '},
+      {type: 'removed', text: 'drives.'},
+      {type: 'added', text: 'drives fast.'},
+    ]);
+  });
+
+  it('returns a single part for identical text', () => {
+    expect(diffWords('Same words here.', 'Same words here.')).toEqual([
+      {type: 'same', text: 'Same words here.'},
+    ]);
+  });
+});
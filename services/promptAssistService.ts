@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AspectRatio, PromptSuggestion, PromptSuggestionKind} from '../types';
+import {findSensitiveSentences} from './errorService';
+
+// Instructions that cannot both be followed. The second phrase of each pair
+// is the one suggested for removal.
+const CONFLICTING_PHRASES: [RegExp, RegExp][] = [
+  [/\bslow[- ]motion\b/i, /\b(fast[- ]paced|time[- ]lapse|sped[- ]up)\b/i],
+  [/\b(daytime|sunny|midday|noon)\b/i, /\b(night|midnight|moonlit)\b/i],
+  [/\b(static|locked[- ]off|still) (shot|camera)\b/i, /\b(tracking|dolly|pan(s|ning)?|handheld|orbit(s|ing)?)\b/i],
+  [/\bblack[- ]and[- ]white\b/i, /\b(colou?rful|vibrant|neon)\b/i],
+  [/\bsilent\b/i, /\b(music|dialogue|voiceover|soundtrack)\b/i],
+];
+
+// Framing words that fight the chosen aspect ratio, with a replacement.
+const ASPECT_MISMATCHES: Record<AspectRatio, [RegExp, string][]> = {
+  [AspectRatio.PORTRAIT]: [
+    [/\bwidescreen\b/i, 'vertical'],
+    [/\bpanoramic\b/i, 'tall'],
+    [/\blandscape (format|orientation|shot)\b/i, 'vertical $1'],
+    [/\b16:9\b/, '9:16'],
+  ],
+  [AspectRatio.LANDSCAPE]: [
+    [/\bvertical (video|format|shot|frame)\b/i, 'widescreen $1'],
+    [/\bportrait (format|orientation|mode)\b/i, 'landscape $1'],
+    [/\bselfie[- ]style\b/i, 'cinematic'],
+    [/\b9:16\b/, '16:9'],
+  ],
+};
+
+/**
+ * Creates a suggestion with a fresh id.
+ * @param kind What the suggestion addresses.
+ * @param title A short headline.
+ * @param explanation Why the change helps.
+ * @param before The text to replace; the whole prompt for rewrites.
+ * @param after The replacement, or an empty string to remove the text.
+ * @returns The suggestion.
+ */
+export const createSuggestion = (
+  kind: PromptSuggestionKind,
+  title: string,
+  explanation: string,
+  before: string,
+  after: string,
+): PromptSuggestion => ({id: crypto.randomUUID(), kind, title, explanation, before, after});
+
+const sentenceContaining = (text: string, index: number): string => {
+  const start = Math.max(
+    text.lastIndexOf('.', index - 1),
+    text.lastIndexOf('!', index - 1),
+    text.lastIndexOf('?', index - 1),
+  );
+  const ends = ['.', '!', '?']
+    .map((mark) => text.indexOf(mark, index))
+    .filter((position) => position >= 0);
+  const end = ends.length ? Math.min(...ends) + 1 : text.length;
+  return text.slice(start + 1, end).trim();
+};
+
+/**
+ * Checks a prompt without calling the model: conflicting instructions,
+ * topics the safety filter often blocks, and framing that fights the
+ * aspect ratio.
+ * @param prompt The prompt to check.
+ * @param aspectRatio The chosen aspect ratio.
+ * @returns A suggestion per problem found.
+ */
+export const lintPrompt = (
+  prompt: string,
+  aspectRatio: AspectRatio,
+): PromptSuggestion[] => {
+  const suggestions: PromptSuggestion[] = [];
+
+  for (const [first, second] of CONFLICTING_PHRASES) {
+    const firstMatch = prompt.match(first);
+    const secondMatch = prompt.match(second);
+    if (firstMatch && secondMatch && secondMatch.index !== undefined) {
+      suggestions.push(
+        createSuggestion(
+          'conflict',
+          `"${firstMatch[0]}" conflicts with "${secondMatch[0]}"`,
+          'The model cannot follow both instructions and may ignore one at random. Keep the one that matters most.',
+          sentenceContaining(prompt, secondMatch.index),
+          '',
+        ),
+      );
+    }
+  }
+
+  for (const {sentence, topic} of findSensitiveSentences(prompt)) {
+    suggestions.push(
+      createSuggestion(
+        'policy',
+        `May trip the safety filter (${topic})`,
+        'Prompts that mention this are often blocked. Reword or remove this part.',
+        sentence,
+        '',
+      ),
+    );
+  }
+
+  for (const [pattern, replacement] of ASPECT_MISMATCHES[aspectRatio]) {
+    const match = prompt.match(pattern);
+    if (match) {
+      suggestions.push(
+        createSuggestion(
+          'aspect',
+          `"${match[0]}" does not suit ${aspectRatio}`,
+          `The video will be ${aspectRatio === AspectRatio.PORTRAIT ? 'vertical' : 'widescreen'}, so describe the framing to match.`,
+          match[0],
+          match[0].replace(pattern, replacement),
+        ),
+      );
+    }
+  }
+
+  return suggestions;
+};
+
+/**
+ * Combines the model's suggestions with local ones, dropping local
+ * suggestions that target text the model already addressed.
+ * @param remote Suggestions from the model.
+ * @param local Suggestions from `lintPrompt`.
+ * @returns The combined list, rewrites first.
+ */
+export const mergeSuggestions = (
+  remote: PromptSuggestion[],
+  local: PromptSuggestion[],
+): PromptSuggestion[] => {
+  const targeted = new Set(
+    remote.filter((s) => s.kind !== 'enhance').map((s) => s.before.toLowerCase()),
+  );
+  return [
+    ...remote,
+    ...local.filter((s) => !targeted.has(s.before.toLowerCase())),
+  ].sort((a, b) => Number(b.kind === 'enhance') - Number(a.kind === 'enhance'));
+};
+
+/**
+ * Applies a suggestion to the current prompt.
+ * @param prompt The current prompt.
+ * @param suggestion The suggestion to apply.
+ * @returns The new prompt, or null if the text it targets is no longer there.
+ */
+export const applySuggestion = (
+  prompt: string,
+  suggestion: PromptSuggestion,
+): string | null => {
+  // Rewrites replace the whole prompt, so they only apply to the prompt they saw.
+  if (suggestion.kind === 'enhance') {
+    return prompt.trim() === suggestion.before.trim() ? suggestion.after : null;
+  }
+  const start = suggestion.before ? prompt.indexOf(suggestion.before) : -1;
+  if (start < 0) return null;
+  // A replacer function keeps `$&` and `$1` in the model's text literal.
+  const replaced = prompt.replace(suggestion.before, () => suggestion.after);
+  // Only tidy the spaces around the edit; the rest of the prompt stays as typed.
+  let from = start;
+  while (from > 0 && replaced[from - 1] === ' ') from--;
+  let to = start + suggestion.after.length;
+  while (to < replaced.length && replaced[to] === ' ') to++;
+  return (
+    replaced.slice(0, from) +
+    replaced.slice(from, to).replace(/ {2,}/g, ' ') +
+    replaced.slice(to)
+  ).trim();
+};
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Computes a word-level diff for display.
+ * @param before The original text.
+ * @param after The changed text.
+ * @returns The parts in order, each word kept with its trailing space.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(?<=\s)/);
+  const b = after.split(/(?<=\s)/);
+  // Longest common subsequence table, filled from the end.
+  const lcs = Array.from({length: a.length + 1}, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i].trim() === b[j].trim()
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({type, text});
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts.filter((part) => part.text);
+};
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  applyNoiseGate,
+  computeIntegratedLoudness,
+  findSoundBounds,
+} from './recordingService';
+
+// Small rates keep the buffers short; every helper works in seconds.
+const SAMPLE_RATE = 1000;
+
+// Builds audio from [seconds, level] parts, alternating sign like a tone.
+const signal = (...parts: [number, number][]): Float32Array => {
+  const samples: number[] = [];
+  for (const [seconds, level] of parts) {
+    for (let i = 0; i < seconds * SAMPLE_RATE; i++) samples.push(i % 2 ? -level : level);
+  }
+  return Float32Array.from(samples);
+};
+
+describe('findSoundBounds', () => {
+  it('keeps the sound with some padding either side', () => {
+    const samples = signal([0.5, 0], [0.2, 0.5], [1.3, 0]);
+    expect(findSoundBounds(samples, SAMPLE_RATE)).toEqual({start: 350, end: 850});
+  });
+
+  it('does not pad past the ends', () => {
+    const samples = signal([0.1, 0.5], [0.5, 0], [0.1, 0.5]);
+    expect(findSoundBounds(samples, SAMPLE_RATE)).toEqual({start: 0, end: 700});
+  });
+
+  it('is null for silence', () => {
+    expect(findSoundBounds(signal([1, 0.001]), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('applyNoiseGate', () => {
+  const samples = signal([0.3, 0.001], [0.3, 0.5], [0.4, 0.001]);
+
+  it('turns down the noise between phrases and keeps the speech', () => {
+    const gated = applyNoiseGate(samples, SAMPLE_RATE);
+    expect(Math.abs(gated[250] / samples[250])).toBeCloseTo(0.05, 2);
+    expect(Math.abs(gated[550] / samples[550])).toBeCloseTo(1, 2);
+    // Released after the hold, though not all the way to the floor yet.
+    expect(Math.abs(gated[999] / samples[999])).toBeLessThan(0.15);
+  });
+
+  it('leaves the input untouched', () => {
+    const copy = samples.slice();
+    applyNoiseGate(samples, SAMPLE_RATE);
+    expect(samples).toEqual(copy);
+  });
+});
+
+describe('computeIntegratedLoudness', () => {
+  it('measures a steady signal', () => {
+    expect(computeIntegratedLoudness(signal([1, 0.1]), SAMPLE_RATE)).toBeCloseTo(-20.691, 3);
+  });
+
+  it('rises by about 6 LU when the level doubles', () => {
+    const quiet = computeIntegratedLoudness(signal([1, 0.1]), SAMPLE_RATE);
+    const loud = computeIntegratedLoudness(signal([1, 0.2]), SAMPLE_RATE);
+    expect(loud - quiet).toBeCloseTo(6.02, 2);
+  });
+
+  it('measures audio shorter than one block', () => {
+    expect(computeIntegratedLoudness(signal([0.2, 0.1]), SAMPLE_RATE)).toBeCloseTo(-20.691, 3);
+  });
+
+  it('is -Infinity for silence', () => {
+    expect(computeIntegratedLoudness(signal([1, 0]), SAMPLE_RATE)).toBe(-Infinity);
+    expect(computeIntegratedLoudness(new Float32Array(), SAMPLE_RATE)).toBe(-Infinity);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {RecordingCleanup} from '../types';
+import {audioBufferToStored, storedAudioToWav} from '../utils';
+
+// Cleans up microphone recordings: high-pass, noise gate, silence trim and
+// loudness normalization, in that order. Recordings are mixed down to mono,
+// since a voiceover has no use for stereo.
+
+export const DEFAULT_RECORDING_CLEANUP: RecordingCleanup = {
+  trimSilence: true,
+  normalize: true,
+  targetLufs: -16, // Typical for voice on social and web video
+  noiseGate: true,
+  highPass: true,
+};
+
+const HIGH_PASS_HZ = 80;
+const WINDOW_SECONDS = 0.01;
+const GATE_THRESHOLD_DB = -50;
+const GATE_FLOOR = 0.05; // About -26 dB, so the gate never sounds like a dropout
+const GATE_HOLD_SECONDS = 0.08;
+const GATE_ATTACK_SECONDS = 0.005;
+const GATE_RELEASE_SECONDS = 0.1;
+const TRIM_THRESHOLD_DB = -45;
+const TRIM_PADDING_SECONDS = 0.15;
+const PEAK_CEILING = 0.89; // -1 dBFS, to leave headroom after encoding
+// BS.1770 loudness blocks: 400 ms, overlapping by 75%.
+const LOUDNESS_BLOCK_SECONDS = 0.4;
+const LOUDNESS_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = 10;
+
+const toDb = (value: number) => 20 * Math.log10(Math.max(value, 1e-9));
+
+/**
+ * Measures the RMS level of short windows of audio.
+ * @param samples The audio.
+ * @param sampleRate Its sample rate.
+ * @returns The level of each window, in dBFS.
+ */
+const windowLevels = (samples: Float32Array, sampleRate: number): number[] => {
+  const size = Math.max(1, Math.round(sampleRate * WINDOW_SECONDS));
+  const levels: number[] = [];
+  for (let from = 0; from < samples.length; from += size) {
+    const to = Math.min(from + size, samples.length);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    levels.push(toDb(Math.sqrt(sum / (to - from))));
+  }
+  return levels;
+};
+
+/**
+ * Finds where sound starts and ends, with a little padding either side.
+ * @param samples The audio.
+ * @param sampleRate Its sample rate.
+ * @returns The first and one-past-last sample to keep, or null if all silent.
+ */
+export const findSoundBounds = (
+  samples: Float32Array,
+  sampleRate: number,
+): {start: number; end: number} | null => {
+  const levels = windowLevels(samples, sampleRate);
+  const first = levels.findIndex((level) => level > TRIM_THRESHOLD_DB);
+  if (first === -1) return null;
+  let last = levels.length - 1;
+  while (levels[last] <= TRIM_THRESHOLD_DB) last--;
+
+  const size = Math.round(sampleRate * WINDOW_SECONDS);
+  const padding = Math.round(sampleRate * TRIM_PADDING_SECONDS);
+  return {
+    start: Math.max(0, first * size - padding),
+    end: Math.min(samples.length, (last + 1) * size + padding),
+  };
+};
+
+/**
+ * Turns down audio between phrases, where only background noise is left.
+ * @param samples The audio; not modified.
+ * @param sampleRate Its sample rate.
+ * @returns The gated audio.
+ */
+export const applyNoiseGate = (samples: Float32Array, sampleRate: number): Float32Array => {
+  const levels = windowLevels(samples, sampleRate);
+  const size = Math.max(1, Math.round(sampleRate * WINDOW_SECONDS));
+  const holdWindows = Math.round(GATE_HOLD_SECONDS / WINDOW_SECONDS);
+  const attack = 1 - Math.exp(-1 / (GATE_ATTACK_SECONDS * sampleRate));
+  const release = 1 - Math.exp(-1 / (GATE_RELEASE_SECONDS * sampleRate));
+
+  const output = new Float32Array(samples.length);
+  let gain = GATE_FLOOR;
+  let openUntil = -1;
+  for (let w = 0; w < levels.length; w++) {
+    if (levels[w] > GATE_THRESHOLD_DB) openUntil = w + holdWindows;
+    const target = w <= openUntil ? 1 : GATE_FLOOR;
+    for (let i = w * size; i < Math.min((w + 1) * size, samples.length); i++) {
+      gain += (target - gain) * (target > gain ? attack : release);
+      output[i] = samples[i] * gain;
+    }
+  }
+  return output;
+};
+
+/**
+ * Computes integrated loudness per ITU-R BS.1770 from audio that has
+ * already been K-weighted.
+ * @param weighted The K-weighted audio.
+ * @param sampleRate Its sample rate.
+ * @returns The loudness in LUFS, or -Infinity for silence.
+ */
+export const computeIntegratedLoudness = (weighted: Float32Array, sampleRate: number): number => {
+  const block = Math.round(sampleRate * LOUDNESS_BLOCK_SECONDS);
+  const step = Math.round(sampleRate * LOUDNESS_STEP_SECONDS);
+  const powers: number[] = [];
+  for (let from = 0; from + block <= weighted.length; from += step) {
+    let sum = 0;
+    for (let i = from; i < from + block; i++) sum += weighted[i] * weighted[i];
+    powers.push(sum / block);
+  }
+  if (powers.length === 0 && weighted.length > 0) {
+    // Shorter than one block: measure what there is.
+    powers.push(weighted.reduce((sum, value) => sum + value * value, 0) / weighted.length);
+  }
+
+  const loudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const audible = powers.filter((power) => loudness(power) > ABSOLUTE_GATE_LUFS);
+  if (audible.length === 0) return -Infinity;
+  const relativeGate = loudness(mean(audible)) - RELATIVE_GATE_LU;
+  const gated = audible.filter((power) => loudness(power) > relativeGate);
+  return loudness(mean(gated));
+};
+
+/**
+ * Runs audio through a chain of filters.
+ * @param samples The audio.
+ * @param sampleRate Its sample rate.
+ * @param createFilters Builds the filters, in order, on the given context.
+ * @returns A promise that resolves with the filtered audio.
+ */
+const filterSamples = async (
+  samples: Float32Array,
+  sampleRate: number,
+  createFilters: (ctx: OfflineAudioContext) => AudioNode[],
+): Promise<Float32Array> => {
+  const ctx = new OfflineAudioContext(1, Math.max(1, samples.length), sampleRate);
+  const input = ctx.createBuffer(1, Math.max(1, samples.length), sampleRate);
+  input.copyToChannel(samples, 0);
+  const source = ctx.createBufferSource();
+  source.buffer = input;
+  const last = createFilters(ctx).reduce<AudioNode>((node, filter) => node.connect(filter), source);
+  last.connect(ctx.destination);
+  source.start();
+  return (await ctx.startRendering()).getChannelData(0);
+};
+
+/**
+ * Measures the integrated loudness of mono audio.
+ * @param samples The audio.
+ * @param sampleRate Its sample rate.
+ * @returns A promise that resolves with the loudness in LUFS.
+ */
+const measureSamples = async (samples: Float32Array, sampleRate: number): Promise<number> => {
+  // The two-stage K-weighting filter, approximated with standard biquads.
+  const weighted = await filterSamples(samples, sampleRate, (ctx) => {
+    const shelf = ctx.createBiquadFilter();
+    shelf.type = 'highshelf';
+    shelf.frequency.value = 1681;
+    shelf.gain.value = 4;
+    const highPass = ctx.createBiquadFilter();
+    highPass.type = 'highpass';
+    highPass.frequency.value = 38;
+    highPass.Q.value = 0.5;
+    return [shelf, highPass];
+  });
+  return computeIntegratedLoudness(weighted, sampleRate);
+};
+
+const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+/**
+ * Measures the integrated loudness of a recording.
+ * @param buffer The recording.
+ * @returns A promise that resolves with the loudness in LUFS.
+ */
+export const measureLoudness = (buffer: AudioBuffer): Promise<number> =>
+  measureSamples(mixToMono(buffer), buffer.sampleRate);
+
+/**
+ * Cleans up a recording.
+ * @param buffer The raw recording.
+ * @param cleanup Which steps to apply.
+ * @returns A promise that resolves with the cleaned, mono recording.
+ */
+export const cleanRecording = async (
+  buffer: AudioBuffer,
+  cleanup: RecordingCleanup,
+): Promise<AudioBuffer> => {
+  const {sampleRate} = buffer;
+  let samples = mixToMono(buffer);
+
+  if (cleanup.highPass) {
+    samples = await filterSamples(samples, sampleRate, (ctx) => {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'highpass';
+      filter.frequency.value = HIGH_PASS_HZ;
+      return [filter];
+    });
+  }
+  if (cleanup.noiseGate) {
+    samples = applyNoiseGate(samples, sampleRate);
+  }
+  if (cleanup.trimSilence) {
+    const bounds = findSoundBounds(samples, sampleRate);
+    if (bounds) samples = samples.slice(bounds.start, bounds.end);
+  }
+  if (cleanup.normalize) {
+    const loudness = await measureSamples(samples, sampleRate);
+    if (Number.isFinite(loudness)) {
+      let peak = 0;
+      for (const value of samples) peak = Math.max(peak, Math.abs(value));
+      // Never push peaks into clipping, even if that leaves it a little quiet.
+      const gain = Math.min(
+        10 ** ((cleanup.targetLufs - loudness) / 20),
+        peak > 0 ? PEAK_CEILING / peak : 1,
+      );
+      samples = samples.map((value) => value * gain);
+    }
+  }
+
+  const cleaned = new AudioBuffer({length: Math.max(1, samples.length), numberOfChannels: 1, sampleRate});
+  cleaned.copyToChannel(samples, 0);
+  return cleaned;
+};
+
+/**
+ * Encodes a recording as a WAV file, e.g. to hand a cleaned take to the
+ * pipeline in place of the raw one.
+ * @param buffer The recording.
+ * @returns The WAV file.
+ */
+export const audioBufferToWavBlob = (buffer: AudioBuffer): Blob =>
+  new Blob([storedAudioToWav(audioBufferToStored(buffer))], {type: 'audio/wav'});
@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {CaptionCue, CaptionStyle, FitMode, OverlayElement, SafeZone} from '../types';
+import {createAudioContext, resolveMediaDuration, withWebmDuration} from '../utils';
+import {DEFAULT_CAPTION_STYLE, getActiveCue} from './captionService';
+import {computeFitRect} from './exportService';
+import {drawOverlays, loadOverlayImages} from './overlayService';
+
+// Renders a clip and its voiceover into a single file in the browser. The
+// video is played into a canvas and recorded with MediaRecorder together with
+// the voiceover, mixed through Web Audio. Rendering runs in real time.
+
+const RENDER_FPS = 30;
+
+export interface RenderOptions {
+  videoUrl: string;
+  voiceover?: AudioBuffer | null;
+  voiceoverGain?: number; // Linear gain, 1 is unchanged
+  voiceoverOffset?: number; // Seconds; positive delays the voiceover
+  captions?: CaptionCue[]; // Burned into the picture when given
+  captionStyle?: CaptionStyle;
+  overlays?: OverlayElement[]; // Text and logo elements, e.g. the end card
+  // Reframes the clip into a frame of this size instead of its own.
+  output?: {width: number; height: number; fit: FitMode; focus?: number};
+  safeZone?: SafeZone; // Keeps captions clear of the platform's interface
+  maxDuration?: number; // Seconds; longer clips are cut off
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Picks the best container the browser can record, preferring MP4.
+ * @returns A MediaRecorder mime type, or an empty string for the default.
+ */
+export const getRecordingMimeType = (): string =>
+  [
+    'video/mp4;codecs=avc1,mp4a.40.2',
+    'video/mp4',
+    'video/webm;codecs=vp9,opus',
+    'video/webm',
+  ].find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+
+/**
+ * Maps a video mime type to a file extension for downloads.
+ * @param mimeType The blob's type.
+ * @returns `mp4` or `webm`.
+ */
+export const getVideoExtension = (mimeType: string): string =>
+  mimeType.includes('webm') ? 'webm' : 'mp4';
+
+/**
+ * Loads a video into a detached element, ready to play.
+ * @param url The video source.
+ * @returns A promise that resolves once metadata is available.
+ */
+const loadVideo = (url: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.src = url;
+    video.muted = true; // Unmuted by the render when there is no voiceover
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('Could not load the video for rendering.'));
+  });
+
+/**
+ * Draws a caption centred near the top or bottom of the frame, wrapping it
+ * to fit the width.
+ * @param ctx The canvas to draw on.
+ * @param text The caption.
+ * @param style How to draw it.
+ * @param safeZone The edges to keep clear, if any.
+ */
+const drawCaption = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  style: CaptionStyle,
+  safeZone?: SafeZone,
+) => {
+  const {width, height} = ctx.canvas;
+  const fontSize = Math.round(height * style.fontScale);
+  const padding = fontSize * 0.4;
+  // Centre within the safe zone when there is one.
+  const left = safeZone ? width * safeZone.left : width * 0.075;
+  const right = safeZone ? width * (1 - safeZone.right) : width * 0.925;
+  const maxWidth = right - left;
+  const centerX = (left + right) / 2;
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const lines: string[] = [];
+  for (const word of text.split(' ')) {
+    const last = lines[lines.length - 1];
+    if (last && ctx.measureText(`${last} ${word}`).width <= maxWidth) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+
+  const lineHeight = fontSize * 1.25;
+  const blockHeight = lines.length * lineHeight;
+  const margin = height * Math.max(0.08, safeZone ? safeZone[style.position] : 0);
+  const top = style.position === 'top' ? margin : height - margin - blockHeight;
+  lines.forEach((line, index) => {
+    const y = top + index * lineHeight + lineHeight / 2;
+    if (style.background !== 'transparent') {
+      const lineWidth = ctx.measureText(line).width + padding * 2;
+      ctx.fillStyle = style.background;
+      ctx.fillRect(centerX - lineWidth / 2, y - lineHeight / 2, lineWidth, lineHeight);
+    }
+    ctx.fillStyle = style.color;
+    ctx.fillText(line, centerX, y);
+  });
+};
+
+/**
+ * Schedules a voiceover on an audio graph relative to the clip's start.
+ * @param ctx The audio context.
+ * @param buffer The voiceover.
+ * @param destination Where to send it.
+ * @param gain Linear gain.
+ * @param offset Seconds to delay (or, if negative, skip into) the voiceover.
+ * @param videoTime The point in the video that playback starts from.
+ * @returns The scheduled source node.
+ */
+export const scheduleVoiceover = (
+  ctx: BaseAudioContext,
+  buffer: AudioBuffer,
+  destination: AudioNode,
+  gain: number,
+  offset: number,
+  videoTime = 0,
+): AudioBufferSourceNode => {
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const gainNode = ctx.createGain();
+  gainNode.gain.value = gain;
+  source.connect(gainNode).connect(destination);
+
+  // Where in the voiceover we are at the given point of the video.
+  const position = videoTime - offset;
+  if (position >= 0) {
+    source.start(ctx.currentTime, position);
+  } else {
+    source.start(ctx.currentTime - position, 0);
+  }
+  return source;
+};
+
+/**
+ * Renders the video with its voiceover burned into the audio track and,
+ * optionally, captions and overlays burned into the picture and the clip
+ * reframed for another aspect ratio.
+ * @param options The clip, voiceover, captions, overlays, framing and mix settings.
+ * @returns A promise that resolves with the rendered file.
+ */
+export const renderVideoWithAudio = async ({
+  videoUrl,
+  voiceover,
+  voiceoverGain = 1,
+  voiceoverOffset = 0,
+  captions,
+  captionStyle = DEFAULT_CAPTION_STYLE,
+  overlays = [],
+  output,
+  safeZone,
+  maxDuration,
+  signal,
+  onProgress,
+}: RenderOptions): Promise<Blob> => {
+  const video = await loadVideo(videoUrl);
+  const duration = await resolveMediaDuration(video);
+  const overlayImages = await loadOverlayImages(overlays);
+  const canvas = document.createElement('canvas');
+  canvas.width = output?.width ?? video.videoWidth;
+  canvas.height = output?.height ?? video.videoHeight;
+  const rect = computeFitRect(
+    video.videoWidth,
+    video.videoHeight,
+    canvas.width,
+    canvas.height,
+    output?.fit ?? 'crop',
+    output?.focus,
+  );
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not supported in this browser.');
+  }
+
+  const audioContext = createAudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  // The voiceover mix replaces the clip's own audio; without one, keep it.
+  if (!voiceover) {
+    video.muted = false;
+    audioContext.createMediaElementSource(video).connect(audioDestination);
+  }
+  const stream = new MediaStream([
+    ...canvas.captureStream(RENDER_FPS).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+
+  const mimeType = getRecordingMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? {mimeType} : {});
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const endTime = Math.min(duration || Infinity, maxDuration ?? Infinity);
+  let frameHandle = 0;
+  const drawFrame = () => {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(video, rect.sx, rect.sy, rect.sw, rect.sh, rect.dx, rect.dy, rect.dw, rect.dh);
+    drawOverlays(ctx, overlays, video.currentTime, overlayImages);
+    const cue = captions && getActiveCue(captions, video.currentTime);
+    if (cue) {
+      drawCaption(ctx, cue.text, captionStyle, safeZone);
+    }
+    if (Number.isFinite(endTime)) {
+      onProgress?.(Math.min(1, video.currentTime / endTime));
+    }
+    if (video.currentTime >= endTime && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+    frameHandle = requestAnimationFrame(drawFrame);
+  };
+
+  const cleanup = () => {
+    cancelAnimationFrame(frameHandle);
+    video.pause();
+    stream.getTracks().forEach((track) => track.stop());
+    audioContext.close();
+  };
+
+  return new Promise<Blob>((resolve, reject) => {
+    const onAbort = () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    signal?.addEventListener('abort', onAbort, {once: true});
+
+    recorder.onstop = () => {
+      signal?.removeEventListener('abort', onAbort);
+      cleanup();
+      if (signal?.aborted) {
+        reject(new DOMException('Rendering was cancelled.', 'AbortError'));
+        return;
+      }
+      onProgress?.(1);
+      // Recordings carry no length of their own; give them the one played.
+      resolve(
+        withWebmDuration(
+          new Blob(chunks, {type: recorder.mimeType || 'video/webm'}),
+          Math.min(video.currentTime, endTime),
+        ),
+      );
+    };
+    video.onended = () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+
+    (async () => {
+      try {
+        await audioContext.resume();
+        drawFrame();
+        recorder.start();
+        if (voiceover) {
+          scheduleVoiceover(
+            audioContext,
+            voiceover,
+            audioDestination,
+            voiceoverGain,
+            voiceoverOffset,
+          );
+        }
+        await video.play();
+      } catch (error) {
+        signal?.removeEventListener('abort', onAbort);
+        cleanup();
+        reject(error);
+      }
+    })();
+  });
+};
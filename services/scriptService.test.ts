@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {GenerateVideoParams, ScriptOptions} from '../types';
+import {
+  createScriptAlternatives,
+  estimateSpokenSeconds,
+  getScriptLanguageCode,
+  getTargetScriptSeconds,
+  getWordBudget,
+} from './scriptService';
+
+describe('estimateSpokenSeconds', () => {
+  it('counts words and the pauses between sentences', () => {
+    expect(estimateSpokenSeconds('One two three four five.')).toBe(2);
+    expect(estimateSpokenSeconds('Hi there. Buy now.')).toBe(1.9);
+  });
+
+  it('counts characters for languages written without spaces', () => {
+    expect(estimateSpokenSeconds('こんにちは')).toBe(0.8);
+  });
+});
+
+describe('getTargetScriptSeconds', () => {
+  const params = {prompt: 'A serum bottle'} as GenerateVideoParams;
+
+  it('covers the first clip and every extension', () => {
+    expect(getTargetScriptSeconds(params)).toBe(8);
+    expect(getTargetScriptSeconds({...params, autoExtend: true}, 3)).toBe(29);
+  });
+
+  it('covers the video being extended plus the new part', () => {
+    const extension = {...params, inputVideoObject: {}} as GenerateVideoParams;
+    expect(getTargetScriptSeconds(extension, 1, 15.2)).toBe(22);
+  });
+});
+
+describe('getWordBudget', () => {
+  it('never asks for fewer than three words', () => {
+    expect(getWordBudget(8)).toBe(20);
+    expect(getWordBudget(0.5)).toBe(3);
+  });
+});
+
+describe('createScriptAlternatives', () => {
+  const options: ScriptOptions = {
+    targetSeconds: 2,
+    tone: 'neutral',
+    callToAction: '',
+    language: 'English',
+  };
+
+  it('drops blanks and repeats, closest to the target length first', () => {
+    const alternatives = createScriptAlternatives(
+      ['One two.', ' ', 'One two three four five.', 'One two.  '],
+      options,
+    );
+    expect(alternatives.map((alt) => alt.text)).toEqual(['One two three four five.', 'One two.']);
+  });
+
+  it('times dialogues without their speaker labels', () => {
+    const [alternative] = createScriptAlternatives(['Host: One two three four five.'], {
+      ...options,
+      speakers: ['Host', 'Guest'],
+    });
+    expect(alternative.estimatedSeconds).toBe(2);
+  });
+});
+
+describe('getScriptLanguageCode', () => {
+  it('maps a script language to its code', () => {
+    expect(getScriptLanguageCode('Spanish')).toBe('es');
+  });
+
+  it('assumes English for scripts written by hand', () => {
+    expect(getScriptLanguageCode(undefined)).toBe('en');
+    expect(getScriptLanguageCode('Klingon')).toBe('en');
+  });
+});
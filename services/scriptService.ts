@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideoParams, ScriptAlternative, ScriptOptions, ScriptTone} from '../types';
+import {getSpokenText} from './dialogueService';
+import {EXTENSION_SECONDS, INITIAL_CLIP_SECONDS} from './usageService';
+
+// Spoken length is estimated from the text at a natural ad-read pace, so a
+// script can be checked against the clip before any audio is generated.
+
+export const SCRIPT_ALTERNATIVE_COUNT = 3;
+const WORDS_PER_SECOND = 2.5;
+// Languages written without spaces are counted per character instead.
+const CHARACTERS_PER_SECOND = 6;
+const CHARACTER_SCRIPT_PATTERN = /[぀-ヿ㐀-鿿가-힯]/g;
+const PAUSE_SECONDS = 0.3; // After each sentence
+
+export const SCRIPT_TONES: {value: ScriptTone; label: string; direction: string}[] = [
+  {value: 'neutral', label: 'Punchy', direction: 'Punchy, upbeat and memorable.'},
+  {
+    value: 'humorous',
+    label: 'Humorous',
+    direction: 'Light and funny, with a playful twist, but never mocking the customer.',
+  },
+  {
+    value: 'premium',
+    label: 'Premium',
+    direction: 'Calm, confident and refined. Understated luxury; no exclamation marks.',
+  },
+  {
+    value: 'urgent',
+    label: 'Urgent',
+    direction: 'High energy with a sense of urgency, e.g. a limited-time reason to act now.',
+  },
+];
+
+// The code is the BCP 47 tag used for caption tracks.
+export const SCRIPT_LANGUAGES: {language: string; code: string}[] = [
+  {language: 'English', code: 'en'},
+  {language: 'Spanish', code: 'es'},
+  {language: 'French', code: 'fr'},
+  {language: 'German', code: 'de'},
+  {language: 'Italian', code: 'it'},
+  {language: 'Portuguese', code: 'pt'},
+  {language: 'Dutch', code: 'nl'},
+  {language: 'Japanese', code: 'ja'},
+  {language: 'Korean', code: 'ko'},
+  {language: 'Chinese', code: 'zh'},
+  {language: 'Hindi', code: 'hi'},
+];
+
+/**
+ * Looks up the language code for a script language.
+ * @param language The language in English, e.g. "Spanish".
+ * @returns The code, or `en` for scripts written without the script writer.
+ */
+export const getScriptLanguageCode = (language?: string): string =>
+  SCRIPT_LANGUAGES.find((l) => l.language === language)?.code ?? 'en';
+
+/**
+ * Works out how long the finished video will be, which is how long the
+ * voiceover should be.
+ * @param params The params for the ad.
+ * @param sceneCount How many storyboard scenes there are, or 1.
+ * @param sourceSeconds The length of the video being extended, if known.
+ * @returns The length in seconds.
+ */
+export const getTargetScriptSeconds = (
+  params: GenerateVideoParams,
+  sceneCount = 1,
+  sourceSeconds?: number,
+): number => {
+  if (params.inputVideoObject) {
+    return Math.round((sourceSeconds ?? INITIAL_CLIP_SECONDS) + EXTENSION_SECONDS);
+  }
+  const extensions = sceneCount - 1 + (params.autoExtend ? 1 : 0);
+  return INITIAL_CLIP_SECONDS + extensions * EXTENSION_SECONDS;
+};
+
+/**
+ * Estimates how long a script takes to say.
+ * @param text The spoken words, without speaker labels.
+ * @returns The estimate in seconds.
+ */
+export const estimateSpokenSeconds = (text: string): number => {
+  const characters = text.match(CHARACTER_SCRIPT_PATTERN)?.length ?? 0;
+  const words = text
+    .replace(CHARACTER_SCRIPT_PATTERN, ' ')
+    .split(/\s+/)
+    .filter((word) => /\w/.test(word)).length;
+  const sentences = text.split(/[.!?。！？]+/).filter((part) => part.trim()).length;
+  const seconds =
+    words / WORDS_PER_SECOND +
+    characters / CHARACTERS_PER_SECOND +
+    Math.max(0, sentences - 1) * PAUSE_SECONDS;
+  return Math.round(seconds * 10) / 10;
+};
+
+/**
+ * The most words that fit in a duration at a natural pace.
+ * @param seconds The duration.
+ * @returns The word count.
+ */
+export const getWordBudget = (seconds: number): number =>
+  Math.max(3, Math.floor(seconds * WORDS_PER_SECOND));
+
+/**
+ * Turns generated script texts into alternatives with spoken-length estimates.
+ * @param texts The scripts, as returned by the model.
+ * @param options The options they were written for.
+ * @returns The distinct, non-empty scripts, closest to the target length first.
+ */
+export const createScriptAlternatives = (
+  texts: string[],
+  options: ScriptOptions,
+): ScriptAlternative[] => {
+  const unique = [...new Set(texts.map((text) => text.trim()).filter(Boolean))];
+  return unique
+    .map((text) => ({
+      text,
+      estimatedSeconds: estimateSpokenSeconds(options.speakers ? getSpokenText(text) : text),
+    }))
+    .sort(
+      (a, b) =>
+        Math.abs(a.estimatedSeconds - options.targetSeconds) -
+        Math.abs(b.estimatedSeconds - options.targetSeconds),
+    );
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  GenerateVideoParams,
+  GeneratedVideo,
+  Resolution,
+  StoryboardSegment,
+} from '../types';
+import {MAX_STORYBOARD_SCENES, createSegments, paramsForSegment} from './storyboardService';
+
+describe('createSegments', () => {
+  it('makes a pending segment per non-empty prompt', () => {
+    const segments = createSegments(['  Opening shot ', '', '   ', 'Close-up']);
+    expect(segments.map(({prompt, status}) => [prompt, status])).toEqual([
+      ['Opening shot', 'pending'],
+      ['Close-up', 'pending'],
+    ]);
+    expect(segments[0].id).not.toBe(segments[1].id);
+  });
+
+  it('stops at the scene limit', () => {
+    const prompts = Array.from({length: MAX_STORYBOARD_SCENES + 2}, (_, i) => `Scene ${i}`);
+    expect(createSegments(prompts)).toHaveLength(MAX_STORYBOARD_SCENES);
+  });
+});
+
+describe('paramsForSegment', () => {
+  const base = {
+    prompt: 'The brief',
+    resolution: Resolution.P1080,
+    autoExtend: true,
+    referenceImages: [{}],
+  } as GenerateVideoParams;
+  const previous = {video: {uri: 'videos/1'}} as GeneratedVideo;
+  const segments: StoryboardSegment[] = [
+    {id: '1', prompt: 'Opening shot', status: 'done', video: previous},
+    {id: '2', prompt: 'Close-up', status: 'pending'},
+  ];
+
+  it('generates the first scene from the brief with its own prompt', () => {
+    expect(paramsForSegment(base, segments, 0)).toMatchObject({
+      prompt: 'Opening shot',
+      resolution: Resolution.P1080,
+      autoExtend: false,
+      referenceImages: [{}],
+    });
+  });
+
+  it('extends the previous scene for later scenes', () => {
+    expect(paramsForSegment(base, segments, 1)).toMatchObject({
+      prompt: 'Close-up',
+      resolution: Resolution.P720,
+      autoExtend: false,
+      referenceImages: [],
+      inputVideoObject: previous.video,
+    });
+  });
+
+  it('needs the previous scene to be generated first', () => {
+    const pending = segments.map((segment) => ({...segment, video: undefined}));
+    expect(() => paramsForSegment(base, pending, 1)).toThrow(
+      'Scene 1 must be generated before scene 2.',
+    );
+  });
+});
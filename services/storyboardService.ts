@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GenerateVideoParams,
+  GenerationProvider,
+  Resolution,
+  StoryboardSegment,
+} from '../types';
+import {describeError} from './errorService';
+import {isAbortError} from './operationService';
+import {runVideoStage} from './pipelineService';
+
+// Veo can extend a clip a limited number of times; keep storyboards well inside it.
+export const MAX_STORYBOARD_SCENES = 8;
+
+/**
+ * Creates storyboard segments from an ordered list of scene prompts.
+ * @param prompts The scene prompts, first scene first.
+ * @returns Pending segments, one per non-empty prompt.
+ */
+export const createSegments = (prompts: string[]): StoryboardSegment[] =>
+  prompts
+    .map((prompt) => prompt.trim())
+    .filter(Boolean)
+    .slice(0, MAX_STORYBOARD_SCENES)
+    .map((prompt) => ({id: crypto.randomUUID(), prompt, status: 'pending'}));
+
+/**
+ * Builds the generation params for one segment. The first scene is generated
+ * from the brief; later scenes extend the previous scene's clip.
+ * @param base The params from the form.
+ * @param segments All segments, with earlier ones already generated.
+ * @param index The segment to build params for.
+ * @returns The params for that segment.
+ */
+export const paramsForSegment = (
+  base: GenerateVideoParams,
+  segments: StoryboardSegment[],
+  index: number,
+): GenerateVideoParams => {
+  const prompt = segments[index].prompt;
+  if (index === 0) {
+    return {...base, prompt, autoExtend: false};
+  }
+  const previous = segments[index - 1].video;
+  if (!previous) {
+    throw new Error(`Scene ${index} must be generated before scene ${index + 1}.`);
+  }
+  return {
+    ...base,
+    prompt,
+    autoExtend: false,
+    referenceImages: [], // Not supported when extending
+    startFrame: undefined,
+    endFrame: undefined,
+    inputVideoObject: previous.video,
+    resolution: Resolution.P720, // Extension requires 720p
+  };
+};
+
+/**
+ * Generates storyboard segments in order, starting at `fromIndex`. Earlier
+ * segments are kept as they are. Stops at the first failure because every
+ * later segment depends on it.
+ * @param provider The backend to generate with.
+ * @param base The params from the form.
+ * @param segments The current segments.
+ * @param fromIndex The first segment to (re)generate.
+ * @param onUpdate Receives the updated segment list after every change.
+ * @param signal An optional signal that stops generation.
+ * @returns A promise that resolves with the final segment list.
+ */
+export const generateStoryboard = async (
+  provider: GenerationProvider,
+  base: GenerateVideoParams,
+  segments: StoryboardSegment[],
+  fromIndex: number,
+  onUpdate: (segments: StoryboardSegment[]) => void,
+  signal?: AbortSignal,
+): Promise<StoryboardSegment[]> => {
+  // Everything from `fromIndex` on is stale once an earlier scene changes.
+  let current: StoryboardSegment[] = segments.map((segment, index) =>
+    index >= fromIndex
+      ? {...segment, status: 'pending', error: undefined, video: undefined}
+      : segment,
+  );
+  const update = (index: number, patch: Partial<StoryboardSegment>) => {
+    current = current.map((segment, i) => (i === index ? {...segment, ...patch} : segment));
+    onUpdate(current);
+  };
+  onUpdate(current);
+
+  for (let index = fromIndex; index < current.length; index++) {
+    update(index, {status: 'running'});
+    try {
+      // Saved like any other job, so a scene still running at a reload can be resumed.
+      const video = await runVideoStage(
+        provider,
+        index === 0 ? 'initial' : 'extend',
+        paramsForSegment(base, current, index),
+        {signal},
+      );
+      update(index, {status: 'done', video});
+    } catch (error) {
+      const message = isAbortError(error) ? 'Cancelled.' : describeError(error);
+      update(index, {status: 'error', error: message});
+      throw error;
+    }
+  }
+  return current;
+};
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideoParams, GenerationOptions, GenerationProvider} from '../types';
+
+// Shared by the service tests; not part of the app.
+
+interface TestProviderOptions extends Partial<GenerationProvider> {
+  hasStarted?: boolean; // Whether the video job starts before it ends
+}
+
+/**
+ * Creates a provider whose video job starts as `operations/1`, then ends the
+ * way the test says. Resuming the job ends it the same way.
+ * @param finish Ends the job, e.g. with a video or a rejection.
+ * @param options The provider id, whether the job starts, and any methods
+ *     to replace.
+ * @returns The provider.
+ */
+export const createProvider = (
+  finish: () => Promise<unknown>,
+  {hasStarted = true, ...overrides}: TestProviderOptions = {},
+): GenerationProvider =>
+  ({
+    id: 'test',
+    generateVideo: async (_params: GenerateVideoParams, options: GenerationOptions) => {
+      if (hasStarted) options.onOperationStarted?.('operations/1');
+      return finish();
+    },
+    resumeVideo: async () => finish(),
+    ...overrides,
+  }) as unknown as GenerationProvider;
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {GenerateVideoParams, Resolution, UsageRecord, VideoModel} from '../types';
+import {dbGetAll, dbPut} from './dbService';
+import {getPendingOperations} from './operationService';
+import {createProvider} from './testProviders';
+import {
+  checkBudget,
+  DEFAULT_PRICE_TABLE,
+  getSpendTotals,
+  INITIAL_CLIP_SECONDS,
+  priceVideo,
+  withUsageTracking,
+} from './usageService';
+
+vi.mock('./dbService', () => ({
+  dbGetAll: vi.fn(),
+  dbPut: vi.fn(),
+  dbClear: vi.fn(),
+}));
+
+vi.mock('./operationService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./operationService')>()),
+  getPendingOperations: vi.fn(),
+}));
+
+const NOW = new Date(2026, 9, 19, 12);
+const CLIP_COST = priceVideo(
+  VideoModel.VEO_FAST,
+  Resolution.P720,
+  INITIAL_CLIP_SECONDS,
+  DEFAULT_PRICE_TABLE,
+);
+
+const createRecord = (changes: Partial<UsageRecord>): UsageRecord => ({
+  id: crypto.randomUUID(),
+  timestamp: NOW.getTime(),
+  providerId: 'gemini',
+  kind: 'video',
+  model: VideoModel.VEO_FAST,
+  outcome: 'success',
+  cost: 1,
+  ...changes,
+});
+
+const params = {
+  prompt: 'A serum bottle',
+  model: VideoModel.VEO_FAST,
+  resolution: Resolution.P720,
+} as GenerateVideoParams;
+
+const recordedCosts = () =>
+  vi.mocked(dbPut).mock.calls.map(([, record]) => (record as UsageRecord).cost);
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', {getItem: () => null, setItem: () => {}});
+  vi.mocked(dbGetAll).mockReset().mockResolvedValue([]);
+  vi.mocked(dbPut).mockReset().mockResolvedValue(undefined as never);
+  vi.mocked(getPendingOperations).mockReset().mockResolvedValue([]);
+});
+
+describe('getSpendTotals', () => {
+  it('totals today and this month', () => {
+    const records = [
+      createRecord({cost: 2}),
+      createRecord({cost: 3, timestamp: new Date(2026, 9, 1).getTime()}),
+      createRecord({cost: 5, timestamp: new Date(2026, 8, 30).getTime()}),
+    ];
+    expect(getSpendTotals(records, NOW)).toEqual({today: 2, month: 5});
+  });
+
+  it('leaves out calls to the mock provider', () => {
+    const records = [createRecord({cost: 2}), createRecord({cost: 3.2, providerId: 'mock'})];
+    expect(getSpendTotals(records, NOW)).toEqual({today: 2, month: 2});
+  });
+});
+
+describe('checkBudget', () => {
+  it('passes spend inside the limits', () => {
+    expect(checkBudget(1, {today: 1, month: 1}, {dailyLimit: 5, mode: 'block'})).toEqual({
+      level: 'ok',
+    });
+  });
+
+  it('warns or blocks on the first limit that would be crossed', () => {
+    const totals = {today: 4, month: 19};
+    const warn = checkBudget(2, totals, {dailyLimit: 5, monthlyLimit: 20, mode: 'warn'});
+    expect(warn.level).toBe('warn');
+    expect(warn.message).toContain('daily budget of $5.00');
+    expect(checkBudget(2, totals, {monthlyLimit: 20, mode: 'block'}).message).toContain(
+      'monthly budget of $20.00',
+    );
+  });
+
+  it('never blocks free work', () => {
+    expect(checkBudget(0, {today: 9, month: 9}, {dailyLimit: 5, mode: 'block'}).level).toBe('ok');
+  });
+});
+
+describe('withUsageTracking', () => {
+  it('records mock calls at no cost', async () => {
+    const provider = withUsageTracking(createProvider(async () => ({}), {id: 'mock'}));
+    await provider.generateVideo(params, {});
+    expect(recordedCosts()).toEqual([0]);
+  });
+
+  it('bills a job that was cancelled or timed out after it started', async () => {
+    const cancelled = withUsageTracking(
+      createProvider(() => Promise.reject(new DOMException('Cancelled', 'AbortError')), {
+        id: 'gemini',
+      }),
+    );
+    await expect(cancelled.generateVideo(params, {})).rejects.toThrow();
+    const timedOut = withUsageTracking(
+      createProvider(() => Promise.reject(new Error('Video generation timed out.')), {
+        id: 'gemini',
+      }),
+    );
+    await expect(timedOut.generateVideo(params, {})).rejects.toThrow();
+    expect(recordedCosts()).toEqual([CLIP_COST, CLIP_COST]);
+    expect(vi.mocked(dbPut).mock.calls[0][1]).toMatchObject({
+      outcome: 'cancelled',
+      operationName: 'operations/1',
+    });
+  });
+
+  it('does not bill a job that never started or failed for good', async () => {
+    const notStarted = withUsageTracking(
+      createProvider(() => Promise.reject(new Error('Failed to fetch')), {
+        id: 'gemini',
+        hasStarted: false,
+      }),
+    );
+    await expect(notStarted.generateVideo(params, {})).rejects.toThrow();
+    const blocked = withUsageTracking(
+      createProvider(() => Promise.reject(new Error('No videos were generated.')), {
+        id: 'gemini',
+      }),
+    );
+    await expect(blocked.generateVideo(params, {})).rejects.toThrow();
+    expect(recordedCosts()).toEqual([0, 0]);
+  });
+
+  it('bills a resumed job once', async () => {
+    vi.mocked(dbGetAll).mockResolvedValue([
+      createRecord({outcome: 'error', cost: CLIP_COST, operationName: 'operations/1'}),
+    ]);
+    vi.mocked(getPendingOperations).mockResolvedValue(
+      ['operations/1', 'operations/2'].map((name) => ({name, params, stage: 'initial'})) as never,
+    );
+    const provider = withUsageTracking(createProvider(async () => ({}), {id: 'gemini'}));
+    await provider.resumeVideo('operations/1', {});
+    await provider.resumeVideo('operations/2', {});
+    expect(recordedCosts()).toEqual([0, CLIP_COST]);
+  });
+});
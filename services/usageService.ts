@@ -0,0 +1,461 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GenerateVideoParams,
+  GenerationOptions,
+  GenerationProvider,
+  PriceTable,
+  Resolution,
+  UsageBudget,
+  UsageRecord,
+  VideoModel,
+} from '../types';
+import {dbClear, dbGetAll, dbPut} from './dbService';
+import {GenerationError, isResumableError} from './errorService';
+import {getPendingOperations, isAbortError} from './operationService';
+
+const USAGE_STORE = 'usage';
+const PRICE_TABLE_KEY = 'adspark_studio_price_table';
+const BUDGET_KEY = 'adspark_studio_budget';
+
+// Clip lengths the video model produces.
+export const INITIAL_CLIP_SECONDS = 8;
+export const EXTENSION_SECONDS = 7;
+// Used to guess voiceover length from a script before it is spoken.
+const SPEECH_CHARACTERS_PER_SECOND = 15;
+
+// List prices at the time of writing. Users can edit them in the dashboard.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  videoPerSecond: {
+    [VideoModel.VEO_HIGH]: 0.4,
+    [VideoModel.VEO_FAST]: 0.15,
+  },
+  video1080pMultiplier: 1,
+  speechPerSecond: 0.0005,
+  scriptPerCall: 0.001,
+  imagePerCall: 0.04,
+  transcriptionPerCall: 0.001,
+};
+
+const DEFAULT_BUDGET: UsageBudget = {mode: 'warn'};
+
+// Providers that call no paid API. Their calls cost nothing and never count
+// toward a budget.
+const UNBILLED_PROVIDER_IDS = ['mock'];
+
+/**
+ * Checks whether a provider's calls are charged for.
+ * @param providerId The provider's id.
+ * @returns False for offline providers such as the mock.
+ */
+export const isBilledProvider = (providerId: string): boolean =>
+  !UNBILLED_PROVIDER_IDS.includes(providerId);
+
+// An estimated cost, broken down so the user can see where it comes from.
+export interface CostEstimate {
+  total: number;
+  lines: {label: string; cost: number}[];
+}
+
+// Whether a planned spend fits inside the budget.
+export interface BudgetCheck {
+  level: 'ok' | 'warn' | 'block';
+  message?: string;
+}
+
+/**
+ * Formats an amount in USD for display.
+ * @param amount The amount.
+ * @returns e.g. `$3.20`, or `$0.0005` for amounts under a cent.
+ */
+export const formatCost = (amount: number): string =>
+  amount > 0 && amount < 0.01 ? `$${amount.toPrecision(1)}` : `$${amount.toFixed(2)}`;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const json = localStorage.getItem(key);
+    return json ? {...fallback, ...JSON.parse(json)} : fallback;
+  } catch (error) {
+    console.error(`Error reading ${key} from localStorage`, error);
+    return fallback;
+  }
+};
+
+export const getPriceTable = (): PriceTable =>
+  readJson(PRICE_TABLE_KEY, DEFAULT_PRICE_TABLE);
+
+export const savePriceTable = (prices: PriceTable) =>
+  localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(prices));
+
+export const getBudget = (): UsageBudget => readJson(BUDGET_KEY, DEFAULT_BUDGET);
+
+export const saveBudget = (budget: UsageBudget) =>
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+
+/**
+ * Prices one generated clip.
+ * @param model The video model.
+ * @param resolution The output resolution.
+ * @param seconds The clip length.
+ * @param prices The price table to use.
+ * @returns The estimated cost.
+ */
+export const priceVideo = (
+  model: string,
+  resolution: Resolution | undefined,
+  seconds: number,
+  prices: PriceTable,
+): number => {
+  const perSecond = prices.videoPerSecond[model as VideoModel] ?? 0;
+  const multiplier = resolution === Resolution.P1080 ? prices.video1080pMultiplier : 1;
+  return perSecond * multiplier * seconds;
+};
+
+/**
+ * Estimates what submitting the form will cost.
+ * @param params The form's params.
+ * @param prices The price table to use.
+ * @param runs How many ads are produced: batch variants, or storyboard scenes.
+ * @param isStoryboard Whether the runs are chained storyboard scenes.
+ * @returns The estimate.
+ */
+export const estimateAdCost = (
+  params: GenerateVideoParams,
+  prices: PriceTable,
+  runs = 1,
+  isStoryboard = false,
+): CostEstimate => {
+  const lines: CostEstimate['lines'] = [];
+  const isExtension = !!params.inputVideoObject;
+
+  if (isStoryboard) {
+    lines.push({
+      label: 'Scene 1',
+      cost: priceVideo(params.model, params.resolution, INITIAL_CLIP_SECONDS, prices),
+    });
+    if (runs > 1) {
+      lines.push({
+        label: `${runs - 1} more scene${runs > 2 ? 's' : ''}`,
+        cost: (runs - 1) * priceVideo(params.model, Resolution.P720, EXTENSION_SECONDS, prices),
+      });
+    }
+  } else {
+    const clip = isExtension
+      ? priceVideo(params.model, Resolution.P720, EXTENSION_SECONDS, prices)
+      : priceVideo(params.model, params.resolution, INITIAL_CLIP_SECONDS, prices);
+    lines.push({label: runs > 1 ? `${runs} clips` : 'Video clip', cost: clip * runs});
+    if (params.autoExtend && !isExtension) {
+      lines.push({
+        label: 'Auto-extend',
+        cost: runs * priceVideo(params.model, Resolution.P720, EXTENSION_SECONDS, prices),
+      });
+    }
+  }
+
+  if (params.voiceoverMode === 'tts' && params.voiceoverScript?.trim()) {
+    const seconds = params.voiceoverScript.length / SPEECH_CHARACTERS_PER_SECOND;
+    // A storyboard shares one voiceover; each batch variant gets its own.
+    const voiceovers = isStoryboard ? 1 : runs;
+    lines.push({label: 'Voiceover', cost: voiceovers * seconds * prices.speechPerSecond});
+  }
+
+  return {total: lines.reduce((sum, line) => sum + line.cost, 0), lines};
+};
+
+/**
+ * Retrieves the usage ledger.
+ * @returns A promise that resolves with all records, newest first.
+ */
+export const getUsageRecords = async (): Promise<UsageRecord[]> => {
+  try {
+    const records = await dbGetAll<UsageRecord>(USAGE_STORE);
+    return records.sort((a, b) => b.timestamp - a.timestamp);
+  } catch (error) {
+    console.error('Error reading usage from IndexedDB', error);
+    return [];
+  }
+};
+
+/**
+ * Adds a call to the usage ledger. Failures are logged, never thrown, so
+ * bookkeeping cannot break a generation.
+ * @param record The call to record.
+ */
+const recordUsage = async (record: Omit<UsageRecord, 'id' | 'timestamp'>) => {
+  try {
+    await dbPut<UsageRecord>(USAGE_STORE, {
+      ...record,
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Error saving usage to IndexedDB', error);
+  }
+};
+
+export const clearUsageRecords = () => dbClear(USAGE_STORE);
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+const startOfMonth = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+
+/**
+ * Totals spend for the current day and month. Calls to unbilled providers
+ * are left out.
+ * @param records The ledger.
+ * @param now The current time.
+ * @returns The totals, in USD.
+ */
+export const getSpendTotals = (
+  records: UsageRecord[],
+  now = new Date(),
+): {today: number; month: number} => {
+  const dayStart = startOfDay(now);
+  const monthStart = startOfMonth(now);
+  // Older ledgers priced mock calls like real ones.
+  return records.filter((record) => isBilledProvider(record.providerId)).reduce(
+    (totals, record) => ({
+      today: totals.today + (record.timestamp >= dayStart ? record.cost : 0),
+      month: totals.month + (record.timestamp >= monthStart ? record.cost : 0),
+    }),
+    {today: 0, month: 0},
+  );
+};
+
+/**
+ * Totals spend per day for a recent period, leaving out unbilled providers.
+ * @param records The ledger.
+ * @param days How many days to include, ending today.
+ * @param now The current time.
+ * @returns One entry per day, oldest first.
+ */
+export const getDailyTotals = (
+  records: UsageRecord[],
+  days: number,
+  now = new Date(),
+): {date: Date; cost: number}[] => {
+  const totals = Array.from({length: days}, (_, index) => ({
+    date: new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1 - index)),
+    cost: 0,
+  }));
+  for (const record of records) {
+    if (!isBilledProvider(record.providerId)) continue;
+    const day = startOfDay(new Date(record.timestamp));
+    const entry = totals.find((total) => total.date.getTime() === day);
+    if (entry) entry.cost += record.cost;
+  }
+  return totals;
+};
+
+/**
+ * Checks a planned spend against the budget.
+ * @param planned The estimated cost of what is about to run.
+ * @param totals Spend so far today and this month.
+ * @param budget The budget.
+ * @returns Whether to go ahead, warn or block, with a message for the user.
+ */
+export const checkBudget = (
+  planned: number,
+  totals: {today: number; month: number},
+  budget: UsageBudget,
+): BudgetCheck => {
+  // Free work, e.g. on the mock provider, fits any budget.
+  if (planned <= 0) return {level: 'ok'};
+  const limits = [
+    {name: 'daily', limit: budget.dailyLimit, spent: totals.today},
+    {name: 'monthly', limit: budget.monthlyLimit, spent: totals.month},
+  ];
+  for (const {name, limit, spent} of limits) {
+    if (limit !== undefined && spent + planned > limit) {
+      return {
+        level: budget.mode,
+        message: `This would take you to ${formatCost(spent + planned)}, over your ${name} budget of ${formatCost(limit)}.`,
+      };
+    }
+  }
+  return {level: 'ok'};
+};
+
+/**
+ * Wraps a provider so that every call is recorded in the usage ledger, and
+ * video generation is refused once a blocking budget is used up.
+ * @param provider The provider to wrap.
+ * @returns A provider with the same behaviour plus usage tracking.
+ */
+export const withUsageTracking = (
+  provider: GenerationProvider,
+): GenerationProvider => {
+  const isBilled = isBilledProvider(provider.id);
+
+  type TrackedFields = Pick<
+    UsageRecord,
+    'kind' | 'model' | 'resolution' | 'seconds' | 'characters' | 'operationName'
+  >;
+
+  // Runs a call and records its outcome. `price` is applied on success;
+  // failures cost whatever `failedCost` says, nothing by default.
+  const track = async <T>(
+    record: TrackedFields,
+    price: (result: T) => Partial<UsageRecord> & {cost: number},
+    run: () => Promise<T>,
+    failedCost: (error: unknown) => number = () => 0,
+  ): Promise<T> => {
+    try {
+      const result = await run();
+      const priced = price(result);
+      await recordUsage({
+        ...record,
+        providerId: provider.id,
+        outcome: 'success',
+        ...priced,
+        cost: isBilled ? priced.cost : 0,
+      });
+      return result;
+    } catch (error) {
+      await recordUsage({
+        ...record,
+        providerId: provider.id,
+        outcome: isAbortError(error) ? 'cancelled' : 'error',
+        cost: isBilled ? failedCost(error) : 0,
+      });
+      throw error;
+    }
+  };
+
+  const enforceBudget = async (planned: number) => {
+    const budget = getBudget();
+    if (!isBilled || budget.mode !== 'block') return;
+    const check = checkBudget(planned, getSpendTotals(await getUsageRecords()), budget);
+    if (check.level === 'block') {
+      throw new GenerationError('budget', check.message ?? 'Budget limit reached.');
+    }
+  };
+
+  // A video job is billed once the backend accepts it, even if the user
+  // cancels or stops waiting, since it keeps running. A job that fails for
+  // good (e.g. a safety block) is not.
+  const trackVideo = async <T>(
+    model: string,
+    resolution: Resolution,
+    seconds: number,
+    options: GenerationOptions,
+    run: (options: GenerationOptions) => Promise<T>,
+    resumed?: {operationName: string; isAlreadyBilled: boolean},
+  ) => {
+    const cost = resumed?.isAlreadyBilled
+      ? 0
+      : priceVideo(model, resolution, seconds, getPriceTable());
+    const record: TrackedFields = {
+      kind: 'video',
+      model,
+      resolution,
+      seconds,
+      operationName: resumed?.operationName,
+    };
+    return track(
+      record,
+      () => ({cost}),
+      () =>
+        run({
+          ...options,
+          onOperationStarted: (operationName) => {
+            record.operationName = operationName;
+            options.onOperationStarted?.(operationName);
+          },
+        }),
+      (error) =>
+        record.operationName && (isAbortError(error) || isResumableError(error)) ? cost : 0,
+    );
+  };
+
+  return {
+    ...provider,
+    generateVideo: async (params, options) => {
+      const isExtension = !!params.inputVideoObject;
+      const resolution = isExtension ? Resolution.P720 : params.resolution;
+      const seconds = isExtension ? EXTENSION_SECONDS : INITIAL_CLIP_SECONDS;
+      await enforceBudget(priceVideo(params.model, resolution, seconds, getPriceTable()));
+      return trackVideo(params.model, resolution, seconds, options, (trackedOptions) =>
+        provider.generateVideo(params, trackedOptions),
+      );
+    },
+    resumeVideo: async (operationName, options) => {
+      // Look up what the job was to price it, unless the ledger already has
+      // its cost from a run that was cancelled or timed out.
+      const pending = (await getPendingOperations(provider.id)).find(
+        (op) => op.name === operationName,
+      );
+      const isAlreadyBilled = (await getUsageRecords()).some(
+        (record) => record.operationName === operationName && record.cost > 0,
+      );
+      const isExtension = pending?.stage === 'extend';
+      return trackVideo(
+        pending?.params.model ?? 'unknown',
+        isExtension ? Resolution.P720 : pending?.params.resolution ?? Resolution.P720,
+        isExtension ? EXTENSION_SECONDS : INITIAL_CLIP_SECONDS,
+        options,
+        (trackedOptions) => provider.resumeVideo(operationName, trackedOptions),
+        {operationName, isAlreadyBilled},
+      );
+    },
+    generateSpeech: (script, voiceName) =>
+      track(
+        {kind: 'speech', model: 'tts', characters: script.length},
+        (buffer: AudioBuffer) => ({
+          seconds: buffer.duration,
+          cost: buffer.duration * getPriceTable().speechPerSecond,
+        }),
+        () => provider.generateSpeech(script, voiceName),
+      ),
+    generateDialogue: (script, speakers) =>
+      track(
+        {kind: 'speech', model: 'tts', characters: script.length},
+        (buffer: AudioBuffer) => ({
+          seconds: buffer.duration,
+          cost: buffer.duration * getPriceTable().speechPerSecond,
+        }),
+        () => provider.generateDialogue(script, speakers),
+      ),
+    generateScript: (productName, productDescription, options, brand) =>
+      track(
+        {
+          kind: 'script',
+          model: 'text',
+          characters: productName.length + productDescription.length,
+        },
+        () => ({cost: getPriceTable().scriptPerCall}),
+        () => provider.generateScript(productName, productDescription, options, brand),
+      ),
+    translateScript: (script, language, targetSeconds) =>
+      track(
+        {kind: 'translation', model: 'text', characters: script.length},
+        () => ({cost: getPriceTable().scriptPerCall}),
+        () => provider.translateScript(script, language, targetSeconds),
+      ),
+    generateProductImage: (productName, productDescription, options, brand) =>
+      track(
+        {
+          kind: 'image',
+          model: 'image',
+          characters: productName.length + productDescription.length + options.notes.length,
+        },
+        () => ({cost: getPriceTable().imagePerCall}),
+        () => provider.generateProductImage(productName, productDescription, options, brand),
+      ),
+    transcribeAudio: (audio) =>
+      track(
+        {kind: 'transcription', model: 'text'},
+        () => ({cost: getPriceTable().transcriptionPerCall}),
+        () => provider.transcribeAudio(audio),
+      ),
+    assistPrompt: (prompt, context) =>
+      track(
+        {kind: 'prompt', model: 'text', characters: prompt.length},
+        () => ({cost: getPriceTable().scriptPerCall}),
+        () => provider.assistPrompt(prompt, context),
+      ),
+  };
+};
@@ -4,12 +4,25 @@
 */
 import { Video } from '@google/genai';
 
+// Injected by AI Studio when the app runs there, to pick the API key.
+declare global {
+  interface Window {
+    aistudio?: {
+      hasSelectedApiKey: () => Promise<boolean>;
+      openSelectKey: () => Promise<void>;
+    };
+    webkitAudioContext?: typeof AudioContext; // Older Safari
+  }
+}
+
 // Defines the overall state of the application.
 export enum AppState {
   IDLE,     // Waiting for user input
   LOADING,  // Processing a request
   SUCCESS,  // Request succeeded, showing result
   ERROR,    // An error occurred
+  BATCH,    // Running or reviewing a batch of ad variants
+  STORYBOARD, // Building a multi-scene ad segment by segment
 }
 
 // Supported video resolutions for generation.
@@ -33,12 +46,36 @@ export enum VoiceName {
   ZEPHYR = 'Zephyr',
 }
 
+// A voice in a dialogue script. Lines are attributed by label, e.g. "Mia: Hi!".
+export interface DialogueSpeaker {
+  label: string;
+  voiceName: VoiceName;
+}
+
+// One spoken line of a dialogue script.
+export interface DialogueLine {
+  speaker: string; // The speaker's label
+  text: string;
+}
+
 // Supported video generation models.
 export enum VideoModel {
   VEO_FAST = 'veo-3.1-fast-generate-preview',
   VEO_HIGH = 'veo-3.1-generate-preview',
 }
 
+// A saved brand identity that is applied to every generation while selected.
+export interface BrandProfile {
+  id: string;
+  name: string;
+  logo?: string; // Data URL
+  palette: string[]; // Hex colors, most prominent first
+  toneOfVoice: string;
+  bannedWords: string[];
+  defaultVoiceName: VoiceName;
+  defaultAspectRatio: AspectRatio;
+}
+
 // Represents a file (image or video) with its metadata.
 export interface FileWithBase64 {
   file: File;
@@ -46,7 +83,14 @@ export interface FileWithBase64 {
 }
 
 export type VideoFile = FileWithBase64;
-export type ImageFile = FileWithBase64;
+
+// How the model should use a reference image: as an object to show (asset)
+// or as a look to imitate (style).
+export type ReferenceImageType = 'asset' | 'style';
+
+export interface ImageFile extends FileWithBase64 {
+  referenceType?: ReferenceImageType; // Treated as 'asset' when missing
+}
 
 // All parameters required to generate a video.
 export interface GenerateVideoParams {
@@ -57,21 +101,419 @@ export interface GenerateVideoParams {
   resolution: Resolution;
   aspectRatio: AspectRatio;
   referenceImages?: ImageFile[];
+  // Frame conditioning: the clip opens on the start frame and, if given,
+  // lands on the end frame. Cannot be combined with reference images.
+  startFrame?: ImageFile;
+  endFrame?: ImageFile;
   inputVideo?: VideoFile;
   inputVideoObject?: Video; // The object from a previous API response
   autoExtend: boolean;
   voiceoverMode: 'none' | 'tts' | 'record';
   voiceoverScript?: string;
+  voiceoverLanguage?: string; // Set when the script writer wrote the script, e.g. "Spanish"
   recordedAudioBlob?: Blob;
   voiceName?: VoiceName;
+  speakers?: DialogueSpeaker[]; // Set when the TTS script is a labeled dialogue
+  brand?: BrandProfile; // Style constraints added to the prompt and script
 }
 
-// Defines the structure for a preset ad configuration.
+// Defines the structure for a preset ad configuration. The prompt and script
+// template may contain variables such as {{productName}}, filled in from the
+// form. Settings left undefined keep whatever the form already has.
 export interface Preset {
+  id: string;
   title: string;
   description: string;
   prompt: string;
+  tags: string[];
+  builtIn?: boolean; // Shipped with the app; cannot be edited or deleted
+  model?: VideoModel;
+  resolution?: Resolution;
+  aspectRatio?: AspectRatio;
+  voiceName?: VoiceName;
+  scriptTemplate?: string;
+}
+
+// The result of a successful video generation.
+export interface GeneratedVideo {
+  objectUrl: string;
+  blob: Blob;
+  uri: string;
+  video: Video; // Needed to extend the clip later on
+}
+
+// Controls how a long-running operation is polled until it finishes.
+export interface PollOptions {
+  initialDelayMs: number; // Wait before the first status check
+  maxDelayMs: number; // Upper bound for the backoff delay
+  backoffFactor: number; // Multiplier applied to the delay after each check
+  timeoutMs: number; // Give up after this long overall
+}
+
+// Per-call options for long-running video generation.
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  poll?: Partial<PollOptions>;
+  // Called once the backend has accepted the job, with a name that can be
+  // passed to `resumeVideo` to pick the job up again later.
+  onOperationStarted?: (operationName: string) => void;
+  // Called before a failed call is retried, e.g. to show a countdown.
+  onRetry?: (notice: RetryNotice) => void;
+}
+
+// An in-flight video job saved to IndexedDB so it survives a page reload.
+export interface PendingOperation {
+  name: string;
+  providerId: string;
+  stage: 'initial' | 'extend';
+  params: GenerateVideoParams; // The original params for the whole run
+  startedAt: number;
+}
+
+// A backend that can produce every asset an ad needs: the video, the spoken
+// voiceover and the script for it. Implemented by the Gemini API service and
+// by an offline mock used for development and end-to-end tests.
+export interface GenerationProvider {
+  id: string;
+  // Whether the user must select a paid API key before generating.
+  requiresApiKey: boolean;
+  generateVideo: (
+    params: GenerateVideoParams,
+    options?: GenerationOptions,
+  ) => Promise<GeneratedVideo>;
+  // Re-attaches to a job started earlier, e.g. before a page reload.
+  resumeVideo: (
+    operationName: string,
+    options?: GenerationOptions,
+  ) => Promise<GeneratedVideo>;
+  generateSpeech: (script: string, voiceName: VoiceName) => Promise<AudioBuffer>;
+  // Speaks a labeled dialogue script with a different voice per speaker.
+  generateDialogue: (script: string, speakers: DialogueSpeaker[]) => Promise<AudioBuffer>;
+  // Writes several alternative voiceover scripts to choose from.
+  generateScript: (
+    productName: string,
+    productDescription: string,
+    options: ScriptOptions,
+    brand?: BrandProfile,
+  ) => Promise<ScriptAlternative[]>;
+  // Creates or restyles one product shot, e.g. to use as a reference image.
+  generateProductImage: (
+    productName: string,
+    productDescription: string,
+    options: ProductImageOptions,
+    brand?: BrandProfile,
+  ) => Promise<ImageFile>;
+  // Translates a voiceover script, keeping any dialogue speaker labels.
+  translateScript: (script: string, language: string, targetSeconds: number) => Promise<string>;
+  // Turns recorded speech into plain text, e.g. for captions.
+  transcribeAudio: (audio: Blob) => Promise<string>;
+  // Suggests a richer prompt and fixes for problems in the current one.
+  assistPrompt: (prompt: string, context: PromptContext) => Promise<PromptSuggestion[]>;
+}
+
+// The dimensions a batch can vary over. Each combination becomes one variant.
+export interface BatchOptions {
+  prompts: string[];
+  aspectRatios: AspectRatio[];
+  voiceNames: VoiceName[]; // Only used when the voiceover is TTS
+  concurrency: number; // How many variants generate at the same time
+}
+
+// One ad variant in a batch, with its own progress and outcome.
+export interface BatchVariant {
+  id: string;
+  label: string;
+  params: GenerateVideoParams;
+  status: 'queued' | 'running' | 'done' | 'error';
+  task?: string;
+  error?: string;
+  video?: GeneratedVideo;
+  voiceoverBuffer?: AudioBuffer | null;
+  isWinner: boolean;
+}
+
+// One language version of a finished ad, with its own progress and outcome.
+export interface LocalizedAd {
+  locale: string; // BCP 47 code, e.g. "es-MX"
+  language: string; // As given to the translator, e.g. "Spanish (Mexico)"
+  voiceName: VoiceName; // Ignored for dialogues, which keep their cast
+  status: 'queued' | 'running' | 'done' | 'error';
+  task?: string;
+  error?: string;
+  script?: string;
+  captionText?: string; // The script without dialogue speaker labels
+  voiceoverBuffer?: AudioBuffer;
+}
+
+// One scene of a storyboard. Every scene after the first extends the clip of
+// the scene before it, so its video contains all scenes up to and including it.
+export interface StoryboardSegment {
+  id: string;
+  prompt: string;
+  status: 'pending' | 'running' | 'done' | 'error';
+  error?: string;
+  video?: GeneratedVideo;
+}
+
+// Decoded audio in a form IndexedDB can store; AudioBuffer is not cloneable.
+export interface StoredAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+// A generated ad saved to the media library, with everything needed to replay
+// it or to generate it again.
+export interface LibraryEntry {
+  id: string;
+  createdAt: number;
+  params: GenerateVideoParams; // Includes reference images and recorded audio
+  videoBlob: Blob;
+  // The Veo object, needed to extend the clip later. Missing for edits
+  // rendered in the browser, which cannot be extended.
+  video?: Video;
+  voiceover?: StoredAudio;
+  poster?: Blob; // A JPEG cover frame; missing for entries saved before posters
+  campaignId?: string; // The campaign that was active when it was generated
+  sourceIds?: string[]; // For edits: the entries the clips were cut from, in order
+}
+
+// One clip on the editor timeline: a library video and the part of it to keep.
+export interface TimelineClip {
+  id: string;
+  entryId: string; // The library entry the clip comes from
+  label: string;
+  videoBlob: Blob;
+  duration: number; // Of the whole source video, in seconds
+  trimStart: number; // Seconds cut from the head
+  trimEnd: number; // Seconds cut from the tail
+  crossfade: number; // Seconds blended with the previous clip; ignored for the first
+  voiceover?: AudioBuffer; // The entry's separate voiceover, which starts with the video
+}
+
+// A workspace that groups the ads made for one campaign, with the brief,
+// brand and notes they share.
+export interface Campaign {
+  id: string;
+  name: string;
+  createdAt: number;
+  productName: string;
+  productDescription: string;
+  brief: string;
+  notes: string;
+  brandId?: string;
 }
 
 // A version of GenerateVideoParams that is safe to store in localStorage.
-export type StorableParams = Omit<GenerateVideoParams, 'referenceImages' | 'inputVideo' | 'inputVideoObject' | 'recordedAudioBlob'>;
+export type StorableParams = Omit<GenerateVideoParams, 'referenceImages' | 'startFrame' | 'endFrame' | 'inputVideo' | 'inputVideoObject' | 'recordedAudioBlob'>;
+
+// One caption on screen, timed in seconds from the start of the video.
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Whether captions show one word at a time or a short phrase at a time.
+export type CaptionGranularity = 'word' | 'phrase';
+
+// How burned-in captions are drawn.
+export interface CaptionStyle {
+  fontScale: number; // Font size as a fraction of the video height
+  color: string;
+  background: string; // Box behind the text; 'transparent' for none
+  position: 'top' | 'bottom';
+}
+
+// Typefaces offered for overlay text.
+export type OverlayFont = 'sans' | 'serif' | 'condensed' | 'mono';
+
+// How an overlay element appears when its time range starts.
+export type OverlayAnimation = 'none' | 'fade' | 'slide-up' | 'zoom';
+
+// A text or logo element drawn over the video, e.g. on the end card.
+export interface OverlayElement {
+  id: string;
+  kind: 'text' | 'logo';
+  label: string; // Shown in the editor, e.g. "Headline"
+  text: string; // Unused for logos
+  logo?: string; // Data URL, for logos
+  x: number; // Centre, as a fraction of the frame width
+  y: number; // Centre, as a fraction of the frame height
+  size: number; // Font size or logo height, as a fraction of the frame height
+  font: OverlayFont;
+  color: string;
+  background: string; // Box behind the text; 'transparent' for none
+  animation: OverlayAnimation;
+  start: number; // Seconds
+  end: number; // Seconds
+}
+
+// The kinds of billable calls the app makes.
+export type UsageKind =
+  | 'video'
+  | 'speech'
+  | 'script'
+  | 'translation'
+  | 'image'
+  | 'transcription'
+  | 'prompt';
+
+// One entry in the usage ledger.
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  providerId: string;
+  kind: UsageKind;
+  model: string;
+  resolution?: Resolution; // Video only
+  seconds?: number; // Video: clip length; speech: audio length
+  characters?: number; // Text sent to the model
+  outcome: 'success' | 'error' | 'cancelled';
+  cost: number; // Estimated, in USD; see withUsageTracking for what is billed
+  operationName?: string; // Video only: the backend job, so a resumed job is billed once
+}
+
+// Estimated prices in USD. Editable by the user to match their billing.
+export interface PriceTable {
+  videoPerSecond: Record<VideoModel, number>;
+  video1080pMultiplier: number; // Applied on top of the per-second price
+  speechPerSecond: number;
+  scriptPerCall: number;
+  imagePerCall: number;
+  transcriptionPerCall: number;
+}
+
+// Soft spending limits. Either limit can be left unset.
+export interface UsageBudget {
+  dailyLimit?: number;
+  monthlyLimit?: number;
+  mode: 'warn' | 'block';
+}
+
+// The categories of failure the app distinguishes. Each has its own retry
+// policy and guidance for the user.
+export type GenerationErrorKind =
+  | 'auth' // Missing, invalid or unauthorised API key
+  | 'quota' // Rate limited or out of API quota
+  | 'budget' // Over the user's own spending limit
+  | 'safety' // Blocked by the safety filter
+  | 'network' // Transient connection or server failure
+  | 'timeout' // The job took too long; it may still finish
+  | 'empty' // The call succeeded but returned nothing usable
+  | 'invalid' // The request was rejected as malformed
+  | 'unknown';
+
+// How often, and how patiently, to retry a kind of failure.
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first; 1 means never retry
+  initialDelayMs: number;
+  backoffFactor: number;
+  maxDelayMs: number;
+}
+
+// Describes an upcoming retry.
+export interface RetryNotice {
+  kind: GenerationErrorKind;
+  title: string;
+  attempt: number; // The attempt about to start, from 2
+  maxAttempts: number;
+  delayMs: number;
+}
+
+// What the prompt assistant knows about the ad besides the prompt itself.
+export interface PromptContext {
+  productName: string;
+  productDescription: string;
+  aspectRatio: AspectRatio;
+  brand?: BrandProfile;
+}
+
+export type PromptSuggestionKind = 'enhance' | 'conflict' | 'policy' | 'aspect';
+
+// One proposed edit to the prompt: replace `before` with `after`. An empty
+// `after` removes the text.
+export interface PromptSuggestion {
+  id: string;
+  kind: PromptSuggestionKind;
+  title: string;
+  explanation: string;
+  before: string;
+  after: string;
+}
+
+export type ScriptTone = 'neutral' | 'humorous' | 'premium' | 'urgent';
+
+// What a generated voiceover script should be like.
+export interface ScriptOptions {
+  targetSeconds: number; // How long the script should take to say
+  tone: ScriptTone;
+  callToAction: string; // Empty for none
+  language: string; // In English, e.g. "Spanish"
+  speakers?: string[]; // Speaker labels, when writing a dialogue
+}
+
+// One generated script, with how long it should take to say.
+export interface ScriptAlternative {
+  text: string;
+  estimatedSeconds: number;
+}
+
+// The kinds of product shot the image model can create.
+export type ProductImageStyle = 'studio' | 'cutout' | 'lifestyle' | 'flatlay';
+
+// What a generated product shot should look like.
+export interface ProductImageOptions {
+  style: ProductImageStyle;
+  aspectRatio: AspectRatio;
+  sourceImage?: ImageFile; // A photo to restyle; the product is invented without one
+  notes: string; // Extra direction, e.g. "on a marble countertop"; empty for none
+  variation: number; // Which of several shots this is, so they differ
+}
+
+// How a microphone recording is cleaned up before it is used.
+export interface RecordingCleanup {
+  trimSilence: boolean; // Cut silence before and after the speech
+  normalize: boolean;
+  targetLufs: number; // Integrated loudness to normalize to
+  noiseGate: boolean; // Silence background noise between phrases
+  highPass: boolean; // Remove rumble and handling noise
+}
+
+// How a clip is fitted into a frame of a different shape: cropped to fill
+// it, or scaled to fit with bars.
+export type FitMode = 'crop' | 'letterbox';
+
+// The part of the frame a platform's interface covers, as fractions of the
+// frame's height (top, bottom) or width (left, right).
+export interface SafeZone {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// A place an ad ships to, with the format it expects.
+export interface PlatformTarget {
+  id: string;
+  name: string;
+  aspect: '9:16' | '1:1' | '16:9';
+  width: number;
+  height: number;
+  maxDuration: number; // Seconds
+  safeZone: SafeZone;
+  fileNamePattern: string; // Tokens: {product}, {platform}, {aspect}, {date}
+}
+
+// How the voiceover and an optional music bed are mixed under the video.
+// Times are in seconds; trim points are positions within the voiceover.
+export interface AudioMixSettings {
+  offset: number; // Where the trimmed voiceover starts in the video; may be negative
+  trimStart: number;
+  trimEnd: number;
+  fadeIn: number;
+  fadeOut: number;
+  gain: number; // Linear gain, 1 is unchanged
+  musicGain: number;
+  ducking: boolean; // Lower the music while the voiceover speaks
+  duckLevel: number; // Fraction of the music gain kept under speech
+}
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it, vi} from 'vitest';
+import {createZip, resolveMediaDuration, slugify, writeWebmDuration} from './utils';
+
+// Builds an element: ID bytes, a one-byte size, then the data.
+const element = (id: number[], data: number[]) => [...id, 0x80 | data.length, ...data];
+
+// A recording laid out the way MediaRecorder writes it: no duration, and a
+// segment of unknown size.
+const recording = (segmentSize = [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]) => {
+  const info = element(
+    [0x15, 0x49, 0xa9, 0x66],
+    [...element([0x2a, 0xd7, 0xb1], [0x0f, 0x42, 0x40]), ...element([0x4d, 0x80], [0x78])],
+  );
+  const cluster = element([0x1f, 0x43, 0xb6, 0x75], [0xe7, 0x81, 0x00]);
+  return new Uint8Array([
+    ...element([0x1a, 0x45, 0xdf, 0xa3], [0x42, 0x86, 0x81, 0x01]),
+    0x18, 0x53, 0x80, 0x67,
+    ...segmentSize,
+    ...info,
+    ...cluster,
+  ]);
+};
+
+// Reads the Duration element back, in seconds at the default timecode scale.
+const readDuration = (bytes: Uint8Array): number | null => {
+  for (let i = 0; i < bytes.length - 3; i++) {
+    if (bytes[i] === 0x44 && bytes[i + 1] === 0x89 && bytes[i + 2] === 0x88) {
+      return new DataView(bytes.buffer, bytes.byteOffset + i + 3, 8).getFloat64(0) / 1000;
+    }
+  }
+  return null;
+};
+
+describe('writeWebmDuration', () => {
+  it('adds a duration to a recording that has none', () => {
+    const input = recording();
+    const output = writeWebmDuration(input, 4);
+    expect(readDuration(input)).toBeNull();
+    expect(readDuration(output)).toBe(4);
+    expect(output.length).toBe(input.length + 11);
+    // The info grew by the new element, and the cluster is untouched.
+    const infoPos = output.indexOf(0x15);
+    expect(output[infoPos + 4]).toBe(0x80 | (11 + 11));
+    expect([...output.slice(-7)]).toEqual([...input.slice(-7)]);
+  });
+
+  it('grows a segment of known size', () => {
+    const input = recording([0x01, 0, 0, 0, 0, 0, 0, 28]);
+    const output = writeWebmDuration(input, 2.5);
+    expect(readDuration(output)).toBe(2.5);
+    expect(output[output.indexOf(0x18) + 11]).toBe(28 + 11);
+  });
+
+  it('overwrites a duration that is already there', () => {
+    const once = writeWebmDuration(recording(), 4);
+    const twice = writeWebmDuration(once, 6);
+    expect(twice.length).toBe(once.length);
+    expect(readDuration(twice)).toBe(6);
+  });
+
+  it('leaves files it does not understand alone', () => {
+    const mp4 = new Uint8Array([0, 0, 0, 0x18, 0x66, 0x74, 0x79, 0x70]);
+    expect(writeWebmDuration(mp4, 4)).toBe(mp4);
+  });
+});
+
+// A media element whose length is only found by seeking past the end, like a
+// MediaRecorder file, unless it has none at all.
+class FakeMedia extends EventTarget {
+  duration = Infinity;
+  private time = 0;
+  constructor(private readonly realDuration?: number) {
+    super();
+  }
+  get currentTime() {
+    return this.time;
+  }
+  set currentTime(time: number) {
+    this.time = Math.min(time, this.realDuration ?? time);
+    if (this.realDuration !== undefined && time > this.realDuration) {
+      queueMicrotask(() => {
+        this.duration = this.realDuration!;
+        this.dispatchEvent(new Event('durationchange'));
+      });
+    }
+  }
+}
+
+describe('resolveMediaDuration', () => {
+  it('returns a known duration straight away', async () => {
+    const media = new FakeMedia();
+    media.duration = 8;
+    await expect(resolveMediaDuration(media as unknown as HTMLMediaElement)).resolves.toBe(8);
+  });
+
+  it('finds the length of a recording and seeks back', async () => {
+    const media = new FakeMedia(4.2);
+    await expect(resolveMediaDuration(media as unknown as HTMLMediaElement)).resolves.toBe(4.2);
+    expect(media.currentTime).toBe(0);
+  });
+
+  it('gives up with 0 when the length never turns up', async () => {
+    vi.useFakeTimers();
+    const result = resolveMediaDuration(new FakeMedia() as unknown as HTMLMediaElement);
+    vi.runAllTimers();
+    await expect(result).resolves.toBe(0);
+    vi.useRealTimers();
+  });
+});
+
+describe('createZip', () => {
+  it('stores each file with its name, size and checksum', async () => {
+    const encoder = new TextEncoder();
+    const zip = createZip([
+      {path: 'es-MX/script.txt', data: encoder.encode('hello')},
+      {path: 'ünïcode.txt', data: new Uint8Array()},
+    ]);
+    expect(zip.type).toBe('application/zip');
+    const bytes = new Uint8Array(await zip.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    // The end record points at a central directory listing both files.
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const directory = view.getUint32(end + 16, true);
+    expect(view.getUint32(directory, true)).toBe(0x02014b50);
+    expect(view.getUint32(directory + 42, true)).toBe(0); // First file's offset
+
+    // The first file is stored as-is, with the CRC-32 of "hello".
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(0x3610a686);
+    expect(view.getUint32(18, true)).toBe(5);
+    const nameLength = view.getUint16(26, true);
+    const decoder = new TextDecoder();
+    expect(decoder.decode(bytes.subarray(30, 30 + nameLength))).toBe('es-MX/script.txt');
+    expect(decoder.decode(bytes.subarray(30 + nameLength, 35 + nameLength))).toBe('hello');
+
+    // File names are UTF-8.
+    const second = 35 + nameLength;
+    expect(view.getUint16(second + 6, true)).toBe(0x0800);
+    const secondNameLength = view.getUint16(second + 26, true);
+    expect(decoder.decode(bytes.subarray(second + 30, second + 30 + secondNameLength))).toBe(
+      'ünïcode.txt',
+    );
+  });
+});
+
+describe('slugify', () => {
+  it('keeps letters and digits, joined by single dashes', () => {
+    expect(slugify('  Glow Serum — 50ml! ')).toBe('glow-serum-50ml');
+    expect(slugify('¡¿?')).toBe('');
+  });
+
+  it('cuts long names without leaving a trailing dash', () => {
+    expect(slugify('a'.repeat(39) + ' tail')).toBe('a'.repeat(39));
+    expect(slugify('Instagram Reels', 100)).toBe('instagram-reels');
+  });
+});
@@ -2,6 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import {StoredAudio} from './types';
 
 /**
  * Decodes a base64 string into a Uint8Array.
@@ -59,3 +60,392 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+/**
+ * Copies an AudioBuffer into plain sample arrays that can be persisted.
+ * @param buffer The buffer to copy.
+ * @returns The sample rate and one Float32Array per channel.
+ */
+export function audioBufferToStored(buffer: AudioBuffer): StoredAudio {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    channels.push(new Float32Array(buffer.getChannelData(channel)));
+  }
+  return {sampleRate: buffer.sampleRate, channels};
+}
+
+/**
+ * Rebuilds an AudioBuffer from persisted samples.
+ * @param stored The samples produced by `audioBufferToStored`.
+ * @returns A new AudioBuffer with the same contents.
+ */
+export function storedToAudioBuffer(stored: StoredAudio): AudioBuffer {
+  const buffer = new AudioBuffer({
+    length: stored.channels[0]?.length || 1,
+    numberOfChannels: Math.max(1, stored.channels.length),
+    sampleRate: stored.sampleRate,
+  });
+  stored.channels.forEach((data, channel) => {
+    buffer.copyToChannel(data, channel);
+  });
+  return buffer;
+}
+
+/**
+ * Encodes persisted samples as a 16-bit PCM WAV file.
+ * @param stored The samples produced by `audioBufferToStored`.
+ * @returns The WAV file contents.
+ */
+export function storedAudioToWav(stored: StoredAudio): Uint8Array {
+  const numChannels = Math.max(1, stored.channels.length);
+  const frameCount = stored.channels[0]?.length ?? 0;
+  const dataSize = frameCount * numChannels * 2;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // Size of the fmt chunk
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, stored.sampleRate, true);
+  view.setUint32(28, stored.sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const sample = Math.max(-1, Math.min(1, stored.channels[channel]?.[i] ?? 0));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Creates an AudioContext, falling back to the prefixed constructor that
+ * older Safari versions have.
+ * @param options The context options, e.g. its sample rate.
+ * @returns The context.
+ */
+export function createAudioContext(options?: AudioContextOptions): AudioContext {
+  const AudioContextClass = window.AudioContext ?? window.webkitAudioContext;
+  return new AudioContextClass(options);
+}
+
+// How long to wait for the browser to find a recording's length.
+const DURATION_SCAN_TIMEOUT_MS = 5000;
+
+/**
+ * Reads the length of a media element whose metadata has loaded. Files made
+ * with MediaRecorder often report an infinite duration until the browser has
+ * scanned to the end, so for those this seeks past the end, waits for the
+ * real duration and seeks back.
+ * @param media The element.
+ * @returns A promise that resolves with the duration in seconds, or 0 if it
+ *     cannot be found.
+ */
+export function resolveMediaDuration(media: HTMLMediaElement): Promise<number> {
+  if (Number.isFinite(media.duration)) return Promise.resolve(media.duration);
+  return new Promise((resolve) => {
+    const restoreTime = media.currentTime;
+    const finish = () => {
+      clearTimeout(timer);
+      media.removeEventListener('durationchange', onChange);
+      media.removeEventListener('seeked', onChange);
+      const duration = Number.isFinite(media.duration) ? media.duration : 0;
+      media.currentTime = restoreTime;
+      resolve(duration);
+    };
+    const onChange = () => {
+      if (Number.isFinite(media.duration)) finish();
+    };
+    const timer = setTimeout(finish, DURATION_SCAN_TIMEOUT_MS);
+    media.addEventListener('durationchange', onChange);
+    media.addEventListener('seeked', onChange);
+    media.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+}
+
+/**
+ * Reads the duration of an audio or video file.
+ * @param file The file.
+ * @returns A promise that resolves with the duration in seconds, or 0 if it
+ *     cannot be found.
+ */
+export function getMediaDuration(file: Blob): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = async () => {
+      const duration = await resolveMediaDuration(video);
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the media file.'));
+    };
+    video.src = url;
+  });
+}
+
+/**
+ * Turns a name into a lowercase, dash-separated piece of a file name.
+ * @param value The name, e.g. a product or campaign name.
+ * @param maxLength The longest the result may be.
+ * @returns e.g. "glow-serum", or an empty string if nothing is left.
+ */
+export function slugify(value: string, maxLength = 40): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, maxLength)
+    .replace(/^-+|-+$/g, '');
+}
+
+// Lookup table for the CRC-32 checksum zip entries require.
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs files into an uncompressed zip archive. Video is already compressed,
+ * so storing the files as-is keeps this small and fast.
+ * @param files The files to add, with paths relative to the archive root.
+ * @returns The zip archive.
+ */
+export function createZip(files: {path: string; data: Uint8Array}[]): Blob {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate =
+    ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const {path, data} of files) {
+    const name = encoder.encode(path);
+    const crc = crc32(data);
+
+    const localHeader = new Uint8Array(30 + name.length);
+    const local = new DataView(localHeader.buffer);
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(6, 0x0800, true); // File names are UTF-8
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    localHeader.set(name, 30);
+
+    const centralHeader = new Uint8Array(46 + name.length);
+    const central = new DataView(centralHeader.buffer);
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(12, dosTime, true);
+    central.setUint16(14, dosDate, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralHeader.set(name, 46);
+
+    parts.push(localHeader, data);
+    centralDirectory.push(centralHeader);
+    offset += localHeader.length + data.length;
+  }
+
+  const directorySize = centralDirectory.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], {type: 'application/zip'});
+}
+
+// WebM (Matroska) element IDs needed to add a duration to a recording.
+const EBML_SEGMENT = 0x18538067;
+const EBML_SEEK_HEAD = 0x114d9b74;
+const EBML_INFO = 0x1549a966;
+const EBML_TIMECODE_SCALE = 0x2ad7b1;
+const EBML_DURATION = 0x4489;
+const EBML_CLUSTER = 0x1f43b675;
+
+// Reads an EBML variable-length integer. IDs keep their length marker bits;
+// sizes drop them, and a size with every bit set means "unknown".
+function readVint(bytes: Uint8Array, pos: number, isId: boolean) {
+  const first = bytes[pos];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || pos + length > bytes.length) return null;
+  let value = isId ? first : first & (0xff >> length);
+  let isUnknown = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+    if (bytes[pos + i] !== 0xff) isUnknown = false;
+  }
+  return {value, length, isUnknown: !isId && isUnknown};
+}
+
+// Encodes a size as an EBML variable-length integer of the given width.
+function writeVint(value: number, length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  let rest = value;
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = rest % 256;
+    rest = Math.floor(rest / 256);
+  }
+  out[0] |= 0x80 >> (length - 1);
+  return out;
+}
+
+/**
+ * Writes a duration into a WebM file. MediaRecorder leaves it out, so
+ * browsers report the length of recordings as Infinity and cannot seek them.
+ * @param bytes The WebM file.
+ * @param seconds The recording's length.
+ * @returns The file with its duration set, or the input unchanged if it
+ *     cannot be updated safely.
+ */
+export function writeWebmDuration(bytes: Uint8Array, seconds: number): Uint8Array {
+  // Skip the EBML header, then look inside the segment for its info.
+  const header = readVint(bytes, 0, true);
+  const headerSize = header && readVint(bytes, header.length, false);
+  if (!header || !headerSize) return bytes;
+  const segmentPos = header.length + headerSize.length + headerSize.value;
+  const segment = readVint(bytes, segmentPos, true);
+  if (segment?.value !== EBML_SEGMENT) return bytes;
+  const segmentSize = readVint(bytes, segmentPos + segment.length, false);
+  if (!segmentSize) return bytes;
+
+  let pos = segmentPos + segment.length + segmentSize.length;
+  while (pos < bytes.length) {
+    const id = readVint(bytes, pos, true);
+    const size = id && readVint(bytes, pos + id.length, false);
+    if (!id || !size || size.isUnknown || id.value === EBML_CLUSTER) return bytes;
+    // Growing the info would move what a seek head points at.
+    if (id.value === EBML_SEEK_HEAD) return bytes;
+    if (id.value !== EBML_INFO) {
+      pos += id.length + size.length + size.value;
+      continue;
+    }
+
+    const infoStart = pos + id.length + size.length;
+    const infoEnd = infoStart + size.value;
+    let timecodeScale = 1000000;
+    let durationPos = -1;
+    let durationSize = 0;
+    for (let child = infoStart; child < infoEnd; ) {
+      const childId = readVint(bytes, child, true);
+      const childSize = childId && readVint(bytes, child + childId.length, false);
+      if (!childId || !childSize) return bytes;
+      const dataPos = child + childId.length + childSize.length;
+      if (childId.value === EBML_TIMECODE_SCALE) {
+        timecodeScale = 0;
+        for (let i = 0; i < childSize.value; i++) {
+          timecodeScale = timecodeScale * 256 + bytes[dataPos + i];
+        }
+      } else if (childId.value === EBML_DURATION) {
+        durationPos = dataPos;
+        durationSize = childSize.value;
+      }
+      child = dataPos + childSize.value;
+    }
+    // Matroska durations count ticks of the timecode scale, in nanoseconds.
+    const duration = (seconds * 1e9) / timecodeScale;
+
+    if (durationPos >= 0) {
+      const out = bytes.slice();
+      const view = new DataView(out.buffer, durationPos, durationSize);
+      if (durationSize === 8) view.setFloat64(0, duration);
+      else if (durationSize === 4) view.setFloat32(0, duration);
+      else return bytes;
+      return out;
+    }
+
+    // Append a Duration to the info and grow the sizes that contain it.
+    const element = new Uint8Array(11);
+    element.set([0x44, 0x89, 0x88]);
+    new DataView(element.buffer).setFloat64(3, duration);
+    const newInfoSize = size.value + element.length;
+    // Widen the size field if the new size does not fit in the old one.
+    const sizeLength = newInfoSize < 2 ** (7 * size.length) - 1 ? size.length : 8;
+    const infoSize = writeVint(newInfoSize, sizeLength);
+    const added = element.length + sizeLength - size.length;
+    const parts = [
+      bytes.subarray(0, pos + id.length),
+      infoSize,
+      bytes.subarray(infoStart, infoEnd),
+      element,
+      bytes.subarray(infoEnd),
+    ];
+    if (!segmentSize.isUnknown) {
+      const sizePos = segmentPos + segment.length;
+      parts[0] = bytes.subarray(sizePos + segmentSize.length, pos + id.length);
+      parts.unshift(
+        bytes.subarray(0, sizePos),
+        writeVint(segmentSize.value + added, segmentSize.length),
+      );
+    }
+    const out = new Uint8Array(bytes.length + added);
+    let offset = 0;
+    for (const part of parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    return out;
+  }
+  return bytes;
+}
+
+/**
+ * Gives a recorded WebM blob a duration; other formats are returned as-is.
+ * @param blob The recording.
+ * @param seconds Its length.
+ * @returns A promise that resolves with the fixed recording.
+ */
+export async function withWebmDuration(blob: Blob, seconds: number): Promise<Blob> {
+  if (!blob.type.includes('webm')) return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const fixed = writeWebmDuration(bytes, seconds);
+  return fixed === bytes ? blob : new Blob([fixed], {type: blob.type});
+}